@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+interface ComparedBacktest {
+  id: number;
+  name: string;
+  strategyName: string | null;
+  symbol: string;
+  timeframe: string;
+  metrics: Record<string, any> | null;
+  equityCurve: Array<{ timestamp: string; equity: number; return: number }>;
+}
+
+interface BacktestComparisonData {
+  backtests: ComparedBacktest[];
+  parameters: Array<{ name: string; group: "setting" | "parameter"; values: Record<number, unknown>; differs: boolean }>;
+  tradeOverlap: {
+    pairs: Array<{ a: number; b: number; shared: number; onlyA: number; onlyB: number; similarity: number }>;
+    sharedByAll: number;
+  };
+}
+
+const COLORS = ["#3B82F6", "#10B981", "#F59E0B", "#EF4444", "#A855F7"];
+
+const formatPercent = (value: number | null | undefined) =>
+  value === null || value === undefined ? "—" : `${value >= 0 ? "+" : ""}${(value * 100).toFixed(2)}%`;
+
+const formatRatio = (value: number | null | undefined) =>
+  value === null || value === undefined ? "—" : value.toFixed(2);
+
+const formatRupees = (value: number | null | undefined) =>
+  value === null || value === undefined ? "—" : `₹${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+// Metric rows of the table; `better` says which direction wins, for highlighting
+const METRICS: Array<{ key: string; label: string; format: (value: any) => string; better?: "higher" | "lower" }> = [
+  { key: "totalReturn", label: "Total Return", format: formatPercent, better: "higher" },
+  { key: "cagr", label: "CAGR", format: formatPercent, better: "higher" },
+  { key: "sharpeRatio", label: "Sharpe", format: formatRatio, better: "higher" },
+  { key: "sortinoRatio", label: "Sortino", format: formatRatio, better: "higher" },
+  { key: "calmarRatio", label: "Calmar", format: formatRatio, better: "higher" },
+  { key: "maxDrawdown", label: "Max Drawdown", format: formatPercent, better: "lower" },
+  { key: "volatility", label: "Volatility", format: formatPercent, better: "lower" },
+  { key: "winRate", label: "Win Rate", format: formatPercent, better: "higher" },
+  { key: "profitFactor", label: "Profit Factor", format: formatRatio, better: "higher" },
+  { key: "expectancy", label: "Expectancy", format: formatRupees, better: "higher" },
+  { key: "totalTrades", label: "Trades", format: (value) => value ?? "—" },
+  { key: "exposureTime", label: "Time in Market", format: formatPercent },
+];
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? "—" : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+// One row per timestamp with each backtest's return under its own key
+function mergeCurves(backtests: ComparedBacktest[]) {
+  const rows = new Map<string, Record<string, number | string>>();
+  for (const backtest of backtests) {
+    for (const point of backtest.equityCurve) {
+      const row = rows.get(point.timestamp) || { timestamp: point.timestamp };
+      row[`bt${backtest.id}`] = point.return * 100;
+      rows.set(point.timestamp, row);
+    }
+  }
+  return Array.from(rows.values()).sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/**
+ * Compares two to five completed backtests: overlaid equity curves, a
+ * metrics table, the settings and parameters that differ, and how many
+ * trades each pair shares.
+ */
+export default function BacktestComparison({ ids }: { ids: number[] }) {
+  const [differencesOnly, setDifferencesOnly] = useState(true);
+
+  const { data, isLoading, error } = useQuery<BacktestComparisonData>({
+    queryKey: [`/api/backtests/compare?ids=${ids.join(",")}`],
+    enabled: ids.length >= 2,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-400">Loading comparison...</p>;
+  }
+  if (error || !data) {
+    return <p className="text-sm text-red-400">{(error as any)?.message || "Failed to load comparison"}</p>;
+  }
+
+  const names = new Map(data.backtests.map((backtest) => [backtest.id, backtest.name]));
+  const parameters = data.parameters.filter((parameter) => !differencesOnly || parameter.differs);
+
+  const best = (key: string, better?: "higher" | "lower") => {
+    const values = data.backtests
+      .map((backtest) => backtest.metrics?.[key])
+      .filter((value): value is number => typeof value === "number");
+    if (!better || values.length < 2) {
+      return null;
+    }
+    return better === "higher" ? Math.max(...values) : Math.min(...values);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="font-medium mb-2">Equity Curves</h4>
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={mergeCurves(data.backtests)}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis
+                dataKey="timestamp"
+                stroke="#9CA3AF"
+                fontSize={10}
+                tickFormatter={(value) => new Date(value).toLocaleDateString()}
+                minTickGap={40}
+              />
+              <YAxis stroke="#9CA3AF" fontSize={10} width={50} tickFormatter={(value) => `${value.toFixed(0)}%`} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: '#1F2937',
+                  border: '1px solid #374151',
+                  borderRadius: '8px'
+                }}
+                labelFormatter={(value) => new Date(value).toLocaleString()}
+                formatter={(value: any, name: any) => [`${Number(value).toFixed(2)}%`, names.get(Number(String(name).slice(2))) || name]}
+              />
+              <Legend formatter={(value) => names.get(Number(String(value).slice(2))) || value} />
+              {data.backtests.map((backtest, index) => (
+                <Line
+                  key={backtest.id}
+                  type="monotone"
+                  dataKey={`bt${backtest.id}`}
+                  stroke={COLORS[index % COLORS.length]}
+                  dot={false}
+                  strokeWidth={2}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="font-medium mb-2">Metrics</h4>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Metric</TableHead>
+                {data.backtests.map((backtest, index) => (
+                  <TableHead key={backtest.id} style={{ color: COLORS[index % COLORS.length] }}>
+                    {backtest.name}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {METRICS.map((metric) => {
+                const winner = best(metric.key, metric.better);
+                return (
+                  <TableRow key={metric.key}>
+                    <TableCell className="text-gray-400">{metric.label}</TableCell>
+                    {data.backtests.map((backtest) => {
+                      const value = backtest.metrics?.[metric.key];
+                      return (
+                        <TableCell key={backtest.id} className={winner !== null && value === winner ? "text-green-400 font-semibold" : ""}>
+                          {backtest.metrics ? metric.format(value) : "—"}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="font-medium">Settings &amp; Parameters</h4>
+          <div className="flex items-center gap-2">
+            <Switch id="differences-only" checked={differencesOnly} onCheckedChange={setDifferencesOnly} />
+            <Label htmlFor="differences-only" className="text-sm text-gray-400">Only differences</Label>
+          </div>
+        </div>
+        {parameters.length === 0 ? (
+          <p className="text-sm text-gray-400">All settings and parameters are identical</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  {data.backtests.map((backtest) => (
+                    <TableHead key={backtest.id}>{backtest.name}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {parameters.map((parameter) => (
+                  <TableRow key={`${parameter.group}-${parameter.name}`}>
+                    <TableCell className="text-gray-400">
+                      {parameter.name}
+                      {parameter.group === "setting" && <span className="ml-1 text-xs text-gray-500">(setting)</span>}
+                    </TableCell>
+                    {data.backtests.map((backtest) => (
+                      <TableCell
+                        key={backtest.id}
+                        className={`font-mono text-xs break-all ${parameter.differs ? "text-yellow-400" : ""}`}
+                      >
+                        {formatValue(parameter.values[backtest.id])}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h4 className="font-medium mb-2">Trade Overlap</h4>
+        <p className="text-xs text-gray-400 mb-2">
+          Trades match when they enter the same symbol in the same direction on the same bar.
+          {data.backtests.length > 2 && ` ${data.tradeOverlap.sharedByAll} trades were taken by all ${data.backtests.length} backtests.`}
+        </p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Pair</TableHead>
+              <TableHead>Shared</TableHead>
+              <TableHead>Only first</TableHead>
+              <TableHead>Only second</TableHead>
+              <TableHead>Similarity</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.tradeOverlap.pairs.map((pair) => (
+              <TableRow key={`${pair.a}-${pair.b}`}>
+                <TableCell>{names.get(pair.a)} vs {names.get(pair.b)}</TableCell>
+                <TableCell>{pair.shared}</TableCell>
+                <TableCell>{pair.onlyA}</TableCell>
+                <TableCell>{pair.onlyB}</TableCell>
+                <TableCell>{(pair.similarity * 100).toFixed(0)}%</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -2,12 +2,43 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { TrendingUpIcon, TrendingDownIcon, BarChart3Icon } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TrendingUpIcon, TrendingDownIcon, BarChart3Icon, ShuffleIcon } from "lucide-react";
+import { Area, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
 import { wsManager } from "@/lib/websocket";
 import { useEffect, useState } from "react";
 
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const formatPercent = (value: number | null | undefined, digits = 1) =>
+  value === null || value === undefined ? "—" : `${value >= 0 ? "+" : ""}${(value * 100).toFixed(digits)}%`;
+
+const formatRatio = (value: number | null | undefined) =>
+  value === null || value === undefined ? "—" : value.toFixed(2);
+
+const formatRupees = (value: number | null | undefined) =>
+  value === null || value === undefined ? "—" : `₹${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+// Groups "YYYY-MM" returns into one row per year
+function monthlyReturnRows(monthlyReturns: Array<{ month: string; return: number }>) {
+  const years = new Map<string, Array<number | null>>();
+  for (const { month, return: value } of monthlyReturns) {
+    const [year, monthNumber] = month.split("-");
+    if (!years.has(year)) {
+      years.set(year, Array(12).fill(null));
+    }
+    years.get(year)![Number(monthNumber) - 1] = value;
+  }
+  return Array.from(years.entries()).map(([year, values]) => ({
+    year,
+    values,
+    total: values.reduce<number>((product, value) => product * (1 + (value ?? 0)), 1) - 1,
+  }));
+}
+
 export default function BacktestResults() {
   const [latestBacktest, setLatestBacktest] = useState<any>(null);
+  const [monteCarloMethod, setMonteCarloMethod] = useState<"shuffle" | "bootstrap" | null>(null);
 
   const { data: backtests } = useQuery({
     queryKey: ["/api/backtests"],
@@ -23,6 +54,12 @@ export default function BacktestResults() {
     }
   }, [backtests]);
 
+  const { data: monteCarlo, isFetching: monteCarloLoading, error: monteCarloError } = useQuery<any>({
+    queryKey: [`/api/backtests/${latestBacktest?.id}/monte-carlo?simulations=1000&method=${monteCarloMethod}`],
+    enabled: !!latestBacktest && monteCarloMethod !== null,
+    staleTime: Infinity,
+  });
+
   useEffect(() => {
     // Subscribe to backtest updates
     wsManager.subscribeToBacktests((data) => {
@@ -58,10 +95,14 @@ export default function BacktestResults() {
     );
   }
 
+  // Backtests run before the full metrics suite only have the summary columns
+  const metrics = latestBacktest.results?.metrics || {};
   const totalReturn = parseFloat(latestBacktest.totalReturn || "0");
   const sharpeRatio = parseFloat(latestBacktest.sharpeRatio || "0");
   const maxDrawdown = parseFloat(latestBacktest.maxDrawdown || "0");
   const winRate = parseFloat(latestBacktest.winRate || "0");
+  const monthlyRows = monthlyReturnRows(metrics.monthlyReturns || []);
+  const benchmark = metrics.benchmark;
 
   return (
     <Card className="bg-trading-card border-trading-border">
@@ -88,29 +129,128 @@ export default function BacktestResults() {
               <p className={`text-xl font-bold ${
                 totalReturn >= 0 ? 'text-profit-green' : 'text-loss-red'
               }`}>
-                {totalReturn >= 0 ? '+' : ''}{totalReturn.toFixed(1)}%
+                {formatPercent(totalReturn)}
               </p>
             </div>
+            <p className="text-xs text-gray-400 mt-1">CAGR {formatPercent(metrics.cagr)}</p>
           </div>
           
           <div className="p-4 bg-gray-800/50 rounded-lg">
             <p className="text-xs text-gray-400 uppercase tracking-wide">Sharpe Ratio</p>
             <p className="text-xl font-bold mt-1">{sharpeRatio.toFixed(2)}</p>
+            <p className="text-xs text-gray-400 mt-1">Sortino {formatRatio(metrics.sortinoRatio)}</p>
           </div>
         </div>
 
         <div className="grid grid-cols-2 gap-4">
           <div className="p-4 bg-gray-800/50 rounded-lg">
             <p className="text-xs text-gray-400 uppercase tracking-wide">Max Drawdown</p>
-            <p className="text-xl font-bold text-loss-red mt-1">-{maxDrawdown.toFixed(1)}%</p>
+            <p className="text-xl font-bold text-loss-red mt-1">-{(maxDrawdown * 100).toFixed(1)}%</p>
+            <p className="text-xs text-gray-400 mt-1">
+              Calmar {formatRatio(metrics.calmarRatio)}
+              {metrics.maxDrawdownDuration && ` • ${metrics.maxDrawdownDuration.days}d underwater`}
+            </p>
           </div>
           
           <div className="p-4 bg-gray-800/50 rounded-lg">
             <p className="text-xs text-gray-400 uppercase tracking-wide">Win Rate</p>
-            <p className="text-xl font-bold mt-1">{winRate.toFixed(1)}%</p>
+            <p className="text-xl font-bold mt-1">{(winRate * 100).toFixed(1)}%</p>
+            <p className="text-xs text-gray-400 mt-1">Profit factor {formatRatio(metrics.profitFactor)}</p>
           </div>
         </div>
 
+        {/* Trade Statistics */}
+        {metrics.expectancy !== undefined && (
+          <div className="p-4 bg-gray-800/50 rounded-lg">
+            <p className="text-xs text-gray-400 uppercase tracking-wide mb-2">Trade Statistics</p>
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-300">Expectancy:</span>
+                <span className={metrics.expectancy >= 0 ? 'text-profit-green' : 'text-loss-red'}>
+                  {formatRupees(metrics.expectancy)} / trade
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-300">Average Win / Loss:</span>
+                <span>
+                  <span className="text-profit-green">{formatRupees(metrics.averageWin)}</span>
+                  {" / "}
+                  <span className="text-loss-red">{formatRupees(metrics.averageLoss)}</span>
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-300">Max Consecutive Losses:</span>
+                <span>{metrics.maxConsecutiveLosses}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-300">Time in Market:</span>
+                <span>{((metrics.exposureTime || 0) * 100).toFixed(1)}%</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-300">Annualized Volatility:</span>
+                <span>{((metrics.volatility || 0) * 100).toFixed(1)}%</span>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Benchmark */}
+        {benchmark && (
+          <div className="p-4 bg-gray-800/50 rounded-lg">
+            <p className="text-xs text-gray-400 uppercase tracking-wide mb-2">vs {benchmark.symbol}</p>
+            <div className="grid grid-cols-3 gap-2 text-sm">
+              <div>
+                <p className="text-gray-400 text-xs">Index Return</p>
+                <p>{formatPercent(benchmark.totalReturn)}</p>
+              </div>
+              <div>
+                <p className="text-gray-400 text-xs">Alpha (ann.)</p>
+                <p className={benchmark.alpha >= 0 ? 'text-profit-green' : 'text-loss-red'}>{formatPercent(benchmark.alpha)}</p>
+              </div>
+              <div>
+                <p className="text-gray-400 text-xs">Beta</p>
+                <p>{formatRatio(benchmark.beta)}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Monthly Returns */}
+        {monthlyRows.length > 0 && (
+          <div className="p-4 bg-gray-800/50 rounded-lg overflow-x-auto">
+            <p className="text-xs text-gray-400 uppercase tracking-wide mb-2">Monthly Returns</p>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-400">
+                  <th className="text-left font-normal pr-2">Year</th>
+                  {MONTHS.map((month) => (
+                    <th key={month} className="text-right font-normal px-1">{month}</th>
+                  ))}
+                  <th className="text-right font-normal pl-2">Year</th>
+                </tr>
+              </thead>
+              <tbody>
+                {monthlyRows.map((row) => (
+                  <tr key={row.year}>
+                    <td className="pr-2 text-gray-300">{row.year}</td>
+                    {row.values.map((value, index) => (
+                      <td
+                        key={index}
+                        className={`text-right px-1 ${value === null ? 'text-gray-600' : value >= 0 ? 'text-profit-green' : 'text-loss-red'}`}
+                      >
+                        {value === null ? "" : (value * 100).toFixed(1)}
+                      </td>
+                    ))}
+                    <td className={`text-right pl-2 font-medium ${row.total >= 0 ? 'text-profit-green' : 'text-loss-red'}`}>
+                      {(row.total * 100).toFixed(1)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
         {/* Performance Metrics */}
         <div className="p-4 bg-gray-800/50 rounded-lg">
           <p className="text-xs text-gray-400 uppercase tracking-wide mb-2">Performance Metrics</p>
@@ -138,6 +278,81 @@ export default function BacktestResults() {
           </div>
         </div>
 
+        {/* Monte Carlo */}
+        <div className="p-4 bg-gray-800/50 rounded-lg space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-400 uppercase tracking-wide">Monte Carlo (1,000 runs)</p>
+            <Select
+              value={monteCarloMethod ?? undefined}
+              onValueChange={(value) => setMonteCarloMethod(value as "shuffle" | "bootstrap")}
+            >
+              <SelectTrigger className="w-40 h-8 bg-trading-dark border-trading-border">
+                <ShuffleIcon className="w-3 h-3 mr-1" />
+                <SelectValue placeholder="Run analysis" />
+              </SelectTrigger>
+              <SelectContent className="bg-trading-card border-trading-border">
+                <SelectItem value="shuffle">Reshuffle trades</SelectItem>
+                <SelectItem value="bootstrap">Bootstrap trades</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {monteCarloLoading && <p className="text-sm text-gray-400">Simulating...</p>}
+          {monteCarloError && !monteCarloLoading && (
+            <p className="text-sm text-loss-red">{(monteCarloError as Error).message}</p>
+          )}
+          {monteCarlo && !monteCarloLoading && (
+            <>
+              <ResponsiveContainer width="100%" height={180}>
+                <ComposedChart data={monteCarlo.bands}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="trade" stroke="#9CA3AF" fontSize={10} />
+                  <YAxis stroke="#9CA3AF" fontSize={10} width={60} domain={["auto", "auto"]} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: '#1F2937',
+                      border: '1px solid #374151',
+                      borderRadius: '8px'
+                    }}
+                    formatter={(value: any) =>
+                      Array.isArray(value)
+                        ? value.map((bound: number) => `₹${Math.round(bound).toLocaleString()}`).join(" – ")
+                        : `₹${Math.round(value).toLocaleString()}`
+                    }
+                    labelFormatter={(trade) => `After trade ${trade}`}
+                  />
+                  <Area dataKey={(band: any) => [band.p5, band.p95]} stroke="none" fill="#3B82F6" fillOpacity={0.15} name="5–95%" />
+                  <Area dataKey={(band: any) => [band.p25, band.p75]} stroke="none" fill="#3B82F6" fillOpacity={0.3} name="25–75%" />
+                  <Line dataKey="p50" stroke="#3B82F6" dot={false} name="Median" />
+                </ComposedChart>
+              </ResponsiveContainer>
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-300">Final Equity (5% / median / 95%):</span>
+                  <span>
+                    {formatRupees(monteCarlo.finalEquity.p5)} / {formatRupees(monteCarlo.finalEquity.p50)} / {formatRupees(monteCarlo.finalEquity.p95)}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-300">Max Drawdown (median / 95%):</span>
+                  <span className="text-loss-red">
+                    {(monteCarlo.maxDrawdown.p50 * 100).toFixed(1)}% / {(monteCarlo.maxDrawdown.p95 * 100).toFixed(1)}%
+                    <span className="text-gray-400"> (actual {(monteCarlo.original.maxDrawdown * 100).toFixed(1)}%)</span>
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-300">Probability of Loss:</span>
+                  <span>{(monteCarlo.probabilityOfLoss * 100).toFixed(1)}%</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-300">Risk of Ruin ({(monteCarlo.ruinDrawdown * 100).toFixed(0)}% drawdown):</span>
+                  <span>{(monteCarlo.riskOfRuin * 100).toFixed(1)}%</span>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
         {/* Action Button */}
         <Button className="w-full bg-trading-blue hover:bg-blue-600 text-white">
           View Detailed Analysis
@@ -0,0 +1,141 @@
+import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ChevronsUpDownIcon } from "lucide-react";
+
+export interface InstrumentOption {
+  instrumentKey: string;
+  tradingSymbol: string;
+  name: string | null;
+  segment: string;
+  instrumentType: string | null;
+  lotSize: number;
+  tickSize: string | null;
+  expiry: string | null;
+  strikePrice: string | null;
+}
+
+interface InstrumentSearchProps {
+  name?: string;
+  defaultSymbol?: string;
+  defaultInstrumentKey?: string | null;
+  segment?: string;
+  className?: string;
+  onSelect?: (instrument: InstrumentOption) => void;
+}
+
+/**
+ * Searchable instrument picker backed by /api/instruments/search. Renders
+ * hidden `symbol` and `instrumentKey` inputs so it works inside plain forms.
+ */
+export default function InstrumentSearch({
+  name = "symbol",
+  defaultSymbol = "",
+  defaultInstrumentKey = null,
+  segment,
+  className,
+  onSelect,
+}: InstrumentSearchProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [selected, setSelected] = useState<{ symbol: string; instrumentKey: string | null; label: string }>({
+    symbol: defaultSymbol,
+    instrumentKey: defaultInstrumentKey,
+    label: defaultSymbol,
+  });
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), 250);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const params = new URLSearchParams({ q: debouncedQuery, limit: "25" });
+  if (segment) {
+    params.set("segment", segment);
+  }
+
+  const { data: results = [], isFetching } = useQuery<InstrumentOption[]>({
+    queryKey: [`/api/instruments/search?${params.toString()}`],
+    enabled: open && debouncedQuery.length > 0,
+  });
+
+  const describe = (instrument: InstrumentOption) => {
+    const details = [instrument.segment];
+    if (instrument.expiry) details.push(instrument.expiry);
+    if (instrument.lotSize > 1) details.push(`lot ${instrument.lotSize}`);
+    return details.join(" • ");
+  };
+
+  const handleSelect = (instrument: InstrumentOption) => {
+    setSelected({
+      symbol: instrument.tradingSymbol,
+      instrumentKey: instrument.instrumentKey,
+      label: `${instrument.tradingSymbol} (${instrument.segment})`,
+    });
+    setOpen(false);
+    onSelect?.(instrument);
+  };
+
+  return (
+    <>
+      <input type="hidden" name={name} value={selected.symbol} />
+      <input type="hidden" name="instrumentKey" value={selected.instrumentKey || ""} />
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className={`w-full justify-between font-normal ${className || ""}`}
+          >
+            <span className={selected.label ? "" : "text-muted-foreground"}>
+              {selected.label || "Search symbol, name or ISIN"}
+            </span>
+            <ChevronsUpDownIcon className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] min-w-[320px] p-0 bg-trading-card border-trading-border" align="start">
+          <Command shouldFilter={false}>
+            <CommandInput placeholder="RELIANCE, Nifty Bank, INE002A01018..." value={query} onValueChange={setQuery} />
+            <CommandList>
+              <CommandEmpty>
+                {debouncedQuery.length === 0
+                  ? "Type to search instruments"
+                  : isFetching ? "Searching..." : "No instruments found"}
+              </CommandEmpty>
+              {results.length > 0 && (
+                <CommandGroup>
+                  {results.map((instrument) => (
+                    <CommandItem
+                      key={instrument.instrumentKey}
+                      value={instrument.instrumentKey}
+                      onSelect={() => handleSelect(instrument)}
+                    >
+                      <div className="flex w-full items-center justify-between gap-2">
+                        <div className="min-w-0">
+                          <div className="font-medium truncate">{instrument.tradingSymbol}</div>
+                          <div className="text-xs text-gray-400 truncate">{instrument.name}</div>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                          {instrument.instrumentType && (
+                            <Badge variant="outline" className="text-xs">{instrument.instrumentType}</Badge>
+                          )}
+                          <span className="text-xs text-gray-400">{describe(instrument)}</span>
+                        </div>
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </>
+  );
+}
@@ -0,0 +1,440 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import InstrumentSearch, { type InstrumentOption } from "@/components/instrument-search";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { wsManager } from "@/lib/websocket";
+import { PencilIcon, PlusIcon, RefreshCwIcon, XIcon } from "lucide-react";
+
+interface Order {
+  id: number;
+  brokerOrderId: string | null;
+  source: string;
+  symbol: string;
+  exchange: string;
+  side: "BUY" | "SELL";
+  orderType: string;
+  product: string;
+  validity: string;
+  quantity: number;
+  price: string | null;
+  triggerPrice: string | null;
+  status: string;
+  statusMessage: string | null;
+  filledQuantity: number;
+  averagePrice: string | null;
+  createdAt: string;
+}
+
+const ORDER_TYPES = ["MARKET", "LIMIT", "SL", "SL-M"];
+const ACTIVE_STATUSES = ["sent", "open", "partially_filled"];
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  filled: "default",
+  open: "secondary",
+  partially_filled: "secondary",
+  rejected: "destructive",
+};
+
+const needsPrice = (orderType: string) => orderType === "LIMIT" || orderType === "SL";
+const needsTrigger = (orderType: string) => orderType === "SL" || orderType === "SL-M";
+const optionalNumber = (value: FormDataEntryValue | null) => (value ? Number(value) : undefined);
+
+/**
+ * Live broker orders placed through the Order Manager module: place,
+ * modify and cancel, with statuses kept in step with the Upstox order book.
+ */
+export default function LiveOrders() {
+  const { toast } = useToast();
+  const [isPlaceOpen, setIsPlaceOpen] = useState(false);
+  const [orderType, setOrderType] = useState("MARKET");
+  const [instrument, setInstrument] = useState<InstrumentOption | null>(null);
+  const [editing, setEditing] = useState<Order | null>(null);
+  const [editType, setEditType] = useState("MARKET");
+
+  const { data: orders } = useQuery<Order[]>({
+    queryKey: ["/api/orders"],
+    refetchInterval: 10000,
+  });
+
+  // Rejections, including those of the Risk Manager, are announced from the push
+  useEffect(() => {
+    wsManager.subscribeToOrders((order: Order) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      if (order.status === "rejected") {
+        toast({
+          title: "Order Rejected",
+          description: `${order.side} ${order.quantity} ${order.symbol}: ${order.statusMessage || "rejected"}`,
+          variant: "destructive",
+        });
+      }
+    });
+
+    return () => {
+      wsManager.offMessage('orders');
+    };
+  }, [toast]);
+
+  const onOrderError = (fallback: string) => (error: any) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const placeOrderMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = await apiRequest("POST", "/api/orders", data);
+      return response.json();
+    },
+    onSuccess: (order: Order) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      setIsPlaceOpen(false);
+      toast({
+        title: "Order Sent",
+        description: `${order.side} ${order.quantity} ${order.symbol} sent to Upstox.`,
+      });
+    },
+    onError: (error: any) => {
+      // A 422 means the order was recorded as rejected, which the push already reports
+      if (String(error.message).startsWith("422")) {
+        queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+        setIsPlaceOpen(false);
+        return;
+      }
+      onOrderError("Failed to place order")(error);
+    },
+  });
+
+  const modifyOrderMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: number; changes: any }) => {
+      const response = await apiRequest("PUT", `/api/orders/${id}`, changes);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      setEditing(null);
+      toast({ title: "Order Modified", description: "The changes were sent to Upstox." });
+    },
+    onError: onOrderError("Failed to modify order"),
+  });
+
+  const cancelOrderMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/orders/${id}/cancel`);
+      return response.json();
+    },
+    onSuccess: (order: Order) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: order.status === "cancelled" ? "Order Cancelled" : "Cancel Requested",
+        description: `${order.side} ${order.quantity} ${order.symbol}`,
+      });
+    },
+    onError: onOrderError("Failed to cancel order"),
+  });
+
+  const reconcileMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/orders/reconcile");
+      return response.json();
+    },
+    onSuccess: (result: { checked: number; updated: number; imported: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Orders Synced",
+        description: `${result.updated} updated, ${result.imported} imported from ${result.checked} broker orders.`,
+      });
+    },
+    onError: onOrderError("Failed to sync orders"),
+  });
+
+  const handlePlace = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!instrument) {
+      toast({ title: "Error", description: "Select an instrument to trade", variant: "destructive" });
+      return;
+    }
+    const formData = new FormData(e.currentTarget);
+    placeOrderMutation.mutate({
+      instrumentKey: instrument.instrumentKey,
+      symbol: instrument.tradingSymbol,
+      exchange: instrument.segment.split("_")[0],
+      side: formData.get("side") as string,
+      orderType,
+      product: formData.get("product") as string,
+      validity: formData.get("validity") as string,
+      quantity: Number(formData.get("quantity")),
+      price: needsPrice(orderType) ? optionalNumber(formData.get("price")) : undefined,
+      triggerPrice: needsTrigger(orderType) ? optionalNumber(formData.get("triggerPrice")) : undefined,
+    });
+  };
+
+  const handleModify = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!editing) return;
+    const formData = new FormData(e.currentTarget);
+    modifyOrderMutation.mutate({
+      id: editing.id,
+      changes: {
+        orderType: editType,
+        quantity: Number(formData.get("quantity")),
+        price: needsPrice(editType) ? optionalNumber(formData.get("price")) : undefined,
+        triggerPrice: needsTrigger(editType) ? optionalNumber(formData.get("triggerPrice")) : undefined,
+      },
+    });
+  };
+
+  const openEdit = (order: Order) => {
+    setEditType(order.orderType);
+    setEditing(order);
+  };
+
+  const orderTypeSelect = (value: string, onChange: (value: string) => void, id: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className="bg-gray-700 border-gray-600">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {ORDER_TYPES.map((type) => (
+          <SelectItem key={type} value={type}>{type}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card className="bg-trading-card border-trading-border">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Orders</CardTitle>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => reconcileMutation.mutate()} disabled={reconcileMutation.isPending}>
+            <RefreshCwIcon className={`w-4 h-4 mr-2 ${reconcileMutation.isPending ? "animate-spin" : ""}`} />
+            Sync
+          </Button>
+          <Button size="sm" onClick={() => setIsPlaceOpen(true)} className="bg-trading-blue hover:bg-blue-600 text-white">
+            <PlusIcon className="w-4 h-4 mr-2" />
+            Place Order
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!orders || orders.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            No orders yet. Orders can be placed while the Order Manager module is running.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Symbol</TableHead>
+                <TableHead>Side</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Filled</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {orders.map((order) => {
+                const isActive = ACTIVE_STATUSES.includes(order.status) && !!order.brokerOrderId;
+                const price = order.averagePrice ?? order.price;
+                return (
+                  <TableRow key={order.id}>
+                    <TableCell className="text-xs">{new Date(order.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{order.symbol}</div>
+                      <div className="text-xs text-gray-400">
+                        {order.exchange} · {order.product === "I" ? "Intraday" : "Delivery"}
+                        {order.source === "broker" && " · from Upstox"}
+                      </div>
+                    </TableCell>
+                    <TableCell className={order.side === "BUY" ? "text-profit-green" : "text-loss-red"}>{order.side}</TableCell>
+                    <TableCell>
+                      {order.orderType}
+                      {order.triggerPrice && <div className="text-xs text-gray-400">trigger {Number(order.triggerPrice).toFixed(2)}</div>}
+                    </TableCell>
+                    <TableCell>{order.filledQuantity ?? 0}/{order.quantity}</TableCell>
+                    <TableCell>{price ? `₹${Number(price).toFixed(2)}` : "Market"}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[order.status] || "outline"} title={order.statusMessage || undefined}>
+                        {order.status.replace("_", " ")}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {isActive && (
+                        <div className="flex gap-1">
+                          <Button variant="outline" size="sm" onClick={() => openEdit(order)}>
+                            <PencilIcon className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => cancelOrderMutation.mutate(order.id)}
+                            disabled={cancelOrderMutation.isPending}
+                          >
+                            <XIcon className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isPlaceOpen} onOpenChange={setIsPlaceOpen}>
+        <DialogContent className="bg-trading-card border-trading-border max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Place Order</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handlePlace} className="space-y-4">
+            <div>
+              <Label>Instrument</Label>
+              <InstrumentSearch className="bg-gray-700 border-gray-600" onSelect={setInstrument} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="order-side">Side</Label>
+                <Select name="side" defaultValue="BUY">
+                  <SelectTrigger id="order-side" className="bg-gray-700 border-gray-600">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="BUY">Buy</SelectItem>
+                    <SelectItem value="SELL">Sell</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="order-type">Order Type</Label>
+                {orderTypeSelect(orderType, setOrderType, "order-type")}
+              </div>
+              <div>
+                <Label htmlFor="order-product">Product</Label>
+                <Select name="product" defaultValue="D">
+                  <SelectTrigger id="order-product" className="bg-gray-700 border-gray-600">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="D">Delivery</SelectItem>
+                    <SelectItem value="I">Intraday</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="order-validity">Validity</Label>
+                <Select name="validity" defaultValue="DAY">
+                  <SelectTrigger id="order-validity" className="bg-gray-700 border-gray-600">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="DAY">Day</SelectItem>
+                    <SelectItem value="IOC">IOC</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="order-quantity">Quantity</Label>
+                <Input id="order-quantity" name="quantity" type="number" min="1" defaultValue="1" required className="bg-gray-700 border-gray-600" />
+              </div>
+              {needsPrice(orderType) && (
+                <div>
+                  <Label htmlFor="order-price">Price</Label>
+                  <Input id="order-price" name="price" type="number" step="0.05" min="0.05" required className="bg-gray-700 border-gray-600" />
+                </div>
+              )}
+              {needsTrigger(orderType) && (
+                <div>
+                  <Label htmlFor="order-trigger">Trigger Price</Label>
+                  <Input id="order-trigger" name="triggerPrice" type="number" step="0.05" min="0.05" required className="bg-gray-700 border-gray-600" />
+                </div>
+              )}
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsPlaceOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={placeOrderMutation.isPending}
+                className="bg-trading-blue hover:bg-blue-600 text-white"
+              >
+                {placeOrderMutation.isPending ? "Sending..." : "Send Order"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="bg-trading-card border-trading-border max-w-md">
+          <DialogHeader>
+            <DialogTitle>Modify Order{editing ? `: ${editing.side} ${editing.symbol}` : ""}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <form onSubmit={handleModify} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="modify-type">Order Type</Label>
+                  {orderTypeSelect(editType, setEditType, "modify-type")}
+                </div>
+                <div>
+                  <Label htmlFor="modify-quantity">Quantity</Label>
+                  <Input
+                    id="modify-quantity"
+                    name="quantity"
+                    type="number"
+                    min={Math.max(1, editing.filledQuantity ?? 0)}
+                    defaultValue={editing.quantity}
+                    required
+                    className="bg-gray-700 border-gray-600"
+                  />
+                </div>
+                {needsPrice(editType) && (
+                  <div>
+                    <Label htmlFor="modify-price">Price</Label>
+                    <Input id="modify-price" name="price" type="number" step="0.05" min="0.05" defaultValue={editing.price ?? ""} required className="bg-gray-700 border-gray-600" />
+                  </div>
+                )}
+                {needsTrigger(editType) && (
+                  <div>
+                    <Label htmlFor="modify-trigger">Trigger Price</Label>
+                    <Input id="modify-trigger" name="triggerPrice" type="number" step="0.05" min="0.05" defaultValue={editing.triggerPrice ?? ""} required className="bg-gray-700 border-gray-600" />
+                  </div>
+                )}
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={modifyOrderMutation.isPending}
+                  className="bg-trading-blue hover:bg-blue-600 text-white"
+                >
+                  {modifyOrderMutation.isPending ? "Sending..." : "Modify"}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
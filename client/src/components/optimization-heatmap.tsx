@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export interface OptimizationRunSummary {
+  backtestId: number;
+  role: "sweep" | "in_sample" | "out_of_sample";
+  window?: number;
+  parameters: Record<string, number | string | boolean>;
+  status: string;
+  objective: number | null;
+  totalReturn: number | null;
+  sharpeRatio: number | null;
+  maxDrawdown: number | null;
+  totalTrades: number | null;
+  error?: string;
+}
+
+interface OptimizationHeatmapProps {
+  runs: OptimizationRunSummary[];
+  parameterNames: string[];
+  objective: string;
+}
+
+const sortValues = (values: Array<number | string | boolean>) =>
+  [...values].sort((a, b) => typeof a === "number" && typeof b === "number" ? a - b : String(a).localeCompare(String(b)));
+
+/**
+ * Objective value for every pair of values of two swept parameters. Cells
+ * average over the other parameters; red is the worst run and green the best.
+ */
+export default function OptimizationHeatmap({ runs, parameterNames, objective }: OptimizationHeatmapProps) {
+  const [xParameter, setXParameter] = useState(parameterNames[0]);
+  const [yParameter, setYParameter] = useState(parameterNames[1] ?? parameterNames[0]);
+
+  const scored = runs.filter((run) => run.objective !== null);
+  if (scored.length === 0) {
+    return <p className="text-sm text-gray-400">No completed runs to chart yet</p>;
+  }
+
+  const xValues = sortValues(Array.from(new Set(scored.map((run) => run.parameters[xParameter]))));
+  const yValues = yParameter === xParameter
+    ? [null]
+    : sortValues(Array.from(new Set(scored.map((run) => run.parameters[yParameter]))));
+
+  const cells = new Map<string, { sum: number; count: number }>();
+  for (const run of scored) {
+    const key = `${run.parameters[xParameter]}|${yParameter === xParameter ? null : run.parameters[yParameter]}`;
+    const cell = cells.get(key) || { sum: 0, count: 0 };
+    cell.sum += run.objective!;
+    cell.count += 1;
+    cells.set(key, cell);
+  }
+
+  const averages = Array.from(cells.values()).map((cell) => cell.sum / cell.count);
+  const min = Math.min(...averages);
+  const max = Math.max(...averages);
+  const color = (value: number) => {
+    const ratio = max === min ? 0.5 : (value - min) / (max - min);
+    return `hsl(${Math.round(ratio * 120)}, 65%, 35%)`;
+  };
+
+  return (
+    <div className="space-y-3">
+      {parameterNames.length > 1 && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-400">Columns</Label>
+            <Select value={xParameter} onValueChange={setXParameter}>
+              <SelectTrigger className="bg-trading-dark border-trading-border h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-trading-card border-trading-border">
+                {parameterNames.map((name) => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-400">Rows</Label>
+            <Select value={yParameter} onValueChange={setYParameter}>
+              <SelectTrigger className="bg-trading-dark border-trading-border h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-trading-card border-trading-border">
+                {parameterNames.map((name) => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+          <thead>
+            <tr>
+              <th className="text-gray-400 font-normal text-left pr-2">
+                {yParameter !== xParameter ? `${yParameter} \\ ${xParameter}` : xParameter}
+              </th>
+              {xValues.map((x) => (
+                <th key={String(x)} className="text-gray-400 font-normal px-2">{String(x)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {yValues.map((y) => (
+              <tr key={String(y)}>
+                <td className="text-gray-400 pr-2">{y === null ? objective : String(y)}</td>
+                {xValues.map((x) => {
+                  const cell = cells.get(`${x}|${y}`);
+                  const value = cell ? cell.sum / cell.count : null;
+                  return (
+                    <td
+                      key={String(x)}
+                      className="text-center text-white rounded px-2 py-1 min-w-[3rem]"
+                      style={{ backgroundColor: value === null ? "transparent" : color(value) }}
+                      title={value === null ? "Not run" : `${xParameter}=${x}${y === null ? "" : `, ${yParameter}=${y}`}: ${value.toFixed(3)}`}
+                    >
+                      {value === null ? "" : value.toFixed(2)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,555 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import InstrumentSearch from "@/components/instrument-search";
+import OptimizationHeatmap, { type OptimizationRunSummary } from "@/components/optimization-heatmap";
+import { GridIcon, StopCircleIcon, EyeIcon } from "lucide-react";
+
+interface Option {
+  value: string;
+  label: string;
+}
+
+interface OptimizationPanelProps {
+  strategies: any[];
+  dataSources: { name: string; description: string }[];
+  timeframeOptions: Option[];
+  costPresetOptions: Option[];
+}
+
+const objectiveOptions: Option[] = [
+  { value: "sharpeRatio", label: "Sharpe ratio" },
+  { value: "sortinoRatio", label: "Sortino ratio" },
+  { value: "calmarRatio", label: "Calmar ratio" },
+  { value: "totalReturn", label: "Total return" },
+  { value: "cagr", label: "CAGR" },
+  { value: "profitFactor", label: "Profit factor" },
+  { value: "expectancy", label: "Expectancy" },
+];
+
+const modeLabels: Record<string, string> = {
+  grid: "Grid search",
+  random: "Random search",
+  walk_forward: "Walk-forward",
+};
+
+// Suggests ranges around a strategy's current numeric parameters
+function suggestRanges(parameters: Record<string, any> | null | undefined): string {
+  const ranges: Record<string, any> = {};
+  for (const [name, value] of Object.entries(parameters || {})) {
+    if (typeof value === "number" && Number.isInteger(value) && value > 0) {
+      const step = Math.max(1, Math.round(value / 2));
+      ranges[name] = { min: Math.max(1, value - 2 * step), max: value + 2 * step, step };
+    }
+  }
+  return JSON.stringify(Object.keys(ranges).length > 0 ? ranges : { period: { min: 10, max: 30, step: 5 } }, null, 2);
+}
+
+const formatPercent = (value: number | null | undefined) =>
+  value === null || value === undefined ? "—" : `${(value * 100).toFixed(2)}%`;
+
+const formatNumber = (value: number | null | undefined) =>
+  value === null || value === undefined ? "—" : value.toFixed(3);
+
+const formatParameters = (parameters: Record<string, unknown> | null | undefined) =>
+  parameters ? Object.entries(parameters).map(([name, value]) => `${name}=${value}`).join(", ") : "—";
+
+export default function OptimizationPanel({ strategies, dataSources, timeframeOptions, costPresetOptions }: OptimizationPanelProps) {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [mode, setMode] = useState("grid");
+  const [ranges, setRanges] = useState(suggestRanges(null));
+  const { toast } = useToast();
+
+  const { data: optimizations = [] } = useQuery<any[]>({
+    queryKey: ["/api/optimizations"],
+    refetchInterval: 5000,
+  });
+
+  const selected = optimizations.find((optimization) => optimization.id === selectedId);
+
+  const createOptimizationMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = await apiRequest("POST", "/api/optimizations", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/optimizations"] });
+      setIsCreateOpen(false);
+      toast({
+        title: "Optimization Started",
+        description: "Backtests for each parameter combination are running in the background.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start optimization",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelOptimizationMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/optimizations/${id}/cancel`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/optimizations"] });
+    },
+  });
+
+  const handleCreate = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    let parameterRanges: unknown;
+    try {
+      parameterRanges = JSON.parse(ranges);
+    } catch {
+      toast({ title: "Invalid parameter ranges", description: "Ranges must be valid JSON", variant: "destructive" });
+      return;
+    }
+
+    if (!formData.get("symbol")) {
+      toast({ title: "Select an instrument", description: "Search for the stock, index or contract to optimize on", variant: "destructive" });
+      return;
+    }
+
+    createOptimizationMutation.mutate({
+      name: formData.get("name"),
+      strategyId: Number(formData.get("strategyId")),
+      mode,
+      objective: formData.get("objective") || "sharpeRatio",
+      parameterRanges,
+      maxRuns: Number(formData.get("maxRuns")) || null,
+      seed: formData.get("seed") ? Number(formData.get("seed")) : null,
+      walkForward: mode === "walk_forward"
+        ? {
+            windows: Number(formData.get("windows")) || 4,
+            inSamplePercent: Number(formData.get("inSamplePercent")) || 70,
+          }
+        : null,
+      backtestConfig: {
+        symbol: formData.get("symbol"),
+        instrumentKey: formData.get("instrumentKey") || null,
+        timeframe: formData.get("timeframe"),
+        dataSource: formData.get("dataSource") || "upstox",
+        costModel: { preset: formData.get("costPreset") || "equity_intraday" },
+        startDate: formData.get("startDate"),
+        endDate: formData.get("endDate"),
+        initialCapital: Number(formData.get("initialCapital")),
+      },
+    });
+  };
+
+  const results = selected?.results;
+  const runs: OptimizationRunSummary[] = results?.runs || [];
+  const heatmapRuns = runs.filter((run) => run.role !== "out_of_sample");
+  const rankedRuns = [...heatmapRuns]
+    .filter((run) => run.objective !== null)
+    .sort((a, b) => b.objective! - a.objective!)
+    .slice(0, 10);
+
+  return (
+    <Card className="bg-trading-card border-trading-border">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <GridIcon className="w-5 h-5" />
+            Parameter Optimization
+          </CardTitle>
+          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" className="border-trading-border">New Optimization</Button>
+            </DialogTrigger>
+            <DialogContent className="bg-trading-card border-trading-border max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>New Optimization</DialogTitle>
+                <DialogDescription>
+                  Run a backtest for each parameter combination and rank them by an objective
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleCreate} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="optimization-name">Name</Label>
+                    <Input id="optimization-name" name="name" required className="bg-trading-dark border-trading-border" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Strategy</Label>
+                    <Select
+                      name="strategyId"
+                      required
+                      onValueChange={(value) => {
+                        const strategy = strategies.find((item) => item.id.toString() === value);
+                        setRanges(suggestRanges(strategy?.parameters));
+                      }}
+                    >
+                      <SelectTrigger className="bg-trading-dark border-trading-border">
+                        <SelectValue placeholder="Select strategy" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-trading-card border-trading-border">
+                        {strategies.map((strategy) => (
+                          <SelectItem key={strategy.id} value={strategy.id.toString()}>
+                            {strategy.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Stock/Index</Label>
+                    <InstrumentSearch className="bg-trading-dark border-trading-border" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Timeframe</Label>
+                    <Select name="timeframe" required>
+                      <SelectTrigger className="bg-trading-dark border-trading-border">
+                        <SelectValue placeholder="Select timeframe" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-trading-card border-trading-border">
+                        {timeframeOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="optimization-start">Start Date</Label>
+                    <Input id="optimization-start" name="startDate" type="date" required className="bg-trading-dark border-trading-border" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="optimization-end">End Date</Label>
+                    <Input id="optimization-end" name="endDate" type="date" required className="bg-trading-dark border-trading-border" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="optimization-capital">Initial Capital (₹)</Label>
+                    <Input
+                      id="optimization-capital"
+                      name="initialCapital"
+                      type="number"
+                      min="1000"
+                      defaultValue="100000"
+                      required
+                      className="bg-trading-dark border-trading-border"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Data Source</Label>
+                    <Select name="dataSource" defaultValue="upstox">
+                      <SelectTrigger className="bg-trading-dark border-trading-border">
+                        <SelectValue placeholder="Select data source" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-trading-card border-trading-border">
+                        {dataSources.map((source) => (
+                          <SelectItem key={source.name} value={source.name}>{source.description}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Charges</Label>
+                    <Select name="costPreset" defaultValue="equity_intraday">
+                      <SelectTrigger className="bg-trading-dark border-trading-border">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-trading-card border-trading-border">
+                        {costPresetOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label>Mode</Label>
+                    <Select value={mode} onValueChange={setMode}>
+                      <SelectTrigger className="bg-trading-dark border-trading-border">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-trading-card border-trading-border">
+                        {Object.entries(modeLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Objective</Label>
+                    <Select name="objective" defaultValue="sharpeRatio">
+                      <SelectTrigger className="bg-trading-dark border-trading-border">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-trading-card border-trading-border">
+                        {objectiveOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="optimization-max-runs">{mode === "walk_forward" ? "Max Runs / Window" : "Max Runs"}</Label>
+                    <Input
+                      id="optimization-max-runs"
+                      name="maxRuns"
+                      type="number"
+                      min="1"
+                      max="500"
+                      placeholder={mode === "random" ? "20" : "All"}
+                      className="bg-trading-dark border-trading-border"
+                    />
+                  </div>
+                </div>
+
+                {mode === "walk_forward" && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="optimization-windows">Windows</Label>
+                      <Input
+                        id="optimization-windows"
+                        name="windows"
+                        type="number"
+                        min="1"
+                        max="20"
+                        defaultValue="4"
+                        className="bg-trading-dark border-trading-border"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="optimization-in-sample">In-Sample %</Label>
+                      <Input
+                        id="optimization-in-sample"
+                        name="inSamplePercent"
+                        type="number"
+                        min="50"
+                        max="90"
+                        defaultValue="70"
+                        className="bg-trading-dark border-trading-border"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {mode !== "grid" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="optimization-seed">Seed</Label>
+                    <Input
+                      id="optimization-seed"
+                      name="seed"
+                      type="number"
+                      min="0"
+                      placeholder="Random"
+                      className="bg-trading-dark border-trading-border"
+                    />
+                    <p className="text-xs text-gray-400">
+                      Reuse the seed of an earlier optimization to sample the same combinations
+                    </p>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="optimization-ranges">Parameter Ranges</Label>
+                  <Textarea
+                    id="optimization-ranges"
+                    value={ranges}
+                    onChange={(e) => setRanges(e.target.value)}
+                    rows={6}
+                    className="bg-trading-dark border-trading-border font-mono text-xs"
+                  />
+                  <p className="text-xs text-gray-400">
+                    Each parameter takes {"{ min, max, step }"} or {"{ values: [...] }"}; values override the strategy's parameters
+                  </p>
+                </div>
+
+                <div className="flex justify-end gap-3">
+                  <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)} className="border-trading-border">
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={createOptimizationMutation.isPending} className="bg-blue-600 hover:bg-blue-700">
+                    {createOptimizationMutation.isPending ? "Starting..." : "Start Optimization"}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {optimizations.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-4">No optimizations yet</p>
+        ) : (
+          <div className="space-y-3">
+            {optimizations.map((optimization) => (
+              <div key={optimization.id} className="p-4 bg-trading-dark rounded-lg border border-trading-border">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="font-semibold">{optimization.name}</h3>
+                    <p className="text-sm text-gray-400">
+                      {modeLabels[optimization.mode] || optimization.mode} • {optimization.backtestConfig?.symbol} • ranked by {optimization.objective}
+                    </p>
+                    {optimization.results?.best && (
+                      <p className="text-sm text-gray-300 mt-1">
+                        Best: {formatParameters(optimization.results.best.parameters)} ({formatNumber(optimization.results.best.objective)})
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{optimization.status}</Badge>
+                    {(optimization.status === "running" || optimization.status === "pending") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => cancelOptimizationMutation.mutate(optimization.id)}
+                        disabled={cancelOptimizationMutation.isPending}
+                        className="border-red-600 text-red-400 hover:bg-red-600/10"
+                      >
+                        <StopCircleIcon className="w-4 h-4 mr-1" />
+                        Cancel
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setSelectedId(optimization.id)}
+                      disabled={!optimization.results}
+                      className="border-trading-border"
+                    >
+                      <EyeIcon className="w-4 h-4 mr-1" />
+                      Results
+                    </Button>
+                  </div>
+                </div>
+                {optimization.status === "running" && (
+                  <div className="space-y-1 mt-3">
+                    <Progress value={optimization.progress || 0} className="h-2" />
+                    <p className="text-xs text-gray-400">{optimization.progressMessage}</p>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="bg-trading-card border-trading-border max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selected?.name}</DialogTitle>
+            <DialogDescription>
+              {runs.length} backtests • ranked by {selected?.objective}
+              {selected && selected.mode !== "grid" && selected.seed !== null && ` • seed ${selected.seed}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {results && (
+            <div className="space-y-6">
+              <div>
+                <h4 className="text-sm font-medium mb-2">
+                  {selected?.mode === "walk_forward" ? "In-Sample Heatmap" : "Heatmap"}
+                </h4>
+                <OptimizationHeatmap
+                  runs={heatmapRuns}
+                  parameterNames={results.parameterNames || []}
+                  objective={results.objective}
+                />
+              </div>
+
+              {results.walkForward && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">
+                    Walk-Forward • out-of-sample return {formatPercent(results.walkForward.outOfSampleReturn)}
+                    {results.walkForward.efficiency !== null && ` • efficiency ${formatNumber(results.walkForward.efficiency)}`}
+                  </h4>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Window</TableHead>
+                        <TableHead>In-Sample</TableHead>
+                        <TableHead>Out-of-Sample</TableHead>
+                        <TableHead>Best Parameters</TableHead>
+                        <TableHead>IS Objective</TableHead>
+                        <TableHead>OOS Objective</TableHead>
+                        <TableHead>OOS Return</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {results.walkForward.windows.map((window: any) => (
+                        <TableRow key={window.index}>
+                          <TableCell>{window.index + 1}</TableCell>
+                          <TableCell className="text-xs">
+                            {new Date(window.inSample.startDate).toLocaleDateString()} - {new Date(window.inSample.endDate).toLocaleDateString()}
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            {new Date(window.outOfSample.startDate).toLocaleDateString()} - {new Date(window.outOfSample.endDate).toLocaleDateString()}
+                          </TableCell>
+                          <TableCell className="text-xs">{formatParameters(window.bestParameters)}</TableCell>
+                          <TableCell>{formatNumber(window.inSampleObjective)}</TableCell>
+                          <TableCell>{formatNumber(window.outOfSampleObjective)}</TableCell>
+                          <TableCell>{formatPercent(window.outOfSampleReturn)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              <div>
+                <h4 className="text-sm font-medium mb-2">Top Runs</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Parameters</TableHead>
+                      {selected?.mode === "walk_forward" && <TableHead>Window</TableHead>}
+                      <TableHead>Objective</TableHead>
+                      <TableHead>Return</TableHead>
+                      <TableHead>Sharpe</TableHead>
+                      <TableHead>Max DD</TableHead>
+                      <TableHead>Trades</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rankedRuns.map((run) => (
+                      <TableRow key={run.backtestId}>
+                        <TableCell className="text-xs">{formatParameters(run.parameters)}</TableCell>
+                        {selected?.mode === "walk_forward" && <TableCell>{(run.window ?? 0) + 1}</TableCell>}
+                        <TableCell>{formatNumber(run.objective)}</TableCell>
+                        <TableCell>{formatPercent(run.totalReturn)}</TableCell>
+                        <TableCell>{formatNumber(run.sharpeRatio)}</TableCell>
+                        <TableCell>{formatPercent(run.maxDrawdown)}</TableCell>
+                        <TableCell>{run.totalTrades ?? "—"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,344 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { FlaskConical, PlusIcon, Square } from "lucide-react";
+
+interface PaperTradingSession {
+  id: number;
+  strategyId: number;
+  name: string;
+  symbol: string;
+  timeframe: string;
+  feed: "live" | "replay";
+  status: string;
+  initialCapital: string;
+  equity: number;
+  position: number;
+  candlesProcessed: number;
+  lastCandleAt: string | null;
+  error: string | null;
+}
+
+interface PaperSessionDetail {
+  trades: Array<{ id: number; side: string; quantity: number; price: string; pnl: string | null; executedAt: string }>;
+}
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  running: "default",
+  paused: "secondary",
+  error: "destructive",
+};
+
+const formatRupees = (value: number) => `₹${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+/**
+ * Paper trading sessions: forward tests of a strategy on live or replayed
+ * candles, with simulated fills recorded as paper trades. Sessions only
+ * run while their strategy is active.
+ */
+export default function PaperTradingSessions({ strategies }: { strategies: Array<{ id: number; name: string; isActive: boolean }> }) {
+  const { toast } = useToast();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [feed, setFeed] = useState<"live" | "replay">("live");
+  const [selectedSession, setSelectedSession] = useState<PaperTradingSession | null>(null);
+
+  const { data: sessions } = useQuery<PaperTradingSession[]>({
+    queryKey: ["/api/paper-trading/sessions"],
+    refetchInterval: 5000,
+  });
+
+  const { data: detail } = useQuery<PaperSessionDetail>({
+    queryKey: [`/api/paper-trading/sessions/${selectedSession?.id}`],
+    enabled: !!selectedSession,
+    refetchInterval: 5000,
+  });
+
+  const createSessionMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = await apiRequest("POST", "/api/paper-trading/sessions", data);
+      return response.json();
+    },
+    onSuccess: (session: PaperTradingSession) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/paper-trading/sessions"] });
+      setIsCreateOpen(false);
+      toast({
+        title: "Paper Trading Session Created",
+        description: session.status === "paused"
+          ? "The session starts once its strategy is activated."
+          : `${session.name} is now running.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create paper trading session",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const stopSessionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/paper-trading/sessions/${id}/stop`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/paper-trading/sessions"] });
+      toast({
+        title: "Session Stopped",
+        description: "Any open paper position was closed at the last price.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to stop paper trading session",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreate = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    createSessionMutation.mutate({
+      strategyId: Number(formData.get("strategyId")),
+      name: formData.get("name") as string,
+      symbol: formData.get("symbol") as string,
+      timeframe: formData.get("timeframe") as string,
+      dataSource: formData.get("dataSource") as string,
+      initialCapital: formData.get("initialCapital") as string,
+      feed,
+      ...(feed === "replay" && {
+        replayStart: formData.get("replayStart") as string,
+        replayEnd: formData.get("replayEnd") as string,
+        replayIntervalMs: Number(formData.get("replayIntervalMs")) || 1000,
+      }),
+    });
+  };
+
+  const strategyName = (id: number) => strategies.find((strategy) => strategy.id === id)?.name || `Strategy ${id}`;
+
+  return (
+    <Card className="bg-trading-card border-trading-border">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="w-5 h-5" />
+          Paper Trading
+        </CardTitle>
+        <Button
+          size="sm"
+          onClick={() => setIsCreateOpen(true)}
+          disabled={strategies.length === 0}
+          className="bg-trading-blue hover:bg-blue-600 text-white"
+        >
+          <PlusIcon className="w-4 h-4 mr-2" />
+          New Session
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {!sessions || sessions.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            Forward-test a strategy on live or replayed candles before trading it with real capital.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Session</TableHead>
+                <TableHead>Strategy</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Position</TableHead>
+                <TableHead>Equity</TableHead>
+                <TableHead>P&amp;L</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.map((session) => {
+                const pnl = session.equity - Number(session.initialCapital);
+                return (
+                  <TableRow key={session.id} className="cursor-pointer" onClick={() => setSelectedSession(session)}>
+                    <TableCell>
+                      <div className="font-medium">{session.name}</div>
+                      <div className="text-xs text-gray-400">
+                        {session.symbol} · {session.timeframe} · {session.feed}
+                      </div>
+                    </TableCell>
+                    <TableCell>{strategyName(session.strategyId)}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[session.status] || "outline"} title={session.error || undefined}>
+                        {session.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{session.position}</TableCell>
+                    <TableCell>{formatRupees(session.equity)}</TableCell>
+                    <TableCell className={pnl >= 0 ? "text-profit-green" : "text-loss-red"}>
+                      {pnl >= 0 ? "+" : ""}{formatRupees(pnl)}
+                    </TableCell>
+                    <TableCell>
+                      {(session.status === "running" || session.status === "paused") && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            stopSessionMutation.mutate(session.id);
+                          }}
+                          disabled={stopSessionMutation.isPending}
+                        >
+                          <Square className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="bg-trading-card border-trading-border max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New Paper Trading Session</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div>
+              <Label htmlFor="paper-strategy">Strategy</Label>
+              <Select name="strategyId" required>
+                <SelectTrigger id="paper-strategy" className="bg-gray-700 border-gray-600">
+                  <SelectValue placeholder="Select strategy" />
+                </SelectTrigger>
+                <SelectContent>
+                  {strategies.map((strategy) => (
+                    <SelectItem key={strategy.id} value={String(strategy.id)}>
+                      {strategy.name}{strategy.isActive ? "" : " (inactive)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="paper-name">Name</Label>
+                <Input id="paper-name" name="name" required className="bg-gray-700 border-gray-600" />
+              </div>
+              <div>
+                <Label htmlFor="paper-symbol">Symbol</Label>
+                <Input id="paper-symbol" name="symbol" placeholder="RELIANCE" required className="bg-gray-700 border-gray-600" />
+              </div>
+              <div>
+                <Label htmlFor="paper-timeframe">Timeframe</Label>
+                <Input id="paper-timeframe" name="timeframe" defaultValue="5minute" required className="bg-gray-700 border-gray-600" />
+              </div>
+              <div>
+                <Label htmlFor="paper-capital">Capital</Label>
+                <Input id="paper-capital" name="initialCapital" type="number" defaultValue="100000" min="1" required className="bg-gray-700 border-gray-600" />
+              </div>
+              <div>
+                <Label htmlFor="paper-source">Data Source</Label>
+                <Select name="dataSource" defaultValue="upstox">
+                  <SelectTrigger id="paper-source" className="bg-gray-700 border-gray-600">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="upstox">Upstox</SelectItem>
+                    <SelectItem value="database">Database</SelectItem>
+                    <SelectItem value="csv">CSV</SelectItem>
+                    <SelectItem value="synthetic">Synthetic</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="paper-feed">Feed</Label>
+                <Select value={feed} onValueChange={(value) => setFeed(value as "live" | "replay")}>
+                  <SelectTrigger id="paper-feed" className="bg-gray-700 border-gray-600">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="live">Live candles</SelectItem>
+                    <SelectItem value="replay">Replay a period</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {feed === "replay" && (
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="paper-replay-start">From</Label>
+                  <Input id="paper-replay-start" name="replayStart" type="date" required className="bg-gray-700 border-gray-600" />
+                </div>
+                <div>
+                  <Label htmlFor="paper-replay-end">To</Label>
+                  <Input id="paper-replay-end" name="replayEnd" type="date" required className="bg-gray-700 border-gray-600" />
+                </div>
+                <div>
+                  <Label htmlFor="paper-replay-interval">ms per candle</Label>
+                  <Input id="paper-replay-interval" name="replayIntervalMs" type="number" defaultValue="1000" min="50" className="bg-gray-700 border-gray-600" />
+                </div>
+              </div>
+            )}
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={createSessionMutation.isPending}
+                className="bg-trading-blue hover:bg-blue-600 text-white"
+              >
+                {createSessionMutation.isPending ? "Starting..." : "Start"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!selectedSession} onOpenChange={(open) => !open && setSelectedSession(null)}>
+        <DialogContent className="bg-trading-card border-trading-border max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Paper Trades{selectedSession ? `: ${selectedSession.name}` : ""}</DialogTitle>
+          </DialogHeader>
+          {selectedSession?.error && <p className="text-sm text-red-400">{selectedSession.error}</p>}
+          {!detail || detail.trades.length === 0 ? (
+            <p className="text-sm text-gray-400">No paper trades yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Side</TableHead>
+                  <TableHead>Qty</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>P&amp;L</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {detail.trades.map((trade) => (
+                  <TableRow key={trade.id}>
+                    <TableCell className="text-xs">{new Date(trade.executedAt).toLocaleString()}</TableCell>
+                    <TableCell className={trade.side === "BUY" ? "text-profit-green" : "text-loss-red"}>{trade.side}</TableCell>
+                    <TableCell>{trade.quantity}</TableCell>
+                    <TableCell>{Number(trade.price).toFixed(2)}</TableCell>
+                    <TableCell>{trade.pnl !== null ? Number(trade.pnl).toFixed(2) : "—"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
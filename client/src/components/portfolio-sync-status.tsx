@@ -0,0 +1,110 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AlertTriangleIcon, RefreshCwIcon } from "lucide-react";
+
+interface PortfolioDiscrepancy {
+  type: "quantity_mismatch" | "missing_at_broker" | "untracked_position" | "fill_mismatch";
+  symbol: string;
+  message: string;
+}
+
+interface PortfolioSyncStatus {
+  enabled: boolean;
+  syncedAt: string | null;
+  discrepancies: PortfolioDiscrepancy[];
+}
+
+const DISCREPANCY_LABELS: Record<PortfolioDiscrepancy["type"], string> = {
+  quantity_mismatch: "Quantity mismatch",
+  missing_at_broker: "Missing at broker",
+  untracked_position: "Untracked position",
+  fill_mismatch: "Fill mismatch",
+};
+
+/**
+ * When positions were last synced from Upstox by the Portfolio Sync module,
+ * and the day's mismatches between the broker and the local records.
+ */
+export default function PortfolioSyncStatusCard() {
+  const { toast } = useToast();
+
+  const { data } = useQuery<PortfolioSyncStatus>({
+    queryKey: ["/api/portfolio/sync"],
+    refetchInterval: 30000,
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/portfolio/sync");
+      return response.json();
+    },
+    onSuccess: (result: { positions: { created: number; updated: number; closed: number }; trades: { imported: number } }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/sync"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/positions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/positions/open"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trades"] });
+      const { created, updated, closed } = result.positions;
+      toast({
+        title: "Portfolio Synced",
+        description: `${created + updated + closed} positions changed, ${result.trades.imported} trades imported.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sync portfolio",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="bg-trading-card border-trading-border">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Broker Sync</CardTitle>
+          <p className="text-sm text-gray-400 mt-1">
+            {data?.syncedAt ? `Last synced ${new Date(data.syncedAt).toLocaleString()}` : "Not synced yet"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {data && (
+            <Badge variant={data.enabled ? "default" : "secondary"}>
+              {data.enabled ? "Syncing" : "Portfolio Sync stopped"}
+            </Badge>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => syncMutation.mutate()}
+            disabled={!data?.enabled || syncMutation.isPending}
+          >
+            <RefreshCwIcon className={`w-4 h-4 mr-2 ${syncMutation.isPending ? "animate-spin" : ""}`} />
+            Sync Now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!data || data.discrepancies.length === 0 ? (
+          <p className="text-sm text-gray-400">No discrepancies with the broker today.</p>
+        ) : (
+          <ul className="space-y-2">
+            {data.discrepancies.map((discrepancy, index) => (
+              <li key={index} className="flex items-start gap-2 text-sm">
+                <AlertTriangleIcon className="w-4 h-4 mt-0.5 text-yellow-500 shrink-0" />
+                <span>
+                  <span className="font-medium">{DISCREPANCY_LABELS[discrepancy.type]}:</span>{" "}
+                  <span className="text-gray-300">{discrepancy.message}</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,10 +4,14 @@ import { Badge } from "@/components/ui/badge";
 import { ArrowUpIcon, ArrowDownIcon } from "lucide-react";
 import { wsManager } from "@/lib/websocket";
 import { useEffect, useState } from "react";
-import { Position } from "@/types/trading";
+import { Position, Quote } from "@/types/trading";
+
+// Quote channel for a position: the exact instrument when synced from the broker
+const quoteKey = (position: Position) => position.instrumentKey || position.symbol;
 
 export default function PositionsTable() {
   const [positions, setPositions] = useState<Position[]>([]);
+  const [quotes, setQuotes] = useState<Record<string, Quote>>({});
 
   const { data: initialPositions, isLoading } = useQuery({
     queryKey: ["/api/positions/open"],
@@ -32,6 +36,21 @@ export default function PositionsTable() {
     };
   }, []);
 
+  // Live prices for the open positions, re-subscribed when the set of instruments changes
+  const quoteKeys = Array.from(new Set(positions.map(quoteKey))).sort().join("\n");
+  useEffect(() => {
+    const keys = quoteKeys ? quoteKeys.split("\n") : [];
+    keys.forEach((key) => {
+      wsManager.subscribeToQuote(key, (quote) => {
+        setQuotes((prev) => ({ ...prev, [key]: quote }));
+      });
+    });
+
+    return () => {
+      keys.forEach((key) => wsManager.unsubscribeFromQuote(key));
+    };
+  }, [quoteKeys]);
+
   if (isLoading) {
     return (
       <div className="space-y-2">
@@ -66,9 +85,11 @@ export default function PositionsTable() {
         </thead>
         <tbody className="text-sm">
           {positions.map((position) => {
-            const pnl = parseFloat(position.pnl || "0");
-            const dayChange = parseFloat(position.dayChange || "0");
-            const currentPrice = position.currentPrice ? parseFloat(position.currentPrice) : parseFloat(position.avgPrice);
+            const quote = quotes[quoteKey(position)];
+            const avgPrice = parseFloat(position.avgPrice);
+            const currentPrice = quote?.ltp ?? (position.currentPrice ? parseFloat(position.currentPrice) : avgPrice);
+            const pnl = quote ? (quote.ltp - avgPrice) * position.quantity : parseFloat(position.pnl || "0");
+            const dayChange = quote?.changePercent ?? parseFloat(position.dayChange || "0");
             
             return (
               <tr key={position.id} className="border-b border-gray-800 hover:bg-gray-800/50 transition-colors">
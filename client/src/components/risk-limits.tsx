@@ -0,0 +1,132 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ShieldIcon } from "lucide-react";
+
+interface RiskLimits {
+  maxOrderValue?: number | null;
+  maxQuantityPerSymbol?: number | null;
+  maxOpenPositions?: number | null;
+  dailyLossLimit?: number | null;
+  priceBandPercent?: number | null;
+  allowedInstruments?: string[];
+}
+
+const NUMERIC_LIMITS: Array<{ key: keyof Omit<RiskLimits, "allowedInstruments">; label: string; step: string }> = [
+  { key: "maxOrderValue", label: "Max order value (₹)", step: "1" },
+  { key: "maxQuantityPerSymbol", label: "Max quantity per symbol", step: "1" },
+  { key: "maxOpenPositions", label: "Max open positions", step: "1" },
+  { key: "dailyLossLimit", label: "Daily loss limit (₹)", step: "1" },
+  { key: "priceBandPercent", label: "Price band vs LTP (%)", step: "0.1" },
+];
+
+/**
+ * The current user's pre-trade limits, checked by the Risk Manager module
+ * on every order while it runs. Empty fields mean no limit.
+ */
+export default function RiskLimitsCard() {
+  const { toast } = useToast();
+
+  const { data } = useQuery<{ enabled: boolean; limits: RiskLimits }>({
+    queryKey: ["/api/risk/limits"],
+  });
+
+  const saveLimitsMutation = useMutation({
+    mutationFn: async (limits: RiskLimits) => {
+      const response = await apiRequest("PUT", "/api/risk/limits", limits);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/risk/limits"] });
+      toast({ title: "Risk Limits Saved", description: "New orders are checked against the updated limits." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save risk limits",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const limits: RiskLimits = {};
+    for (const { key } of NUMERIC_LIMITS) {
+      const value = formData.get(key) as string;
+      limits[key] = value ? Number(value) : null;
+    }
+    limits.allowedInstruments = (formData.get("allowedInstruments") as string)
+      .split(/[,\n]/)
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    saveLimitsMutation.mutate(limits);
+  };
+
+  return (
+    <Card className="bg-trading-card border-trading-border">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <ShieldIcon className="w-5 h-5" />
+          Risk Limits
+        </CardTitle>
+        {data && (
+          <Badge variant={data.enabled ? "default" : "secondary"}>
+            {data.enabled ? "Enforced" : "Risk Manager stopped"}
+          </Badge>
+        )}
+      </CardHeader>
+      <CardContent>
+        {!data ? (
+          <p className="text-sm text-gray-400">Loading limits...</p>
+        ) : (
+          // Remounted when saved limits change so the inputs pick up the new defaults
+          <form key={JSON.stringify(data.limits)} onSubmit={handleSave} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+              {NUMERIC_LIMITS.map(({ key, label, step }) => (
+                <div key={key}>
+                  <Label htmlFor={`risk-${key}`}>{label}</Label>
+                  <Input
+                    id={`risk-${key}`}
+                    name={key}
+                    type="number"
+                    min={step}
+                    step={step}
+                    placeholder="No limit"
+                    defaultValue={data.limits[key] ?? ""}
+                    className="bg-gray-700 border-gray-600"
+                  />
+                </div>
+              ))}
+            </div>
+            <div>
+              <Label htmlFor="risk-allowedInstruments">Allowed instruments</Label>
+              <Input
+                id="risk-allowedInstruments"
+                name="allowedInstruments"
+                placeholder="Symbols or instrument keys, comma separated; empty allows all"
+                defaultValue={(data.limits.allowedInstruments || []).join(", ")}
+                className="bg-gray-700 border-gray-600"
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                disabled={saveLimitsMutation.isPending}
+                className="bg-trading-blue hover:bg-blue-600 text-white"
+              >
+                {saveLimitsMutation.isPending ? "Saving..." : "Save Limits"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
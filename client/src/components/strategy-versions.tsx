@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RotateCcw } from "lucide-react";
+
+interface StrategyVersion {
+  id: number;
+  version: number;
+  changeNote: string | null;
+  restoredFrom: number | null;
+  createdAt: string;
+}
+
+interface StrategyVersionDiff {
+  added: number;
+  removed: number;
+  parametersChanged: boolean;
+  lines: Array<{ type: "same" | "added" | "removed"; text: string; oldLine: number | null; newLine: number | null }>;
+}
+
+// Unchanged lines kept around each change; longer unchanged runs are collapsed
+const CONTEXT_LINES = 3;
+
+function visibleLines(lines: StrategyVersionDiff["lines"]) {
+  const changed = lines.map((line) => line.type !== "same");
+  return lines.map((line, index) => {
+    const near = changed.slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1).some(Boolean);
+    return { line, visible: line.type !== "same" || near };
+  });
+}
+
+/**
+ * Version history of one strategy: every saved revision, a line diff
+ * between any two of them, and rollback, which saves an old version as
+ * the newest one.
+ */
+export default function StrategyVersions({ strategyId }: { strategyId: number }) {
+  const { toast } = useToast();
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+
+  const { data, isLoading } = useQuery<{ currentVersion: number; versions: StrategyVersion[] }>({
+    queryKey: [`/api/strategies/${strategyId}/versions`],
+  });
+
+  // Default to the change that produced the current version
+  useEffect(() => {
+    if (data && to === null) {
+      setTo(data.currentVersion);
+      setFrom(data.versions.find((version) => version.version < data.currentVersion)?.version ?? data.currentVersion);
+    }
+  }, [data, to]);
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery<StrategyVersionDiff>({
+    queryKey: [`/api/strategies/${strategyId}/diff?from=${from}&to=${to}`],
+    enabled: from !== null && to !== null,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await apiRequest("POST", `/api/strategies/${strategyId}/versions/${version}/rollback`);
+      return response.json();
+    },
+    onSuccess: (version: StrategyVersion) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/strategies"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/strategies/${strategyId}/versions`] });
+      setTo(version.version);
+      toast({
+        title: "Strategy Rolled Back",
+        description: `Version ${version.restoredFrom} was restored as version ${version.version}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to roll back strategy",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !data) {
+    return <p className="text-sm text-gray-400">Loading versions...</p>;
+  }
+
+  const versionSelect = (value: number | null, onChange: (version: number) => void) => (
+    <Select value={value !== null ? String(value) : undefined} onValueChange={(version) => onChange(Number(version))}>
+      <SelectTrigger className="w-28 bg-trading-dark border-trading-border">
+        <SelectValue placeholder="Version" />
+      </SelectTrigger>
+      <SelectContent>
+        {data.versions.map((version) => (
+          <SelectItem key={version.id} value={String(version.version)}>v{version.version}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2 max-h-56 overflow-y-auto">
+        {data.versions.map((version) => (
+          <div key={version.id} className="flex items-center justify-between p-2 bg-trading-dark rounded">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">v{version.version}</span>
+                {version.version === data.currentVersion && <Badge>Current</Badge>}
+                <span className="text-xs text-gray-400">{new Date(version.createdAt).toLocaleString()}</span>
+              </div>
+              <p className="text-sm text-gray-400 truncate">{version.changeNote || "No description"}</p>
+            </div>
+            {version.version !== data.currentVersion && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => rollbackMutation.mutate(version.version)}
+                disabled={rollbackMutation.isPending}
+              >
+                <RotateCcw className="w-4 h-4 mr-1" />
+                Roll back
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <div className="flex items-center gap-2 mb-2">
+          <h4 className="font-medium mr-2">Changes</h4>
+          {versionSelect(from, setFrom)}
+          <span className="text-gray-400">→</span>
+          {versionSelect(to, setTo)}
+          {diff && (
+            <span className="text-sm ml-auto">
+              <span className="text-green-400">+{diff.added}</span>{" "}
+              <span className="text-red-400">-{diff.removed}</span>
+              {diff.parametersChanged && <span className="text-yellow-400 ml-2">parameters changed</span>}
+            </span>
+          )}
+        </div>
+        {isDiffLoading || !diff ? (
+          <p className="text-sm text-gray-400">Loading diff...</p>
+        ) : diff.added === 0 && diff.removed === 0 ? (
+          <p className="text-sm text-gray-400">The code is identical in both versions</p>
+        ) : (
+          <pre className="bg-trading-dark rounded p-2 text-xs font-mono overflow-auto max-h-96">
+            {visibleLines(diff.lines).map(({ line, visible }, index, all) => {
+              if (!visible) {
+                // One marker per collapsed run
+                return all[index - 1]?.visible !== false
+                  ? <div key={index} className="text-gray-500">⋯</div>
+                  : null;
+              }
+              const style = line.type === "added"
+                ? "bg-green-900/40 text-green-300"
+                : line.type === "removed" ? "bg-red-900/40 text-red-300" : "text-gray-300";
+              return (
+                <div key={index} className={`flex ${style}`}>
+                  <span className="w-10 shrink-0 text-right pr-2 text-gray-500">{line.oldLine ?? ""}</span>
+                  <span className="w-10 shrink-0 text-right pr-2 text-gray-500">{line.newLine ?? ""}</span>
+                  <span className="w-4 shrink-0">{line.type === "added" ? "+" : line.type === "removed" ? "-" : " "}</span>
+                  <span className="whitespace-pre">{line.text}</span>
+                </div>
+              );
+            })}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -12,16 +12,14 @@ class WebSocketManager {
     try {
       const wsUrl = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
       const wsHost = window.location.host;
-      this.ws = new WebSocket(`${wsUrl}//${wsHost}`);
+      this.ws = new WebSocket(`${wsUrl}//${wsHost}/ws`);
 
       this.ws.onopen = () => {
         console.log('WebSocket connected');
         this.reconnectAttempts = 0;
         
-        // Re-subscribe to previous subscriptions
-        this.subscriptions.forEach(channel => {
-          this.subscribe(channel);
-        });
+        // Authenticate first so private channels are accepted, then re-subscribe
+        this.authenticate();
       };
 
       this.ws.onmessage = (event) => {
@@ -88,6 +86,13 @@ class WebSocketManager {
         }
         break;
         
+      case 'order_update':
+        const orderHandler = this.messageHandlers.get('orders');
+        if (orderHandler) {
+          orderHandler(data);
+        }
+        break;
+        
       case 'strategy_update':
         const strategyHandler = this.messageHandlers.get('strategies');
         if (strategyHandler) {
@@ -102,6 +107,13 @@ class WebSocketManager {
         }
         break;
         
+      case 'market_status':
+        const marketStatusHandler = this.messageHandlers.get('market_status');
+        if (marketStatusHandler) {
+          marketStatusHandler(data);
+        }
+        break;
+        
       case 'module_update':
         const moduleHandler = this.messageHandlers.get('modules');
         if (moduleHandler) {
@@ -111,8 +123,13 @@ class WebSocketManager {
         
       case 'connection':
       case 'auth':
+        // Handshake acknowledgements, nothing to do
+        break;
+        
       case 'subscription':
-        console.log(`WebSocket ${type}:`, data);
+        if (message.status === 'rejected') {
+          console.warn(`WebSocket subscription to ${channel} rejected:`, message.error);
+        }
         break;
         
       case 'error':
@@ -124,32 +141,41 @@ class WebSocketManager {
     }
   }
 
+  // Channels subscribed before the socket opens are sent once it connects
   subscribe(channel: string) {
+    this.subscriptions.add(channel);
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify({
         type: 'subscribe',
         channel: channel
       }));
-      this.subscriptions.add(channel);
     }
   }
 
   unsubscribe(channel: string) {
+    this.subscriptions.delete(channel);
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify({
         type: 'unsubscribe',
         channel: channel
       }));
-      this.subscriptions.delete(channel);
     }
   }
 
-  authenticate(userId: number) {
+  // The server also accepts the session cookie sent with the connection; the
+  // stored auth token covers token-only logins. Subscriptions are re-sent so
+  // private channels rejected before authenticating are picked up.
+  authenticate(authToken: string | null = localStorage.getItem('authToken')) {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify({
-        type: 'auth',
-        userId: userId
-      }));
+      if (authToken) {
+        this.ws.send(JSON.stringify({
+          type: 'auth',
+          authToken: authToken
+        }));
+      }
+      this.subscriptions.forEach(channel => {
+        this.subscribe(channel);
+      });
     }
   }
 
@@ -183,6 +209,12 @@ class WebSocketManager {
     this.subscribe(channel);
   }
 
+  unsubscribeFromQuote(symbol: string) {
+    const channel = `quote:${symbol}`;
+    this.offMessage(channel);
+    this.unsubscribe(channel);
+  }
+
   subscribeToPortfolio(handler: (data: any) => void) {
     this.onMessage('portfolio', handler);
     this.subscribe('portfolio');
@@ -193,6 +225,11 @@ class WebSocketManager {
     this.subscribe('trades');
   }
 
+  subscribeToOrders(handler: (data: any) => void) {
+    this.onMessage('orders', handler);
+    this.subscribe('orders');
+  }
+
   subscribeToStrategies(handler: (data: any) => void) {
     this.onMessage('strategies', handler);
     this.subscribe('strategies');
@@ -220,9 +257,6 @@ export const wsManager = new WebSocketManager();
 if (typeof window !== 'undefined') {
   wsManager.connect();
   
-  // Authenticate with default user ID (in real app, get from auth context)
-  wsManager.authenticate(1);
-  
   // Ping every 30 seconds to keep connection alive
   setInterval(() => {
     wsManager.ping();
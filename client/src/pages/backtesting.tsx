@@ -8,11 +8,18 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient";
-import { PlayIcon, ChartBarIcon, TrendingUpIcon, TrendingDownIcon, StopCircleIcon, EyeIcon, CalendarIcon } from "lucide-react";
+import InstrumentSearch from "@/components/instrument-search";
+import OptimizationPanel from "@/components/optimization-panel";
+import BacktestComparison from "@/components/backtest-comparison";
+import { PlayIcon, ChartBarIcon, TrendingUpIcon, TrendingDownIcon, StopCircleIcon, EyeIcon, CalendarIcon, GitCompareIcon, DownloadIcon, RefreshCwIcon } from "lucide-react";
+
+const MAX_COMPARED_BACKTESTS = 5;
 
 export default function Backtesting() {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
@@ -20,6 +27,9 @@ export default function Backtesting() {
   const [selectedBacktest, setSelectedBacktest] = useState<any>(null);
   const [showTradesModal, setShowTradesModal] = useState(false);
   const [editFormData, setEditFormData] = useState<any>({});
+  const [universe, setUniverse] = useState<"single" | "basket">("single");
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+  const [showCompareModal, setShowCompareModal] = useState(false);
   const { toast } = useToast();
 
   const { data: backtests = [], isLoading, error } = useQuery<any[]>({
@@ -38,6 +48,15 @@ export default function Backtesting() {
     queryKey: ["/api/strategies"],
   });
 
+  const { data: dataSources = [] } = useQuery<{ name: string; description: string }[]>({
+    queryKey: ["/api/market-data/sources"],
+  });
+
+  const { data: baskets = [] } = useQuery<{ indexGroup: string; symbols: number }[]>({
+    queryKey: ["/api/market-data/baskets"],
+    enabled: isCreateModalOpen && universe === "basket",
+  });
+
   const { data: selectedBacktestTrades = [] } = useQuery<any[]>({
     queryKey: [`/api/backtests/${selectedBacktest?.id}/trades`],
     enabled: !!selectedBacktest,
@@ -65,6 +84,51 @@ export default function Backtesting() {
     },
   });
 
+  const rerunBacktestMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/backtests/${id}/rerun`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/backtests"] });
+      toast({
+        title: "Rerun Queued",
+        description: "The backtest will be rerun with identical settings and checked against the original.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to rerun backtest",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const exportBacktestMutation = useMutation({
+    mutationFn: async ({ backtest, format, section }: { backtest: any; format: "csv" | "json" | "html"; section?: "equity" }) => {
+      const res = await apiRequest("GET", `/api/backtests/${backtest.id}/export?format=${format}${section ? `&section=${section}` : ""}`);
+      return res.blob();
+    },
+    onSuccess: (blob, { backtest, format, section }) => {
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${backtest.name}-${backtest.id}${format === "csv" ? (section === "equity" ? "-equity" : "-trades") : ""}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Export Failed",
+        description: error.message || "Failed to export backtest",
+        variant: "destructive",
+      });
+    },
+  });
+
   const cancelBacktestMutation = useMutation({
     mutationFn: async (backtestId: number) => {
       const response = await apiRequest("POST", `/api/backtests/${backtestId}/cancel`, {});
@@ -133,15 +197,52 @@ export default function Backtesting() {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
     
+    const indexGroup = String(formData.get("indexGroup") || "");
+    const symbols = String(formData.get("symbols") || "")
+      .split(",")
+      .map((symbol) => symbol.trim().toUpperCase())
+      .filter(Boolean);
+    const basket = universe === "basket"
+      ? {
+          symbol: indexGroup || symbols[0] || null,
+          instrumentKey: null,
+          symbols: indexGroup ? null : symbols,
+          portfolio: {
+            indexGroup: indexGroup || undefined,
+            maxPositions: Number(formData.get("maxPositions")) || undefined,
+            maxPositionPercent: Number(formData.get("maxPositionPercent")) || undefined,
+          },
+        }
+      : null;
+
     const data = {
       name: formData.get("name"),
       strategyId: Number(formData.get("strategyId")),
       symbol: formData.get("symbol"),
+      instrumentKey: formData.get("instrumentKey") || null,
+      ...basket,
       timeframe: formData.get("timeframe"),
+      dataSource: formData.get("dataSource") || "upstox",
+      costModel: {
+        preset: formData.get("costPreset") || "equity_intraday",
+        fillMode: formData.get("fillMode") || "next_open",
+        slippage: { type: "bps", value: Number(formData.get("slippageBps") || 0) },
+      },
       startDate: formData.get("startDate"),
       endDate: formData.get("endDate"),
       initialCapital: Number(formData.get("initialCapital")),
     };
+
+    if (!data.symbol) {
+      toast({
+        title: universe === "basket" ? "Select a basket" : "Select an instrument",
+        description: universe === "basket"
+          ? "Pick an index or enter comma-separated symbols"
+          : "Search for the stock, index or contract to backtest",
+        variant: "destructive",
+      });
+      return;
+    }
     
     createBacktestMutation.mutate(data);
   };
@@ -150,7 +251,9 @@ export default function Backtesting() {
     setSelectedBacktest(backtest);
     setEditFormData({
       symbol: backtest.symbol,
+      instrumentKey: backtest.instrumentKey,
       timeframe: backtest.timeframe,
+      dataSource: backtest.dataSource || "upstox",
       startDate: backtest.startDate?.split('T')[0],
       endDate: backtest.endDate?.split('T')[0],
       initialCapital: backtest.initialCapital,
@@ -164,10 +267,13 @@ export default function Backtesting() {
     
     const updateData = {
       symbol: formData.get("symbol"),
+      instrumentKey: formData.get("instrumentKey") || null,
       timeframe: formData.get("timeframe"),
+      dataSource: formData.get("dataSource"),
       startDate: formData.get("startDate"),
       endDate: formData.get("endDate"),
       initialCapital: Number(formData.get("initialCapital")),
+      useLatestVersion: formData.get("useLatestVersion") === "on",
     };
 
     duplicateBacktestMutation.mutate({ id: selectedBacktest.id, data: updateData });
@@ -205,29 +311,34 @@ export default function Backtesting() {
     return `${(numValue * 100).toFixed(2)}%`;
   };
 
-  // Stock/Index options
-  const symbolOptions = [
-    { value: "NIFTY", label: "NIFTY 50" },
-    { value: "BANKNIFTY", label: "BANK NIFTY" },
-    { value: "RELIANCE", label: "Reliance Industries" },
-    { value: "TCS", label: "Tata Consultancy Services" },
-    { value: "HDFCBANK", label: "HDFC Bank" },
-    { value: "INFY", label: "Infosys" },
-    { value: "ICICIBANK", label: "ICICI Bank" },
-    { value: "HINDUNILVR", label: "Hindustan Unilever" },
-    { value: "ITC", label: "ITC Limited" },
-    { value: "KOTAKBANK", label: "Kotak Mahindra Bank" }
-  ];
-
   // Timeframe options
   const timeframeOptions = [
     { value: "1minute", label: "1 Minute" },
+    { value: "3minute", label: "3 Minutes" },
     { value: "5minute", label: "5 Minutes" },
+    { value: "10minute", label: "10 Minutes" },
     { value: "15minute", label: "15 Minutes" },
+    { value: "30minute", label: "30 Minutes" },
     { value: "1hour", label: "1 Hour" },
-    { value: "1day", label: "1 Day" }
+    { value: "75minute", label: "75 Minutes" },
+    { value: "1day", label: "1 Day" },
+    { value: "1week", label: "1 Week" },
+    { value: "1month", label: "1 Month" }
+  ];
+
+  const costPresetOptions = [
+    { value: "equity_intraday", label: "Equity intraday" },
+    { value: "equity_delivery", label: "Equity delivery" },
+    { value: "futures", label: "Futures" },
+    { value: "options", label: "Options" },
+    { value: "none", label: "No charges" }
   ];
 
+  const formatTimeframe = (backtest: any) =>
+    backtest.sourceInterval && backtest.sourceInterval !== backtest.timeframe
+      ? `${backtest.timeframe} (from ${backtest.sourceInterval})`
+      : backtest.timeframe;
+
   if (isLoading) {
     return (
       <div className="p-6">
@@ -266,9 +377,14 @@ export default function Backtesting() {
     );
   }
 
-  const runningBacktests = (backtests as any[]).filter((bt: any) => bt.status === 'running');
+  // Queued backtests are listed with running ones so they can be cancelled before they start
+  const runningBacktests = (backtests as any[]).filter((bt: any) => bt.status === 'running' || bt.status === 'pending');
   const completedBacktests = (backtests as any[]).filter((bt: any) => bt.status === 'completed');
 
+  const toggleCompare = (id: number, checked: boolean) => {
+    setCompareIds((ids) => checked ? [...ids, id].slice(-MAX_COMPARED_BACKTESTS) : ids.filter((other) => other !== id));
+  };
+
   return (
     <div className="p-6 space-y-6">
       <div className="flex items-center justify-between">
@@ -316,22 +432,82 @@ export default function Backtesting() {
                 </div>
               </div>
               
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="symbol">Stock/Index</Label>
-                  <Select name="symbol" required>
-                    <SelectTrigger className="bg-trading-dark border-trading-border">
-                      <SelectValue placeholder="Select symbol" />
-                    </SelectTrigger>
-                    <SelectContent className="bg-trading-card border-trading-border">
-                      {symbolOptions.map((option) => (
-                        <SelectItem key={option.value} value={option.value}>
-                          {option.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+              <div className="space-y-2">
+                <Label>Universe</Label>
+                <Select value={universe} onValueChange={(value) => setUniverse(value as "single" | "basket")}>
+                  <SelectTrigger className="bg-trading-dark border-trading-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-trading-card border-trading-border">
+                    <SelectItem value="single">Single instrument</SelectItem>
+                    <SelectItem value="basket">Basket (portfolio)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {universe === "basket" && (
+                <div className="space-y-4 rounded-md border border-trading-border p-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="indexGroup">Index</Label>
+                      <Select name="indexGroup">
+                        <SelectTrigger className="bg-trading-dark border-trading-border">
+                          <SelectValue placeholder="Select index" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-trading-card border-trading-border">
+                          {baskets.map((basket) => (
+                            <SelectItem key={basket.indexGroup} value={basket.indexGroup}>
+                              {basket.indexGroup} ({basket.symbols})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="symbols">Or symbols</Label>
+                      <Input
+                        id="symbols"
+                        name="symbols"
+                        placeholder="RELIANCE, TCS, INFY"
+                        className="bg-trading-dark border-trading-border"
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="maxPositions">Max Open Positions</Label>
+                      <Input
+                        id="maxPositions"
+                        name="maxPositions"
+                        type="number"
+                        min="1"
+                        placeholder="5"
+                        className="bg-trading-dark border-trading-border"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="maxPositionPercent">Max % of Capital per Position</Label>
+                      <Input
+                        id="maxPositionPercent"
+                        name="maxPositionPercent"
+                        type="number"
+                        min="1"
+                        max="100"
+                        placeholder="20"
+                        className="bg-trading-dark border-trading-border"
+                      />
+                    </div>
+                  </div>
                 </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                {universe === "single" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="symbol">Stock/Index</Label>
+                    <InstrumentSearch className="bg-trading-dark border-trading-border" />
+                  </div>
+                )}
                 <div className="space-y-2">
                   <Label htmlFor="timeframe">Timeframe</Label>
                   <Select name="timeframe" required>
@@ -372,17 +548,76 @@ export default function Backtesting() {
                 </div>
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="initialCapital">Initial Capital (₹)</Label>
-                <Input 
-                  id="initialCapital" 
-                  name="initialCapital" 
-                  type="number"
-                  placeholder="100000"
-                  min="1000"
-                  required 
-                  className="bg-trading-dark border-trading-border"
-                />
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="initialCapital">Initial Capital (₹)</Label>
+                  <Input 
+                    id="initialCapital" 
+                    name="initialCapital" 
+                    type="number"
+                    placeholder="100000"
+                    min="1000"
+                    required 
+                    className="bg-trading-dark border-trading-border"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="dataSource">Data Source</Label>
+                  <Select name="dataSource" defaultValue="upstox">
+                    <SelectTrigger className="bg-trading-dark border-trading-border">
+                      <SelectValue placeholder="Select data source" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-trading-card border-trading-border">
+                      {dataSources.map((source) => (
+                        <SelectItem key={source.name} value={source.name}>
+                          {source.description}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="costPreset">Charges</Label>
+                  <Select name="costPreset" defaultValue="equity_intraday">
+                    <SelectTrigger className="bg-trading-dark border-trading-border">
+                      <SelectValue placeholder="Select charges" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-trading-card border-trading-border">
+                      {costPresetOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fillMode">Fills</Label>
+                  <Select name="fillMode" defaultValue="next_open">
+                    <SelectTrigger className="bg-trading-dark border-trading-border">
+                      <SelectValue placeholder="Select fill model" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-trading-card border-trading-border">
+                      <SelectItem value="next_open">Next bar open</SelectItem>
+                      <SelectItem value="close">Signal bar close</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="slippageBps">Slippage (bps)</Label>
+                  <Input
+                    id="slippageBps"
+                    name="slippageBps"
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    defaultValue="2"
+                    className="bg-trading-dark border-trading-border"
+                  />
+                </div>
               </div>
 
               <div className="flex justify-end gap-3">
@@ -414,6 +649,11 @@ export default function Backtesting() {
             <CardTitle className="flex items-center gap-2">
               <div className="w-3 h-3 bg-blue-500 rounded-full animate-pulse"></div>
               Running Backtests
+              {runningBacktests.some((bt: any) => bt.status === 'pending') && (
+                <span className="text-sm font-normal text-gray-400">
+                  ({runningBacktests.filter((bt: any) => bt.status === 'pending').length} queued)
+                </span>
+              )}
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -424,9 +664,12 @@ export default function Backtesting() {
                     <div>
                       <h3 className="font-semibold">{backtest.name}</h3>
                       <p className="text-sm text-gray-400">
-                        {backtest.symbol} • {backtest.timeframe}
+                        {backtest.symbol} • {formatTimeframe(backtest)}
                       </p>
                     </div>
+                    {backtest.status === 'pending' && (
+                      <Badge className={`${getStatusBadge(backtest.status)} text-white ml-auto mr-2`}>Queued</Badge>
+                    )}
                     <Button
                       variant="outline"
                       size="sm"
@@ -454,10 +697,27 @@ export default function Backtesting() {
         </Card>
       )}
 
+      <OptimizationPanel
+        strategies={strategies}
+        dataSources={dataSources}
+        timeframeOptions={timeframeOptions}
+        costPresetOptions={costPresetOptions}
+      />
+
       {/* Completed Backtests */}
       <Card className="bg-trading-card border-trading-border">
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>Backtest Results</CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowCompareModal(true)}
+            disabled={compareIds.length < 2}
+            className="border-trading-border"
+          >
+            <GitCompareIcon className="w-4 h-4 mr-1" />
+            Compare ({compareIds.length})
+          </Button>
         </CardHeader>
         <CardContent>
           {completedBacktests.length === 0 ? (
@@ -472,14 +732,38 @@ export default function Backtesting() {
                 <Card key={backtest.id} className="bg-trading-dark border-trading-border">
                   <CardContent className="p-4">
                     <div className="flex items-center justify-between mb-4">
-                      <div>
-                        <h3 className="font-semibold mb-1">{backtest.name}</h3>
-                        <div className="flex items-center gap-4 text-sm text-gray-400">
-                          <span>{backtest.symbol} • {backtest.timeframe}</span>
-                          <span className="flex items-center gap-1">
-                            <CalendarIcon className="w-4 h-4" />
-                            {new Date(backtest.startDate).toLocaleDateString()} - {new Date(backtest.endDate).toLocaleDateString()}
-                          </span>
+                      <div className="flex items-start gap-3">
+                        <Checkbox
+                          className="mt-1"
+                          checked={compareIds.includes(backtest.id)}
+                          onCheckedChange={(checked) => toggleCompare(backtest.id, checked === true)}
+                          aria-label={`Select ${backtest.name} for comparison`}
+                        />
+                        <div>
+                          <h3 className="font-semibold mb-1 flex items-center gap-2">
+                            {backtest.name}
+                            {backtest.results?.rerun && (
+                              <Badge
+                                className={`text-white ${!backtest.results.rerun.comparable ? "bg-gray-600" : backtest.results.rerun.identical ? "bg-green-600" : "bg-yellow-600"}`}
+                                title={backtest.results.rerun.differences
+                                  .map((difference: any) => `${difference.field}: ${JSON.stringify(difference.original)} → ${JSON.stringify(difference.rerun)}`)
+                                  .join("\n")}
+                              >
+                                {!backtest.results.rerun.comparable
+                                  ? `Original #${backtest.results.rerun.rerunOf} has no fingerprint`
+                                  : backtest.results.rerun.identical
+                                    ? `Identical to #${backtest.results.rerun.rerunOf}`
+                                    : `Diverged from #${backtest.results.rerun.rerunOf}: ${backtest.results.rerun.differences.map((difference: any) => difference.field).join(", ")}`}
+                              </Badge>
+                            )}
+                          </h3>
+                          <div className="flex items-center gap-4 text-sm text-gray-400">
+                            <span>{backtest.symbol} • {formatTimeframe(backtest)} • {backtest.dataSource || "upstox"}</span>
+                            <span className="flex items-center gap-1">
+                              <CalendarIcon className="w-4 h-4" />
+                              {new Date(backtest.startDate).toLocaleDateString()} - {new Date(backtest.endDate).toLocaleDateString()}
+                            </span>
+                          </div>
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
@@ -498,6 +782,44 @@ export default function Backtesting() {
                           <EyeIcon className="w-4 h-4 mr-1" />
                           View Trades
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => rerunBacktestMutation.mutate(backtest.id)}
+                          disabled={rerunBacktestMutation.isPending}
+                          className="border-trading-border"
+                          title="Rerun with identical settings and flag any change in code, data or results"
+                        >
+                          <RefreshCwIcon className="w-4 h-4 mr-1" />
+                          Rerun
+                        </Button>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={exportBacktestMutation.isPending}
+                              className="border-trading-border"
+                            >
+                              <DownloadIcon className="w-4 h-4 mr-1" />
+                              Export
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent className="bg-trading-card border-trading-border">
+                            <DropdownMenuItem onClick={() => exportBacktestMutation.mutate({ backtest, format: "html" })}>
+                              Report (HTML)
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => exportBacktestMutation.mutate({ backtest, format: "csv" })}>
+                              Trades (CSV)
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => exportBacktestMutation.mutate({ backtest, format: "csv", section: "equity" })}>
+                              Equity curve (CSV)
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => exportBacktestMutation.mutate({ backtest, format: "json" })}>
+                              Full results (JSON)
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
                         <Button
                           variant="outline"
                           size="sm"
@@ -553,6 +875,19 @@ export default function Backtesting() {
         </CardContent>
       </Card>
 
+      {/* Comparison Modal */}
+      <Dialog open={showCompareModal} onOpenChange={setShowCompareModal}>
+        <DialogContent className="max-w-6xl max-h-[85vh] overflow-y-auto bg-trading-card border-trading-border">
+          <DialogHeader>
+            <DialogTitle>Compare Backtests</DialogTitle>
+            <DialogDescription>
+              {compareIds.length} backtests side by side
+            </DialogDescription>
+          </DialogHeader>
+          {showCompareModal && <BacktestComparison ids={compareIds} />}
+        </DialogContent>
+      </Dialog>
+
       {/* Trades Modal */}
       <Dialog open={showTradesModal} onOpenChange={setShowTradesModal}>
         <DialogContent className="max-w-6xl max-h-[80vh] overflow-hidden bg-trading-card border-trading-border">
@@ -576,9 +911,11 @@ export default function Backtesting() {
                     <TableHead>Exit Price</TableHead>
                     <TableHead>Entry Time</TableHead>
                     <TableHead>Exit Time</TableHead>
+                    <TableHead>Charges</TableHead>
                     <TableHead>P&L</TableHead>
                     <TableHead>P&L %</TableHead>
                     <TableHead>Status</TableHead>
+                    <TableHead>Reason</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -601,6 +938,9 @@ export default function Backtesting() {
                       <TableCell>
                         {trade.exitTime ? new Date(trade.exitTime).toLocaleString() : '-'}
                       </TableCell>
+                      <TableCell className="text-gray-400">
+                        {trade.charges ? formatCurrency(trade.charges) : '-'}
+                      </TableCell>
                       <TableCell>
                         <span className={`font-semibold ${
                           Number(trade.pnl) >= 0 ? 'text-green-400' : 'text-red-400'
@@ -620,6 +960,7 @@ export default function Backtesting() {
                           {trade.status}
                         </Badge>
                       </TableCell>
+                      <TableCell className="text-xs text-gray-400">{trade.reason || '-'}</TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -645,36 +986,42 @@ export default function Backtesting() {
           <form onSubmit={handleSaveEdit} className="space-y-4">
             <div>
               <Label htmlFor="edit-symbol">Stock Symbol</Label>
-              <Select name="symbol" defaultValue={editFormData.symbol}>
+              <InstrumentSearch
+                key={selectedBacktest?.id}
+                defaultSymbol={editFormData.symbol}
+                defaultInstrumentKey={editFormData.instrumentKey}
+                className="bg-trading-card border-trading-border"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="edit-timeframe">Timeframe</Label>
+              <Select name="timeframe" defaultValue={editFormData.timeframe}>
                 <SelectTrigger className="bg-trading-card border-trading-border">
-                  <SelectValue placeholder="Select symbol" />
+                  <SelectValue placeholder="Select timeframe" />
                 </SelectTrigger>
                 <SelectContent className="bg-trading-card border-trading-border">
-                  <SelectItem value="NIFTY">NIFTY 50</SelectItem>
-                  <SelectItem value="BANKNIFTY">BANK NIFTY</SelectItem>
-                  <SelectItem value="RELIANCE">RELIANCE</SelectItem>
-                  <SelectItem value="TCS">TCS</SelectItem>
-                  <SelectItem value="INFY">INFOSYS</SelectItem>
-                  <SelectItem value="HDFC">HDFC</SelectItem>
-                  <SelectItem value="ICICIBANK">ICICI BANK</SelectItem>
-                  <SelectItem value="SBIN">SBI</SelectItem>
+                  {timeframeOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
 
             <div>
-              <Label htmlFor="edit-timeframe">Timeframe</Label>
-              <Select name="timeframe" defaultValue={editFormData.timeframe}>
+              <Label htmlFor="edit-dataSource">Data Source</Label>
+              <Select name="dataSource" defaultValue={editFormData.dataSource}>
                 <SelectTrigger className="bg-trading-card border-trading-border">
-                  <SelectValue placeholder="Select timeframe" />
+                  <SelectValue placeholder="Select data source" />
                 </SelectTrigger>
                 <SelectContent className="bg-trading-card border-trading-border">
-                  <SelectItem value="1minute">1 Minute</SelectItem>
-                  <SelectItem value="5minute">5 Minutes</SelectItem>
-                  <SelectItem value="15minute">15 Minutes</SelectItem>
-                  <SelectItem value="30minute">30 Minutes</SelectItem>
-                  <SelectItem value="1hour">1 Hour</SelectItem>
-                  <SelectItem value="1day">1 Day</SelectItem>
+                  {dataSources.map((source) => (
+                    <SelectItem key={source.name} value={source.name}>
+                      {source.description}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -717,6 +1064,11 @@ export default function Backtesting() {
               />
             </div>
 
+            <div className="flex items-center gap-2">
+              <Checkbox id="edit-useLatestVersion" name="useLatestVersion" />
+              <Label htmlFor="edit-useLatestVersion">Run with the latest strategy version</Label>
+            </div>
+
             <div className="flex gap-2 pt-4">
               <Button
                 type="button"
@@ -13,6 +13,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient";
+import RiskLimitsCard from "@/components/risk-limits";
 import { 
   PlusIcon, 
   SettingsIcon, 
@@ -423,6 +424,8 @@ export default function Modules() {
         )}
       </div>
 
+      <RiskLimitsCard />
+
       {/* Warning Dialog */}
       <AlertDialog open={isWarningOpen} onOpenChange={setIsWarningOpen}>
         <AlertDialogContent className="bg-card border-border">
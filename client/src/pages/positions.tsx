@@ -3,6 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ArrowUpIcon, ArrowDownIcon, TrendingUpIcon, TrendingDownIcon } from "lucide-react";
+import PortfolioSyncStatusCard from "@/components/portfolio-sync-status";
 
 export default function Positions() {
   const { data: positions, isLoading } = useQuery({
@@ -47,6 +48,8 @@ export default function Positions() {
         </Button>
       </div>
 
+      <PortfolioSyncStatusCard />
+
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card className="bg-trading-card border-trading-border">
@@ -11,11 +11,15 @@ import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient";
-import { PlusIcon, Bot, PlayIcon, PauseIcon, EditIcon, TrashIcon } from "lucide-react";
+import { PlusIcon, Bot, PlayIcon, PauseIcon, EditIcon, TrashIcon, History } from "lucide-react";
+import StrategyVersions from "@/components/strategy-versions";
+import PaperTradingSessions from "@/components/paper-trading-sessions";
 
 export default function Strategies() {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [selectedStrategy, setSelectedStrategy] = useState<any>(null);
+  const [editingStrategy, setEditingStrategy] = useState<any>(null);
+  const [historyStrategy, setHistoryStrategy] = useState<any>(null);
   const { toast } = useToast();
 
   const { data: strategies, isLoading } = useQuery({
@@ -72,6 +76,7 @@ export default function Strategies() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/strategies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/paper-trading/sessions"] });
       toast({
         title: "Strategy Updated",
         description: "Strategy status has been updated.",
@@ -86,6 +91,56 @@ export default function Strategies() {
     },
   });
 
+  const updateStrategyMutation = useMutation({
+    mutationFn: async ({ id, ...data }: any) => {
+      const response = await apiRequest("PUT", `/api/strategies/${id}`, data);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/strategies"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/strategies/${data.id}/versions`] });
+      setEditingStrategy(null);
+      toast({
+        title: "Strategy Updated",
+        description: data.newVersion
+          ? `Saved as version ${data.newVersion}.`
+          : "Your changes have been saved.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update strategy",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleUpdateStrategy = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    let parameters;
+    try {
+      const text = (formData.get("parameters") as string).trim();
+      parameters = text ? JSON.parse(text) : null;
+    } catch {
+      toast({
+        title: "Invalid Parameters",
+        description: "Parameters must be valid JSON.",
+        variant: "destructive",
+      });
+      return;
+    }
+    updateStrategyMutation.mutate({
+      id: editingStrategy.id,
+      name: formData.get("name") as string,
+      description: formData.get("description") as string,
+      code: formData.get("code") as string,
+      parameters,
+      changeNote: (formData.get("changeNote") as string) || undefined,
+    });
+  };
+
   const handleCreateStrategy = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
@@ -292,6 +347,7 @@ export default function Strategies() {
                     <div className="flex items-center space-x-4 text-sm text-gray-400">
                       <span>Created: {new Date(strategy.createdAt).toLocaleDateString()}</span>
                       <span>Updated: {new Date(strategy.updatedAt).toLocaleDateString()}</span>
+                      <span>Version: v{strategy.currentVersion ?? 1}</span>
                     </div>
                   </div>
                   
@@ -308,9 +364,12 @@ export default function Strategies() {
                         <PlayIcon className="w-4 h-4" />
                       )}
                     </Button>
-                    <Button variant="outline" size="sm">
+                    <Button variant="outline" size="sm" onClick={() => setEditingStrategy(strategy)}>
                       <EditIcon className="w-4 h-4" />
                     </Button>
+                    <Button variant="outline" size="sm" onClick={() => setHistoryStrategy(strategy)}>
+                      <History className="w-4 h-4" />
+                    </Button>
                     <Button variant="outline" size="sm" className="text-loss-red hover:text-loss-red">
                       <TrashIcon className="w-4 h-4" />
                     </Button>
@@ -321,6 +380,93 @@ export default function Strategies() {
           ))
         )}
       </div>
+
+      <PaperTradingSessions strategies={(strategies as any[]) || []} />
+
+      <Dialog open={!!editingStrategy} onOpenChange={(open) => !open && setEditingStrategy(null)}>
+        <DialogContent className="bg-trading-card border-trading-border max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit Strategy</DialogTitle>
+          </DialogHeader>
+          {editingStrategy && (
+            <form onSubmit={handleUpdateStrategy} className="space-y-4">
+              <div>
+                <Label htmlFor="edit-name">Name</Label>
+                <Input
+                  id="edit-name"
+                  name="name"
+                  defaultValue={editingStrategy.name}
+                  className="bg-gray-700 border-gray-600"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="edit-description">Description</Label>
+                <Input
+                  id="edit-description"
+                  name="description"
+                  defaultValue={editingStrategy.description || ""}
+                  className="bg-gray-700 border-gray-600"
+                />
+              </div>
+              <div>
+                <Label htmlFor="edit-code">Strategy Code</Label>
+                <Textarea
+                  id="edit-code"
+                  name="code"
+                  defaultValue={editingStrategy.code}
+                  className="bg-gray-700 border-gray-600 font-mono text-sm"
+                  rows={14}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="edit-parameters">Parameters (JSON)</Label>
+                <Textarea
+                  id="edit-parameters"
+                  name="parameters"
+                  defaultValue={editingStrategy.parameters ? JSON.stringify(editingStrategy.parameters, null, 2) : ""}
+                  className="bg-gray-700 border-gray-600 font-mono text-sm"
+                  rows={4}
+                />
+              </div>
+              <div>
+                <Label htmlFor="edit-change-note">Change Note</Label>
+                <Input
+                  id="edit-change-note"
+                  name="changeNote"
+                  placeholder="What changed in this version?"
+                  className="bg-gray-700 border-gray-600"
+                />
+                <p className="text-xs text-gray-400 mt-1">
+                  Changing the code or parameters saves a new version. Existing backtests keep the version they ran.
+                </p>
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setEditingStrategy(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={updateStrategyMutation.isPending}
+                  className="bg-trading-blue hover:bg-blue-600 text-white"
+                >
+                  {updateStrategyMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!historyStrategy} onOpenChange={(open) => !open && setHistoryStrategy(null)}>
+        <DialogContent className="bg-trading-card border-trading-border max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Version History{historyStrategy ? `: ${historyStrategy.name}` : ""}</DialogTitle>
+          </DialogHeader>
+          {historyStrategy && <StrategyVersions strategyId={historyStrategy.id} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -6,6 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { SearchIcon, FilterIcon, DownloadIcon } from "lucide-react";
 import { useState } from "react";
+import LiveOrders from "@/components/live-orders";
 
 export default function Trades() {
   const [search, setSearch] = useState("");
@@ -94,6 +95,8 @@ export default function Trades() {
         </Card>
       </div>
 
+      <LiveOrders />
+
       {/* Filters and Search */}
       <Card className="bg-trading-card border-trading-border">
         <CardContent className="p-6">
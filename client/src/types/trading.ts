@@ -8,6 +8,8 @@ export interface Quote {
   change: number;
   changePercent: number;
   volume: number;
+  instrumentKey?: string;
+  timestamp?: string;
 }
 
 export interface HistoricalDataPoint {
@@ -37,6 +39,8 @@ export interface WebSocketMessage {
   type: string;
   data?: any;
   channel?: string;
+  status?: string;
+  error?: string;
   timestamp: string;
 }
 
@@ -65,6 +69,7 @@ export interface TradingStrategy {
 export interface Position {
   id: number;
   symbol: string;
+  instrumentKey?: string | null;
   exchange: string;
   quantity: number;
   avgPrice: string;
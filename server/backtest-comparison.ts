@@ -0,0 +1,179 @@
+import type { Backtest, BacktestTrade, Strategy } from "@shared/schema";
+import type { EquityPoint } from "./enhanced-backtesting";
+import type { PerformanceMetrics } from "./performance-metrics";
+import type { ReproducibilityMetadata } from "./reproducibility";
+
+export const MIN_COMPARED_BACKTESTS = 2;
+export const MAX_COMPARED_BACKTESTS = 5;
+// Points kept per equity curve, so long intraday runs stay light to chart
+const MAX_CURVE_POINTS = 500;
+
+export interface ComparedBacktest {
+  id: number;
+  name: string;
+  strategyId: number | null;
+  strategyName: string | null;
+  symbol: string;
+  timeframe: string;
+  startDate: Date;
+  endDate: Date;
+  initialCapital: number;
+  metrics: PerformanceMetrics | null;
+  // Return since the start, so runs with different capital overlay on one axis
+  equityCurve: Array<{ timestamp: string; equity: number; return: number }>;
+}
+
+export interface ParameterDifference {
+  name: string;
+  group: "setting" | "parameter";
+  // Keyed by backtest id; null where a backtest does not set the value
+  values: Record<number, unknown>;
+  differs: boolean;
+}
+
+export interface TradeOverlap {
+  a: number;
+  b: number;
+  shared: number;
+  onlyA: number;
+  onlyB: number;
+  // Shared trades over all distinct trades of the pair (Jaccard index)
+  similarity: number;
+}
+
+export interface BacktestComparison {
+  backtests: ComparedBacktest[];
+  parameters: ParameterDifference[];
+  tradeOverlap: {
+    pairs: TradeOverlap[];
+    // Trades that every compared backtest took
+    sharedByAll: number;
+  };
+}
+
+function downsample<T>(points: T[]): T[] {
+  if (points.length <= MAX_CURVE_POINTS) {
+    return points;
+  }
+  const stride = Math.ceil(points.length / MAX_CURVE_POINTS);
+  const sampled = points.filter((_, index) => index % stride === 0);
+  // Always keep the final point so the curves end on the reported return
+  if (sampled[sampled.length - 1] !== points[points.length - 1]) {
+    sampled.push(points[points.length - 1]);
+  }
+  return sampled;
+}
+
+// The strategy defaults with the run's overrides applied, as the engine sees them
+export function effectiveParameters(backtest: Backtest, strategy: Strategy | undefined): Record<string, unknown> {
+  // What the engine recorded wins, since the strategy may have been edited since the run
+  const recorded = (backtest.results as { reproducibility?: ReproducibilityMetadata } | null)?.reproducibility;
+  if (recorded) {
+    return recorded.strategy.parameters;
+  }
+  return {
+    ...(strategy?.parameters as Record<string, unknown> || {}),
+    ...(backtest.parameters as Record<string, unknown> || {}),
+  };
+}
+
+function settings(backtest: Backtest): Record<string, unknown> {
+  return {
+    symbol: backtest.symbols ? (backtest.symbols as string[]).join(", ") : backtest.symbol,
+    timeframe: backtest.timeframe,
+    dataSource: backtest.dataSource,
+    startDate: backtest.startDate.toISOString().split("T")[0],
+    endDate: backtest.endDate.toISOString().split("T")[0],
+    initialCapital: Number(backtest.initialCapital),
+    costModel: backtest.costModel ?? null,
+    portfolio: backtest.portfolio ?? null,
+  };
+}
+
+function differences(
+  group: ParameterDifference["group"],
+  backtests: Backtest[],
+  valuesOf: (backtest: Backtest) => Record<string, unknown>
+): ParameterDifference[] {
+  const values = backtests.map(valuesOf);
+  const names = Array.from(new Set(values.flatMap(value => Object.keys(value))));
+  return names.map(name => {
+    const byBacktest: Record<number, unknown> = {};
+    backtests.forEach((backtest, index) => {
+      byBacktest[backtest.id] = values[index][name] ?? null;
+    });
+    const distinct = new Set(Object.values(byBacktest).map(value => JSON.stringify(value)));
+    return { name, group, values: byBacktest, differs: distinct.size > 1 };
+  });
+}
+
+// Trades count as the same when they enter the same symbol, in the same direction, on the same bar
+function tradeKeys(trades: BacktestTrade[]): Set<string> {
+  return new Set(trades
+    .filter(trade => trade.status !== "deleted")
+    .map(trade => `${trade.symbol}|${trade.side}|${trade.entryTime.toISOString()}`));
+}
+
+/**
+ * Lines up two to five backtests: their metrics and equity curves, how
+ * their settings and strategy parameters differ, and how many trades each
+ * pair has in common.
+ */
+export function compareBacktests(
+  backtests: Backtest[],
+  tradesByBacktest: Map<number, BacktestTrade[]>,
+  strategies: Map<number, Strategy>
+): BacktestComparison {
+  const strategyOf = (backtest: Backtest) => backtest.strategyId !== null ? strategies.get(backtest.strategyId) : undefined;
+
+  const compared = backtests.map((backtest): ComparedBacktest => {
+    const initialCapital = Number(backtest.initialCapital);
+    const curve = (backtest.equityCurve as EquityPoint[] | null) || [];
+    return {
+      id: backtest.id,
+      name: backtest.name,
+      strategyId: backtest.strategyId,
+      strategyName: strategyOf(backtest)?.name ?? null,
+      symbol: backtest.symbol,
+      timeframe: backtest.timeframe,
+      startDate: backtest.startDate,
+      endDate: backtest.endDate,
+      initialCapital,
+      metrics: (backtest.results as { metrics?: PerformanceMetrics } | null)?.metrics ?? null,
+      equityCurve: downsample(curve).map(point => ({
+        timestamp: point.timestamp,
+        equity: point.equity,
+        return: initialCapital > 0 ? point.equity / initialCapital - 1 : 0,
+      })),
+    };
+  });
+
+  const keys = backtests.map(backtest => tradeKeys(tradesByBacktest.get(backtest.id) || []));
+  const pairs: TradeOverlap[] = [];
+  for (let i = 0; i < backtests.length; i++) {
+    for (let j = i + 1; j < backtests.length; j++) {
+      const shared = Array.from(keys[i]).filter(key => keys[j].has(key)).length;
+      const union = keys[i].size + keys[j].size - shared;
+      pairs.push({
+        a: backtests[i].id,
+        b: backtests[j].id,
+        shared,
+        onlyA: keys[i].size - shared,
+        onlyB: keys[j].size - shared,
+        similarity: union > 0 ? shared / union : 0,
+      });
+    }
+  }
+  const sharedByAll = keys.length > 0
+    ? Array.from(keys[0]).filter(key => keys.every(set => set.has(key))).length
+    : 0;
+
+  return {
+    backtests: compared,
+    parameters: [
+      ...differences("setting", backtests, settings),
+      ...differences("parameter", backtests, backtest => effectiveParameters(backtest, strategyOf(backtest))),
+    ],
+    tradeOverlap: { pairs, sharedByAll },
+  };
+}
@@ -0,0 +1,291 @@
+import type { Backtest, BacktestTrade, Strategy } from "@shared/schema";
+import type { EquityPoint } from "./enhanced-backtesting";
+import type { PerformanceMetrics } from "./performance-metrics";
+import { effectiveParameters } from "./backtest-comparison";
+import type { ReproducibilityMetadata } from "./reproducibility";
+
+export const EXPORT_FORMATS = ["csv", "json", "html"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export interface BacktestReport {
+  generatedAt: string;
+  backtest: {
+    id: number;
+    name: string;
+    symbol: string;
+    symbols: string[] | null;
+    timeframe: string;
+    dataSource: string | null;
+    startDate: string;
+    endDate: string;
+    initialCapital: number;
+    finalValue: number | null;
+    completedAt: string | null;
+  };
+  strategy: { id: number; name: string } | null;
+  parameters: Record<string, unknown>;
+  costModel: unknown;
+  metrics: PerformanceMetrics | null;
+  costs: unknown;
+  portfolio: unknown;
+  reproducibility: ReproducibilityMetadata | null;
+  equityCurve: EquityPoint[];
+  trades: Array<{
+    symbol: string;
+    side: string;
+    quantity: number;
+    entryTime: string;
+    entryPrice: number;
+    exitTime: string | null;
+    exitPrice: number | null;
+    grossPnl: number | null;
+    charges: number | null;
+    slippage: number | null;
+    pnl: number | null;
+    pnlPercent: number | null;
+    reason: string | null;
+  }>;
+}
+
+// Points drawn in the HTML equity chart
+const MAX_CHART_POINTS = 800;
+
+const toNumber = (value: string | null | undefined) => value === null || value === undefined ? null : Number(value);
+
+/** Everything a report needs, in one JSON-ready object. */
+export function buildBacktestReport(backtest: Backtest, trades: BacktestTrade[], strategy: Strategy | undefined): BacktestReport {
+  const results = (backtest.results || {}) as {
+    metrics?: PerformanceMetrics;
+    costs?: unknown;
+    portfolio?: unknown;
+    reproducibility?: ReproducibilityMetadata;
+  };
+  return {
+    generatedAt: new Date().toISOString(),
+    backtest: {
+      id: backtest.id,
+      name: backtest.name,
+      symbol: backtest.symbol,
+      symbols: backtest.symbols as string[] | null,
+      timeframe: backtest.timeframe,
+      dataSource: backtest.dataSource,
+      startDate: backtest.startDate.toISOString(),
+      endDate: backtest.endDate.toISOString(),
+      initialCapital: Number(backtest.initialCapital),
+      finalValue: toNumber(backtest.finalValue),
+      completedAt: backtest.completedAt?.toISOString() ?? null,
+    },
+    strategy: strategy ? { id: strategy.id, name: strategy.name } : null,
+    parameters: effectiveParameters(backtest, strategy),
+    costModel: backtest.costModel ?? null,
+    metrics: results.metrics ?? null,
+    costs: results.costs ?? null,
+    portfolio: results.portfolio ?? null,
+    reproducibility: results.reproducibility ?? null,
+    equityCurve: (backtest.equityCurve as EquityPoint[] | null) || [],
+    trades: trades
+      .filter(trade => trade.status !== "deleted")
+      .map(trade => ({
+        symbol: trade.symbol,
+        side: trade.side,
+        quantity: trade.quantity,
+        entryTime: trade.entryTime.toISOString(),
+        entryPrice: Number(trade.entryPrice),
+        exitTime: trade.exitTime?.toISOString() ?? null,
+        exitPrice: toNumber(trade.exitPrice),
+        grossPnl: toNumber(trade.grossPnl),
+        charges: toNumber(trade.charges),
+        slippage: toNumber(trade.slippage),
+        pnl: toNumber(trade.pnl),
+        pnlPercent: toNumber(trade.pnlPercent),
+        reason: trade.reason,
+      })),
+  };
+}
+
+export function exportFilename(backtest: Backtest, extension: string, suffix = ""): string {
+  const slug = backtest.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "backtest";
+  return `${slug}-${backtest.id}${suffix}.${extension}`;
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows].map(row => row.map(csvCell).join(",")).join("\n");
+}
+
+export function tradesCsv(report: BacktestReport): string {
+  return toCsv(
+    ["Symbol", "Side", "Quantity", "Entry Time", "Entry Price", "Exit Time", "Exit Price", "Gross P&L", "Charges", "Slippage", "Net P&L", "P&L %", "Reason"],
+    report.trades.map(trade => [
+      trade.symbol, trade.side, trade.quantity, trade.entryTime, trade.entryPrice, trade.exitTime, trade.exitPrice,
+      trade.grossPnl, trade.charges, trade.slippage, trade.pnl, trade.pnlPercent, trade.reason,
+    ])
+  );
+}
+
+export function equityCurveCsv(report: BacktestReport): string {
+  return toCsv(
+    ["Timestamp", "Equity", "Cash", "Exposure", "Drawdown"],
+    report.equityCurve.map(point => [point.timestamp, point.equity, point.cash, point.exposure, point.drawdown])
+  );
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const percent = (value: number | null | undefined, digits = 2) =>
+  value === null || value === undefined ? "—" : `${(value * 100).toFixed(digits)}%`;
+const ratio = (value: number | null | undefined) =>
+  value === null || value === undefined ? "—" : value.toFixed(2);
+const rupees = (value: number | null | undefined) =>
+  value === null || value === undefined ? "—" : `₹${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+// Equity line over a drawdown area, as inline SVG so the page has no external assets
+function equityChartSvg(curve: EquityPoint[]): string {
+  if (curve.length < 2) {
+    return "<p>No equity curve recorded.</p>";
+  }
+  const stride = Math.max(1, Math.ceil(curve.length / MAX_CHART_POINTS));
+  const points = curve.filter((_, index) => index % stride === 0 || index === curve.length - 1);
+  const width = 900;
+  const height = 260;
+  const drawdownHeight = 70;
+  const equities = points.map(point => point.equity);
+  const min = Math.min(...equities);
+  const max = Math.max(...equities);
+  const maxDrawdown = Math.max(...points.map(point => point.drawdown), 0.0001);
+  const x = (index: number) => ((index / (points.length - 1)) * width).toFixed(1);
+  const y = (equity: number) => (max === min ? height / 2 : height - ((equity - min) / (max - min)) * height).toFixed(1);
+
+  const line = points.map((point, index) => `${index === 0 ? "M" : "L"}${x(index)},${y(point.equity)}`).join(" ");
+  const drawdown = `M0,${height + 10} ` +
+    points.map((point, index) => `L${x(index)},${(height + 10 + (point.drawdown / maxDrawdown) * drawdownHeight).toFixed(1)}`).join(" ") +
+    ` L${width},${height + 10} Z`;
+
+  return `<svg viewBox="0 0 ${width} ${height + drawdownHeight + 20}" width="100%" role="img" aria-label="Equity curve">
+  <path d="${drawdown}" fill="#fecaca" stroke="none" />
+  <path d="${line}" fill="none" stroke="#2563eb" stroke-width="1.5" />
+  <text x="4" y="12" font-size="11" fill="#6b7280">${escapeHtml(rupees(max))}</text>
+  <text x="4" y="${height - 4}" font-size="11" fill="#6b7280">${escapeHtml(rupees(min))}</text>
+  <text x="4" y="${height + drawdownHeight + 16}" font-size="11" fill="#b91c1c">Drawdown (max ${escapeHtml(percent(maxDrawdown))})</text>
+</svg>`;
+}
+
+function table(header: string[], rows: string[][], className = ""): string {
+  return `<table class="${className}"><thead><tr>${header.map(cell => `<th>${escapeHtml(cell)}</th>`).join("")}</tr></thead>` +
+    `<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`).join("")}</tbody></table>`;
+}
+
+/**
+ * A standalone, printable tearsheet: styles and the chart are inline, so the
+ * file can be emailed or printed to PDF as is.
+ */
+export function backtestReportHtml(report: BacktestReport): string {
+  const { backtest, metrics } = report;
+  const summary: Array<[string, string]> = metrics ? [
+    ["Total Return", percent(metrics.totalReturn)],
+    ["CAGR", percent(metrics.cagr)],
+    ["Sharpe", ratio(metrics.sharpeRatio)],
+    ["Sortino", ratio(metrics.sortinoRatio)],
+    ["Calmar", ratio(metrics.calmarRatio)],
+    ["Max Drawdown", percent(metrics.maxDrawdown)],
+    ["Longest Drawdown", `${metrics.maxDrawdownDuration.days} days`],
+    ["Volatility", percent(metrics.volatility)],
+    ["Trades", String(metrics.totalTrades)],
+    ["Win Rate", percent(metrics.winRate, 1)],
+    ["Profit Factor", ratio(metrics.profitFactor)],
+    ["Expectancy", rupees(metrics.expectancy)],
+    ["Average Win", rupees(metrics.averageWin)],
+    ["Average Loss", rupees(metrics.averageLoss)],
+    ["Time in Market", percent(metrics.exposureTime, 1)],
+    ...(metrics.benchmark ? [
+      [`${metrics.benchmark.symbol} Return`, percent(metrics.benchmark.totalReturn)],
+      ["Alpha", percent(metrics.benchmark.alpha)],
+      ["Beta", ratio(metrics.benchmark.beta)],
+    ] as Array<[string, string]> : []),
+  ] : [];
+
+  const universe = backtest.symbols?.length ? backtest.symbols.join(", ") : backtest.symbol;
+  const parameters = Object.entries(report.parameters);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(backtest.name)} – Backtest Report</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #111827; margin: 32px; font-size: 13px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 28px 0 8px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  .muted { color: #6b7280; }
+  .metrics { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; }
+  .metric { border: 1px solid #e5e7eb; border-radius: 6px; padding: 8px; }
+  .metric .label { color: #6b7280; font-size: 11px; }
+  .metric .value { font-size: 16px; font-weight: 600; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #f3f4f6; }
+  th { background: #f9fafb; font-weight: 600; }
+  .trades td, .trades th { font-size: 11px; }
+  @media print { body { margin: 12mm; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(backtest.name)}</h1>
+<div class="muted">
+  ${escapeHtml(report.strategy?.name ?? "Unknown strategy")} · ${escapeHtml(universe)} · ${escapeHtml(backtest.timeframe)} ·
+  ${escapeHtml(backtest.startDate.split("T")[0])} to ${escapeHtml(backtest.endDate.split("T")[0])} ·
+  initial capital ${escapeHtml(rupees(backtest.initialCapital))} · final value ${escapeHtml(rupees(backtest.finalValue))}
+</div>
+
+<h2>Performance</h2>
+${summary.length > 0
+    ? `<div class="metrics">${summary.map(([label, value]) => `<div class="metric"><div class="label">${escapeHtml(label)}</div><div class="value">${escapeHtml(value)}</div></div>`).join("")}</div>`
+    : `<p class="muted">Metrics are not available for this backtest.</p>`}
+
+<h2>Equity Curve</h2>
+${equityChartSvg(report.equityCurve)}
+
+${metrics && metrics.monthlyReturns.length > 0 ? `<h2>Monthly Returns</h2>
+${table(["Month", "Return"], metrics.monthlyReturns.map(month => [month.month, percent(month.return)]))}` : ""}
+
+<h2>Parameters</h2>
+${parameters.length > 0
+    ? table(["Parameter", "Value"], parameters.map(([name, value]) => [name, typeof value === "object" ? JSON.stringify(value) : String(value)]))
+    : `<p class="muted">The strategy takes no parameters.</p>`}
+${report.costModel ? `<p class="muted">Cost model: ${escapeHtml(JSON.stringify(report.costModel))}</p>` : ""}
+
+<h2>Trades (${report.trades.length})</h2>
+${table(
+    ["Symbol", "Side", "Qty", "Entry", "Entry Price", "Exit", "Exit Price", "Charges", "Net P&L", "P&L %"],
+    report.trades.map(trade => [
+      trade.symbol,
+      trade.side,
+      String(trade.quantity),
+      trade.entryTime.replace("T", " ").slice(0, 16),
+      trade.entryPrice.toFixed(2),
+      trade.exitTime ? trade.exitTime.replace("T", " ").slice(0, 16) : "—",
+      trade.exitPrice !== null ? trade.exitPrice.toFixed(2) : "—",
+      trade.charges !== null ? trade.charges.toFixed(2) : "—",
+      trade.pnl !== null ? trade.pnl.toFixed(2) : "—",
+      trade.pnlPercent !== null ? `${trade.pnlPercent.toFixed(2)}%` : "—",
+    ]),
+    "trades"
+  )}
+
+<p class="muted">Generated ${escapeHtml(report.generatedAt.replace("T", " ").slice(0, 19))} UTC. Past performance in a backtest does not guarantee future results.</p>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,356 @@
+import os from "os";
+import { Worker } from "worker_threads";
+import { storage } from "./storage";
+import { wsManager } from "./websocket";
+import type { BacktestWorkerMessage } from "./backtest-worker";
+import type { Backtest, BacktestJob, InsertBacktestTrade } from "@shared/schema";
+
+interface PlanQuota {
+  // Jobs of one user running at the same time
+  concurrent: number;
+  // Jobs of one user waiting or running
+  queued: number;
+  // Backtests a user may create per calendar month; null for unlimited
+  monthly: number | null;
+}
+
+// Keyed by subscription plan name; users without an active subscription get Free
+const PLAN_QUOTAS: Record<string, PlanQuota> = {
+  Free: { concurrent: 1, queued: 5, monthly: 10 },
+  Pro: { concurrent: 2, queued: 20, monthly: 100 },
+  Enterprise: { concurrent: 4, queued: 100, monthly: null },
+};
+
+const DEFAULT_CONCURRENCY = 2;
+const POLL_INTERVAL_MS = 2000;
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+// A running job whose heartbeat is older than this is treated as orphaned
+const STALE_AFTER_MS = 60 * 1000;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+// Under tsx (development) the worker is TypeScript source; the production build emits dist/backtest-worker.js
+const WORKER_IS_TS = import.meta.url.endsWith(".ts");
+const WORKER_URL = new URL(`./backtest-worker.${WORKER_IS_TS ? "ts" : "js"}`, import.meta.url);
+
+const TRANSIENT_ERROR_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "ENOTFOUND", "EPIPE", "ECONNABORTED"]);
+
+// Data-source failures worth retrying: rate limits, upstream 5xx and network errors
+export function isTransientError(error: any): boolean {
+  const status = Number(error?.status ?? error?.response?.status);
+  if (status === 429 || (status >= 500 && status < 600)) {
+    return true;
+  }
+  if (error?.code && TRANSIENT_ERROR_CODES.has(error.code)) {
+    return true;
+  }
+  return /timed? ?out|rate limit|too many requests|socket hang up|network error/i.test(error?.message || "");
+}
+
+function spawnBacktestWorker(backtestId: number): Worker {
+  if (WORKER_IS_TS) {
+    // Worker threads do not inherit tsx's loader, so register it before importing the entry point
+    const bootstrap = `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(WORKER_URL.href)}); })`;
+    return new Worker(bootstrap, { eval: true, workerData: { backtestId } });
+  }
+  return new Worker(WORKER_URL, { workerData: { backtestId } });
+}
+
+function startOfMonth(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+/**
+ * Runs backtests from the persistent `backtest_jobs` queue. Jobs are claimed
+ * with row locks, so several server processes can share one queue; each
+ * process runs at most BACKTEST_WORKER_CONCURRENCY jobs and no user runs more
+ * than their plan allows. Running jobs heartbeat, and jobs left behind by a
+ * stopped process are re-queued once their heartbeat goes stale.
+ */
+class BacktestQueue {
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+  private readonly concurrency = Math.max(1, Number(process.env.BACKTEST_WORKER_CONCURRENCY) || DEFAULT_CONCURRENCY);
+  // backtestId -> job id for jobs running in this process
+  private runningJobs = new Map<number, number>();
+  // backtestId -> worker thread executing it
+  private workers = new Map<number, Worker>();
+  private pollTimer?: NodeJS.Timeout;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private polling = false;
+
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+    console.log(`Backtest queue worker ${this.workerId} started with concurrency ${this.concurrency}`);
+    this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), HEARTBEAT_INTERVAL_MS);
+    // Picks up jobs orphaned by a previous process before the first claim
+    this.heartbeat().then(() => this.poll());
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+  }
+
+  async getQuota(userId: number): Promise<PlanQuota> {
+    const subscription = await storage.getUserSubscription(userId);
+    if (!subscription) {
+      return PLAN_QUOTAS.Free;
+    }
+    const plan = (await storage.getSubscriptionPlans()).find(p => p.id === subscription.planId);
+    return (plan && PLAN_QUOTAS[plan.name]) || PLAN_QUOTAS.Free;
+  }
+
+  /**
+   * Returns why the user may not queue `runs` more backtests, or null if they
+   * may. An optimization checks every run it will spawn. Call before creating
+   * the backtests so they do not count against the month.
+   */
+  async checkQuota(userId: number, runs = 1): Promise<string | null> {
+    const quota = await this.getQuota(userId);
+    const { queued, running } = await storage.countUserBacktestJobs(userId);
+    if (queued + running + runs > quota.queued) {
+      return runs > 1
+        ? `This needs ${runs} backtests, but your plan allows ${quota.queued} queued or running and you already have ${queued + running}`
+        : `You already have ${queued + running} backtests queued or running (limit ${quota.queued})`;
+    }
+    if (quota.monthly !== null) {
+      const used = await storage.countUserBacktestsSince(userId, startOfMonth(new Date()));
+      if (used + runs > quota.monthly) {
+        return runs > 1
+          ? `This needs ${runs} backtests, but only ${Math.max(0, quota.monthly - used)} of your plan's ${quota.monthly} monthly backtests remain`
+          : `Monthly backtest limit of ${quota.monthly} reached for your plan`;
+      }
+    }
+    return null;
+  }
+
+  async enqueue(backtestId: number, userId: number | null): Promise<BacktestJob> {
+    const job = await storage.createBacktestJob({ backtestId, userId });
+    await storage.updateBacktest(backtestId, { status: "pending", progress: 0, progressMessage: "Queued" });
+    this.poll();
+    return job;
+  }
+
+  async cancel(backtestId: number): Promise<void> {
+    const job = await storage.getBacktestJobByBacktestId(backtestId);
+    if (job && (job.status === "queued" || job.status === "running")) {
+      await storage.updateBacktestJob(job.id, {
+        cancelRequested: true,
+        ...(job.status === "queued" && { status: "cancelled", completedAt: new Date() }),
+      });
+    }
+    if (this.runningJobs.has(backtestId)) {
+      // runJob sees cancelRequested once the worker exits and marks the job and backtest cancelled
+      this.stopWorker(backtestId);
+    } else {
+      // A job running in another process stops there once its heartbeat sees cancelRequested
+      await storage.updateBacktest(backtestId, {
+        status: "cancelled",
+        progressMessage: "Backtest cancelled by user",
+        completedAt: new Date()
+      });
+    }
+  }
+
+  // Resolves once the job reaches a final state
+  async waitFor(backtestId: number): Promise<BacktestJob | undefined> {
+    while (true) {
+      const job = await storage.getBacktestJobByBacktestId(backtestId);
+      if (!job || ["completed", "failed", "cancelled"].includes(job.status)) {
+        return job;
+      }
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling || !this.pollTimer) {
+      return;
+    }
+    this.polling = true;
+    try {
+      while (this.runningJobs.size < this.concurrency) {
+        const job = await storage.claimNextBacktestJob(this.workerId, await this.usersAtLimit());
+        if (!job) {
+          break;
+        }
+        this.runningJobs.set(job.backtestId, job.id);
+        this.runJob(job).finally(() => {
+          this.runningJobs.delete(job.backtestId);
+          this.poll();
+        });
+      }
+    } catch (error) {
+      console.error("Error polling backtest queue:", error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async usersAtLimit(): Promise<number[]> {
+    const counts = await storage.getRunningBacktestJobCounts();
+    const limited: number[] = [];
+    for (const { userId, running } of counts) {
+      if (running >= (await this.getQuota(userId)).concurrent) {
+        limited.push(userId);
+      }
+    }
+    return limited;
+  }
+
+  private async runJob(job: BacktestJob): Promise<void> {
+    try {
+      await this.runInWorker(job.backtestId);
+      await storage.updateBacktestJob(job.id, { status: "completed", lockedBy: null, completedAt: new Date() });
+    } catch (error: any) {
+      const current = await storage.getBacktestJobByBacktestId(job.backtestId);
+      if (current?.cancelRequested) {
+        await storage.updateBacktestJob(job.id, { status: "cancelled", lockedBy: null, completedAt: new Date() });
+        await storage.updateBacktest(job.backtestId, {
+          status: "cancelled",
+          progressMessage: "Backtest cancelled by user",
+          completedAt: new Date()
+        });
+        return;
+      }
+
+      const message = error?.message || "Unknown error";
+      if (isTransientError(error) && job.attempts < job.maxAttempts) {
+        const delay = RETRY_BASE_DELAY_MS * Math.pow(2, job.attempts - 1);
+        console.warn(`Backtest ${job.backtestId} attempt ${job.attempts} failed, retrying in ${delay / 1000}s: ${message}`);
+        await storage.updateBacktestJob(job.id, {
+          status: "queued",
+          lockedBy: null,
+          lastError: message,
+          runAfter: new Date(Date.now() + delay)
+        });
+        await storage.updateBacktest(job.backtestId, {
+          status: "pending",
+          progressMessage: `Retrying after error (attempt ${job.attempts + 1} of ${job.maxAttempts}): ${message}`,
+          completedAt: null
+        });
+        return;
+      }
+
+      await storage.updateBacktestJob(job.id, { status: "failed", lockedBy: null, lastError: message, completedAt: new Date() });
+      // The engine records its own failures; this covers runs that failed outside it, e.g. saving results
+      await storage.updateBacktest(job.backtestId, { status: "error", progressMessage: `Error: ${message}`, completedAt: new Date() });
+    }
+  }
+
+  /**
+   * Runs the backtest on its own worker thread. Updates posted by the worker
+   * are applied in order, and the promise settles only after the last one
+   * has been written.
+   */
+  private runInWorker(backtestId: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const worker = spawnBacktestWorker(backtestId);
+      this.workers.set(backtestId, worker);
+      let updates = Promise.resolve();
+      let settled = false;
+      // A run whose results could not be saved has not completed
+      let saveError: Error | undefined;
+
+      const settle = (error?: Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        updates.then(() => {
+          this.workers.delete(backtestId);
+          worker.terminate();
+          error || saveError ? reject(error || saveError) : resolve();
+        });
+      };
+
+      worker.on("message", (message: BacktestWorkerMessage) => {
+        if (message.type === "update") {
+          updates = updates
+            .then(() => this.applyUpdate(backtestId, message.data as Partial<Backtest>, message.trades))
+            .catch(error => {
+              console.error(`Error applying update for backtest ${backtestId}:`, error);
+              if (message.trades) {
+                saveError = error;
+              }
+            });
+        } else if (message.type === "done") {
+          settle();
+        } else if (message.type === "error") {
+          const { message: errorMessage, ...details } = message.error;
+          settle(Object.assign(new Error(errorMessage), details));
+        }
+      });
+      worker.on("error", error => settle(error));
+      worker.on("exit", code => settle(new Error(`Backtest worker exited with code ${code}`)));
+    });
+  }
+
+  /**
+   * Terminates the worker thread running a backtest. The simulation loop
+   * does no I/O, so a message asking the worker to stop would only be read
+   * once the run had already finished.
+   */
+  private stopWorker(backtestId: number): void {
+    this.workers.get(backtestId)?.terminate().catch(error => {
+      console.error(`Error terminating worker for backtest ${backtestId}:`, error);
+    });
+  }
+
+  private async applyUpdate(backtestId: number, data: Partial<Backtest>, trades?: InsertBacktestTrade[]): Promise<void> {
+    const backtest = trades
+      ? await storage.completeBacktest(backtestId, trades, data)
+      : await storage.updateBacktest(backtestId, data);
+    if (backtest?.userId) {
+      await wsManager.sendBacktestUpdate(backtest.userId, backtest);
+    }
+  }
+
+  private async heartbeat(): Promise<void> {
+    try {
+      for (const [backtestId, jobId] of Array.from(this.runningJobs.entries())) {
+        const job = await storage.updateBacktestJob(jobId, { heartbeatAt: new Date() });
+        if (job?.cancelRequested) {
+          this.stopWorker(backtestId);
+        }
+      }
+
+      const staleBefore = new Date(Date.now() - STALE_AFTER_MS);
+      for (const job of await storage.cancelStaleBacktestJobs(staleBefore)) {
+        await storage.updateBacktest(job.backtestId, {
+          status: "cancelled",
+          progressMessage: "Backtest cancelled by user",
+          completedAt: new Date()
+        });
+      }
+
+      const recovered = await storage.requeueStaleBacktestJobs(staleBefore);
+      for (const job of recovered) {
+        // A job that keeps taking its worker down is not retried forever
+        if (job.attempts >= job.maxAttempts) {
+          const message = `Worker stopped during ${job.attempts} attempts`;
+          await storage.updateBacktestJob(job.id, { status: "failed", lastError: message, completedAt: new Date() });
+          await storage.updateBacktest(job.backtestId, { status: "error", progressMessage: `Error: ${message}`, completedAt: new Date() });
+          continue;
+        }
+        console.warn(`Re-queued orphaned backtest job ${job.id} (backtest ${job.backtestId})`);
+        await storage.updateBacktest(job.backtestId, { status: "pending", progress: 0, progressMessage: "Queued (recovered after restart)" });
+      }
+      if (recovered.length > 0) {
+        this.poll();
+      }
+    } catch (error) {
+      console.error("Error refreshing backtest queue heartbeats:", error);
+    }
+  }
+}
+
+export const backtestQueue = new BacktestQueue();
@@ -0,0 +1,33 @@
+/*
+ * Worker thread entry point: runs one backtest off the main event loop.
+ * Status and progress changes, and the final trade list, are posted to the
+ * parent, which writes them and pushes them to websocket clients. The parent
+ * cancels a run by terminating the thread.
+ *
+ *   worker -> parent: { type: "update", data, trades? } | { type: "done" }
+ *                     | { type: "error", error: { message, status?, code? } }
+ */
+import { parentPort, workerData } from "worker_threads";
+import { EnhancedBacktestingEngine } from "./enhanced-backtesting";
+import type { InsertBacktestTrade } from "@shared/schema";
+
+export type BacktestWorkerMessage =
+  | { type: "update"; data: Record<string, unknown>; trades?: InsertBacktestTrade[] }
+  | { type: "done" }
+  | { type: "error"; error: { message: string; status?: number; code?: string } };
+
+const port = parentPort!;
+const { backtestId } = workerData as { backtestId: number };
+
+const post = (message: BacktestWorkerMessage) => port.postMessage(message);
+
+const engine = new EnhancedBacktestingEngine(async (_backtestId, data, trades) => {
+  post({ type: "update", data, trades });
+});
+
+engine.runBacktest(backtestId)
+  .then(() => post({ type: "done" }))
+  .catch((error: any) => post({
+    type: "error",
+    error: { message: error?.message || "Unknown error", status: error?.status, code: error?.code },
+  }));
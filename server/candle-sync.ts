@@ -0,0 +1,279 @@
+import { storage } from "./storage";
+import { upstoxService, getValidUpstoxToken } from "./upstox";
+import {
+  registerMarketDataProvider,
+  resolveInstrumentKey,
+  toUpstoxInterval,
+  UPSTOX_TIMEFRAMES,
+  type Candle,
+  type MarketDataProvider,
+  type MarketDataRequest,
+} from "./market-data";
+import { selectSourceTimeframe } from "./resampling";
+import type { InsertStoredCandle } from "@shared/schema";
+
+interface CandleSyncResult {
+  instrumentKey: string;
+  interval: string;
+  missingRanges: Array<{ from: string; to: string }>;
+  fetched: number;
+  stored: number;
+}
+
+interface DataFetcherConfig {
+  symbols?: string[];
+  timeframe?: string;
+  lookbackDays?: number;
+  intervalMinutes?: number;
+  userId?: number;
+}
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Candles in a full 09:15-15:30 IST session; days with fewer stored are refetched
+const CANDLES_PER_SESSION: Record<string, number> = {
+  '1minute': 375,
+  '30minute': 13,
+  'day': 1,
+};
+
+// Upstox rejects historical candle requests that span too many days
+const MAX_DAYS_PER_REQUEST: Record<string, number> = {
+  '1minute': 30,
+  '30minute': 180,
+  'day': 3650,
+  'week': 3650,
+  'month': 3650,
+};
+
+function toIstDate(date: Date): string {
+  return new Date(date.getTime() + IST_OFFSET_MS).toISOString().split('T')[0];
+}
+
+function addDays(isoDate: string, days: number): string {
+  return new Date(new Date(`${isoDate}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
+
+function weekdaysBetween(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      days.push(day);
+    }
+  }
+  return days;
+}
+
+// End dates are inclusive, so extend to the last millisecond of that day
+function endOfDay(date: Date): Date {
+  return new Date(date.getTime() + DAY_MS - 1);
+}
+
+class CandleSyncService {
+  private timer?: NodeJS.Timeout;
+  private inFlight = new Map<string, Promise<CandleSyncResult>>();
+
+  /**
+   * Fetches from Upstox only the trading days in the range that are not
+   * fully stored yet, so a day synced while the market was open is completed
+   * later. Exchange holidays are indistinguishable from gaps and are simply
+   * re-requested.
+   */
+  async syncCandles(request: MarketDataRequest): Promise<CandleSyncResult> {
+    const instrumentKey = await resolveInstrumentKey(request);
+    // Only native intervals are stored; other timeframes are resampled on read
+    const interval = toUpstoxInterval(selectSourceTimeframe(request.timeframe, UPSTOX_TIMEFRAMES));
+    const key = `${instrumentKey}|${interval}|${request.startDate.toISOString()}|${request.endDate.toISOString()}`;
+
+    // Concurrent backtests over the same window share one sync
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const sync = this.runSync(instrumentKey, interval, request).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, sync);
+    return sync;
+  }
+
+  private async runSync(instrumentKey: string, interval: string, request: MarketDataRequest): Promise<CandleSyncResult> {
+    const missingRanges = await this.findMissingRanges(instrumentKey, interval, request.startDate, request.endDate);
+    const result: CandleSyncResult = { instrumentKey, interval, missingRanges, fetched: 0, stored: 0 };
+
+    if (missingRanges.length === 0) {
+      return result;
+    }
+
+    // Syncs use the requesting user's broker session; the scheduler uses the account set in its config
+    if (!request.userId) {
+      throw new Error("Candle sync needs a user with a linked Upstox account. Set userId in the Data Fetcher config for scheduled syncs.");
+    }
+    const accessToken = await getValidUpstoxToken(request.userId, storage);
+    if (!accessToken) {
+      throw new Error("Upstox access token not available. Please link your Upstox account to sync candles.");
+    }
+
+    for (const range of missingRanges) {
+      const data = await upstoxService.getHistoricalData(instrumentKey, range.from, range.to, accessToken, interval);
+      result.fetched += data.length;
+
+      const rows: InsertStoredCandle[] = data.map(candle => ({
+        instrumentKey,
+        interval,
+        timestamp: new Date(candle.timestamp),
+        open: candle.open.toString(),
+        high: candle.high.toString(),
+        low: candle.low.toString(),
+        close: candle.close.toString(),
+        volume: candle.volume,
+        openInterest: candle.openInterest ?? null,
+      }));
+      result.stored += await storage.upsertCandles(rows);
+    }
+
+    console.log(`Synced ${result.stored} ${interval} candles for ${instrumentKey} across ${missingRanges.length} range(s)`);
+    return result;
+  }
+
+  private async findMissingRanges(
+    instrumentKey: string,
+    interval: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<Array<{ from: string; to: string }>> {
+    const from = toIstDate(startDate);
+    const to = [toIstDate(endDate), toIstDate(new Date())].sort()[0];
+    if (from > to) {
+      return [];
+    }
+
+    const maxDays = MAX_DAYS_PER_REQUEST[interval] || 30;
+
+    // Weekly and monthly bars do not map onto single days; one request covers them
+    if (interval === 'week' || interval === 'month') {
+      return [{ from, to }];
+    }
+
+    const expected = CANDLES_PER_SESSION[interval] ?? 1;
+    const storedCounts = await storage.getCandleCountsByDate(instrumentKey, interval, startDate, endOfDay(endDate));
+    const completeDates = new Set(storedCounts.filter(day => day.count >= expected).map(day => day.tradeDate));
+    const missingDays = weekdaysBetween(from, to).filter(day => !completeDates.has(day));
+
+    // Merge consecutive missing trading days into ranges no longer than the API allows
+    const ranges: Array<{ from: string; to: string }> = [];
+    for (const day of missingDays) {
+      const last = ranges[ranges.length - 1];
+      const contiguous = last && weekdaysBetween(addDays(last.to, 1), day).length === 1;
+      const withinLimit = last && (new Date(day).getTime() - new Date(last.from).getTime()) / DAY_MS < maxDays;
+      if (contiguous && withinLimit) {
+        last.to = day;
+      } else {
+        ranges.push({ from: day, to: day });
+      }
+    }
+
+    return ranges;
+  }
+
+  start(config: DataFetcherConfig | null | undefined): void {
+    this.stop();
+
+    const symbols = config?.symbols?.length ? config.symbols : ['NIFTY', 'BANKNIFTY'];
+    const timeframe = config?.timeframe || '1day';
+    const lookbackDays = config?.lookbackDays || 30;
+    const intervalMs = (config?.intervalMinutes || 60) * 60 * 1000;
+
+    if (!config?.userId) {
+      storage.createLog({
+        level: 'error',
+        module: 'Data Fetcher',
+        message: 'Scheduled candle sync not started: set userId in the Data Fetcher config to the account whose Upstox session fetches candles',
+        data: { symbols, timeframe },
+      }).catch(error => console.error('Failed to log Data Fetcher config error:', error));
+      return;
+    }
+
+    const runOnce = async () => {
+      const endDate = new Date();
+      const startDate = new Date(endDate.getTime() - lookbackDays * DAY_MS);
+
+      for (const symbol of symbols) {
+        try {
+          const result = await this.syncCandles({ symbol, timeframe, startDate, endDate, userId: config.userId });
+          if (result.stored > 0) {
+            await storage.createLog({
+              level: 'info',
+              module: 'Data Fetcher',
+              message: `Stored ${result.stored} candles for ${symbol} (${result.interval})`,
+              data: result,
+            });
+          }
+        } catch (error: any) {
+          console.error(`Data fetcher sync failed for ${symbol}:`, error);
+          await storage.createLog({
+            level: 'error',
+            module: 'Data Fetcher',
+            message: `Candle sync failed for ${symbol}: ${error?.message || 'Unknown error'}`,
+            data: { symbol, timeframe },
+          });
+        }
+      }
+    };
+
+    runOnce();
+    this.timer = setInterval(runOnce, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  isRunning(): boolean {
+    return !!this.timer;
+  }
+}
+
+/**
+ * Serves candles from the `candles` table, first syncing any missing days
+ * from Upstox when the account is linked. Without a token it returns
+ * whatever is already stored, so cached ranges work offline.
+ */
+class DatabaseMarketDataProvider implements MarketDataProvider {
+  readonly name = "database";
+  readonly description = "Candles cached in the local database (synced from Upstox)";
+  readonly timeframes = UPSTOX_TIMEFRAMES;
+
+  async getCandles(request: MarketDataRequest): Promise<Candle[]> {
+    const instrumentKey = await resolveInstrumentKey(request);
+    const interval = toUpstoxInterval(request.timeframe);
+
+    try {
+      await candleSyncService.syncCandles(request);
+    } catch (error: any) {
+      console.warn(`Using stored candles only for ${instrumentKey}: ${error?.message || error}`);
+    }
+
+    const rows = await storage.getCandles(instrumentKey, interval, request.startDate, endOfDay(request.endDate));
+    if (rows.length === 0) {
+      throw new Error(`No stored candles for ${request.symbol} (${interval}) in the requested range`);
+    }
+
+    return rows.map(row => ({
+      timestamp: row.timestamp.toISOString(),
+      open: Number(row.open),
+      high: Number(row.high),
+      low: Number(row.low),
+      close: Number(row.close),
+      volume: Number(row.volume || 0),
+    }));
+  }
+}
+
+export const candleSyncService = new CandleSyncService();
+
+registerMarketDataProvider(new DatabaseMarketDataProvider());
@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { addCharges, applySlippage, calculateCharges, resolveCostModel, roundToTick } from "./cost-model";
+
+test("a missing cost model resolves to zero-cost close fills", () => {
+  const model = resolveCostModel(null);
+
+  assert.equal(model.preset, "none");
+  assert.equal(model.fillMode, "close");
+  assert.equal(calculateCharges(model, "SELL", 1000, 100).total, 0);
+});
+
+test("tick size comes from the model, then the instrument, then the default", () => {
+  assert.equal(resolveCostModel({ tickSize: 0.5 }, 0.1).tickSize, 0.5);
+  assert.equal(resolveCostModel({}, 0.1).tickSize, 0.1);
+  assert.equal(resolveCostModel({}, 0).tickSize, 0.05);
+});
+
+test("intraday equity charges on a ₹1,00,000 buy and sell", () => {
+  const model = resolveCostModel({ preset: "equity_intraday" });
+
+  const buy = calculateCharges(model, "BUY", 1000, 100);
+  assert.deepEqual(buy, {
+    brokerage: 20,
+    stt: 0,
+    exchangeCharges: 2.97,
+    sebiFees: 0.1,
+    stampDuty: 3,
+    gst: 4.1526,
+    total: 30.2226,
+  });
+
+  const sell = calculateCharges(model, "SELL", 1000, 100);
+  assert.equal(sell.stt, 25);
+  assert.equal(sell.stampDuty, 0);
+  assert.equal(sell.total, 52.2226);
+
+  assert.equal(addCharges(buy, sell).total, 82.4452);
+});
+
+test("intraday brokerage is the lower of ₹20 and the percentage", () => {
+  const model = resolveCostModel({ preset: "equity_intraday" });
+
+  assert.equal(calculateCharges(model, "BUY", 100, 100).brokerage, 5);
+});
+
+test("brokerage and charge overrides replace the preset schedule", () => {
+  const model = resolveCostModel({
+    preset: "equity_delivery",
+    brokerage: { flat: 0 },
+    charges: { sttBuyPercent: 0 },
+  });
+  const charges = calculateCharges(model, "BUY", 1000, 100);
+
+  assert.equal(charges.brokerage, 0);
+  assert.equal(charges.stt, 0);
+  assert.equal(charges.stampDuty, 15);
+});
+
+test("slippage moves the price against the order", () => {
+  const bps = resolveCostModel({ slippage: { type: "bps", value: 10 } });
+  assert.equal(applySlippage(bps, "BUY", 1000), 1001);
+  assert.equal(applySlippage(bps, "SELL", 1000), 999);
+
+  const ticks = resolveCostModel({ slippage: { type: "ticks", value: 2 } });
+  assert.equal(applySlippage(ticks, "BUY", 100), 100.1);
+  assert.equal(applySlippage(ticks, "SELL", 100), 99.9);
+});
+
+test("prices round to the nearest tick", () => {
+  assert.equal(roundToTick(100.03, 0.05), 100.05);
+  assert.equal(roundToTick(100.02, 0.05), 100);
+  assert.equal(roundToTick(250.26, 0.1), 250.3);
+});
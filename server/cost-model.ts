@@ -0,0 +1,189 @@
+import { costModelSchema, type CostModel } from "@shared/schema";
+
+type CostPreset = CostModel["preset"];
+
+interface ChargeSchedule {
+  brokerageFlat?: number;
+  brokeragePercent?: number;
+  sttBuyPercent: number;
+  sttSellPercent: number;
+  exchangePercent: number;
+  sebiPerCrore: number;
+  stampDutyBuyPercent: number;
+  gstPercent: number;
+}
+
+export interface TradeCharges {
+  brokerage: number;
+  stt: number;
+  exchangeCharges: number;
+  sebiFees: number;
+  stampDuty: number;
+  gst: number;
+  total: number;
+}
+
+export interface ResolvedCostModel {
+  preset: CostPreset;
+  fillMode: CostModel["fillMode"];
+  slippage: CostModel["slippage"];
+  tickSize: number;
+  schedule: ChargeSchedule;
+}
+
+const DEFAULT_TICK_SIZE = 0.05;
+
+/*
+ * Discount-broker schedules for NSE (Upstox-style brokerage: the lower of
+ * ₹20 or a percentage per executed order). Statutory rates change from time
+ * to time; individual backtests can override any of them.
+ */
+const CHARGE_SCHEDULES: Record<CostPreset, ChargeSchedule> = {
+  none: {
+    sttBuyPercent: 0,
+    sttSellPercent: 0,
+    exchangePercent: 0,
+    sebiPerCrore: 0,
+    stampDutyBuyPercent: 0,
+    gstPercent: 0,
+  },
+  equity_intraday: {
+    brokerageFlat: 20,
+    brokeragePercent: 0.05,
+    sttBuyPercent: 0,
+    sttSellPercent: 0.025,
+    exchangePercent: 0.00297,
+    sebiPerCrore: 10,
+    stampDutyBuyPercent: 0.003,
+    gstPercent: 18,
+  },
+  equity_delivery: {
+    brokerageFlat: 20,
+    brokeragePercent: 2.5,
+    sttBuyPercent: 0.1,
+    sttSellPercent: 0.1,
+    exchangePercent: 0.00297,
+    sebiPerCrore: 10,
+    stampDutyBuyPercent: 0.015,
+    gstPercent: 18,
+  },
+  futures: {
+    brokerageFlat: 20,
+    brokeragePercent: 0.05,
+    sttBuyPercent: 0,
+    sttSellPercent: 0.02,
+    exchangePercent: 0.00173,
+    sebiPerCrore: 10,
+    stampDutyBuyPercent: 0.002,
+    gstPercent: 18,
+  },
+  // Option charges apply to premium turnover
+  options: {
+    brokerageFlat: 20,
+    sttBuyPercent: 0,
+    sttSellPercent: 0.1,
+    exchangePercent: 0.03503,
+    sebiPerCrore: 10,
+    stampDutyBuyPercent: 0.003,
+    gstPercent: 18,
+  },
+};
+
+// Backtests created before cost models existed keep their zero-cost close fills
+const LEGACY_COST_MODEL: CostModel = {
+  preset: "none",
+  fillMode: "close",
+  slippage: { type: "bps", value: 0 },
+};
+
+/**
+ * Validates a stored cost model and merges its overrides into the preset
+ * schedule. `defaultTickSize` comes from the instrument master when known.
+ */
+export function resolveCostModel(input: unknown, defaultTickSize?: number | null): ResolvedCostModel {
+  const model = input == null ? LEGACY_COST_MODEL : costModelSchema.parse(input);
+  const preset = CHARGE_SCHEDULES[model.preset];
+
+  const schedule: ChargeSchedule = { ...preset, ...stripUndefined(model.charges || {}) };
+  if (model.brokerage) {
+    schedule.brokerageFlat = model.brokerage.flat;
+    schedule.brokeragePercent = model.brokerage.percent;
+  }
+
+  return {
+    preset: model.preset,
+    fillMode: model.fillMode,
+    slippage: model.slippage,
+    tickSize: model.tickSize || (defaultTickSize && defaultTickSize > 0 ? defaultTickSize : DEFAULT_TICK_SIZE),
+    schedule,
+  };
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+export function roundToTick(price: number, tickSize: number): number {
+  return Number((Math.round(price / tickSize) * tickSize).toFixed(4));
+}
+
+/**
+ * Moves a fill price against the order: buys fill higher, sells lower.
+ */
+export function applySlippage(model: ResolvedCostModel, side: "BUY" | "SELL", price: number): number {
+  const { type, value } = model.slippage;
+  if (value <= 0) {
+    return price;
+  }
+
+  const offset = type === "ticks" ? value * model.tickSize : price * value / 10000;
+  return roundToTick(side === "BUY" ? price + offset : price - offset, model.tickSize);
+}
+
+export function calculateCharges(
+  model: ResolvedCostModel,
+  side: "BUY" | "SELL",
+  price: number,
+  quantity: number
+): TradeCharges {
+  const schedule = model.schedule;
+  const turnover = Math.abs(price * quantity);
+
+  let brokerage = 0;
+  if (schedule.brokerageFlat !== undefined && schedule.brokeragePercent !== undefined) {
+    brokerage = Math.min(schedule.brokerageFlat, turnover * schedule.brokeragePercent / 100);
+  } else if (schedule.brokerageFlat !== undefined) {
+    brokerage = schedule.brokerageFlat;
+  } else if (schedule.brokeragePercent !== undefined) {
+    brokerage = turnover * schedule.brokeragePercent / 100;
+  }
+
+  const stt = turnover * (side === "BUY" ? schedule.sttBuyPercent : schedule.sttSellPercent) / 100;
+  const exchangeCharges = turnover * schedule.exchangePercent / 100;
+  const sebiFees = turnover * schedule.sebiPerCrore / 1e7;
+  const stampDuty = side === "BUY" ? turnover * schedule.stampDutyBuyPercent / 100 : 0;
+  const gst = (brokerage + exchangeCharges + sebiFees) * schedule.gstPercent / 100;
+
+  const charges = { brokerage, stt, exchangeCharges, sebiFees, stampDuty, gst };
+  const rounded = Object.fromEntries(
+    Object.entries(charges).map(([key, value]) => [key, Number(value.toFixed(4))])
+  ) as Omit<TradeCharges, "total">;
+
+  return {
+    ...rounded,
+    total: Number(Object.values(rounded).reduce((sum, value) => sum + value, 0).toFixed(4)),
+  };
+}
+
+export function addCharges(a: TradeCharges, b: TradeCharges): TradeCharges {
+  const sum = (key: keyof TradeCharges) => Number((a[key] + b[key]).toFixed(4));
+  return {
+    brokerage: sum("brokerage"),
+    stt: sum("stt"),
+    exchangeCharges: sum("exchangeCharges"),
+    sebiFees: sum("sebiFees"),
+    stampDuty: sum("stampDuty"),
+    gst: sum("gst"),
+    total: sum("total"),
+  };
+}
@@ -1,6 +1,31 @@
 import { storage } from "./storage";
-import { upstoxService, getValidUpstoxToken } from "./upstox";
-import { VM } from "vm2";
+import { portfolioConfigSchema, type Backtest, type InsertBacktestTrade, type PortfolioConfig } from "@shared/schema";
+import { getMarketDataProvider, getResampledCandles, type Candle, type MarketDataProvider } from "./market-data";
+import { BENCHMARK_SYMBOL, calculatePerformanceMetrics, type PerformanceMetrics } from "./performance-metrics";
+import "./candle-sync"; // registers the "database" market data source
+import {
+  createStrategyRuntime,
+  StrategyCompileError,
+  StrategyRuntimeError,
+  type StrategyContext,
+  type StrategySignal,
+} from "./strategy-runtime";
+import {
+  checkProtectiveExits,
+  createProtectiveExitState,
+  normalizeProtectiveExits,
+  updateTrailingStop,
+} from "./protective-exits";
+import { addCharges, applySlippage, calculateCharges, resolveCostModel, roundToTick, type ResolvedCostModel } from "./cost-model";
+import { fillAgainstCandle, fillAtClose, type Fill } from "./order-fills";
+import {
+  compareReproducibility,
+  ENGINE_VERSION,
+  fingerprintCandles,
+  hashStrategyCode,
+  type ReproducibilityMetadata,
+  type RerunReport,
+} from "./reproducibility";
 
 interface BacktestResult {
   trades: Array<{
@@ -15,75 +40,77 @@ interface BacktestResult {
     pnlPercent?: number;
     status: string;
     reason: string;
+    grossPnl?: number;
+    charges?: number;
+    slippage?: number;
   }>;
-  metrics: {
-    totalReturn: number;
-    sharpeRatio: number;
-    maxDrawdown: number;
-    winRate: number;
-    totalTrades: number;
-    avgTrade: number;
-    volatility: number;
+  // Filled in once the simulation has finished
+  metrics?: PerformanceMetrics;
+  equityCurve: EquityPoint[];
+  // Closed trades as backtest_trades rows, written together with the final results
+  tradeRows: InsertBacktestTrade[];
+  costs?: {
+    preset: string;
+    fillMode: string;
+    slippage: { type: string; value: number };
+    tickSize: number;
+    totalCharges: number;
+    totalSlippage: number;
   };
-  equityCurve: Array<{
-    timestamp: string;
-    value: number;
-  }>;
+  portfolio?: PortfolioConfig & {
+    rejectedOrders: number;
+    skippedSymbols?: Array<{ symbol: string; error: string }>;
+    symbols: Array<{ symbol: string; trades: number; pnl: number; winRate: number }>;
+  };
+  strategyLogs?: string[];
+  // Inputs and outcome fingerprints, for detecting drift when the backtest is rerun
+  reproducibility?: ReproducibilityMetadata;
+  // Set on identical reruns: how this run differs from the original
+  rerun?: RerunReport;
+}
+
+/**
+ * Portfolio state at the close of a bar, with open positions marked to that
+ * close. `cash` is capital not tied up in positions (net of the entry charges
+ * already paid) and `exposure` is the gross market value of open positions.
+ */
+export interface EquityPoint {
+  timestamp: string;
+  equity: number;
+  cash: number;
+  exposure: number;
+  drawdown: number;
 }
 
-class EnhancedBacktestingEngine {
+// Candles skipped before the strategy is first called, so indicators have data
+export const DEFAULT_WARMUP_BARS = 20;
+// Candles of history exposed to the strategy through data[symbol]
+export const DEFAULT_LOOKBACK_BARS = 250;
+// Minimum gap between progress writes while the simulation runs
+const PROGRESS_INTERVAL_MS = 1000;
+
+// Receives every status and progress change of a running backtest; the final
+// update also carries the trade list, to be committed together with it
+export type BacktestUpdateHandler = (backtestId: number, data: Partial<Backtest>, trades?: InsertBacktestTrade[]) => Promise<void>;
+
+export class EnhancedBacktestingEngine {
   private cancelledBacktests = new Set<number>();
 
-  private calculateRSI(prices: number[], period: number = 14): number[] {
-    if (prices.length < period + 1) {
-      return [];
-    }
-    
-    const gains: number[] = [];
-    const losses: number[] = [];
-    
-    // Calculate initial gains and losses
-    for (let i = 1; i < prices.length; i++) {
-      const change = prices[i] - prices[i - 1];
-      gains.push(change > 0 ? change : 0);
-      losses.push(change < 0 ? Math.abs(change) : 0);
-    }
-    
-    const rsiValues: number[] = [];
-    
-    // Calculate first RSI value using simple moving average
-    let avgGain = gains.slice(0, period).reduce((sum, gain) => sum + gain, 0) / period;
-    let avgLoss = losses.slice(0, period).reduce((sum, loss) => sum + loss, 0) / period;
-    
-    if (avgLoss === 0) {
-      rsiValues.push(100);
+  // Worker threads pass a handler that relays updates to the main thread instead of writing them
+  constructor(private readonly publishUpdate: BacktestUpdateHandler = async (backtestId, data, trades) => {
+    if (trades) {
+      await storage.completeBacktest(backtestId, trades, data);
     } else {
-      const rs = avgGain / avgLoss;
-      rsiValues.push(100 - (100 / (1 + rs)));
-    }
-    
-    // Calculate subsequent RSI values using exponential moving average
-    for (let i = period; i < gains.length; i++) {
-      avgGain = (avgGain * (period - 1) + gains[i]) / period;
-      avgLoss = (avgLoss * (period - 1) + losses[i]) / period;
-      
-      if (avgLoss === 0) {
-        rsiValues.push(100);
-      } else {
-        const rs = avgGain / avgLoss;
-        rsiValues.push(100 - (100 / (1 + rs)));
-      }
+      await storage.updateBacktest(backtestId, data);
     }
-    
-    return rsiValues;
-  }
+  }) {}
 
   async runBacktest(backtestId: number): Promise<void> {
     try {
       console.log(`Starting enhanced backtest ${backtestId}`);
       
       // Mark as running and started
-      await storage.updateBacktest(backtestId, {
+      await this.publishUpdate(backtestId, {
         status: "running",
         startedAt: new Date(),
         progress: 0,
@@ -101,7 +128,7 @@ class EnhancedBacktestingEngine {
       }
 
       // Update progress: Fetching strategy
-      await storage.updateBacktest(backtestId, {
+      await this.publishUpdate(backtestId, {
         progress: 10,
         progressMessage: "Loading strategy..."
       });
@@ -110,6 +137,19 @@ class EnhancedBacktestingEngine {
       if (!strategy) {
         throw new Error("Strategy not found");
       }
+      // Runs pinned to a version replay that version's code even after the strategy is edited
+      const pinnedVersion = backtest.strategyVersionId
+        ? await storage.getStrategyVersionById(backtest.strategyVersionId)
+        : undefined;
+      if (backtest.strategyVersionId && !pinnedVersion) {
+        throw new Error("Strategy version not found");
+      }
+      const strategyCode = pinnedVersion?.code ?? strategy.code;
+      const strategyParameters = pinnedVersion ? pinnedVersion.parameters : strategy.parameters;
+
+      // Slippage in ticks uses the instrument's tick size when the master knows it
+      const instrument = backtest.instrumentKey ? await storage.getInstrument(backtest.instrumentKey) : undefined;
+      const costModel = resolveCostModel(backtest.costModel, instrument?.tickSize ? Number(instrument.tickSize) : null);
 
       if (this.cancelledBacktests.has(backtestId)) {
         await this.markAsCancelled(backtestId);
@@ -117,17 +157,60 @@ class EnhancedBacktestingEngine {
       }
 
       // Update progress: Fetching historical data
-      await storage.updateBacktest(backtestId, {
+      await this.publishUpdate(backtestId, {
         progress: 20,
-        progressMessage: `Fetching historical data for ${backtest.symbol}...`
+        progressMessage: `Fetching historical data for ${backtest.symbol} (${backtest.dataSource || "upstox"})...`
       });
 
-      const historicalData = await this.getHistoricalDataForBacktest(
-        backtest.symbol,
-        backtest.timeframe,
-        backtest.startDate,
-        backtest.endDate
-      );
+      const dataProvider = getMarketDataProvider(backtest.dataSource);
+      const symbols = Array.isArray(backtest.symbols) && backtest.symbols.length > 0
+        ? backtest.symbols as string[]
+        : [backtest.symbol];
+      const portfolio = portfolioConfigSchema.parse(backtest.portfolio ?? {});
+      const marketData = new Map<string, Candle[]>();
+      const skippedSymbols: Array<{ symbol: string; error: string }> = [];
+      let sourceTimeframe = backtest.timeframe;
+
+      for (let position = 0; position < symbols.length; position++) {
+        const symbol = symbols[position];
+        if (this.cancelledBacktests.has(backtestId)) {
+          await this.markAsCancelled(backtestId);
+          return;
+        }
+        if (symbols.length > 1) {
+          await this.publishUpdate(backtestId, {
+            progressMessage: `Fetching historical data for ${symbol} (${position + 1}/${symbols.length})...`
+          });
+        }
+
+        try {
+          const loaded = await getResampledCandles(dataProvider, {
+            symbol,
+            timeframe: backtest.timeframe,
+            startDate: backtest.startDate,
+            endDate: backtest.endDate,
+            userId: backtest.userId,
+            instrumentKey: symbols.length === 1 ? backtest.instrumentKey : undefined
+          });
+          if (loaded.candles.length > 0) {
+            marketData.set(symbol, loaded.candles);
+            sourceTimeframe = loaded.sourceTimeframe;
+          }
+        } catch (error: any) {
+          // One missing constituent should not sink a basket backtest
+          if (symbols.length === 1) {
+            throw error;
+          }
+          console.warn(`Skipping ${symbol} in backtest ${backtestId}: ${error?.message || error}`);
+          skippedSymbols.push({ symbol, error: error?.message || String(error) });
+        }
+      }
+
+      if (marketData.size === 0) {
+        throw new Error(`No historical data available for ${backtest.symbol} from ${dataProvider.name}`);
+      }
+
+      await this.publishUpdate(backtestId, { sourceInterval: sourceTimeframe });
 
       if (this.cancelledBacktests.has(backtestId)) {
         await this.markAsCancelled(backtestId);
@@ -135,18 +218,27 @@ class EnhancedBacktestingEngine {
       }
 
       // Update progress: Running simulation
-      await storage.updateBacktest(backtestId, {
+      await this.publishUpdate(backtestId, {
         progress: 30,
         progressMessage: "Running strategy simulation..."
       });
 
+      // Optimization runs override individual strategy parameters
+      const parameters = backtest.parameters && typeof backtest.parameters === 'object'
+        ? { ...(strategyParameters as Record<string, any> || {}), ...(backtest.parameters as Record<string, any>) }
+        : strategyParameters;
+
       const results = await this.simulateStrategy(
         backtestId,
-        strategy.code,
-        historicalData,
+        { code: strategyCode, parameters },
+        marketData,
         Number(backtest.initialCapital),
-        backtest.symbol
+        costModel,
+        portfolio
       );
+      if (results.portfolio && skippedSymbols.length > 0) {
+        results.portfolio.skippedSymbols = skippedSymbols;
+      }
 
       if (this.cancelledBacktests.has(backtestId)) {
         await this.markAsCancelled(backtestId);
@@ -154,22 +246,55 @@ class EnhancedBacktestingEngine {
       }
 
       // Update progress: Calculating metrics
-      await storage.updateBacktest(backtestId, {
+      await this.publishUpdate(backtestId, {
         progress: 80,
         progressMessage: "Calculating performance metrics..."
       });
 
-      const equityCurve = this.calculateEquityCurve(results, Number(backtest.initialCapital));
-      const metrics = this.calculateMetrics(results, Number(backtest.initialCapital));
+      const benchmark = marketData.get(BENCHMARK_SYMBOL) ?? await this.loadBenchmark(dataProvider, backtest);
+      const metrics = calculatePerformanceMetrics(
+        results.equityCurve,
+        results.trades,
+        Number(backtest.initialCapital),
+        backtest.timeframe,
+        benchmark
+      );
+      results.metrics = metrics;
+
+      results.reproducibility = {
+        engineVersion: ENGINE_VERSION,
+        strategy: { id: strategy.id, version: pinnedVersion?.version ?? null, codeHash: hashStrategyCode(strategyCode), parameters: (parameters || {}) as Record<string, unknown> },
+        dataSource: dataProvider.name,
+        timeframe: backtest.timeframe,
+        sourceInterval: sourceTimeframe,
+        startDate: backtest.startDate.toISOString(),
+        endDate: backtest.endDate.toISOString(),
+        initialCapital: Number(backtest.initialCapital),
+        costModel,
+        portfolio,
+        data: Object.fromEntries(Array.from(marketData.entries()).map(([symbol, candles]) => [symbol, fingerprintCandles(candles)])),
+        benchmark: benchmark.length > 0 ? fingerprintCandles(benchmark) : null,
+        outcome: { totalTrades: metrics.totalTrades, finalEquity: Number(backtest.initialCapital) * (1 + metrics.totalReturn) },
+      };
+      if (backtest.rerunOfId) {
+        const original = await storage.getBacktest(backtest.rerunOfId);
+        results.rerun = compareReproducibility(
+          backtest.rerunOfId,
+          (original?.results as { reproducibility?: ReproducibilityMetadata } | null)?.reproducibility,
+          results.reproducibility
+        );
+      }
+      // The per-bar series lives in its own column rather than inside results
+      const { equityCurve, tradeRows, ...summary } = results;
 
       // Update progress: Saving results
-      await storage.updateBacktest(backtestId, {
+      await this.publishUpdate(backtestId, {
         progress: 90,
         progressMessage: "Saving results..."
       });
 
       // Save final results
-      await storage.updateBacktest(backtestId, {
+      await this.publishUpdate(backtestId, {
         status: "completed",
         progress: 100,
         progressMessage: "Backtest completed successfully",
@@ -179,17 +304,27 @@ class EnhancedBacktestingEngine {
         maxDrawdown: metrics.maxDrawdown.toString(),
         winRate: metrics.winRate.toString(),
         totalTrades: metrics.totalTrades,
-        results: results,
+        results: summary,
         equityCurve: equityCurve,
         completedAt: new Date()
-      });
+      }, tradeRows);
 
       console.log(`Backtest ${backtestId} completed successfully`);
     } catch (error: any) {
       console.error(`Backtest ${backtestId} failed:`, error);
-      await storage.updateBacktest(backtestId, { 
+      const strategyError = error instanceof StrategyCompileError || error instanceof StrategyRuntimeError;
+      await this.publishUpdate(backtestId, { 
         status: "error",
         progressMessage: `Error: ${error?.message || 'Unknown error'}`,
+        ...(strategyError && {
+          results: {
+            error: {
+              type: error instanceof StrategyCompileError ? "compile" : "runtime",
+              message: error.message,
+              timestamp: error instanceof StrategyRuntimeError ? error.timestamp : undefined
+            }
+          }
+        }),
         completedAt: new Date()
       });
       throw error;
@@ -201,7 +336,7 @@ class EnhancedBacktestingEngine {
   async cancelBacktest(backtestId: number): Promise<void> {
     console.log(`Cancelling backtest ${backtestId}`);
     this.cancelledBacktests.add(backtestId);
-    await storage.updateBacktest(backtestId, {
+    await this.publishUpdate(backtestId, {
       status: "cancelled",
       progressMessage: "Backtest cancelled by user",
       completedAt: new Date()
@@ -209,7 +344,7 @@ class EnhancedBacktestingEngine {
   }
 
   private async markAsCancelled(backtestId: number): Promise<void> {
-    await storage.updateBacktest(backtestId, {
+    await this.publishUpdate(backtestId, {
       status: "cancelled",
       progressMessage: "Backtest cancelled by user",
       completedAt: new Date()
@@ -217,554 +352,434 @@ class EnhancedBacktestingEngine {
     throw new Error("Backtest was cancelled");
   }
 
-  private async getHistoricalDataForBacktest(
-    symbol: string,
-    timeframe: string,
-    startDate: Date,
-    endDate: Date
-  ): Promise<any[]> {
-    const userId = 1;
-    const accessToken = await getValidUpstoxToken(userId, storage);
-    
-    if (!accessToken) {
-      throw new Error("Upstox access token not available. Please link your Upstox account to fetch historical data.");
-    }
-
-    try {
-      console.log(`Fetching historical data for ${symbol} from Upstox API`);
-      
-      // Convert symbol to Upstox format
-      const upstoxSymbol = this.convertSymbolToUpstox(symbol);
-      
-      // Convert timeframe to Upstox format
-      const upstoxTimeframe = this.convertTimeframeToUpstox(timeframe);
-      console.log(`Converting timeframe: ${timeframe} -> ${upstoxTimeframe}`);
-      
-      // Format dates for Upstox API (YYYY-MM-DD)
-      const fromDate = startDate.toISOString().split('T')[0];
-      const toDate = endDate.toISOString().split('T')[0];
-      
-      const data = await upstoxService.getHistoricalData(
-        upstoxSymbol,
-        fromDate,
-        toDate,
-        accessToken,
-        upstoxTimeframe
-      );
-      
-      if (!data || data.length === 0) {
-        throw new Error(`No historical data available for ${symbol} from ${fromDate} to ${toDate}`);
+  private async simulateStrategy(
+    backtestId: number,
+    strategy: { code: string; parameters: unknown },
+    marketData: Map<string, Candle[]>,
+    initialCapital: number,
+    costModel: ResolvedCostModel,
+    portfolio: PortfolioConfig = {}
+  ): Promise<BacktestResult> {
+    const symbols = Array.from(marketData.keys());
+    const isPortfolio = symbols.length > 1;
+    const trades: any[] = [];
+    const tradeRows: InsertBacktestTrade[] = [];
+    const positions = new Map<string, number>(symbols.map(symbol => [symbol, 0]));
+    const openTrades = new Map<string, any>();
+    // Index of each symbol's latest candle on the merged timeline, -1 before its first
+    const barIndex = new Map<string, number>(symbols.map(symbol => [symbol, -1]));
+    let currentCapital = initialCapital;
+    let pendingOrders: StrategySignal[] = [];
+    let totalCharges = 0;
+    let totalSlippage = 0;
+    let rejectedOrders = 0;
+
+    const parameters = (strategy.parameters && typeof strategy.parameters === 'object')
+      ? strategy.parameters as Record<string, any>
+      : {};
+    const warmupBars = Number.isInteger(parameters.warmupBars) ? parameters.warmupBars : DEFAULT_WARMUP_BARS;
+    const lookbackBars = Number.isInteger(parameters.lookbackBars) ? parameters.lookbackBars : DEFAULT_LOOKBACK_BARS;
+
+    // Use 10% of capital per trade
+    const defaultQuantity = (symbol: string) => Math.floor(initialCapital / (marketData.get(symbol)![0]?.close || 100) / 10);
+
+    // Compile once up front so syntax errors fail the backtest instead of every candle
+    const runtime = createStrategyRuntime(strategy.code, { symbol: symbols[0], parameters });
+
+    // Every distinct candle time across the basket, in order
+    const timeline = Array.from(new Set(symbols.flatMap(symbol => marketData.get(symbol)!.map(candle => candle.timestamp))))
+      .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+
+    const candleAt = (symbol: string, index: number) => marketData.get(symbol)![index];
+    const history = (symbol: string, index: number) =>
+      marketData.get(symbol)!.slice(Math.max(0, index - lookbackBars + 1), index + 1);
+
+    // Capital tied up in open positions at their entry prices
+    const usedCapital = () => Array.from(openTrades.values())
+      .reduce((sum, trade) => sum + trade.entryPrice * trade.quantity, 0);
+
+    const equityCurve: EquityPoint[] = [];
+    let peakEquity = initialCapital;
+
+    const recordEquity = (timestamp: string) => {
+      let exposure = 0;
+      let unrealized = 0;
+      let entryCharges = 0;
+      for (const [symbol, trade] of Array.from(openTrades.entries())) {
+        const close = candleAt(symbol, barIndex.get(symbol)!).close;
+        exposure += Math.abs(close * trade.quantity);
+        unrealized += (trade.side === 'BUY' ? close - trade.entryPrice : trade.entryPrice - close) * trade.quantity;
+        entryCharges += trade.entryCharges.total;
       }
 
-      console.log(`Retrieved ${data.length} candles for ${symbol}`);
-      const formattedData = this.formatUpstoxData(data);
-      // Sort data chronologically (oldest first)
-      formattedData.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-      return formattedData;
-      
-    } catch (error) {
-      console.error(`Failed to fetch Upstox data for ${symbol}:`, error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Cannot fetch historical data from Upstox: ${errorMessage}`);
-    }
-  }
+      const equity = currentCapital + unrealized - entryCharges;
+      peakEquity = Math.max(peakEquity, equity);
+      const point = {
+        timestamp,
+        equity: Number(equity.toFixed(2)),
+        cash: Number((currentCapital - usedCapital() - entryCharges).toFixed(2)),
+        exposure: Number(exposure.toFixed(2)),
+        drawdown: peakEquity > 0 ? Number(((peakEquity - equity) / peakEquity).toFixed(6)) : 0
+      };
 
-  private convertSymbolToUpstox(symbol: string): string {
-    // Map common symbols to Upstox instrument keys
-    const symbolMapping: { [key: string]: string } = {
-      'NIFTY': 'NSE_INDEX|Nifty 50',
-      'BANKNIFTY': 'NSE_INDEX|Nifty Bank',
-      'RELIANCE': 'NSE_EQ|INE002A01018',
-      'TCS': 'NSE_EQ|INE467B01029',
-      'HDFCBANK': 'NSE_EQ|INE040A01034',
-      'INFY': 'NSE_EQ|INE009A01021',
-      'ICICIBANK': 'NSE_EQ|INE090A01021',
-      'HINDUNILVR': 'NSE_EQ|INE030A01027',
-      'ITC': 'NSE_EQ|INE154A01025',
-      'KOTAKBANK': 'NSE_EQ|INE237A01028'
+      // The end-of-backtest close rewrites the final bar instead of adding one
+      if (equityCurve[equityCurve.length - 1]?.timestamp === timestamp) {
+        equityCurve[equityCurve.length - 1] = point;
+      } else {
+        equityCurve.push(point);
+      }
     };
-    
-    return symbolMapping[symbol] || `NSE_EQ|${symbol}`;
-  }
 
-  private convertTimeframeToUpstox(timeframe: string): string {
-    const mapping: { [key: string]: string } = {
-      '1minute': '1minute',
-      '5minute': '1minute', // Upstox doesn't support 5minute, use 1minute
-      '15minute': '30minute', // Upstox doesn't support 15minute, use 30minute
-      '30minute': '30minute',
-      '1hour': '30minute', // Upstox doesn't support 1hour, use 30minute
-      '1day': 'day'
+    const buildContext = (
+      symbol: string,
+      data?: Record<string, Candle[]>,
+      candles?: Record<string, Candle>
+    ): StrategyContext => {
+      const index = barIndex.get(symbol)!;
+      return {
+        symbol,
+        candle: candleAt(symbol, index),
+        index,
+        history: data?.[symbol] ?? history(symbol, index),
+        position: positions.get(symbol)!,
+        cash: currentCapital - usedCapital(),
+        symbols,
+        data,
+        positions: Object.fromEntries(positions),
+        candles,
+      };
     };
-    return mapping[timeframe] || 'day';
-  }
 
-  private formatUpstoxData(data: any[]): any[] {
-    return data.map(candle => ({
-      timestamp: new Date(candle.timestamp).toISOString(),
-      open: Number(candle.open),
-      high: Number(candle.high),
-      low: Number(candle.low),
-      close: Number(candle.close),
-      volume: Number(candle.volume || 0)
-    }));
-  }
+    // Price validation helper
+    const isValidPrice = (entryPrice: number, exitPrice: number) => {
+      const priceChange = Math.abs((exitPrice - entryPrice) / entryPrice);
+      return priceChange <= 0.5; // Max 50% price change per trade
+    };
+
+    const closeOpenTrade = async (symbol: string, fill: Fill, reason: string): Promise<boolean> => {
+      const openTrade = openTrades.get(symbol);
+
+      // Ensure exit time is not before entry time; entry and exit may share a bar
+      const entryTime = new Date(openTrade.entryTime);
+      const exitTime = new Date(fill.timestamp);
+
+      if (exitTime < entryTime) {
+        console.warn(`Invalid timing: exit ${exitTime.toISOString()} < entry ${entryTime.toISOString()}`);
+        return false;
+      }
 
-  private generateRealisticMockData(symbol: string, timeframe: string, startDate: Date, endDate: Date): any[] {
-    const data = [];
-    const currentDate = new Date(startDate);
-    const basePrice = symbol.includes('NIFTY') ? 18000 : 100;
-    let currentPrice = basePrice;
-
-    const getTimeframeMinutes = (tf: string) => {
-      switch (tf) {
-        case '1minute': return 1;
-        case '5minute': return 5;
-        case '15minute': return 15;
-        case '1hour': return 60;
-        case '1day': return 1440;
-        default: return 1440;
+      // Validate exit price is reasonable
+      if (!isValidPrice(openTrade.entryPrice, fill.price)) {
+        console.warn(`Skipping unrealistic trade: entry ${openTrade.entryPrice}, exit ${fill.price}`);
+        return false;
       }
+
+      const exitSide = openTrade.side === 'BUY' ? 'SELL' : 'BUY';
+      const exitCharges = calculateCharges(costModel, exitSide, fill.price, openTrade.quantity);
+      const charges = addCharges(openTrade.entryCharges, exitCharges);
+      const slippage = Number((openTrade.entrySlippage + Math.abs(fill.price - fill.referencePrice) * openTrade.quantity).toFixed(4));
+
+      const grossPnl = openTrade.side === 'BUY'
+        ? (fill.price - openTrade.entryPrice) * openTrade.quantity
+        : (openTrade.entryPrice - fill.price) * openTrade.quantity;
+      const pnl = grossPnl - charges.total;
+      const pnlPercent = (pnl / (openTrade.entryPrice * openTrade.quantity)) * 100;
+
+      const { entryCharges, entrySlippage, exitsFromIndex, exitState, ...entry } = openTrade;
+      const completedTrade = {
+        ...entry,
+        exitPrice: fill.price,
+        exitTime: fill.timestamp,
+        grossPnl,
+        charges: charges.total,
+        chargesBreakdown: charges,
+        slippage,
+        pnl,
+        pnlPercent,
+        status: 'closed',
+        reason: `${openTrade.reason} -> ${reason}`
+      };
+
+      trades.push(completedTrade);
+      tradeRows.push({
+        backtestId,
+        symbol: completedTrade.symbol,
+        side: completedTrade.side,
+        quantity: completedTrade.quantity,
+        entryPrice: completedTrade.entryPrice.toString(),
+        exitPrice: completedTrade.exitPrice.toString(),
+        entryTime: new Date(completedTrade.entryTime),
+        exitTime: new Date(completedTrade.exitTime),
+        grossPnl: grossPnl.toString(),
+        charges: charges.total.toString(),
+        slippage: slippage.toString(),
+        chargesBreakdown: charges,
+        pnl: completedTrade.pnl.toString(),
+        pnlPercent: completedTrade.pnlPercent.toString(),
+        status: completedTrade.status,
+        reason: completedTrade.reason
+      });
+
+      totalCharges += charges.total;
+      totalSlippage += slippage;
+      currentCapital += pnl;
+      positions.set(symbol, 0);
+      openTrades.delete(symbol);
+      return true;
     };
 
-    const minutes = getTimeframeMinutes(timeframe);
-    
-    while (currentDate <= endDate) {
-      // Skip weekends for daily data
-      if (timeframe === '1day' && (currentDate.getDay() === 0 || currentDate.getDay() === 6)) {
-        currentDate.setDate(currentDate.getDate() + 1);
-        continue;
+    /**
+     * Caps a new position by the portfolio limits and the cash not already
+     * committed to other positions. Single-symbol backtests are not capped.
+     */
+    const sizePosition = (symbol: string, quantity: number, price: number): number => {
+      if (!isPortfolio) {
+        return quantity;
+      }
+      if (portfolio.maxPositions && openTrades.size >= portfolio.maxPositions) {
+        return 0;
       }
 
-      // Skip non-market hours for intraday data
-      if (minutes < 1440) {
-        const hour = currentDate.getHours();
-        if (hour < 9 || hour > 15) {
-          currentDate.setMinutes(currentDate.getMinutes() + minutes);
-          continue;
-        }
+      let capped = Math.min(quantity, Math.floor((currentCapital - usedCapital()) / price));
+      if (portfolio.maxPositionPercent) {
+        capped = Math.min(capped, Math.floor(currentCapital * portfolio.maxPositionPercent / 100 / price));
       }
+      return Math.max(0, capped);
+    };
 
-      // Scale volatility based on timeframe
-      const volatilityScale = minutes < 60 ? 0.003 : 0.01; // Lower volatility for shorter timeframes
-      const maxChange = volatilityScale * Math.sqrt(minutes / 60); // Adjusted for timeframe
-      const change = (Math.random() - 0.5) * maxChange * 2;
-      
-      const open = currentPrice;
-      let close = open * (1 + change);
-      
-      // Mean reversion to prevent unrealistic drift
-      const driftFromBase = (currentPrice - basePrice) / basePrice;
-      if (Math.abs(driftFromBase) > 0.3) { // If price drifted more than 30% from base
-        const reversion = -driftFromBase * 0.1; // 10% reversion towards base
-        close = open * (1 + change + reversion);
+    // `index` is the candle of signal.symbol the fill happened on
+    const executeSignal = async (signal: StrategySignal, fill: Fill, index: number) => {
+      const symbol = signal.symbol;
+      const currentPosition = positions.get(symbol)!;
+      const side = signal.action;
+      const reason = signal.reason || (side === 'BUY' ? 'Long Entry' : 'Short Entry');
+
+      // A signal in the direction of the open position is a no-op
+      if ((side === 'BUY' && currentPosition > 0) || (side === 'SELL' && currentPosition < 0)) {
+        return;
       }
-      
-      // Ensure price stays within reasonable bounds
-      const minPrice = basePrice * 0.5; // 50% of base price
-      const maxPrice = basePrice * 2.0; // 200% of base price
-      close = Math.max(minPrice, Math.min(maxPrice, close));
-      
-      const high = Math.max(open, close) * (1 + Math.random() * 0.005);
-      const low = Math.min(open, close) * (1 - Math.random() * 0.005);
-      const volume = Math.floor(Math.random() * 1000000) + 10000;
-
-      data.push({
-        timestamp: currentDate.toISOString(),
-        open: Number(open.toFixed(2)),
-        high: Number(high.toFixed(2)),
-        low: Number(low.toFixed(2)),
-        close: Number(close.toFixed(2)),
-        volume: volume
-      });
 
-      currentPrice = close;
-      currentDate.setMinutes(currentDate.getMinutes() + minutes);
-    }
+      // Opposite signal closes the open position first
+      if (openTrades.has(symbol)) {
+        const closed = await closeOpenTrade(symbol, fill, signal.reason || (side === 'BUY' ? 'Short Exit' : 'Long Exit'));
+        if (!closed) {
+          return;
+        }
+      }
 
-    return data;
-  }
+      const requested = signal.quantity && signal.quantity > 0 ? Math.floor(signal.quantity) : defaultQuantity(symbol);
+      const quantity = requested > 0 ? sizePosition(symbol, requested, fill.price) : 0;
+      if (quantity <= 0) {
+        if (requested > 0) {
+          rejectedOrders++;
+        }
+        return;
+      }
 
-  private async simulateStrategy(
-    backtestId: number,
-    strategyCode: string,
-    historicalData: any[],
-    initialCapital: number,
-    symbol: string
-  ): Promise<BacktestResult> {
-    const trades: any[] = [];
-    let currentPosition = 0;
-    let currentCapital = initialCapital;
-    let openTrade: any = null;
+      // ATR-based exits only see candles that had closed before the fill
+      const exits = normalizeProtectiveExits(signal.exits, parameters.exits);
+      const knownHistory = marketData.get(symbol)!.slice(0, fill.atOpen ? index : index + 1);
+
+      openTrades.set(symbol, {
+        symbol,
+        side,
+        quantity,
+        entryPrice: fill.price,
+        entryTime: fill.timestamp,
+        // First candle whose range can trigger the exits
+        exitsFromIndex: fill.atOpen ? index : index + 1,
+        exitState: exits ? createProtectiveExitState(exits, side, fill.price, knownHistory) : null,
+        entryCharges: calculateCharges(costModel, side, fill.price, quantity),
+        entrySlippage: Math.abs(fill.price - fill.referencePrice) * quantity,
+        status: 'open',
+        reason
+      });
+      positions.set(symbol, side === 'BUY' ? quantity : -quantity);
+    };
 
-    const tradeQuantity = Math.floor(initialCapital / (historicalData[0]?.close || 100) / 10); // Use 10% of capital per trade
+    let initialized = false;
+    let lastProgressAt = 0;
 
-    for (let i = 20; i < historicalData.length; i++) {
+    for (let t = 0; t < timeline.length; t++) {
       if (this.cancelledBacktests.has(backtestId)) {
         throw new Error("Backtest was cancelled");
       }
 
       // Update progress periodically
-      if (i % Math.floor(historicalData.length / 50) === 0) {
-        const progress = 30 + Math.floor((i / historicalData.length) * 50);
-        await storage.updateBacktest(backtestId, {
+      if (t % Math.max(1, Math.floor(timeline.length / 50)) === 0 && Date.now() - lastProgressAt >= PROGRESS_INTERVAL_MS) {
+        lastProgressAt = Date.now();
+        const progress = 30 + Math.floor((t / timeline.length) * 50);
+        await this.publishUpdate(backtestId, {
           progress,
-          progressMessage: `Processing ${i}/${historicalData.length} candles...`
+          progressMessage: `Processing ${t}/${timeline.length} candles...`
         });
       }
 
-      const currentCandle = historicalData[i];
-      const previousCandles = historicalData.slice(Math.max(0, i - 20), i);
-
-      try {
-        // Calculate RSI for the current data window
-        const prices = previousCandles.map(candle => candle.close);
-        const rsiValues = this.calculateRSI(prices, 14);
-        const currentRSI = rsiValues[rsiValues.length - 1];
-
-        const vm = new VM({
-          timeout: 1000,
-          sandbox: {
-            data: { [symbol]: previousCandles },
-            currentPrice: currentCandle.close,
-            position: currentPosition,
-            portfolio: {
-              cash: currentCapital,
-              positions: { [symbol]: currentPosition }
-            },
-            parameters: {
-              rsiPeriod: 14,
-              maxPositionSize: 0.1
-            },
-            rsi: (prices: number[], period: number) => this.calculateRSI(prices, period),
-            buy: (symbol: string, quantity: number, price: number, timestamp: string) => {
-              return { action: 'BUY', quantity, price, timestamp, reason: `Long Entry - RSI ${currentRSI?.toFixed(1)}` };
-            },
-            sell: (symbol: string, quantity: number, price: number, timestamp: string) => {
-              return { action: 'SELL', quantity, price, timestamp, reason: `Long Exit - RSI ${currentRSI?.toFixed(1)}` };
-            },
-            console: { log: () => {} }
-          }
-        });
+      // Symbols that have a candle at this timestamp
+      const active: string[] = [];
+      for (const symbol of symbols) {
+        const next = barIndex.get(symbol)! + 1;
+        if (next < marketData.get(symbol)!.length && candleAt(symbol, next).timestamp === timeline[t]) {
+          barIndex.set(symbol, next);
+          active.push(symbol);
+        }
+      }
 
-        const signal = vm.run(`
-          // Simplified RSI strategy execution
-          (function() {
-            try {
-              const prices = data['${symbol}'].map(point => point.close);
-              const rsiValues = rsi(prices, 14);
-              const currentRsi = rsiValues[rsiValues.length - 1];
-              
-              if (!currentRsi || isNaN(currentRsi)) {
-                return { action: 'HOLD', reason: 'Invalid RSI calculation' };
-              }
-              
-              const currentPosition = portfolio.positions['${symbol}'] || 0;
-              const cash = portfolio.cash;
-              const currentPrice = prices[prices.length - 1];
-              
-              // Buy signal: RSI between 30-50 and no position
-              if (currentRsi > 30 && currentRsi <= 50 && currentPosition === 0) {
-                const quantity = Math.floor((cash * 0.1) / currentPrice);
-                if (quantity > 0) {
-                  return buy('${symbol}', quantity, currentPrice, new Date().toISOString());
-                }
-              }
-              
-              // Sell signal: RSI >= 70 and has position
-              if (currentRsi >= 70 && currentPosition > 0) {
-                return sell('${symbol}', currentPosition, currentPrice, new Date().toISOString());
-              }
-              
-              return { action: 'HOLD', reason: \`RSI: \${currentRsi.toFixed(2)} - No signal\` };
-            } catch (e) {
-              return { action: 'HOLD', reason: 'Strategy error: ' + e.message };
-            }
-          })()
-        `);
-
-        // Price validation helper
-        const isValidPrice = (entryPrice: number, exitPrice: number) => {
-          const priceChange = Math.abs((exitPrice - entryPrice) / entryPrice);
-          return priceChange <= 0.5; // Max 50% price change per trade
-        };
-
-        // Process trading signals
-        if (signal.action === 'BUY' && currentPosition <= 0) {
-          // Close short position if any
-          if (openTrade && openTrade.side === 'SELL') {
-            // Ensure exit time is after entry time
-            const entryTime = new Date(openTrade.entryTime);
-            const exitTime = new Date(currentCandle.timestamp);
-            
-            if (exitTime <= entryTime) {
-              console.warn(`Invalid timing: exit ${exitTime.toISOString()} <= entry ${entryTime.toISOString()}`);
-              continue;
-            }
-            
-            // Validate exit price is reasonable
-            if (!isValidPrice(openTrade.entryPrice, currentCandle.close)) {
-              console.warn(`Skipping unrealistic trade: entry ${openTrade.entryPrice}, exit ${currentCandle.close}`);
-              continue;
-            }
-            
-            const pnl = (openTrade.entryPrice - currentCandle.close) * openTrade.quantity;
-            const pnlPercent = (pnl / (openTrade.entryPrice * openTrade.quantity)) * 100;
-            
-            const completedTrade = {
-              ...openTrade,
-              exitPrice: currentCandle.close,
-              exitTime: currentCandle.timestamp,
-              pnl,
-              pnlPercent,
-              status: 'closed',
-              reason: `Short Exit - RSI ${currentRSI?.toFixed(1)}`
-            };
-            
-            trades.push(completedTrade);
-            await storage.createBacktestTrade({
-              backtestId,
-              symbol: completedTrade.symbol,
-              side: completedTrade.side,
-              quantity: completedTrade.quantity,
-              entryPrice: completedTrade.entryPrice.toString(),
-              exitPrice: completedTrade.exitPrice.toString(),
-              entryTime: new Date(completedTrade.entryTime),
-              exitTime: new Date(completedTrade.exitTime),
-              pnl: completedTrade.pnl.toString(),
-              pnlPercent: completedTrade.pnlPercent.toString(),
-              status: completedTrade.status,
-              reason: completedTrade.reason
-            });
-            
-            currentCapital += pnl;
-            openTrade = null;
-          }
+      // Orders placed on a symbol's previous candle fill against its next one or expire
+      const waiting: StrategySignal[] = [];
+      for (const order of pendingOrders) {
+        if (!active.includes(order.symbol)) {
+          waiting.push(order);
+          continue;
+        }
+        const index = barIndex.get(order.symbol)!;
+        const fill = fillAgainstCandle(order, candleAt(order.symbol, index), costModel);
+        if (fill) {
+          await executeSignal(order, fill, index);
+        }
+      }
+      pendingOrders = waiting;
 
-          // Open long position
-          const newTrade = {
-            symbol,
-            side: 'BUY',
-            quantity: tradeQuantity,
-            entryPrice: currentCandle.close,
-            entryTime: currentCandle.timestamp,
-            status: 'open',
-            reason: signal.reason || 'Strategy signal'
-          };
-          
-          openTrade = newTrade;
-          currentPosition = tradeQuantity;
-          
-        } else if (signal.action === 'SELL' && currentPosition >= 0) {
-          // Close long position if any
-          if (openTrade && openTrade.side === 'BUY') {
-            // Ensure exit time is after entry time
-            const entryTime = new Date(openTrade.entryTime);
-            const exitTime = new Date(currentCandle.timestamp);
-            
-            if (exitTime <= entryTime) {
-              console.warn(`Invalid timing: exit ${exitTime.toISOString()} <= entry ${entryTime.toISOString()}`);
-              continue;
-            }
-            
-            // Validate exit price is reasonable
-            if (!isValidPrice(openTrade.entryPrice, currentCandle.close)) {
-              console.warn(`Skipping unrealistic trade: entry ${openTrade.entryPrice}, exit ${currentCandle.close}`);
-              continue;
-            }
-            
-            const pnl = (currentCandle.close - openTrade.entryPrice) * openTrade.quantity;
-            const pnlPercent = (pnl / (openTrade.entryPrice * openTrade.quantity)) * 100;
-            
-            const completedTrade = {
-              ...openTrade,
-              exitPrice: currentCandle.close,
-              exitTime: currentCandle.timestamp,
-              pnl,
-              pnlPercent,
-              status: 'closed',
-              reason: `Long Exit - RSI ${currentRSI?.toFixed(1)}`
-            };
-            
-            trades.push(completedTrade);
-            await storage.createBacktestTrade({
-              backtestId,
-              symbol: completedTrade.symbol,
-              side: completedTrade.side,
-              quantity: completedTrade.quantity,
-              entryPrice: completedTrade.entryPrice.toString(),
-              exitPrice: completedTrade.exitPrice.toString(),
-              entryTime: new Date(completedTrade.entryTime),
-              exitTime: new Date(completedTrade.exitTime),
-              pnl: completedTrade.pnl.toString(),
-              pnlPercent: completedTrade.pnlPercent.toString(),
-              status: completedTrade.status,
-              reason: completedTrade.reason
-            });
-            
-            currentCapital += pnl;
-            openTrade = null;
-          }
+      // Protective exits are checked against the candle's range once the entry is known
+      for (const symbol of active) {
+        const openTrade = openTrades.get(symbol);
+        const index = barIndex.get(symbol)!;
+        if (!openTrade?.exitState || openTrade.exitsFromIndex > index) {
+          continue;
+        }
 
-          // Open short position
-          const newTrade = {
-            symbol,
-            side: 'SELL',
-            quantity: tradeQuantity,
-            entryPrice: currentCandle.close,
-            entryTime: currentCandle.timestamp,
-            status: 'open',
-            reason: signal.reason || 'Strategy signal'
-          };
-          
-          openTrade = newTrade;
-          currentPosition = -tradeQuantity;
+        const currentCandle = candleAt(symbol, index);
+        const hit = checkProtectiveExits(openTrade.exitState, currentCandle);
+        if (hit) {
+          const exitSide = openTrade.side === 'BUY' ? 'SELL' : 'BUY';
+          const level = roundToTick(hit.price, costModel.tickSize);
+          await closeOpenTrade(symbol, {
+            price: hit.orderType === 'STOP' ? applySlippage(costModel, exitSide, level) : level,
+            referencePrice: level,
+            timestamp: currentCandle.timestamp
+          }, `${hit.trigger} @ ${level.toFixed(2)}`);
+        } else {
+          updateTrailingStop(openTrade.exitState, currentCandle);
+        }
+      }
+
+      const ready = active.filter(symbol => barIndex.get(symbol)! >= warmupBars);
+      const barReady = t >= warmupBars;
+      if (ready.length === 0 && !barReady) {
+        recordEquity(timeline[t]);
+        continue;
+      }
+
+      const data = Object.fromEntries(symbols
+        .filter(symbol => barIndex.get(symbol)! >= 0)
+        .map(symbol => [symbol, history(symbol, barIndex.get(symbol)!)]));
+      const candles = Object.fromEntries(active.map(symbol => [symbol, candleAt(symbol, barIndex.get(symbol)!)]));
+
+      if (!initialized) {
+        runtime.init(buildContext(ready[0] ?? active[0], data, candles));
+        initialized = true;
+      }
+
+      const signals: StrategySignal[] = [];
+      for (const symbol of ready) {
+        signals.push(...runtime.onCandle(buildContext(symbol, data, candles)));
+      }
+      if (barReady) {
+        signals.push(...runtime.onBar(buildContext(active[0], data, candles)));
+      }
+
+      for (const signal of signals) {
+        if (!marketData.has(signal.symbol)) {
+          console.warn(`Ignoring ${signal.action} signal for ${signal.symbol}; backtest only trades ${symbols.join(", ")}`);
+          continue;
+        }
+
+        const index = barIndex.get(signal.symbol)!;
+        const fill = costModel.fillMode === 'close' && active.includes(signal.symbol)
+          ? fillAtClose(signal, candleAt(signal.symbol, index), costModel)
+          : null;
+        if (fill) {
+          await executeSignal(signal, fill, index);
+        } else {
+          pendingOrders.push(signal);
         }
-      } catch (error) {
-        console.error("Strategy execution error:", error);
-        // Continue with next candle
       }
+
+      recordEquity(timeline[t]);
     }
 
-    // Close any remaining open position
-    if (openTrade) {
-      const lastCandle = historicalData[historicalData.length - 1];
-      
-      // Ensure exit time is after entry time
-      const entryTime = new Date(openTrade.entryTime);
-      const exitTime = new Date(lastCandle.timestamp);
-      
-      // Price validation helper
-      const isValidPrice = (entryPrice: number, exitPrice: number) => {
-        const priceChange = Math.abs((exitPrice - entryPrice) / entryPrice);
-        return priceChange <= 0.5; // Max 50% price change per trade
-      };
-      
-      // Only close if timing and price are valid
-      if (exitTime > entryTime && isValidPrice(openTrade.entryPrice, lastCandle.close)) {
-        const pnl = openTrade.side === 'BUY' 
-          ? (lastCandle.close - openTrade.entryPrice) * openTrade.quantity
-          : (openTrade.entryPrice - lastCandle.close) * openTrade.quantity;
-        const pnlPercent = (pnl / (openTrade.entryPrice * openTrade.quantity)) * 100;
-        
-        const completedTrade = {
-          ...openTrade,
-          exitPrice: lastCandle.close,
-          exitTime: lastCandle.timestamp,
-          pnl,
-          pnlPercent,
-          status: 'closed',
-          reason: 'Position Closed at End'
-        };
-        
-        trades.push(completedTrade);
-        await storage.createBacktestTrade({
-          backtestId,
-          symbol: completedTrade.symbol,
-          side: completedTrade.side,
-          quantity: completedTrade.quantity,
-          entryPrice: completedTrade.entryPrice.toString(),
-          exitPrice: completedTrade.exitPrice.toString(),
-          entryTime: new Date(completedTrade.entryTime),
-          exitTime: new Date(completedTrade.exitTime),
-          pnl: completedTrade.pnl.toString(),
-          pnlPercent: completedTrade.pnlPercent.toString(),
-          status: completedTrade.status,
-          reason: completedTrade.reason
-        });
-      } else {
+    if (initialized) {
+      runtime.onExit(buildContext(symbols.find(symbol => barIndex.get(symbol)! >= 0)!));
+    }
+
+    // Close any remaining open positions at each symbol's last candle
+    for (const [symbol, openTrade] of Array.from(openTrades.entries())) {
+      const lastCandle = candleAt(symbol, barIndex.get(symbol)!);
+      const exitSide = openTrade.side === 'BUY' ? 'SELL' : 'BUY';
+      const closed = await closeOpenTrade(symbol, {
+        price: applySlippage(costModel, exitSide, lastCandle.close),
+        referencePrice: lastCandle.close,
+        timestamp: lastCandle.timestamp
+      }, 'Position Closed at End');
+      if (!closed) {
         console.warn(`Skipping unrealistic end-of-backtest trade: entry ${openTrade.entryPrice}, exit ${lastCandle.close}`);
       }
     }
+    if (timeline.length > 0) {
+      recordEquity(timeline[timeline.length - 1]);
+    }
 
     const result: BacktestResult = {
       trades,
-      metrics: {
-        totalReturn: 0,
-        sharpeRatio: 0,
-        maxDrawdown: 0,
-        winRate: 0,
-        totalTrades: trades.length,
-        avgTrade: 0,
-        volatility: 0
+      equityCurve,
+      tradeRows,
+      costs: {
+        preset: costModel.preset,
+        fillMode: costModel.fillMode,
+        slippage: costModel.slippage,
+        tickSize: costModel.tickSize,
+        totalCharges: Number(totalCharges.toFixed(4)),
+        totalSlippage: Number(totalSlippage.toFixed(4))
       },
-      equityCurve: []
+      strategyLogs: runtime.getLogs()
     };
-    
-    result.metrics = this.calculateMetrics(result, initialCapital);
-    result.equityCurve = this.calculateEquityCurve(result, initialCapital);
-    
-    return result;
-  }
-
-  private calculateEquityCurve(results: BacktestResult, initialCapital: number) {
-    const equityCurve = [{ timestamp: new Date().toISOString(), value: initialCapital }];
-    let currentValue = initialCapital;
 
-    results.trades.forEach(trade => {
-      if (trade.pnl !== undefined) {
-        currentValue += trade.pnl;
-        equityCurve.push({
-          timestamp: trade.exitTime || trade.entryTime,
-          value: currentValue
-        });
-      }
-    });
-
-    return equityCurve;
-  }
-
-  private calculateMetrics(results: BacktestResult, initialCapital: number) {
-    const trades = results.trades;
-    const totalTrades = trades.length;
-    
-    if (totalTrades === 0) {
-      return {
-        totalReturn: 0,
-        sharpeRatio: 0,
-        maxDrawdown: 0,
-        winRate: 0,
-        totalTrades: 0,
-        avgTrade: 0,
-        volatility: 0
+    if (isPortfolio) {
+      result.portfolio = {
+        ...portfolio,
+        rejectedOrders,
+        symbols: symbols.map(symbol => {
+          const symbolTrades = trades.filter(trade => trade.symbol === symbol);
+          return {
+            symbol,
+            trades: symbolTrades.length,
+            pnl: symbolTrades.reduce((sum, trade) => sum + trade.pnl, 0),
+            winRate: symbolTrades.length > 0
+              ? symbolTrades.filter(trade => trade.pnl > 0).length / symbolTrades.length
+              : 0
+          };
+        })
       };
     }
 
-    const totalPnL = trades.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
-    const totalReturn = totalPnL / initialCapital;
-    
-    const winningTrades = trades.filter(trade => (trade.pnl || 0) > 0);
-    const winRate = winningTrades.length / totalTrades;
-    
-    const avgTrade = totalPnL / totalTrades;
-    
-    // Calculate max drawdown
-    let peak = initialCapital;
-    let maxDrawdown = 0;
-    let currentValue = initialCapital;
-    
-    trades.forEach(trade => {
-      currentValue += trade.pnl || 0;
-      if (currentValue > peak) peak = currentValue;
-      const drawdown = (peak - currentValue) / peak;
-      if (drawdown > maxDrawdown) maxDrawdown = drawdown;
-    });
+    return result;
+  }
 
-    // Simple Sharpe ratio calculation
-    const returns = trades.map(trade => (trade.pnl || 0) / initialCapital);
-    const avgReturn = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
-    const volatility = Math.sqrt(returns.reduce((sum, ret) => sum + Math.pow(ret - avgReturn, 2), 0) / returns.length);
-    const sharpeRatio = volatility > 0 ? avgReturn / volatility : 0;
-
-    return {
-      totalReturn,
-      sharpeRatio,
-      maxDrawdown,
-      winRate,
-      totalTrades,
-      avgTrade,
-      volatility
-    };
+  // Benchmark metrics are optional; a backtest should not fail without index data
+  private async loadBenchmark(dataProvider: MarketDataProvider, backtest: Backtest): Promise<Candle[]> {
+    try {
+      const { candles } = await getResampledCandles(dataProvider, {
+        symbol: BENCHMARK_SYMBOL,
+        timeframe: "1day",
+        startDate: backtest.startDate,
+        endDate: backtest.endDate,
+        userId: backtest.userId
+      });
+      return candles;
+    } catch (error: any) {
+      console.warn(`Benchmark ${BENCHMARK_SYMBOL} unavailable for backtest ${backtest.id}: ${error?.message || error}`);
+      return [];
+    }
   }
 }
 
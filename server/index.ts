@@ -35,8 +35,8 @@ app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 app.use(cookieParser());
 
-// Session configuration with memory store
-app.use(session({
+// Session configuration with memory store, also used to authenticate websocket upgrades
+const sessionMiddleware = session({
   secret: process.env.SESSION_SECRET || 'fallback-secret-for-dev',
   store: new MemStore({
     checkPeriod: 86400000 // prune expired entries every 24h
@@ -51,7 +51,8 @@ app.use(session({
     domain: undefined
   },
   name: 'connect.sid'
-}));
+});
+app.use(sessionMiddleware);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -94,7 +95,7 @@ app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
 
 async function startServer() {
   try {
-    const server = await registerRoutes(app);
+    const server = await registerRoutes(app, sessionMiddleware);
 
     if (process.env.NODE_ENV === "development") {
       await setupVite(app, server);
@@ -0,0 +1,200 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { gunzipSync } from "zlib";
+import { storage } from "./storage";
+import type { Instrument, InsertInstrument } from "@shared/schema";
+
+export const INSTRUMENTS_DIR = process.env.INSTRUMENTS_DIR || path.resolve(process.cwd(), "data", "instruments");
+const DEFAULT_INSTRUMENTS_FILE = "complete.json.gz";
+
+// When a bare trading symbol exists on several segments, prefer cash/index NSE listings
+const SEGMENT_PREFERENCE = ["NSE_EQ", "NSE_INDEX", "BSE_EQ", "BSE_INDEX", "NSE_FO", "BSE_FO", "MCX_FO"];
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+class InstrumentService {
+  private keyCache = new Map<string, string>();
+
+  /**
+   * Resolves a trading symbol (RELIANCE, NIFTY, NIFTY24JANFUT) or an
+   * instrument key to the Upstox instrument key. Keys pass through unchanged.
+   */
+  async resolveInstrumentKey(symbol: string): Promise<string> {
+    if (symbol.includes("|")) {
+      return symbol;
+    }
+
+    const cached = this.keyCache.get(symbol.toUpperCase());
+    if (cached) {
+      return cached;
+    }
+
+    const matches = await storage.getInstrumentsBySymbol(symbol);
+    if (matches.length === 0) {
+      throw new Error(
+        `Instrument ${symbol} not found in the instrument master. Import the Upstox instrument file or pick the instrument from search.`
+      );
+    }
+
+    const rank = (instrument: Instrument) => {
+      const index = SEGMENT_PREFERENCE.indexOf(instrument.segment);
+      return index === -1 ? SEGMENT_PREFERENCE.length : index;
+    };
+    const [best] = matches.sort((a, b) => rank(a) - rank(b));
+
+    this.keyCache.set(symbol.toUpperCase(), best.instrumentKey);
+    return best.instrumentKey;
+  }
+
+  async search(query: string, filters: { segment?: string; instrumentType?: string } = {}, limit: number = 20): Promise<Instrument[]> {
+    const trimmed = query.trim();
+    if (trimmed.length === 0) {
+      return [];
+    }
+    return storage.searchInstruments(trimmed, filters, Math.min(Math.max(limit, 1), 100));
+  }
+
+  /**
+   * Loads an Upstox instrument master file (the BOD JSON format, or the
+   * older CSV format), optionally gzipped, into the instruments table.
+   * Relative paths are resolved inside INSTRUMENTS_DIR.
+   */
+  async importFromFile(file: string = DEFAULT_INSTRUMENTS_FILE): Promise<{ file: string; imported: number }> {
+    const resolved = path.resolve(INSTRUMENTS_DIR, file);
+    if (!resolved.startsWith(path.resolve(INSTRUMENTS_DIR) + path.sep)) {
+      throw new Error(`Instrument file must be inside ${INSTRUMENTS_DIR}`);
+    }
+
+    let buffer = await fs.readFile(resolved);
+    if (resolved.endsWith(".gz")) {
+      buffer = gunzipSync(buffer);
+    }
+    const content = buffer.toString("utf8");
+    const baseName = resolved.replace(/\.gz$/, "");
+
+    const rows = baseName.endsWith(".csv") ? this.parseCsv(content) : this.parseJson(content);
+    const imported = await storage.upsertInstruments(rows);
+    this.keyCache.clear();
+
+    console.log(`Imported ${imported} instruments from ${resolved}`);
+    return { file: resolved, imported };
+  }
+
+  private parseJson(content: string): InsertInstrument[] {
+    const records = JSON.parse(content);
+    if (!Array.isArray(records)) {
+      throw new Error("Instrument JSON must be an array of instruments");
+    }
+
+    return records
+      .filter((record: any) => record?.instrument_key && record?.trading_symbol)
+      .map((record: any) => ({
+        instrumentKey: record.instrument_key,
+        exchangeToken: record.exchange_token ? String(record.exchange_token) : null,
+        tradingSymbol: record.trading_symbol,
+        name: record.name ?? null,
+        shortName: record.short_name ?? null,
+        isin: record.isin ?? null,
+        exchange: record.exchange || String(record.segment).split("_")[0],
+        segment: record.segment,
+        instrumentType: record.instrument_type ?? null,
+        lotSize: record.lot_size ? Number(record.lot_size) : 1,
+        // The JSON master quotes tick size in paise
+        tickSize: record.tick_size != null ? (Number(record.tick_size) / 100).toString() : null,
+        freezeQuantity: record.freeze_quantity ? Math.round(Number(record.freeze_quantity)) : null,
+        expiry: record.expiry ? this.toIstDate(Number(record.expiry)) : null,
+        strikePrice: record.strike_price != null ? String(record.strike_price) : null,
+        underlyingKey: record.underlying_key ?? null,
+      }));
+  }
+
+  private parseCsv(content: string): InsertInstrument[] {
+    const lines = content.split(/\r?\n/).filter(line => line.trim() !== "");
+    if (lines.length === 0) {
+      return [];
+    }
+
+    const header = this.splitCsvLine(lines[0]).map(column => column.toLowerCase());
+    const get = (values: string[], name: string) => {
+      const index = header.indexOf(name);
+      return index >= 0 && values[index] !== "" ? values[index] : undefined;
+    };
+
+    return lines.slice(1).flatMap(line => {
+      const values = this.splitCsvLine(line);
+      const instrumentKey = get(values, "instrument_key");
+      const tradingSymbol = get(values, "tradingsymbol") || get(values, "trading_symbol");
+      if (!instrumentKey || !tradingSymbol) {
+        return [];
+      }
+
+      const segment = get(values, "exchange") || instrumentKey.split("|")[0];
+      const [, keySuffix] = instrumentKey.split("|");
+      const expiry = get(values, "expiry");
+      const strike = get(values, "strike");
+
+      return [{
+        instrumentKey,
+        exchangeToken: get(values, "exchange_token") ?? null,
+        tradingSymbol,
+        name: get(values, "name") ?? null,
+        shortName: null,
+        isin: /^IN[A-Z0-9]{10}$/.test(keySuffix || "") ? keySuffix : null,
+        exchange: segment.split("_")[0],
+        segment,
+        instrumentType: this.normaliseCsvType(get(values, "instrument_type"), get(values, "option_type")),
+        lotSize: Number(get(values, "lot_size") || 1),
+        tickSize: get(values, "tick_size") ?? null,
+        freezeQuantity: null,
+        expiry: expiry ? expiry.split(" ")[0] : null,
+        strikePrice: strike && Number(strike) > 0 ? strike : null,
+        underlyingKey: null,
+      }];
+    });
+  }
+
+  private normaliseCsvType(instrumentType?: string, optionType?: string): string | null {
+    if (optionType === "CE" || optionType === "PE") {
+      return optionType;
+    }
+    switch (instrumentType) {
+      case "EQUITY": return "EQ";
+      case "FUTIDX":
+      case "FUTSTK":
+      case "FUTCOM":
+      case "FUTCUR": return "FUT";
+      default: return instrumentType ?? null;
+    }
+  }
+
+  private splitCsvLine(line: string): string[] {
+    const values: string[] = [];
+    let current = "";
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === '"') {
+        if (quoted && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else {
+          quoted = !quoted;
+        }
+      } else if (char === "," && !quoted) {
+        values.push(current.trim());
+        current = "";
+      } else {
+        current += char;
+      }
+    }
+    values.push(current.trim());
+    return values;
+  }
+
+  private toIstDate(epochMs: number): string {
+    return new Date(epochMs + IST_OFFSET_MS).toISOString().split("T")[0];
+  }
+}
+
+export const instrumentService = new InstrumentService();
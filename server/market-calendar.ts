@@ -0,0 +1,145 @@
+import { storage } from "./storage";
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOLIDAY_REFRESH_MS = 60 * 60 * 1000;
+
+// Configuration key for extra closures, a JSON array of "YYYY-MM-DD" strings or { date, name } objects
+export const HOLIDAYS_CONFIG_KEY = "nse_holidays";
+
+// Session boundaries in minutes after midnight IST
+const PRE_OPEN_START = 9 * 60;
+const MARKET_OPEN = 9 * 60 + 15;
+const MARKET_CLOSE = 15 * 60 + 30;
+
+/**
+ * NSE equity segment trading holidays from the exchange circulars. Add the
+ * next year's list when NSE publishes it in December; unscheduled closures
+ * can be added at runtime through the `nse_holidays` configuration.
+ */
+const NSE_HOLIDAYS: Record<string, string> = {
+  "2025-02-26": "Mahashivratri",
+  "2025-03-14": "Holi",
+  "2025-03-31": "Id-Ul-Fitr (Ramadan Eid)",
+  "2025-04-10": "Shri Mahavir Jayanti",
+  "2025-04-14": "Dr. Baba Saheb Ambedkar Jayanti",
+  "2025-04-18": "Good Friday",
+  "2025-05-01": "Maharashtra Day",
+  "2025-08-15": "Independence Day",
+  "2025-08-27": "Ganesh Chaturthi",
+  "2025-10-02": "Mahatma Gandhi Jayanti/Dussehra",
+  "2025-10-21": "Diwali Laxmi Pujan",
+  "2025-10-22": "Diwali Balipratipada",
+  "2025-11-05": "Prakash Gurpurb Sri Guru Nanak Dev",
+  "2025-12-25": "Christmas",
+  "2026-01-15": "Municipal Corporation Elections (Maharashtra)",
+  "2026-01-26": "Republic Day",
+  "2026-03-03": "Holi",
+  "2026-03-26": "Shri Ram Navami",
+  "2026-03-31": "Shri Mahavir Jayanti",
+  "2026-04-03": "Good Friday",
+  "2026-04-14": "Dr. Baba Saheb Ambedkar Jayanti",
+  "2026-05-01": "Maharashtra Day",
+  "2026-05-28": "Bakri Id",
+  "2026-06-26": "Muharram",
+  "2026-09-14": "Ganesh Chaturthi",
+  "2026-10-02": "Mahatma Gandhi Jayanti",
+  "2026-10-20": "Dussehra",
+  "2026-11-10": "Diwali Balipratipada",
+  "2026-11-24": "Prakash Gurpurb Sri Guru Nanak Dev",
+  "2026-12-25": "Christmas",
+};
+
+export type MarketSessionStatus = "pre-open" | "open" | "closed";
+
+export interface MarketStatus {
+  status: MarketSessionStatus;
+  // Why the market is closed: weekend, holiday name, or outside trading hours
+  reason?: string;
+  // Start of the next pre-open or open phase
+  nextChange?: string;
+}
+
+// Calendar date in IST for an instant
+function istDateKey(time: number): string {
+  return new Date(time + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+// UTC instant of a number of minutes after midnight IST on the day containing `time`
+function istMinutesToInstant(time: number, minutes: number): Date {
+  const ist = time + IST_OFFSET_MS;
+  return new Date(ist - (ist % DAY_MS) + minutes * 60 * 1000 - IST_OFFSET_MS);
+}
+
+/**
+ * NSE cash market sessions: pre-open 09:00-09:15 IST, normal trading
+ * 09:15-15:30 IST, closed on weekends and exchange holidays.
+ */
+class MarketCalendar {
+  private extraHolidays = new Map<string, string>();
+  private holidaysLoadedAt = 0;
+
+  /** Reloads holidays added through configuration, at most once an hour unless forced. */
+  async refresh(force = false): Promise<void> {
+    if (!force && Date.now() - this.holidaysLoadedAt < HOLIDAY_REFRESH_MS) {
+      return;
+    }
+    this.holidaysLoadedAt = Date.now();
+
+    try {
+      const config = await storage.getConfiguration(HOLIDAYS_CONFIG_KEY);
+      const entries: Array<string | { date: string; name?: string }> = config ? JSON.parse(config.value) : [];
+      this.extraHolidays = new Map(
+        entries.map(entry => typeof entry === "string" ? [entry, "Exchange holiday"] : [entry.date, entry.name || "Exchange holiday"])
+      );
+    } catch (error) {
+      console.error("Failed to load NSE holidays from configuration:", error);
+    }
+  }
+
+  getHoliday(date: Date): string | null {
+    const key = istDateKey(date.getTime());
+    return this.extraHolidays.get(key) ?? NSE_HOLIDAYS[key] ?? null;
+  }
+
+  isTradingDay(date: Date): boolean {
+    const weekday = new Date(date.getTime() + IST_OFFSET_MS).getUTCDay();
+    return weekday !== 0 && weekday !== 6 && this.getHoliday(date) === null;
+  }
+
+  getStatus(now: Date = new Date()): MarketStatus {
+    const time = now.getTime();
+
+    if (!this.isTradingDay(now)) {
+      const weekday = new Date(time + IST_OFFSET_MS).getUTCDay();
+      return {
+        status: "closed",
+        reason: weekday === 0 || weekday === 6 ? "Weekend" : this.getHoliday(now)!,
+        nextChange: this.nextPreOpen(time).toISOString(),
+      };
+    }
+
+    const minutes = Math.floor(((time + IST_OFFSET_MS) % DAY_MS) / 60000);
+    if (minutes < PRE_OPEN_START) {
+      return { status: "closed", reason: "Before pre-open", nextChange: istMinutesToInstant(time, PRE_OPEN_START).toISOString() };
+    }
+    if (minutes < MARKET_OPEN) {
+      return { status: "pre-open", nextChange: istMinutesToInstant(time, MARKET_OPEN).toISOString() };
+    }
+    if (minutes < MARKET_CLOSE) {
+      return { status: "open", nextChange: istMinutesToInstant(time, MARKET_CLOSE).toISOString() };
+    }
+    return { status: "closed", reason: "After market hours", nextChange: this.nextPreOpen(time).toISOString() };
+  }
+
+  // Pre-open of the first trading day after the one containing `time`
+  private nextPreOpen(time: number): Date {
+    let day = time + DAY_MS;
+    while (!this.isTradingDay(new Date(day))) {
+      day += DAY_MS;
+    }
+    return istMinutesToInstant(day, PRE_OPEN_START);
+  }
+}
+
+export const marketCalendar = new MarketCalendar();
@@ -0,0 +1,577 @@
+import { randomUUID } from "crypto";
+import { WebSocket } from "ws";
+import { storage } from "./storage";
+import { upstoxService, getValidUpstoxToken } from "./upstox";
+import { instrumentService } from "./instruments";
+import { getMarketDataProvider, type Candle } from "./market-data";
+// Registers the "database" provider the replay feed reads from
+import "./candle-sync";
+
+const LOG_MODULE = "Market Data";
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REPLAY_INTERVAL_MS = 1000;
+const REPLAY_LOOKBACK_DAYS = 7;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/** Latest state of one instrument as pushed to `quote:` subscribers. */
+export interface MarketQuote {
+  symbol: string;
+  instrumentKey: string;
+  ltp: number;
+  open: number;
+  high: number;
+  low: number;
+  prevClose: number;
+  change: number;
+  changePercent: number;
+  volume: number;
+  timestamp: string;
+}
+
+/** A tick from an upstream feed; fields the feed did not send keep their last value. */
+export interface FeedTick {
+  instrumentKey: string;
+  ltp: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  prevClose?: number;
+  volume?: number;
+  timestamp: string;
+}
+
+export interface MarketFeed {
+  readonly name: string;
+  connect(): Promise<void>;
+  subscribe(instrumentKeys: string[]): void;
+  unsubscribe(instrumentKeys: string[]): void;
+  close(): void;
+}
+
+type ProtoValue = number | Buffer;
+type ProtoMessage = Map<number, ProtoValue[]>;
+
+function readVarint(buffer: Buffer, offset: number): [number, number] {
+  let value = 0;
+  let multiplier = 1;
+  let position = offset;
+  while (position < buffer.length) {
+    const byte = buffer[position++];
+    value += (byte & 0x7f) * multiplier;
+    if ((byte & 0x80) === 0) {
+      return [value, position];
+    }
+    multiplier *= 128;
+  }
+  throw new Error("Truncated varint in market feed message");
+}
+
+/**
+ * Splits a protobuf message into its fields without a schema. Fixed64 fields
+ * are read as doubles and fixed32 as floats, which is what the Upstox feed
+ * uses them for; varints above 2^53 lose precision.
+ */
+export function decodeProtoMessage(buffer: Buffer): ProtoMessage {
+  const fields: ProtoMessage = new Map();
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    const [key, afterKey] = readVarint(buffer, offset);
+    const field = Math.floor(key / 8);
+    const wireType = key & 7;
+    let value: ProtoValue;
+    offset = afterKey;
+
+    switch (wireType) {
+      case 0:
+        [value, offset] = readVarint(buffer, offset);
+        break;
+      case 1:
+        value = buffer.readDoubleLE(offset);
+        offset += 8;
+        break;
+      case 2: {
+        const [length, afterLength] = readVarint(buffer, offset);
+        value = buffer.subarray(afterLength, afterLength + length);
+        offset = afterLength + length;
+        break;
+      }
+      case 5:
+        value = buffer.readFloatLE(offset);
+        offset += 4;
+        break;
+      default:
+        throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+
+    const values = fields.get(field) || [];
+    values.push(value);
+    fields.set(field, values);
+  }
+
+  return fields;
+}
+
+function numberField(message: ProtoMessage | null, field: number): number | undefined {
+  const value = message?.get(field)?.[0];
+  return typeof value === "number" ? value : undefined;
+}
+
+function messageField(message: ProtoMessage | null, field: number): ProtoMessage | null {
+  const value = message?.get(field)?.[0];
+  return Buffer.isBuffer(value) ? decodeProtoMessage(value) : null;
+}
+
+/**
+ * Ticks from an Upstox v3 `FeedResponse`: the `feeds` map (field 2) keyed by
+ * instrument key, each holding LTPC directly (ltpc mode) or inside the
+ * market/index full feed with the day's OHLC and traded volume (full mode).
+ */
+export function decodeFeedResponse(buffer: Buffer): FeedTick[] {
+  const response = decodeProtoMessage(buffer);
+  const currentTs = numberField(response, 3);
+  const ticks: FeedTick[] = [];
+
+  for (const entry of response.get(2) || []) {
+    if (!Buffer.isBuffer(entry)) continue;
+    const mapEntry = decodeProtoMessage(entry);
+    const key = mapEntry.get(1)?.[0];
+    const feed = messageField(mapEntry, 2);
+    if (!Buffer.isBuffer(key) || !feed) continue;
+
+    const fullFeed = messageField(feed, 2);
+    const marketFeed = messageField(fullFeed, 1);
+    const indexFeed = messageField(fullFeed, 2);
+    const firstLevelFeed = messageField(feed, 3);
+    const ltpc = messageField(feed, 1) || messageField(marketFeed, 1) || messageField(indexFeed, 1) || messageField(firstLevelFeed, 1);
+    const ltp = numberField(ltpc, 1);
+    if (ltp === undefined) continue;
+
+    // MarketOHLC is field 4 of the market feed and field 2 of the index feed
+    const ohlcSeries = messageField(marketFeed, 4) || messageField(indexFeed, 2);
+    const dayOhlc = (ohlcSeries?.get(1) || [])
+      .filter(Buffer.isBuffer)
+      .map(decodeProtoMessage)
+      .find(ohlc => ohlc.get(1)?.[0]?.toString() === "1d");
+
+    const tradedAt = numberField(ltpc, 2) || currentTs;
+    ticks.push({
+      instrumentKey: key.toString("utf8"),
+      ltp,
+      prevClose: numberField(ltpc, 4),
+      open: numberField(dayOhlc ?? null, 2),
+      high: numberField(dayOhlc ?? null, 3),
+      low: numberField(dayOhlc ?? null, 4),
+      volume: numberField(marketFeed, 6) ?? numberField(dayOhlc ?? null, 6),
+      timestamp: new Date(tradedAt || Date.now()).toISOString(),
+    });
+  }
+
+  return ticks;
+}
+
+/**
+ * Upstox v3 market data feed over a websocket. Subscriptions are sent as
+ * binary JSON frames and replayed after a reconnect, which re-authorizes
+ * because each feed URL can only be used once.
+ */
+class UpstoxMarketFeed implements MarketFeed {
+  readonly name = "upstox";
+  private socket: WebSocket | null = null;
+  private instrumentKeys = new Set<string>();
+  private reconnectTimer?: NodeJS.Timeout;
+  private reconnectAttempts = 0;
+  private closed = false;
+
+  constructor(private accessToken: string, private onTick: (tick: FeedTick) => void) {}
+
+  async connect(): Promise<void> {
+    const url = await upstoxService.authorizeMarketDataFeed(this.accessToken);
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = new WebSocket(url, { followRedirects: true });
+      let opened = false;
+
+      socket.on("open", () => {
+        opened = true;
+        this.socket = socket;
+        this.reconnectAttempts = 0;
+        this.send("sub", Array.from(this.instrumentKeys));
+        resolve();
+      });
+
+      socket.on("message", (data: Buffer) => {
+        try {
+          decodeFeedResponse(data).forEach(this.onTick);
+        } catch (error) {
+          console.error("Error decoding market feed message:", error);
+        }
+      });
+
+      socket.on("error", (error) => {
+        if (!opened) {
+          reject(error);
+        } else {
+          console.error("Upstox market feed error:", error);
+        }
+      });
+
+      socket.on("close", () => {
+        this.socket = null;
+        if (opened && !this.closed) {
+          this.scheduleReconnect();
+        }
+      });
+    });
+  }
+
+  subscribe(instrumentKeys: string[]): void {
+    instrumentKeys.forEach(key => this.instrumentKeys.add(key));
+    this.send("sub", instrumentKeys);
+  }
+
+  unsubscribe(instrumentKeys: string[]): void {
+    instrumentKeys.forEach(key => this.instrumentKeys.delete(key));
+    this.send("unsub", instrumentKeys);
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+    }
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private send(method: "sub" | "unsub", instrumentKeys: string[]): void {
+    if (instrumentKeys.length === 0 || this.socket?.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    this.socket.send(Buffer.from(JSON.stringify({
+      guid: randomUUID(),
+      method,
+      data: { mode: "full", instrumentKeys },
+    })));
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(1000 * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.connect().catch(error => {
+        console.error(`Upstox market feed reconnect failed: ${error?.message || error}`);
+        if (!this.closed) {
+          this.scheduleReconnect();
+        }
+      });
+    }, delay);
+  }
+}
+
+interface ReplaySession {
+  candles: Candle[];
+  index: number;
+  prevClose: number;
+  high: number;
+  low: number;
+  volume: number;
+}
+
+/**
+ * Offline stand-in for the broker feed: replays the latest stored session of
+ * 1-minute candles for each instrument, one candle per tick, looping at the
+ * end of the day. Falls back to synthetic candles when nothing is stored.
+ */
+class ReplayMarketFeed implements MarketFeed {
+  readonly name = "replay";
+  private sessions = new Map<string, ReplaySession>();
+  private instrumentKeys = new Set<string>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(private onTick: (tick: FeedTick) => void, private intervalMs = REPLAY_INTERVAL_MS) {}
+
+  async connect(): Promise<void> {
+    this.timer = setInterval(() => this.step(), this.intervalMs);
+  }
+
+  subscribe(instrumentKeys: string[]): void {
+    for (const key of instrumentKeys) {
+      this.instrumentKeys.add(key);
+      this.load(key).catch(error => {
+        console.error(`No replay candles for ${key}:`, error?.message || error);
+      });
+    }
+  }
+
+  unsubscribe(instrumentKeys: string[]): void {
+    for (const key of instrumentKeys) {
+      this.instrumentKeys.delete(key);
+      this.sessions.delete(key);
+    }
+  }
+
+  close(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    this.sessions.clear();
+    this.instrumentKeys.clear();
+  }
+
+  private async load(instrumentKey: string): Promise<void> {
+    const endDate = new Date();
+    const startDate = new Date(endDate.getTime() - REPLAY_LOOKBACK_DAYS * DAY_MS);
+    const request = { symbol: instrumentKey, instrumentKey, timeframe: "1minute", startDate, endDate };
+
+    let candles: Candle[] = [];
+    try {
+      candles = await getMarketDataProvider("database").getCandles(request);
+    } catch {
+      candles = await getMarketDataProvider("synthetic").getCandles(request);
+    }
+    if (candles.length === 0) {
+      throw new Error("no candles in the lookback window");
+    }
+
+    const istDay = (candle: Candle) => new Date(new Date(candle.timestamp).getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+    const lastDay = istDay(candles[candles.length - 1]);
+    const sessionStart = candles.findIndex(candle => istDay(candle) === lastDay);
+    const session = candles.slice(sessionStart);
+    const prevClose = sessionStart > 0 ? candles[sessionStart - 1].close : session[0].open;
+
+    // Unsubscribed while the candles were loading
+    if (!this.instrumentKeys.has(instrumentKey)) {
+      return;
+    }
+    this.sessions.set(instrumentKey, { candles: session, index: 0, prevClose, high: -Infinity, low: Infinity, volume: 0 });
+  }
+
+  private step(): void {
+    Array.from(this.sessions.entries()).forEach(([instrumentKey, session]) => {
+      if (session.index >= session.candles.length) {
+        Object.assign(session, { index: 0, high: -Infinity, low: Infinity, volume: 0 });
+      }
+      const candle = session.candles[session.index++];
+      session.high = Math.max(session.high, candle.high);
+      session.low = Math.min(session.low, candle.low);
+      session.volume += candle.volume;
+
+      this.onTick({
+        instrumentKey,
+        ltp: candle.close,
+        open: session.candles[0].open,
+        high: session.high,
+        low: session.low,
+        prevClose: session.prevClose,
+        volume: session.volume,
+        timestamp: new Date().toISOString(),
+      });
+    });
+  }
+}
+
+interface SymbolSubscription {
+  instrumentKey: string;
+  count: number;
+}
+
+/**
+ * Shares one upstream feed between all websocket clients. Clients subscribe
+ * by trading symbol or instrument key; symbols are ref-counted, and an
+ * instrument is only subscribed upstream when its first symbol is and
+ * unsubscribed when its last one goes. Streams from Upstox with the session
+ * of the service account named by MARKET_DATA_FEED_USER_ID, never a
+ * customer's own broker login. Replays stored candles when no service
+ * account is configured or linked, the feed cannot be reached, or
+ * MARKET_DATA_FEED=replay.
+ */
+class MarketDataHub {
+  private symbols = new Map<string, SymbolSubscription>();
+  private instruments = new Map<string, Set<string>>();
+  private lastQuotes = new Map<string, MarketQuote>();
+  private feed: MarketFeed | null = null;
+  private feedPromise: Promise<MarketFeed> | null = null;
+  private listener?: (quote: MarketQuote) => void;
+
+  /** Receives every quote, once per subscribed symbol of the instrument. */
+  onQuote(listener: (quote: MarketQuote) => void): void {
+    this.listener = listener;
+  }
+
+  /** Adds one subscriber to a symbol and returns its last quote, if any. */
+  async subscribe(symbol: string): Promise<MarketQuote | null> {
+    const existing = this.symbols.get(symbol);
+    if (existing) {
+      existing.count++;
+      return this.quoteFor(symbol, existing.instrumentKey);
+    }
+
+    const instrumentKey = await instrumentService.resolveInstrumentKey(symbol);
+    // Another client may have subscribed while the key was resolving
+    const resolved = this.symbols.get(symbol);
+    if (resolved) {
+      resolved.count++;
+      return this.quoteFor(symbol, instrumentKey);
+    }
+    this.symbols.set(symbol, { instrumentKey, count: 1 });
+
+    const aliases = this.instruments.get(instrumentKey) || new Set<string>();
+    aliases.add(symbol);
+    this.instruments.set(instrumentKey, aliases);
+    if (aliases.size === 1) {
+      try {
+        const feed = await this.getFeed();
+        // Skip if every subscriber left while the feed was connecting
+        if (this.instruments.has(instrumentKey)) {
+          feed.subscribe([instrumentKey]);
+        }
+      } catch (error) {
+        this.unsubscribe(symbol);
+        throw error;
+      }
+    }
+    return this.quoteFor(symbol, instrumentKey);
+  }
+
+  /** Removes one subscriber from a symbol, dropping the upstream subscription with the last one. */
+  unsubscribe(symbol: string): void {
+    const subscription = this.symbols.get(symbol);
+    if (!subscription || --subscription.count > 0) {
+      return;
+    }
+    this.symbols.delete(symbol);
+
+    const { instrumentKey } = subscription;
+    const aliases = this.instruments.get(instrumentKey);
+    aliases?.delete(symbol);
+    if (aliases && aliases.size === 0) {
+      this.instruments.delete(instrumentKey);
+      this.lastQuotes.delete(instrumentKey);
+      this.feed?.unsubscribe([instrumentKey]);
+    }
+
+    if (this.instruments.size === 0 && this.feed) {
+      this.feed.close();
+      this.feed = null;
+      this.feedPromise = null;
+    }
+  }
+
+  getStatus() {
+    return {
+      feed: this.feed?.name ?? null,
+      instruments: this.instruments.size,
+      symbols: Array.from(this.symbols.entries()).map(([symbol, { instrumentKey, count }]) => ({ symbol, instrumentKey, subscribers: count })),
+    };
+  }
+
+  stop(): void {
+    this.feed?.close();
+    this.feed = null;
+    this.feedPromise = null;
+    this.symbols.clear();
+    this.instruments.clear();
+    this.lastQuotes.clear();
+  }
+
+  private getFeed(): Promise<MarketFeed> {
+    if (!this.feedPromise) {
+      this.feedPromise = this.openFeed().then(
+        feed => {
+          // Every subscriber left while the feed was connecting
+          if (this.instruments.size === 0) {
+            feed.close();
+            this.feedPromise = null;
+            return feed;
+          }
+          this.feed = feed;
+          return feed;
+        },
+        error => {
+          this.feedPromise = null;
+          throw error;
+        }
+      );
+    }
+    return this.feedPromise;
+  }
+
+  private async openFeed(): Promise<MarketFeed> {
+    const onTick = (tick: FeedTick) => this.handleTick(tick);
+
+    if (process.env.MARKET_DATA_FEED !== "replay") {
+      const accessToken = await this.findAccessToken();
+      if (accessToken) {
+        const feed = new UpstoxMarketFeed(accessToken, onTick);
+        try {
+          await feed.connect();
+          await this.log("info", "Streaming quotes from the Upstox market data feed");
+          return feed;
+        } catch (error: any) {
+          feed.close();
+          await this.log("warn", `Upstox market data feed unavailable, replaying stored candles: ${error?.message || error}`);
+        }
+      }
+    }
+
+    const feed = new ReplayMarketFeed(onTick);
+    await feed.connect();
+    return feed;
+  }
+
+  // Token of the account explicitly configured to serve the shared feed
+  private async findAccessToken(): Promise<string | null> {
+    const userId = Number(process.env.MARKET_DATA_FEED_USER_ID);
+    if (!Number.isInteger(userId) || userId <= 0) {
+      return null;
+    }
+    const accessToken = await getValidUpstoxToken(userId, storage);
+    if (!accessToken) {
+      await this.log("warn", `Market data service account ${userId} has no linked Upstox session; replaying stored candles`);
+    }
+    return accessToken;
+  }
+
+  private handleTick(tick: FeedTick): void {
+    const aliases = this.instruments.get(tick.instrumentKey);
+    if (!aliases) {
+      return;
+    }
+
+    const last = this.lastQuotes.get(tick.instrumentKey);
+    const prevClose = tick.prevClose ?? last?.prevClose ?? tick.ltp;
+    const quote: MarketQuote = {
+      symbol: tick.instrumentKey,
+      instrumentKey: tick.instrumentKey,
+      ltp: tick.ltp,
+      open: tick.open ?? last?.open ?? tick.ltp,
+      high: tick.high ?? Math.max(last?.high ?? tick.ltp, tick.ltp),
+      low: tick.low ?? Math.min(last?.low ?? tick.ltp, tick.ltp),
+      prevClose,
+      change: tick.ltp - prevClose,
+      changePercent: prevClose ? (tick.ltp - prevClose) / prevClose * 100 : 0,
+      volume: tick.volume ?? last?.volume ?? 0,
+      timestamp: tick.timestamp,
+    };
+    this.lastQuotes.set(tick.instrumentKey, quote);
+
+    Array.from(aliases).forEach(symbol => this.listener?.({ ...quote, symbol }));
+  }
+
+  private quoteFor(symbol: string, instrumentKey: string): MarketQuote | null {
+    const quote = this.lastQuotes.get(instrumentKey);
+    return quote ? { ...quote, symbol } : null;
+  }
+
+  private async log(level: string, message: string): Promise<void> {
+    try {
+      await storage.createLog({ level, module: LOG_MODULE, message, data: this.getStatus() });
+    } catch (error) {
+      console.error("Error writing market data log:", error);
+    }
+  }
+}
+
+export const marketDataHub = new MarketDataHub();
@@ -0,0 +1,364 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { storage } from "./storage";
+import { upstoxService, getValidUpstoxToken } from "./upstox";
+import { instrumentService } from "./instruments";
+import { parseTimeframe, resampleCandles, selectSourceTimeframe } from "./resampling";
+
+export interface Candle {
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface MarketDataRequest {
+  symbol: string;
+  timeframe: string;
+  startDate: Date;
+  endDate: Date;
+  userId?: number | null;
+  instrumentKey?: string | null;
+}
+
+export interface MarketDataProvider {
+  readonly name: string;
+  readonly description: string;
+  // Intervals the provider can serve directly; others are resampled from these
+  readonly timeframes?: readonly string[];
+  getCandles(request: MarketDataRequest): Promise<Candle[]>;
+}
+
+export const DEFAULT_MARKET_DATA_SOURCE = "upstox";
+
+/**
+ * Upstox instrument key for a request: the key picked from the instrument
+ * master when there is one, otherwise the symbol looked up by trading symbol.
+ */
+export async function resolveInstrumentKey(request: Pick<MarketDataRequest, "symbol" | "instrumentKey">): Promise<string> {
+  return request.instrumentKey || instrumentService.resolveInstrumentKey(request.symbol);
+}
+
+// Intervals the Upstox historical candle API serves natively
+export const UPSTOX_TIMEFRAMES = ["1minute", "30minute", "1day", "1week", "1month"] as const;
+
+export function toUpstoxInterval(timeframe: string): string {
+  const { unit, count } = parseTimeframe(timeframe);
+  if (unit === "minute" && (count === 1 || count === 30)) {
+    return `${count}minute`;
+  }
+  if (count === 1 && unit !== "minute") {
+    return unit;
+  }
+  throw new Error(`Upstox does not serve ${timeframe} candles natively; request one of ${UPSTOX_TIMEFRAMES.join(", ")} and resample`);
+}
+
+export function sortCandles(candles: Candle[]): Candle[] {
+  return candles.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+class UpstoxMarketDataProvider implements MarketDataProvider {
+  readonly name = "upstox";
+  readonly description = "Historical candles from the Upstox API (requires a linked account)";
+  readonly timeframes = UPSTOX_TIMEFRAMES;
+
+  async getCandles(request: MarketDataRequest): Promise<Candle[]> {
+    const { symbol, timeframe, startDate, endDate, userId } = request;
+    // Candles are fetched with the requesting user's own broker session, never another account's
+    if (!userId) {
+      throw new Error("Upstox historical data needs a signed-in user. Connect your Upstox account to fetch historical data.");
+    }
+    const accessToken = await getValidUpstoxToken(userId, storage);
+
+    if (!accessToken) {
+      throw new Error("Upstox access token not available. Connect your Upstox account to fetch historical data.");
+    }
+
+    try {
+      console.log(`Fetching historical data for ${symbol} from Upstox API`);
+
+      // Convert symbol to Upstox format
+      const upstoxSymbol = await resolveInstrumentKey(request);
+
+      // Convert timeframe to Upstox format
+      const upstoxTimeframe = toUpstoxInterval(timeframe);
+      console.log(`Converting timeframe: ${timeframe} -> ${upstoxTimeframe}`);
+
+      // Format dates for Upstox API (YYYY-MM-DD)
+      const fromDate = startDate.toISOString().split('T')[0];
+      const toDate = endDate.toISOString().split('T')[0];
+
+      const data = await upstoxService.getHistoricalData(
+        upstoxSymbol,
+        fromDate,
+        toDate,
+        accessToken,
+        upstoxTimeframe
+      );
+
+      if (!data || data.length === 0) {
+        throw new Error(`No historical data available for ${symbol} from ${fromDate} to ${toDate}`);
+      }
+
+      console.log(`Retrieved ${data.length} candles for ${symbol}`);
+      return sortCandles(this.formatUpstoxData(data));
+    } catch (error) {
+      console.error(`Failed to fetch Upstox data for ${symbol}:`, error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Cannot fetch historical data from Upstox: ${errorMessage}`);
+    }
+  }
+
+  private formatUpstoxData(data: any[]): Candle[] {
+    return data.map(candle => ({
+      timestamp: new Date(candle.timestamp).toISOString(),
+      open: Number(candle.open),
+      high: Number(candle.high),
+      low: Number(candle.low),
+      close: Number(candle.close),
+      volume: Number(candle.volume || 0)
+    }));
+  }
+}
+
+/**
+ * Reads candles from CSV files in MARKET_DATA_DIR (default ./data/candles).
+ * Files are named `<SYMBOL>_<timeframe>.csv` or `<SYMBOL>.csv` and need a
+ * header row with timestamp,open,high,low,close[,volume] columns.
+ */
+class CsvMarketDataProvider implements MarketDataProvider {
+  readonly name = "csv";
+  readonly description = "Candles from local CSV files";
+
+  constructor(private directory: string) {}
+
+  async getCandles({ symbol, timeframe, startDate, endDate }: MarketDataRequest): Promise<Candle[]> {
+    const file = await this.findFile(symbol, timeframe);
+    if (!file) {
+      throw new Error(`No CSV data for ${symbol} (${timeframe}) in ${this.directory}`);
+    }
+
+    const candles = this.parseCsv(await fs.readFile(file, "utf8"), file);
+    const from = startDate.getTime();
+    const to = endDate.getTime() + 24 * 60 * 60 * 1000 - 1; // end date is inclusive
+
+    const inRange = candles.filter(candle => {
+      const time = new Date(candle.timestamp).getTime();
+      return time >= from && time <= to;
+    });
+
+    if (inRange.length === 0) {
+      throw new Error(`No CSV data for ${symbol} between ${startDate.toISOString().split('T')[0]} and ${endDate.toISOString().split('T')[0]}`);
+    }
+
+    return sortCandles(inRange);
+  }
+
+  private async findFile(symbol: string, timeframe: string): Promise<string | undefined> {
+    const safeSymbol = symbol.replace(/[^A-Za-z0-9_-]/g, "_");
+    const candidates = [`${safeSymbol}_${timeframe}.csv`, `${safeSymbol}.csv`];
+
+    for (const candidate of candidates) {
+      const file = path.join(this.directory, candidate);
+      try {
+        await fs.access(file);
+        return file;
+      } catch {
+        // try the next candidate
+      }
+    }
+    return undefined;
+  }
+
+  private parseCsv(content: string, file: string): Candle[] {
+    const lines = content.split(/\r?\n/).filter(line => line.trim() !== "");
+    if (lines.length === 0) {
+      return [];
+    }
+
+    const header = lines[0].split(",").map(column => column.trim().toLowerCase());
+    const column = (names: string[]) => header.findIndex(name => names.includes(name));
+    const indexes = {
+      timestamp: column(["timestamp", "date", "datetime", "time"]),
+      open: column(["open"]),
+      high: column(["high"]),
+      low: column(["low"]),
+      close: column(["close"]),
+      volume: column(["volume"]),
+    };
+
+    if ([indexes.timestamp, indexes.open, indexes.high, indexes.low, indexes.close].some(index => index < 0)) {
+      throw new Error(`${file} must have timestamp, open, high, low and close columns`);
+    }
+
+    return lines.slice(1).map((line, lineNumber) => {
+      const values = line.split(",").map(value => value.trim());
+      const timestamp = new Date(values[indexes.timestamp]);
+      if (isNaN(timestamp.getTime())) {
+        throw new Error(`${file}:${lineNumber + 2} has an invalid timestamp "${values[indexes.timestamp]}"`);
+      }
+
+      return {
+        timestamp: timestamp.toISOString(),
+        open: Number(values[indexes.open]),
+        high: Number(values[indexes.high]),
+        low: Number(values[indexes.low]),
+        close: Number(values[indexes.close]),
+        volume: indexes.volume >= 0 ? Number(values[indexes.volume] || 0) : 0,
+      };
+    });
+  }
+}
+
+/**
+ * Generates a random walk that is reproducible for the same symbol,
+ * timeframe and date range, for CI runs and demos without broker access.
+ */
+class SyntheticMarketDataProvider implements MarketDataProvider {
+  readonly name = "synthetic";
+  readonly description = "Deterministic generated candles for offline testing";
+  readonly timeframes = ["1minute", "1day"];
+
+  async getCandles({ symbol, timeframe, startDate, endDate }: MarketDataRequest): Promise<Candle[]> {
+    const seed = `${symbol}|${timeframe}|${startDate.toISOString()}|${endDate.toISOString()}`;
+    return this.generateRealisticMockData(symbol, timeframe, startDate, endDate, this.createRandom(seed));
+  }
+
+  // mulberry32 seeded from a string hash
+  private createRandom(seed: string): () => number {
+    let state = 0;
+    for (let i = 0; i < seed.length; i++) {
+      state = Math.imul(state ^ seed.charCodeAt(i), 2654435761);
+    }
+
+    return () => {
+      state = (state + 0x6D2B79F5) | 0;
+      let t = Math.imul(state ^ (state >>> 15), 1 | state);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  private generateRealisticMockData(
+    symbol: string,
+    timeframe: string,
+    startDate: Date,
+    endDate: Date,
+    random: () => number
+  ): Candle[] {
+    const data: Candle[] = [];
+    const currentDate = new Date(startDate);
+    const basePrice = symbol.includes('NIFTY') ? 18000 : 100;
+    let currentPrice = basePrice;
+
+    const getTimeframeMinutes = (tf: string) => {
+      switch (tf) {
+        case '1minute': return 1;
+        case '5minute': return 5;
+        case '15minute': return 15;
+        case '30minute': return 30;
+        case '1hour': return 60;
+        case '1day': return 1440;
+        default: return 1440;
+      }
+    };
+
+    const minutes = getTimeframeMinutes(timeframe);
+
+    while (currentDate <= endDate) {
+      // Skip weekends for daily data
+      if (minutes >= 1440 && (currentDate.getUTCDay() === 0 || currentDate.getUTCDay() === 6)) {
+        currentDate.setUTCDate(currentDate.getUTCDate() + 1);
+        continue;
+      }
+
+      // Skip non-market hours for intraday data (09:15-15:30 IST is 03:45-10:00 UTC)
+      if (minutes < 1440) {
+        const minuteOfDay = currentDate.getUTCHours() * 60 + currentDate.getUTCMinutes();
+        const weekend = currentDate.getUTCDay() === 0 || currentDate.getUTCDay() === 6;
+        if (weekend || minuteOfDay < 225 || minuteOfDay >= 600) {
+          currentDate.setUTCMinutes(currentDate.getUTCMinutes() + minutes);
+          continue;
+        }
+      }
+
+      // Scale volatility based on timeframe
+      const volatilityScale = minutes < 60 ? 0.003 : 0.01; // Lower volatility for shorter timeframes
+      const maxChange = volatilityScale * Math.sqrt(minutes / 60); // Adjusted for timeframe
+      const change = (random() - 0.5) * maxChange * 2;
+
+      const open = currentPrice;
+      let close = open * (1 + change);
+
+      // Mean reversion to prevent unrealistic drift
+      const driftFromBase = (currentPrice - basePrice) / basePrice;
+      if (Math.abs(driftFromBase) > 0.3) { // If price drifted more than 30% from base
+        const reversion = -driftFromBase * 0.1; // 10% reversion towards base
+        close = open * (1 + change + reversion);
+      }
+
+      // Ensure price stays within reasonable bounds
+      const minPrice = basePrice * 0.5; // 50% of base price
+      const maxPrice = basePrice * 2.0; // 200% of base price
+      close = Math.max(minPrice, Math.min(maxPrice, close));
+
+      const high = Math.max(open, close) * (1 + random() * 0.005);
+      const low = Math.min(open, close) * (1 - random() * 0.005);
+      const volume = Math.floor(random() * 1000000) + 10000;
+
+      data.push({
+        timestamp: currentDate.toISOString(),
+        open: Number(open.toFixed(2)),
+        high: Number(high.toFixed(2)),
+        low: Number(low.toFixed(2)),
+        close: Number(close.toFixed(2)),
+        volume: volume
+      });
+
+      currentPrice = close;
+      currentDate.setUTCMinutes(currentDate.getUTCMinutes() + minutes);
+    }
+
+    return data;
+  }
+}
+
+const providers = new Map<string, MarketDataProvider>();
+
+export function registerMarketDataProvider(provider: MarketDataProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getMarketDataProvider(name?: string | null): MarketDataProvider {
+  const provider = providers.get(name || DEFAULT_MARKET_DATA_SOURCE);
+  if (!provider) {
+    throw new Error(`Unknown market data source "${name}". Available sources: ${Array.from(providers.keys()).join(", ")}`);
+  }
+  return provider;
+}
+
+export function listMarketDataProviders(): Array<{ name: string; description: string }> {
+  return Array.from(providers.values()).map(({ name, description }) => ({ name, description }));
+}
+
+/**
+ * Loads candles at the requested timeframe, fetching the coarsest interval
+ * the provider serves natively and resampling it. `sourceTimeframe` is the
+ * interval that was actually fetched.
+ */
+export async function getResampledCandles(
+  provider: MarketDataProvider,
+  request: MarketDataRequest
+): Promise<{ candles: Candle[]; sourceTimeframe: string }> {
+  const sourceTimeframe = selectSourceTimeframe(request.timeframe, provider.timeframes);
+  const candles = await provider.getCandles({ ...request, timeframe: sourceTimeframe });
+  return { candles: resampleCandles(candles, request.timeframe), sourceTimeframe };
+}
+
+registerMarketDataProvider(new UpstoxMarketDataProvider());
+registerMarketDataProvider(new CsvMarketDataProvider(
+  process.env.MARKET_DATA_DIR || path.resolve(process.cwd(), "data", "candles")
+));
+registerMarketDataProvider(new SyntheticMarketDataProvider());
@@ -0,0 +1,162 @@
+/*
+ * Monte Carlo robustness analysis of a backtest's closed trades. Each
+ * simulation replays the trade P&Ls in a new order, either reshuffled
+ * (same trades, different sequence) or bootstrapped (drawn with
+ * replacement), and records where the equity path ends and how deep it fell.
+ * Shuffling keeps the final equity fixed and isolates sequencing risk;
+ * bootstrapping also varies which trades occur.
+ */
+
+export type MonteCarloMethod = "shuffle" | "bootstrap";
+
+export interface MonteCarloOptions {
+  simulations?: number;
+  method?: MonteCarloMethod;
+  // Drawdown from the running peak, as a fraction, that counts as ruin
+  ruinDrawdown?: number;
+  seed?: number;
+}
+
+export interface Percentiles {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  mean: number;
+}
+
+export interface MonteCarloResult {
+  method: MonteCarloMethod;
+  simulations: number;
+  trades: number;
+  seed: number;
+  ruinDrawdown: number;
+  original: { finalEquity: number; maxDrawdown: number };
+  finalEquity: Percentiles;
+  maxDrawdown: Percentiles;
+  // Share of simulations that ended below the initial capital
+  probabilityOfLoss: number;
+  // Share of simulations whose drawdown reached ruinDrawdown
+  riskOfRuin: number;
+  // Equity percentiles after each sampled trade number, for confidence bands
+  bands: Array<{ trade: number } & Omit<Percentiles, "mean">>;
+}
+
+export const MAX_SIMULATIONS = 10000;
+const DEFAULT_SIMULATIONS = 1000;
+const DEFAULT_RUIN_DRAWDOWN = 0.5;
+// Band points kept per simulation, so memory does not grow with the trade count
+const MAX_BAND_POINTS = 100;
+
+// Small seeded generator (mulberry32) so a run can be reproduced
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function summarize(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p5: percentile(sorted, 0.05),
+    p25: percentile(sorted, 0.25),
+    p50: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p95: percentile(sorted, 0.95),
+    mean: sorted.reduce((sum, value) => sum + value, 0) / (sorted.length || 1),
+  };
+}
+
+function replay(pnls: number[], initialCapital: number, onStep?: (step: number, equity: number) => void) {
+  let equity = initialCapital;
+  let peak = initialCapital;
+  let maxDrawdown = 0;
+  pnls.forEach((pnl, index) => {
+    equity += pnl;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak > 0 ? (peak - equity) / peak : 1);
+    onStep?.(index + 1, equity);
+  });
+  return { finalEquity: equity, maxDrawdown };
+}
+
+/**
+ * Simulates `pnls` (net P&L per closed trade, in the order they closed)
+ * against `initialCapital`.
+ */
+export function runMonteCarlo(pnls: number[], initialCapital: number, options: MonteCarloOptions = {}): MonteCarloResult {
+  const simulations = Math.min(Math.max(Math.floor(options.simulations || DEFAULT_SIMULATIONS), 1), MAX_SIMULATIONS);
+  const method = options.method || "shuffle";
+  const ruinDrawdown = options.ruinDrawdown && options.ruinDrawdown > 0 ? Math.min(options.ruinDrawdown, 1) : DEFAULT_RUIN_DRAWDOWN;
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const random = createRandom(seed);
+
+  const count = pnls.length;
+  const stride = Math.max(1, Math.ceil(count / MAX_BAND_POINTS));
+  const bandSteps = Array.from({ length: Math.ceil(count / stride) }, (_, i) => Math.min(count, (i + 1) * stride));
+  const bandSlot = new Map(bandSteps.map((step, slot) => [step, slot]));
+  const bandValues = bandSteps.map(() => new Array<number>(simulations));
+
+  const finals: number[] = [];
+  const drawdowns: number[] = [];
+  const sequence = [...pnls];
+
+  for (let simulation = 0; simulation < simulations; simulation++) {
+    if (method === "bootstrap") {
+      for (let i = 0; i < count; i++) {
+        sequence[i] = pnls[Math.floor(random() * count)];
+      }
+    } else {
+      // Fisher-Yates shuffle of the previous order
+      for (let i = count - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [sequence[i], sequence[j]] = [sequence[j], sequence[i]];
+      }
+    }
+
+    const outcome = replay(sequence, initialCapital, (step, equity) => {
+      const slot = bandSlot.get(step);
+      if (slot !== undefined) {
+        bandValues[slot][simulation] = equity;
+      }
+    });
+    finals.push(outcome.finalEquity);
+    drawdowns.push(outcome.maxDrawdown);
+  }
+
+  const bands = [{ trade: 0, p5: initialCapital, p25: initialCapital, p50: initialCapital, p75: initialCapital, p95: initialCapital }]
+    .concat(bandSteps.map((step, slot) => {
+      const { mean, ...bounds } = summarize(bandValues[slot]);
+      return { trade: step, ...bounds };
+    }));
+
+  return {
+    method,
+    simulations,
+    trades: count,
+    seed,
+    ruinDrawdown,
+    original: replay(pnls, initialCapital),
+    finalEquity: summarize(finals),
+    maxDrawdown: summarize(drawdowns),
+    probabilityOfLoss: finals.filter(value => value < initialCapital).length / simulations,
+    riskOfRuin: drawdowns.filter(value => value >= ruinDrawdown).length / simulations,
+    bands,
+  };
+}
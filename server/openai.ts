@@ -19,19 +19,34 @@ export async function generateStrategy(prompt: string): Promise<GeneratedStrateg
 
 The strategy should:
 1. Use the provided sandbox environment with functions: buy(), sell(), sma(), rsi()
-2. Access historical data through the 'data' object
+2. Implement the init/onCandle/onExit hooks described below
 3. Implement proper risk management
 4. Be production-ready and well-commented
 5. Use realistic trading logic
 
+Strategy lifecycle (the backtester and live engine call these hooks):
+- init(ctx) - optional, called once before the first candle
+- onCandle(candle, ctx) - required, called once per candle in chronological order
+- onBar(ctx) - optional, called once per timestamp after onCandle, for logic that ranks or compares symbols
+- onExit(ctx) - optional, called once after the last candle
+- ctx contains {symbol, candle, index, history, position, cash, symbols, data, candles, positions, parameters, state}
+- Portfolio backtests run a basket of symbols with shared cash: onCandle is called per symbol (ctx.symbol), ctx.symbols lists the basket and ctx.positions maps symbol to quantity
+- Top-level code runs once, so ordinary variables can hold state between candles
+
 Available functions in sandbox:
-- buy(symbol, quantity, price, timestamp) - Execute buy order
-- sell(symbol, quantity, price, timestamp) - Execute sell order  
-- sma(prices, period) - Simple Moving Average
-- rsi(prices, period) - Relative Strength Index
-- data[symbol] - Array of historical data points with {timestamp, open, high, low, close, volume}
+- buy(symbol, quantity, price, timestamp, reason) - Execute buy order (closes a short first)
+- sell(symbol, quantity, price, timestamp, reason) - Execute sell order (closes a long first)
+- Orders are market orders; the positional price is only a reference. For limit or stop orders pass options instead of the price: buy(symbol, quantity, { type: 'limit', limitPrice, reason }) or sell(symbol, quantity, { type: 'stop', stopPrice, reason })
+- Protective exits can be attached to entries: buy(symbol, quantity, { stopLoss: { percent: 1 }, takeProfit: { points: 40 }, trailingStop: { atr: 2, period: 14 } }), or set for every entry in parameters.exits
+- Orders fill on the next candle (at its open, or when its range reaches a limit/stop price) and pay brokerage, taxes and slippage
+- sma(prices, period) - Simple Moving Average, returns an array
+- rsi(prices, period) - Relative Strength Index, returns an array
+- atr(candles, period) - Average True Range of {high, low, close} candles, returns an array
+- data[symbol] - Array of historical data points with {timestamp, open, high, low, close, volume}, oldest first, ending at the current candle
+- position - Current signed position quantity for the symbol
 - portfolio - Object with {cash, positions}
-- parameters - Strategy parameters object
+- parameters - Strategy parameters object (put tunable values here)
+- log(...) - Write a line to the backtest log
 
 Respond with JSON containing:
 {
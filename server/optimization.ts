@@ -0,0 +1,492 @@
+import os from "os";
+import { storage } from "./storage";
+import { backtestQueue } from "./backtest-queue";
+import { createRandom } from "./monte-carlo";
+import { walkForwardConfigSchema, type Backtest, type Optimization, type ParameterRange, type WalkForwardConfig } from "@shared/schema";
+
+/*
+ * Parameter optimization. An optimization record owns a set of child
+ * backtests that differ only in their `parameters` overrides:
+ *
+ *   grid          every combination of the declared parameter ranges
+ *   random        maxRuns combinations sampled from the grid with the
+ *                 optimization's seed, so the same sample is drawn again
+ *   walk_forward  the date range is split into rolling windows; each window's
+ *                 in-sample part is swept and the best combination is then
+ *                 run on the out-of-sample part that follows it
+ *
+ * Runs execute one at a time and are ranked by the optimization's objective,
+ * read from the child backtest's results.metrics.
+ */
+
+export const MAX_OPTIMIZATION_RUNS = 500;
+const DEFAULT_RANDOM_RUNS = 20;
+const MAX_VALUES_PER_RANGE = 1000;
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+// A running sweep whose heartbeat is older than this is resumed by another process
+const STALE_AFTER_MS = 60 * 1000;
+
+export type ParameterValue = number | string | boolean;
+export type ParameterSet = Record<string, ParameterValue>;
+
+export interface OptimizationRun {
+  backtestId: number;
+  role: "sweep" | "in_sample" | "out_of_sample";
+  window?: number;
+  parameters: ParameterSet;
+  status: string;
+  objective: number | null;
+  totalReturn: number | null;
+  sharpeRatio: number | null;
+  maxDrawdown: number | null;
+  totalTrades: number | null;
+  error?: string;
+}
+
+interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+export interface WalkForwardWindow {
+  index: number;
+  inSample: DateRange;
+  outOfSample: DateRange;
+  bestParameters: ParameterSet | null;
+  inSampleObjective: number | null;
+  outOfSampleBacktestId: number | null;
+  outOfSampleObjective: number | null;
+  outOfSampleReturn: number | null;
+}
+
+export interface OptimizationResults {
+  objective: string;
+  parameterNames: string[];
+  runs: OptimizationRun[];
+  best: OptimizationRun | null;
+  walkForward?: {
+    windows: WalkForwardWindow[];
+    // Out-of-sample returns compounded across windows
+    outOfSampleReturn: number;
+    // Mean out-of-sample objective over mean in-sample objective
+    efficiency: number | null;
+  };
+}
+
+function decimals(value: number): number {
+  const text = String(value);
+  return text.includes(".") ? text.split(".")[1].length : 0;
+}
+
+function rangeValues(range: ParameterRange): ParameterValue[] {
+  if ("values" in range) {
+    return range.values;
+  }
+
+  const count = Math.floor((range.max - range.min) / range.step + 1e-9) + 1;
+  if (count > MAX_VALUES_PER_RANGE) {
+    throw new Error(`Parameter range ${range.min}..${range.max} step ${range.step} has more than ${MAX_VALUES_PER_RANGE} values`);
+  }
+  // Round to the step's precision so 0.1 steps do not drift
+  const precision = Math.max(decimals(range.min), decimals(range.step));
+  return Array.from({ length: count }, (_, i) => Number((range.min + i * range.step).toFixed(precision)));
+}
+
+/**
+ * Chooses the parameter combinations to run. Grids larger than the run cap
+ * are rejected for grid mode and sampled for random and walk-forward modes.
+ */
+export function planOptimization(optimization: {
+  mode: string;
+  parameterRanges: Record<string, ParameterRange>;
+  maxRuns?: number | null;
+  walkForward?: WalkForwardConfig | null;
+  seed?: number | null;
+}): { combinations: ParameterSet[]; totalRuns: number } {
+  const names = Object.keys(optimization.parameterRanges);
+  const values = names.map(name => rangeValues(optimization.parameterRanges[name]));
+  const gridSize = values.reduce((size, list) => size * list.length, 1);
+
+  // Decodes a combination's position in the grid, so large grids need not be enumerated
+  const combinationAt = (position: number): ParameterSet => {
+    const picks: ParameterValue[] = [];
+    for (let i = names.length - 1; i >= 0; i--) {
+      picks[i] = values[i][position % values[i].length];
+      position = Math.floor(position / values[i].length);
+    }
+    return Object.fromEntries(names.map((name, i) => [name, picks[i]]));
+  };
+
+  let limit = gridSize;
+  if (optimization.mode === "random") {
+    limit = Math.min(gridSize, optimization.maxRuns || DEFAULT_RANDOM_RUNS);
+  } else if (optimization.mode === "walk_forward" && optimization.maxRuns) {
+    limit = Math.min(gridSize, optimization.maxRuns);
+  }
+
+  const windows = optimization.mode === "walk_forward" ? optimization.walkForward?.windows ?? 4 : 1;
+  // Each walk-forward window adds one out-of-sample run
+  const totalRuns = optimization.mode === "walk_forward" ? windows * (limit + 1) : limit;
+  if (totalRuns > MAX_OPTIMIZATION_RUNS) {
+    throw new Error(
+      `Optimization needs ${totalRuns} backtests; the limit is ${MAX_OPTIMIZATION_RUNS}. Narrow the ranges or lower maxRuns.`
+    );
+  }
+
+  let positions: number[];
+  if (limit === gridSize) {
+    positions = Array.from({ length: gridSize }, (_, i) => i);
+  } else {
+    const random = createRandom(optimization.seed ?? 0);
+    const sampled = new Set<number>();
+    while (sampled.size < limit) {
+      sampled.add(Math.floor(random() * gridSize));
+    }
+    positions = Array.from(sampled).sort((a, b) => a - b);
+  }
+
+  return { combinations: positions.map(combinationAt), totalRuns };
+}
+
+/**
+ * Splits the date range into rolling windows whose out-of-sample parts are
+ * consecutive and together cover the end of the range.
+ */
+export function walkForwardWindows(startDate: Date, endDate: Date, config: WalkForwardConfig): Array<{ inSample: DateRange; outOfSample: DateRange }> {
+  const start = startDate.getTime();
+  const total = endDate.getTime() - start;
+  const ratio = config.inSamplePercent / (100 - config.inSamplePercent);
+  const outOfSampleLength = total / (config.windows + ratio);
+  const inSampleLength = outOfSampleLength * ratio;
+
+  return Array.from({ length: config.windows }, (_, index) => {
+    const inSampleStart = start + index * outOfSampleLength;
+    const split = inSampleStart + inSampleLength;
+    const outOfSampleEnd = index === config.windows - 1 ? endDate.getTime() : split + outOfSampleLength;
+    return {
+      inSample: { startDate: new Date(inSampleStart).toISOString(), endDate: new Date(split).toISOString() },
+      outOfSample: { startDate: new Date(split).toISOString(), endDate: new Date(outOfSampleEnd).toISOString() },
+    };
+  });
+}
+
+function metricValue(metrics: any, name: string): number | null {
+  const value = metrics?.[name];
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function bestRun(runs: OptimizationRun[]): OptimizationRun | null {
+  return runs.reduce<OptimizationRun | null>(
+    (best, run) => run.objective !== null && (best === null || run.objective > best.objective!) ? run : best,
+    null
+  );
+}
+
+/**
+ * Runs optimizations in the background. Cancellation is stored on the
+ * optimization, and each sweep heartbeats while it runs; a sweep whose
+ * process stopped is claimed by another process (or this one after a
+ * restart) and resumed after the runs it had already recorded.
+ */
+class OptimizationService {
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+  // Optimizations this process is running
+  private running = new Set<number>();
+  private heartbeatTimer?: NodeJS.Timeout;
+
+  start(): void {
+    if (this.heartbeatTimer) {
+      return;
+    }
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), HEARTBEAT_INTERVAL_MS);
+    this.heartbeat();
+  }
+
+  stop(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+  }
+
+  async runOptimization(optimizationId: number): Promise<void> {
+    this.running.add(optimizationId);
+    try {
+      const optimization = await storage.getOptimization(optimizationId);
+      if (!optimization) {
+        throw new Error("Optimization not found");
+      }
+      if (optimization.cancelRequested) {
+        throw new Error("Optimization was cancelled");
+      }
+
+      const walkForward = walkForwardConfigSchema.parse(optimization.walkForward ?? {});
+      const plan = planOptimization({
+        mode: optimization.mode,
+        parameterRanges: optimization.parameterRanges as Record<string, ParameterRange>,
+        maxRuns: optimization.maxRuns,
+        walkForward,
+        seed: optimization.seed,
+      });
+
+      // Runs recorded before a restart are kept; the plan is deterministic, so they line up with its first calls
+      const recorded = (optimization.results as OptimizationResults | null)?.runs ?? [];
+      const recordedIds = new Set(recorded.map(run => run.backtestId));
+      // The run that was in flight when the previous process stopped, if any
+      let inFlight = recorded.length > 0 || optimization.status === "running"
+        ? (await storage.getOptimizationBacktests(optimizationId)).find(backtest => !recordedIds.has(backtest.id))
+        : undefined;
+
+      await storage.updateOptimization(optimizationId, {
+        status: "running",
+        lockedBy: this.workerId,
+        heartbeatAt: new Date(),
+        progress: Math.floor((recorded.length / plan.totalRuns) * 100),
+        progressMessage: recorded.length > 0
+          ? `Resuming after ${recorded.length}/${plan.totalRuns} backtests...`
+          : `Running ${plan.totalRuns} backtests...`
+      });
+
+      const results: OptimizationResults = {
+        objective: optimization.objective,
+        parameterNames: Object.keys(optimization.parameterRanges as object),
+        runs: [],
+        best: null,
+      };
+
+      const runChild = (parameters: ParameterSet, role: OptimizationRun["role"], dates?: DateRange, window?: number) => {
+        const previous = recorded[results.runs.length];
+        if (previous) {
+          return Promise.resolve(previous);
+        }
+        const existing = inFlight;
+        inFlight = undefined;
+        return this.runChild(optimization, parameters, role, dates, window, existing);
+      };
+
+      const reportProgress = async () => {
+        await storage.updateOptimization(optimizationId, {
+          progress: Math.floor((results.runs.length / plan.totalRuns) * 100),
+          progressMessage: `Completed ${results.runs.length}/${plan.totalRuns} backtests`,
+          results
+        });
+      };
+
+      if (optimization.mode === "walk_forward") {
+        const config = optimization.backtestConfig as any;
+        const windows = walkForwardWindows(
+          new Date(config.startDate),
+          new Date(config.endDate),
+          walkForward
+        );
+        const summaries: WalkForwardWindow[] = [];
+
+        for (let index = 0; index < windows.length; index++) {
+          const window = windows[index];
+          const inSampleRuns: OptimizationRun[] = [];
+          for (const parameters of plan.combinations) {
+            const run = await runChild(parameters, "in_sample", window.inSample, index);
+            inSampleRuns.push(run);
+            results.runs.push(run);
+            await reportProgress();
+          }
+
+          const best = bestRun(inSampleRuns);
+          const summary: WalkForwardWindow = {
+            index,
+            ...window,
+            bestParameters: best?.parameters ?? null,
+            inSampleObjective: best?.objective ?? null,
+            outOfSampleBacktestId: null,
+            outOfSampleObjective: null,
+            outOfSampleReturn: null,
+          };
+
+          // A window with no usable in-sample run has nothing to carry forward
+          if (best) {
+            const run = await runChild(best.parameters, "out_of_sample", window.outOfSample, index);
+            results.runs.push(run);
+            summary.outOfSampleBacktestId = run.backtestId;
+            summary.outOfSampleObjective = run.objective;
+            summary.outOfSampleReturn = run.totalReturn;
+          }
+          summaries.push(summary);
+          await reportProgress();
+        }
+
+        const scored = summaries.filter(window => window.inSampleObjective !== null && window.outOfSampleObjective !== null);
+        const meanInSample = scored.reduce((sum, window) => sum + window.inSampleObjective!, 0) / (scored.length || 1);
+        const meanOutOfSample = scored.reduce((sum, window) => sum + window.outOfSampleObjective!, 0) / (scored.length || 1);
+
+        results.walkForward = {
+          windows: summaries,
+          outOfSampleReturn: summaries.reduce((growth, window) => growth * (1 + (window.outOfSampleReturn ?? 0)), 1) - 1,
+          efficiency: scored.length > 0 && meanInSample > 0 ? meanOutOfSample / meanInSample : null,
+        };
+        results.best = bestRun(results.runs.filter(run => run.role === "out_of_sample"));
+      } else {
+        for (const parameters of plan.combinations) {
+          results.runs.push(await runChild(parameters, "sweep"));
+          await reportProgress();
+        }
+        results.best = bestRun(results.runs);
+      }
+
+      await storage.updateOptimization(optimizationId, {
+        status: "completed",
+        progress: 100,
+        progressMessage: "Optimization completed successfully",
+        results,
+        completedAt: new Date()
+      });
+      console.log(`Optimization ${optimizationId} completed with ${results.runs.length} backtests`);
+    } catch (error: any) {
+      const cancelled = await this.isCancelled(optimizationId).catch(() => false);
+      console.error(`Optimization ${optimizationId} ${cancelled ? "cancelled" : "failed"}:`, error?.message || error);
+      await storage.updateOptimization(optimizationId, {
+        status: cancelled ? "cancelled" : "error",
+        progressMessage: cancelled ? "Optimization cancelled by user" : `Error: ${error?.message || 'Unknown error'}`,
+        completedAt: new Date()
+      });
+      if (!cancelled) {
+        throw error;
+      }
+    } finally {
+      this.running.delete(optimizationId);
+    }
+  }
+
+  async cancelOptimization(optimizationId: number): Promise<void> {
+    console.log(`Cancelling optimization ${optimizationId}`);
+    await storage.updateOptimization(optimizationId, {
+      cancelRequested: true,
+      status: "cancelled",
+      progressMessage: "Optimization cancelled by user",
+      completedAt: new Date()
+    });
+    // The sweep's current run may be queued or running in any process
+    for (const backtest of await storage.getOptimizationBacktests(optimizationId)) {
+      if (backtest.status === "pending" || backtest.status === "running") {
+        await backtestQueue.cancel(backtest.id);
+      }
+    }
+  }
+
+  private async isCancelled(optimizationId: number): Promise<boolean> {
+    return (await storage.getOptimization(optimizationId))?.cancelRequested ?? false;
+  }
+
+  private async heartbeat(): Promise<void> {
+    try {
+      for (const optimizationId of Array.from(this.running)) {
+        await storage.updateOptimization(optimizationId, { heartbeatAt: new Date() });
+      }
+
+      const staleBefore = new Date(Date.now() - STALE_AFTER_MS);
+      for (const optimization of await storage.claimStaleOptimizations(this.workerId, staleBefore)) {
+        console.warn(`Resuming optimization ${optimization.id} left unfinished by a stopped process`);
+        this.runOptimization(optimization.id).catch(error => {
+          console.error(`Resumed optimization ${optimization.id} failed:`, error?.message || error);
+        });
+      }
+    } catch (error) {
+      console.error("Error refreshing optimization heartbeats:", error);
+    }
+  }
+
+  private async runChild(
+    optimization: Optimization,
+    parameters: ParameterSet,
+    role: OptimizationRun["role"],
+    dates?: DateRange,
+    window?: number,
+    existing?: Backtest
+  ): Promise<OptimizationRun> {
+    if (await this.isCancelled(optimization.id)) {
+      throw new Error("Optimization was cancelled");
+    }
+
+    const config = optimization.backtestConfig as any;
+    const label = Object.entries(parameters).map(([name, value]) => `${name}=${value}`).join(", ");
+    const backtest = existing ?? await storage.createBacktest({
+      userId: optimization.userId,
+      strategyId: optimization.strategyId,
+      strategyVersionId: optimization.strategyVersionId,
+      name: `${optimization.name}${window !== undefined ? ` W${window + 1} ${role === "in_sample" ? "IS" : "OOS"}` : ""} (${label})`,
+      symbol: config.symbol,
+      instrumentKey: config.instrumentKey ?? null,
+      symbols: config.symbols ?? null,
+      portfolio: config.portfolio ?? null,
+      timeframe: config.timeframe,
+      dataSource: config.dataSource,
+      costModel: config.costModel ?? null,
+      startDate: new Date(dates?.startDate ?? config.startDate),
+      endDate: new Date(dates?.endDate ?? config.endDate),
+      initialCapital: String(config.initialCapital),
+      parameters,
+      optimizationId: optimization.id,
+      optimizationRole: role,
+      status: "pending"
+    });
+
+    // One failing combination should not stop the sweep
+    let error: string | undefined;
+    try {
+      // A run adopted after a restart keeps its job, which the queue has recovered or already finished
+      if (!existing || !(await storage.getBacktestJobByBacktestId(backtest.id))) {
+        await backtestQueue.enqueue(backtest.id, optimization.userId);
+      }
+      // Cancelling while this run was being created found nothing to stop
+      if (await this.isCancelled(optimization.id)) {
+        await backtestQueue.cancel(backtest.id);
+      }
+      const job = await backtestQueue.waitFor(backtest.id);
+      if (job?.status === "failed") {
+        error = job.lastError || "Backtest failed";
+      }
+    } catch (runError: any) {
+      error = runError?.message || String(runError);
+    }
+
+    if (await this.isCancelled(optimization.id)) {
+      throw new Error("Optimization was cancelled");
+    }
+
+    const finished = await storage.getBacktest(backtest.id);
+    return this.summarizeRun(finished ?? backtest, optimization.objective, parameters, role, window, error);
+  }
+
+  private summarizeRun(
+    backtest: Backtest,
+    objective: string,
+    parameters: ParameterSet,
+    role: OptimizationRun["role"],
+    window: number | undefined,
+    error: string | undefined
+  ): OptimizationRun {
+    const metrics = backtest.status === "completed" ? (backtest.results as any)?.metrics : null;
+    return {
+      backtestId: backtest.id,
+      role,
+      ...(window !== undefined && { window }),
+      parameters,
+      status: backtest.status || "error",
+      objective: metricValue(metrics, objective),
+      totalReturn: metricValue(metrics, "totalReturn"),
+      sharpeRatio: metricValue(metrics, "sharpeRatio"),
+      maxDrawdown: metricValue(metrics, "maxDrawdown"),
+      totalTrades: metricValue(metrics, "totalTrades"),
+      ...(error && { error }),
+    };
+  }
+}
+
+export const optimizationService = new OptimizationService();
+
+export async function runOptimization(optimizationId: number): Promise<void> {
+  return optimizationService.runOptimization(optimizationId);
+}
+
+export async function cancelOptimization(optimizationId: number): Promise<void> {
+  return optimizationService.cancelOptimization(optimizationId);
+}
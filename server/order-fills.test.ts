@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { resolveCostModel } from "./cost-model";
+import { fillAgainstCandle, fillAtClose } from "./order-fills";
+import type { Candle } from "./market-data";
+import type { StrategySignal } from "./strategy-runtime";
+
+const candle: Candle = {
+  timestamp: "2025-06-02T03:45:00.000Z",
+  open: 100,
+  high: 105,
+  low: 95,
+  close: 102,
+  volume: 1000,
+};
+
+// One tick (₹0.05) of slippage so slippage-free fills are easy to tell apart
+const costModel = resolveCostModel({ preset: "none", slippage: { type: "ticks", value: 1 } });
+
+function signal(action: "BUY" | "SELL", orderType: StrategySignal["orderType"], price?: number): StrategySignal {
+  return { action, symbol: "RELIANCE", quantity: 10, orderType, price };
+}
+
+test("market orders fill at the open with slippage", () => {
+  assert.deepEqual(fillAgainstCandle(signal("BUY", "MARKET"), candle, costModel), {
+    price: 100.05,
+    referencePrice: 100,
+    timestamp: candle.timestamp,
+    atOpen: true,
+  });
+  assert.equal(fillAgainstCandle(signal("SELL", "MARKET", 90), candle, costModel)?.price, 99.95);
+});
+
+test("limit orders fill at their price inside the range without slippage", () => {
+  const fill = fillAgainstCandle(signal("BUY", "LIMIT", 97), candle, costModel);
+
+  assert.equal(fill?.price, 97);
+  assert.equal(fill?.atOpen, false);
+  assert.equal(fillAgainstCandle(signal("SELL", "LIMIT", 104), candle, costModel)?.price, 104);
+});
+
+test("limit orders the open gaps through fill at the open", () => {
+  assert.equal(fillAgainstCandle(signal("BUY", "LIMIT", 101), candle, costModel)?.price, 100);
+  assert.equal(fillAgainstCandle(signal("SELL", "LIMIT", 99), candle, costModel)?.price, 100);
+});
+
+test("limit orders outside the range do not fill", () => {
+  assert.equal(fillAgainstCandle(signal("BUY", "LIMIT", 94), candle, costModel), null);
+  assert.equal(fillAgainstCandle(signal("SELL", "LIMIT", 106), candle, costModel), null);
+});
+
+test("stop orders trigger at their price, or the open on a gap, with slippage", () => {
+  assert.equal(fillAgainstCandle(signal("BUY", "STOP", 104), candle, costModel)?.price, 104.05);
+  assert.equal(fillAgainstCandle(signal("SELL", "STOP", 96), candle, costModel)?.price, 95.95);
+  assert.equal(fillAgainstCandle(signal("BUY", "STOP", 99), candle, costModel)?.price, 100.05);
+  assert.equal(fillAgainstCandle(signal("BUY", "STOP", 106), candle, costModel), null);
+});
+
+test("close fills take market orders and marketable limits at the close", () => {
+  assert.deepEqual(fillAtClose(signal("SELL", "MARKET"), candle, costModel), {
+    price: 101.95,
+    referencePrice: 102,
+    timestamp: candle.timestamp,
+  });
+  assert.equal(fillAtClose(signal("BUY", "LIMIT", 103), candle, costModel)?.price, 102);
+  assert.equal(fillAtClose(signal("BUY", "LIMIT", 101), candle, costModel), null);
+  assert.equal(fillAtClose(signal("BUY", "STOP", 101), candle, costModel), null);
+});
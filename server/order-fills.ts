@@ -0,0 +1,62 @@
+import { applySlippage, roundToTick, type ResolvedCostModel } from "./cost-model";
+import type { Candle } from "./market-data";
+import type { StrategySignal } from "./strategy-runtime";
+
+/*
+ * How strategy orders fill against candles. Shared by the backtester and
+ * paper trading so a strategy is filled the same way in both.
+ */
+
+// Price an order actually traded at, and the price it was based on before slippage
+export interface Fill {
+  price: number;
+  referencePrice: number;
+  timestamp: string;
+  // Filled at the candle's open, so the rest of that candle can trigger protective exits
+  atOpen?: boolean;
+}
+
+// Same-bar fills in "close" mode: market orders and limits that are marketable at the close
+export function fillAtClose(signal: StrategySignal, candle: Candle, costModel: ResolvedCostModel): Fill | null {
+  const marketable = signal.orderType === 'MARKET' || (signal.orderType === 'LIMIT' && signal.price !== undefined &&
+    (signal.action === 'BUY' ? signal.price >= candle.close : signal.price <= candle.close));
+  if (!marketable) {
+    return null;
+  }
+
+  const price = signal.orderType === 'MARKET' ? applySlippage(costModel, signal.action, candle.close) : candle.close;
+  return { price, referencePrice: candle.close, timestamp: candle.timestamp };
+}
+
+/**
+ * Fills an order placed on the previous candle. Market orders fill at the
+ * open; limit and stop orders fill at their price when the candle's range
+ * reaches it, or at the open when it gaps through. Limit fills get no
+ * slippage, market and stop fills do.
+ */
+export function fillAgainstCandle(signal: StrategySignal, candle: Candle, costModel: ResolvedCostModel): Fill | null {
+  const buy = signal.action === 'BUY';
+  const price = signal.price !== undefined ? roundToTick(signal.price, costModel.tickSize) : undefined;
+  let reference: number | null = null;
+
+  if (signal.orderType === 'MARKET' || price === undefined) {
+    reference = candle.open;
+  } else if (signal.orderType === 'LIMIT') {
+    if (buy ? candle.open <= price : candle.open >= price) {
+      reference = candle.open;
+    } else if (buy ? candle.low <= price : candle.high >= price) {
+      reference = price;
+    }
+  } else if (buy ? candle.open >= price : candle.open <= price) {
+    reference = candle.open;
+  } else if (buy ? candle.high >= price : candle.low <= price) {
+    reference = price;
+  }
+
+  if (reference === null) {
+    return null;
+  }
+
+  const fillPrice = signal.orderType === 'LIMIT' ? reference : applySlippage(costModel, signal.action, reference);
+  return { price: fillPrice, referencePrice: reference, timestamp: candle.timestamp, atOpen: reference === candle.open };
+}
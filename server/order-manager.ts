@@ -0,0 +1,393 @@
+import { storage } from "./storage";
+import { wsManager } from "./websocket";
+import { upstoxService, getValidUpstoxToken } from "./upstox";
+import { riskManager } from "./risk-manager";
+import type { ModifyOrder, Order, OrderEvent, OrderStatus, PlaceOrder } from "@shared/schema";
+
+const MODULE_NAME = "Order Manager";
+const RECONCILE_INTERVAL_MS = 30 * 1000;
+// Orders the broker can still fill, modify or cancel
+const ACTIVE_STATUSES: OrderStatus[] = ["sent", "open", "partially_filled"];
+const TERMINAL_STATUSES: OrderStatus[] = ["filled", "rejected", "cancelled"];
+
+export interface ReconcileResult {
+  checked: number;
+  updated: number;
+  imported: number;
+}
+
+/** Raised for requests the order manager refuses; `status` is the HTTP status to answer with. */
+export class OrderError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = "OrderError";
+  }
+}
+
+/**
+ * Maps an Upstox order book status onto our lifecycle. Anything the broker
+ * has not yet acknowledged as open (request received, validation pending,
+ * after-market orders) counts as sent.
+ */
+export function mapBrokerStatus(brokerStatus: string, filledQuantity: number): OrderStatus {
+  const status = (brokerStatus || "").toLowerCase();
+  if (status === "complete") {
+    return "filled";
+  }
+  if (status === "rejected") {
+    return "rejected";
+  }
+  if (status.startsWith("cancelled")) {
+    return "cancelled";
+  }
+  if (
+    status === "open" ||
+    status === "trigger pending" ||
+    status === "modified" ||
+    status.startsWith("modify") ||
+    status.startsWith("not ") ||
+    status === "cancel pending"
+  ) {
+    return filledQuantity > 0 ? "partially_filled" : "open";
+  }
+  return "sent";
+}
+
+function checkOrderTerms(order: { orderType: string; price?: number | null; triggerPrice?: number | null }): void {
+  if ((order.orderType === "LIMIT" || order.orderType === "SL") && !order.price) {
+    throw new OrderError("Limit and stop-limit orders need a price");
+  }
+  if ((order.orderType === "SL" || order.orderType === "SL-M") && !order.triggerPrice) {
+    throw new OrderError("Stop-loss orders need a trigger price");
+  }
+}
+
+const toNumber = (value: string | null | undefined) => (value != null ? Number(value) : null);
+
+function appendEvent(order: Pick<Order, "events">, status: OrderStatus, message: string): OrderEvent[] {
+  const events = Array.isArray(order.events) ? (order.events as unknown as OrderEvent[]) : [];
+  return [...events, { at: new Date().toISOString(), status, message }];
+}
+
+/**
+ * Sends orders to Upstox and tracks each one through created, sent, open,
+ * partially filled and its final state. Every order is stored before it
+ * leaves, so broker rejections are recorded too. While running, the broker's
+ * order book is polled and folded back into `orders`, which also picks up
+ * orders placed outside the app. Placing, modifying and cancelling need the
+ * Order Manager module to be running; while the Risk Manager runs, new and
+ * modified orders must pass its pre-trade checks first.
+ */
+class OrderManager {
+  private timer?: NodeJS.Timeout;
+  private reconciling = false;
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.reconcileActive().catch(error => {
+        console.error("Order reconciliation failed:", error);
+      });
+    }, RECONCILE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async isEnabled(): Promise<boolean> {
+    const module = await storage.getModuleByName(MODULE_NAME);
+    return module?.status === "running";
+  }
+
+  async placeOrder(userId: number, input: PlaceOrder): Promise<Order> {
+    await this.requireEnabled();
+    checkOrderTerms(input);
+    const accessToken = await this.requireToken(userId);
+    const risk = (await riskManager.isEnabled()) ? await riskManager.checkOrder(userId, input) : null;
+
+    let order = await storage.createOrder({
+      userId,
+      strategyId: input.strategyId ?? null,
+      instrumentKey: input.instrumentKey,
+      symbol: input.symbol,
+      exchange: input.exchange,
+      side: input.side,
+      orderType: input.orderType,
+      product: input.product,
+      validity: input.validity,
+      quantity: input.quantity,
+      price: input.price?.toString() ?? null,
+      triggerPrice: input.triggerPrice?.toString() ?? null,
+      disclosedQuantity: input.disclosedQuantity,
+      isAmo: input.isAmo,
+      tag: input.tag ?? null,
+      status: "created",
+      events: [{ at: new Date().toISOString(), status: "created", message: "Order created" }],
+    });
+
+    if (risk && !risk.passed) {
+      const reason = `Risk Manager: ${risk.violations.map(violation => violation.message).join("; ")}`;
+      order = await storage.updateOrder(order.id, {
+        status: "rejected",
+        statusMessage: reason,
+        completedAt: new Date(),
+        events: appendEvent(order, "rejected", reason),
+      });
+      await riskManager.logRejection(userId, input, risk, order.id);
+      wsManager.sendOrderUpdate(userId, order);
+      return order;
+    }
+
+    try {
+      const response = await upstoxService.placeOrder({
+        quantity: input.quantity,
+        product: input.product,
+        validity: input.validity,
+        price: input.price ?? 0,
+        tag: input.tag ?? "",
+        instrument_token: input.instrumentKey,
+        order_type: input.orderType,
+        transaction_type: input.side,
+        disclosed_quantity: input.disclosedQuantity,
+        trigger_price: input.triggerPrice ?? 0,
+        is_amo: input.isAmo,
+      }, accessToken);
+
+      order = await storage.updateOrder(order.id, {
+        status: "sent",
+        brokerOrderId: response?.data?.order_id ?? null,
+        events: appendEvent(order, "sent", `Sent to Upstox as ${response?.data?.order_id ?? "unknown order id"}`),
+      });
+    } catch (error: any) {
+      const reason = error?.reason || error?.message || "Unknown error";
+      order = await storage.updateOrder(order.id, {
+        status: "rejected",
+        statusMessage: reason,
+        completedAt: new Date(),
+        events: appendEvent(order, "rejected", reason),
+      });
+      await storage.createLog({
+        level: "warn",
+        module: MODULE_NAME,
+        message: `${order.side} ${order.quantity} ${order.symbol} rejected by Upstox: ${reason}`,
+        data: { orderId: order.id, userId },
+      });
+    }
+
+    wsManager.sendOrderUpdate(userId, order);
+    return order;
+  }
+
+  async modifyOrder(order: Order, changes: ModifyOrder): Promise<Order> {
+    await this.requireEnabled();
+    this.requireActive(order, "modified");
+    const accessToken = await this.requireToken(order.userId!);
+
+    const next = {
+      quantity: changes.quantity ?? order.quantity,
+      orderType: changes.orderType ?? order.orderType,
+      validity: changes.validity ?? order.validity,
+      price: changes.price ?? toNumber(order.price),
+      triggerPrice: changes.triggerPrice ?? toNumber(order.triggerPrice),
+      disclosedQuantity: changes.disclosedQuantity ?? order.disclosedQuantity ?? 0,
+    };
+    checkOrderTerms(next);
+    if (next.quantity < (order.filledQuantity ?? 0)) {
+      throw new OrderError(`Quantity cannot go below the ${order.filledQuantity} already filled`);
+    }
+
+    if (await riskManager.isEnabled()) {
+      const checked = { instrumentKey: order.instrumentKey, symbol: order.symbol, side: order.side, ...next };
+      const risk = await riskManager.checkOrder(order.userId!, checked, order);
+      if (!risk.passed) {
+        await riskManager.logRejection(order.userId!, checked, risk, order.id);
+        throw new OrderError(`Risk Manager: ${risk.violations.map(violation => violation.message).join("; ")}`, 422);
+      }
+    }
+
+    try {
+      await upstoxService.modifyOrder({
+        order_id: order.brokerOrderId!,
+        quantity: next.quantity,
+        validity: next.validity,
+        price: next.orderType === "MARKET" || next.orderType === "SL-M" ? 0 : next.price ?? 0,
+        order_type: next.orderType,
+        disclosed_quantity: next.disclosedQuantity,
+        trigger_price: next.orderType === "SL" || next.orderType === "SL-M" ? next.triggerPrice ?? 0 : 0,
+      }, accessToken);
+    } catch (error: any) {
+      throw new OrderError(error?.reason || error?.message || "Failed to modify order", 422);
+    }
+
+    const changed = Object.entries(changes)
+      .filter(([, value]) => value !== undefined)
+      .map(([field, value]) => `${field} ${value}`)
+      .join(", ");
+    const updated = await storage.updateOrder(order.id, {
+      quantity: next.quantity,
+      orderType: next.orderType,
+      validity: next.validity,
+      price: next.price?.toString() ?? null,
+      triggerPrice: next.triggerPrice?.toString() ?? null,
+      disclosedQuantity: next.disclosedQuantity,
+      events: appendEvent(order, order.status as OrderStatus, `Modified: ${changed}`),
+    });
+    wsManager.sendOrderUpdate(updated.userId!, updated);
+    return updated;
+  }
+
+  /**
+   * Asks Upstox to cancel the order. The order becomes cancelled once the
+   * broker's order book says so, which the reconciliation run straight after
+   * usually already sees.
+   */
+  async cancelOrder(order: Order): Promise<Order> {
+    await this.requireEnabled();
+    this.requireActive(order, "cancelled");
+    const accessToken = await this.requireToken(order.userId!);
+
+    try {
+      await upstoxService.cancelOrder(order.brokerOrderId!, accessToken);
+    } catch (error: any) {
+      throw new OrderError(error?.reason || error?.message || "Failed to cancel order", 422);
+    }
+
+    const updated = await storage.updateOrder(order.id, {
+      events: appendEvent(order, order.status as OrderStatus, "Cancel requested"),
+    });
+    wsManager.sendOrderUpdate(updated.userId!, updated);
+
+    await this.reconcile(order.userId!).catch(error => {
+      console.error(`Order reconciliation after cancelling order ${order.id} failed:`, error);
+    });
+    return (await storage.getOrder(order.id)) ?? updated;
+  }
+
+  /**
+   * Brings the user's orders in line with the Upstox order book: status,
+   * filled quantity and average price of known orders are updated, and
+   * orders we have no record of are imported with source "broker".
+   */
+  async reconcile(userId: number): Promise<ReconcileResult> {
+    const accessToken = await this.requireToken(userId);
+    const brokerOrders: any[] = (await upstoxService.getOrders(accessToken)) || [];
+    const result: ReconcileResult = { checked: brokerOrders.length, updated: 0, imported: 0 };
+
+    for (const brokerOrder of brokerOrders) {
+      const brokerOrderId = String(brokerOrder.order_id);
+      const filledQuantity = Number(brokerOrder.filled_quantity || 0);
+      const status = mapBrokerStatus(brokerOrder.status, filledQuantity);
+      const averagePrice = Number(brokerOrder.average_price || 0) > 0 ? String(brokerOrder.average_price) : null;
+      const statusMessage = brokerOrder.status_message || null;
+      const completedAt = TERMINAL_STATUSES.includes(status) ? new Date() : null;
+
+      const existing = await storage.getOrderByBrokerId(userId, brokerOrderId);
+      if (!existing) {
+        const order = await storage.createOrder({
+          userId,
+          brokerOrderId,
+          source: "broker",
+          instrumentKey: brokerOrder.instrument_token,
+          symbol: brokerOrder.trading_symbol || brokerOrder.tradingsymbol || brokerOrder.instrument_token,
+          exchange: brokerOrder.exchange || "NSE",
+          side: brokerOrder.transaction_type,
+          orderType: brokerOrder.order_type,
+          product: brokerOrder.product || "D",
+          validity: brokerOrder.validity || "DAY",
+          quantity: Number(brokerOrder.quantity),
+          price: Number(brokerOrder.price || 0) > 0 ? String(brokerOrder.price) : null,
+          triggerPrice: Number(brokerOrder.trigger_price || 0) > 0 ? String(brokerOrder.trigger_price) : null,
+          disclosedQuantity: Number(brokerOrder.disclosed_quantity || 0),
+          isAmo: Boolean(brokerOrder.is_amo),
+          tag: brokerOrder.tag || null,
+          status,
+          brokerStatus: brokerOrder.status,
+          statusMessage,
+          filledQuantity,
+          averagePrice,
+          completedAt,
+          events: [{ at: new Date().toISOString(), status, message: "Imported from the Upstox order book" }],
+        });
+        wsManager.sendOrderUpdate(userId, order);
+        result.imported++;
+        continue;
+      }
+
+      if (
+        existing.status === status &&
+        existing.brokerStatus === brokerOrder.status &&
+        (existing.filledQuantity ?? 0) === filledQuantity
+      ) {
+        continue;
+      }
+
+      const order = await storage.updateOrder(existing.id, {
+        status,
+        brokerStatus: brokerOrder.status,
+        statusMessage,
+        filledQuantity,
+        averagePrice,
+        ...(completedAt && !existing.completedAt && { completedAt }),
+        events: existing.status !== status || (existing.filledQuantity ?? 0) !== filledQuantity
+          ? appendEvent(existing, status, `Upstox: ${brokerOrder.status}${filledQuantity > 0 ? `, ${filledQuantity}/${brokerOrder.quantity} filled` : ""}`)
+          : existing.events,
+      });
+      wsManager.sendOrderUpdate(userId, order);
+      result.updated++;
+    }
+
+    return result;
+  }
+
+  // Reconciles every user with orders still working at the broker
+  private async reconcileActive(): Promise<void> {
+    if (this.reconciling) {
+      return;
+    }
+    this.reconciling = true;
+    try {
+      const active = await storage.getOrdersByStatus(ACTIVE_STATUSES);
+      const userIds = Array.from(new Set(active.map(order => order.userId).filter((id): id is number => id !== null)));
+      for (const userId of userIds) {
+        try {
+          await this.reconcile(userId);
+        } catch (error: any) {
+          await storage.createLog({
+            level: "warn",
+            module: MODULE_NAME,
+            message: `Order reconciliation for user ${userId} failed: ${error?.message || "Unknown error"}`,
+            data: { userId },
+          });
+        }
+      }
+    } finally {
+      this.reconciling = false;
+    }
+  }
+
+  private async requireEnabled(): Promise<void> {
+    if (!(await this.isEnabled())) {
+      throw new OrderError("The Order Manager module is not running", 503);
+    }
+  }
+
+  private async requireToken(userId: number): Promise<string> {
+    const accessToken = await getValidUpstoxToken(userId, storage);
+    if (!accessToken) {
+      throw new OrderError("Upstox account not connected or token expired", 401);
+    }
+    return accessToken;
+  }
+
+  private requireActive(order: Order, action: string): void {
+    if (!ACTIVE_STATUSES.includes(order.status as OrderStatus) || !order.brokerOrderId) {
+      throw new OrderError(`A ${order.status.replace("_", " ")} order cannot be ${action}`, 409);
+    }
+  }
+}
+
+export const orderManager = new OrderManager();
@@ -0,0 +1,633 @@
+import { storage } from "./storage";
+import { wsManager } from "./websocket";
+import { getMarketDataProvider, getResampledCandles, type Candle } from "./market-data";
+import "./candle-sync"; // registers the "database" market data source
+import { parseTimeframe } from "./resampling";
+import {
+  createStrategyRuntime,
+  StrategyCompileError,
+  StrategyRuntimeError,
+  type StrategyContext,
+  type StrategyRuntime,
+  type StrategySignal,
+} from "./strategy-runtime";
+import {
+  checkProtectiveExits,
+  createProtectiveExitState,
+  normalizeProtectiveExits,
+  updateTrailingStop,
+  type ProtectiveExitState,
+} from "./protective-exits";
+import { addCharges, applySlippage, calculateCharges, resolveCostModel, roundToTick, type ResolvedCostModel, type TradeCharges } from "./cost-model";
+import { fillAgainstCandle, fillAtClose, type Fill } from "./order-fills";
+import { DEFAULT_LOOKBACK_BARS, DEFAULT_WARMUP_BARS } from "./enhanced-backtesting";
+import type { PaperTradingSession } from "@shared/schema";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Live sessions poll a quarter of a candle apart, within these bounds
+const MIN_POLL_INTERVAL_MS = 15 * 1000;
+const MAX_POLL_INTERVAL_MS = 5 * MINUTE_MS;
+// Calendar time of history loaded before a live session's first candle
+const MIN_WARMUP_LOOKBACK_MS = 7 * DAY_MS;
+
+interface PaperOpenTrade {
+  side: "BUY" | "SELL";
+  quantity: number;
+  entryPrice: number;
+  entryTime: string;
+  entryCharges: TradeCharges;
+  exitState: ProtectiveExitState | null;
+  // Filled at the candle's open, so that candle's range can already trigger the exits
+  exitsOnEntryCandle: boolean;
+  reason: string;
+  positionId: number;
+}
+
+// Persisted in paper_trading_sessions.state after every candle
+interface PaperSessionState {
+  openTrade: PaperOpenTrade | null;
+  pendingOrders: StrategySignal[];
+}
+
+interface SessionRunner {
+  session: PaperTradingSession;
+  runtime: StrategyRuntime;
+  costModel: ResolvedCostModel;
+  parameters: Record<string, any>;
+  warmupBars: number;
+  lookbackBars: number;
+  // Candles the strategy has seen, newest last, capped at lookbackBars
+  history: Candle[];
+  // Replay sessions: candles still to be played
+  replay: Candle[];
+  state: PaperSessionState;
+  cash: number;
+  candlesProcessed: number;
+  initialized: boolean;
+  timer?: NodeJS.Timeout;
+  // Poll or replay step in progress; stopping waits for it
+  inFlight?: Promise<void>;
+  // Set when the session is stopped or paused, so a candle still in progress places no new orders
+  stopped: boolean;
+}
+
+function candleDurationMs(timeframe: string): number {
+  const { unit, count } = parseTimeframe(timeframe);
+  switch (unit) {
+    case "minute": return count * MINUTE_MS;
+    case "day": return count * DAY_MS;
+    case "week": return count * 7 * DAY_MS;
+    case "month": return count * 31 * DAY_MS;
+  }
+}
+
+const time = (timestamp: string | Date) => new Date(timestamp).getTime();
+
+/**
+ * Forward-tests strategies on paper. Each session runs its strategy's pinned
+ * code through the same runtime, fills and protective exits as the
+ * backtester, one candle at a time: newly closed candles polled from the
+ * data source for live sessions, or a historical range stepped through on a
+ * timer for replays. Fills are written to `trades` and `positions` with
+ * mode "paper". Sessions run only while their strategy is active.
+ */
+class PaperTradingEngine {
+  // sessionId -> runner for sessions running in this process
+  private runners = new Map<number, SessionRunner>();
+
+  async start(): Promise<void> {
+    const sessions = await storage.getPaperTradingSessionsByStatus("running");
+    for (const session of sessions) {
+      await this.startSession(session.id).catch(error => {
+        console.error(`Failed to resume paper trading session ${session.id}:`, error);
+      });
+    }
+    if (sessions.length > 0) {
+      console.log(`Resumed ${this.runners.size} of ${sessions.length} paper trading sessions`);
+    }
+  }
+
+  stop(): void {
+    for (const runner of Array.from(this.runners.values())) {
+      clearInterval(runner.timer);
+    }
+    this.runners.clear();
+  }
+
+  isRunning(sessionId: number): boolean {
+    return this.runners.has(sessionId);
+  }
+
+  /**
+   * Starts or resumes a session. Sessions of an inactive strategy are parked
+   * as paused and picked up again when the strategy is switched on.
+   */
+  async startSession(sessionId: number): Promise<PaperTradingSession> {
+    const session = await storage.getPaperTradingSession(sessionId);
+    if (!session) {
+      throw new Error("Paper trading session not found");
+    }
+    if (this.runners.has(session.id) || session.status === "stopped" || session.status === "completed") {
+      return session;
+    }
+
+    const strategy = await storage.getStrategy(session.strategyId);
+    if (!strategy?.isActive) {
+      return await this.setStatus(session, "paused");
+    }
+
+    let runner: SessionRunner;
+    try {
+      runner = await this.createRunner(session);
+    } catch (error: any) {
+      return await this.fail(session, error);
+    }
+
+    this.runners.set(session.id, runner);
+    runner.session = await this.setStatus(session, "running");
+
+    if (session.feed === "replay") {
+      runner.timer = setInterval(() => this.step(runner), session.replayIntervalMs || 1000);
+    } else {
+      const interval = Math.min(MAX_POLL_INTERVAL_MS, Math.max(MIN_POLL_INTERVAL_MS, candleDurationMs(session.timeframe) / 4));
+      runner.timer = setInterval(() => this.poll(runner), interval);
+      this.poll(runner);
+    }
+    return runner.session;
+  }
+
+  /**
+   * Stops a session for good. Any open position is closed at the last
+   * candle's close, as a backtest does at its end.
+   */
+  async stopSession(sessionId: number): Promise<PaperTradingSession> {
+    const runner = this.runners.get(sessionId);
+    if (runner) {
+      await this.halt(runner);
+      await this.closeAtLastCandle(runner, "Session Stopped");
+      await this.persist(runner);
+    }
+    const session = await storage.getPaperTradingSession(sessionId);
+    if (!session) {
+      throw new Error("Paper trading session not found");
+    }
+    return await this.setStatus(session, "stopped", { stoppedAt: new Date() });
+  }
+
+  // Called when a strategy is switched on or off
+  async syncStrategy(strategyId: number, isActive: boolean): Promise<void> {
+    const sessions = await storage.getStrategyPaperTradingSessions(strategyId);
+    for (const session of sessions) {
+      if (isActive && session.status === "paused") {
+        await this.startSession(session.id).catch(error => {
+          console.error(`Failed to start paper trading session ${session.id}:`, error);
+        });
+      } else if (!isActive && session.status === "running") {
+        const runner = this.runners.get(session.id);
+        if (runner) {
+          await this.halt(runner);
+        }
+        // Open positions stay open and are managed again once the strategy is back on
+        await this.setStatus(session, "paused");
+      }
+    }
+  }
+
+  // Open trade, pending orders and cash carry over a restart; the strategy's own `state` starts empty again
+  private async createRunner(session: PaperTradingSession): Promise<SessionRunner> {
+    const strategy = await storage.getStrategy(session.strategyId);
+    if (!strategy) {
+      throw new Error("Strategy not found");
+    }
+    const pinnedVersion = session.strategyVersionId
+      ? await storage.getStrategyVersionById(session.strategyVersionId)
+      : undefined;
+    const code = pinnedVersion?.code ?? strategy.code;
+    const parameters: Record<string, any> = {
+      ...((pinnedVersion ? pinnedVersion.parameters : strategy.parameters) as Record<string, any> || {}),
+      ...(session.parameters as Record<string, any> || {}),
+    };
+
+    const instrument = session.instrumentKey ? await storage.getInstrument(session.instrumentKey) : undefined;
+    const costModel = resolveCostModel(session.costModel, instrument?.tickSize ? Number(instrument.tickSize) : null);
+    const warmupBars = Number.isInteger(parameters.warmupBars) ? parameters.warmupBars : DEFAULT_WARMUP_BARS;
+    const lookbackBars = Number.isInteger(parameters.lookbackBars) ? parameters.lookbackBars : DEFAULT_LOOKBACK_BARS;
+
+    const runner: SessionRunner = {
+      session,
+      runtime: createStrategyRuntime(code, { symbol: session.symbol, parameters }),
+      costModel,
+      parameters,
+      warmupBars,
+      lookbackBars,
+      history: [],
+      replay: [],
+      state: (session.state as PaperSessionState | null) || { openTrade: null, pendingOrders: [] },
+      cash: Number(session.cash ?? session.initialCapital),
+      candlesProcessed: session.candlesProcessed || 0,
+      initialized: false,
+      stopped: false,
+    };
+
+    const lastCandleAt = session.lastCandleAt?.getTime() ?? null;
+    if (session.feed === "replay") {
+      const candles = await this.fetchCandles(session, session.replayStart!, session.replayEnd!);
+      // Candles already played on a previous run become history again
+      runner.history = candles.filter(candle => lastCandleAt !== null && time(candle.timestamp) <= lastCandleAt).slice(-lookbackBars);
+      runner.replay = candles.filter(candle => lastCandleAt === null || time(candle.timestamp) > lastCandleAt);
+    } else {
+      const now = Date.now();
+      const lookback = Math.max(MIN_WARMUP_LOOKBACK_MS, (warmupBars + 1) * candleDurationMs(session.timeframe) * 4);
+      const candles = (await this.fetchCandles(session, new Date(now - lookback), new Date(now)))
+        .filter(candle => this.isClosed(session, candle, now));
+      if (lastCandleAt === null) {
+        // A new session trades from the next candle; everything before it is history
+        runner.history = candles.slice(-lookbackBars);
+        runner.session = await storage.updatePaperTradingSession(session.id, {
+          lastCandleAt: candles.length > 0 ? new Date(candles[candles.length - 1].timestamp) : new Date(now),
+        });
+      } else {
+        // Candles closed while the session was down are played on the first poll
+        runner.history = candles.filter(candle => time(candle.timestamp) <= lastCandleAt).slice(-lookbackBars);
+      }
+    }
+    return runner;
+  }
+
+  private async fetchCandles(session: PaperTradingSession, startDate: Date, endDate: Date): Promise<Candle[]> {
+    const { candles } = await getResampledCandles(getMarketDataProvider(session.dataSource), {
+      symbol: session.symbol,
+      instrumentKey: session.instrumentKey,
+      timeframe: session.timeframe,
+      startDate,
+      endDate,
+      userId: session.userId,
+    });
+    return candles;
+  }
+
+  // Candle timestamps mark the start of the bar; only bars that have ended are traded
+  private isClosed(session: PaperTradingSession, candle: Candle, now: number): boolean {
+    return time(candle.timestamp) + candleDurationMs(session.timeframe) <= now;
+  }
+
+  private poll(runner: SessionRunner): Promise<void> {
+    return this.exclusive(runner, async () => {
+      const now = Date.now();
+      const since = runner.session.lastCandleAt?.getTime() ?? now;
+      const candles = (await this.fetchCandles(runner.session, new Date(since), new Date(now)))
+        .filter(candle => time(candle.timestamp) > since && this.isClosed(runner.session, candle, now));
+      for (const candle of candles) {
+        if (runner.stopped) {
+          break;
+        }
+        await this.processCandle(runner, candle);
+      }
+    });
+  }
+
+  private step(runner: SessionRunner): Promise<void> {
+    return this.exclusive(runner, async () => {
+      const candle = runner.replay.shift();
+      if (candle) {
+        await this.processCandle(runner, candle);
+      }
+      if (runner.replay.length === 0 && !runner.stopped) {
+        this.detach(runner);
+        await this.closeAtLastCandle(runner, "Replay Finished");
+        await this.persist(runner);
+        runner.session = await this.setStatus(runner.session, "completed", { stoppedAt: new Date() });
+      }
+    });
+  }
+
+  // Timer ticks that arrive while a poll or step is still running are skipped
+  private exclusive(runner: SessionRunner, work: () => Promise<void>): Promise<void> {
+    if (runner.inFlight || runner.stopped) {
+      return Promise.resolve();
+    }
+    runner.inFlight = work()
+      .catch(error => this.handleError(runner, error))
+      .finally(() => {
+        runner.inFlight = undefined;
+      });
+    return runner.inFlight;
+  }
+
+  /**
+   * One bar of the backtester's loop for a single symbol: fill the orders
+   * placed on the previous candle, check protective exits, then run the
+   * strategy and queue or fill what it signals.
+   */
+  private async processCandle(runner: SessionRunner, candle: Candle): Promise<void> {
+    if (runner.stopped) {
+      return;
+    }
+    const { session, costModel, state } = runner;
+    runner.history.push(candle);
+    if (runner.history.length > runner.lookbackBars) {
+      runner.history.shift();
+    }
+
+    // Orders placed on the previous candle fill against this one or expire
+    const pending = state.pendingOrders;
+    state.pendingOrders = [];
+    for (const order of pending) {
+      const fill = fillAgainstCandle(order, candle, costModel);
+      if (fill) {
+        await this.executeSignal(runner, order, fill);
+      }
+    }
+
+    const openTrade = state.openTrade;
+    if (openTrade?.exitState && (openTrade.exitsOnEntryCandle || time(candle.timestamp) > time(openTrade.entryTime))) {
+      const hit = checkProtectiveExits(openTrade.exitState, candle);
+      if (hit) {
+        const exitSide = openTrade.side === "BUY" ? "SELL" : "BUY";
+        const level = roundToTick(hit.price, costModel.tickSize);
+        await this.closeOpenTrade(runner, {
+          price: hit.orderType === "STOP" ? applySlippage(costModel, exitSide, level) : level,
+          referencePrice: level,
+          timestamp: candle.timestamp,
+        }, `${hit.trigger} @ ${level.toFixed(2)}`, "STOP");
+      } else {
+        updateTrailingStop(openTrade.exitState, candle);
+      }
+    }
+
+    if (runner.candlesProcessed >= runner.warmupBars || runner.history.length > runner.warmupBars) {
+      const context = this.buildContext(runner, candle);
+      if (!runner.initialized) {
+        runner.runtime.init(context);
+        runner.initialized = true;
+      }
+      const signals = [...runner.runtime.onCandle(context), ...runner.runtime.onBar(context)];
+
+      for (const signal of signals) {
+        if (signal.symbol !== session.symbol) {
+          console.warn(`Ignoring ${signal.action} signal for ${signal.symbol}; paper session ${session.id} only trades ${session.symbol}`);
+          continue;
+        }
+        const fill = costModel.fillMode === "close" ? fillAtClose(signal, candle, costModel) : null;
+        if (fill) {
+          await this.executeSignal(runner, signal, fill);
+        } else {
+          state.pendingOrders.push(signal);
+        }
+      }
+    }
+
+    runner.candlesProcessed++;
+    await this.markPosition(runner, candle);
+    runner.session = await this.persist(runner, new Date(candle.timestamp));
+    wsManager.sendStrategyUpdate(session.userId!, { paperSession: this.summarize(runner) });
+  }
+
+  private buildContext(runner: SessionRunner, candle: Candle): StrategyContext {
+    const { symbol } = runner.session;
+    const position = this.position(runner);
+    const committed = runner.state.openTrade ? runner.state.openTrade.entryPrice * runner.state.openTrade.quantity : 0;
+    return {
+      symbol,
+      candle,
+      index: runner.candlesProcessed,
+      history: runner.history,
+      position,
+      cash: runner.cash - committed,
+      symbols: [symbol],
+      data: { [symbol]: runner.history },
+      positions: { [symbol]: position },
+      candles: { [symbol]: candle },
+    };
+  }
+
+  private position(runner: SessionRunner): number {
+    const openTrade = runner.state.openTrade;
+    return openTrade ? (openTrade.side === "BUY" ? openTrade.quantity : -openTrade.quantity) : 0;
+  }
+
+  private async executeSignal(runner: SessionRunner, signal: StrategySignal, fill: Fill): Promise<void> {
+    // Stopped while this candle was in progress: the stop closes or keeps the position, nothing new is traded
+    if (runner.stopped) {
+      return;
+    }
+    const { session, costModel, state } = runner;
+    const side = signal.action;
+    const current = this.position(runner);
+
+    // A signal in the direction of the open position is a no-op
+    if ((side === "BUY" && current > 0) || (side === "SELL" && current < 0)) {
+      return;
+    }
+    // Opposite signal closes the open position first
+    if (state.openTrade) {
+      await this.closeOpenTrade(runner, fill, signal.reason || (side === "BUY" ? "Short Exit" : "Long Exit"), signal.orderType);
+    }
+
+    // Same default as the backtester: 10% of capital per trade
+    const quantity = signal.quantity && signal.quantity > 0
+      ? Math.floor(signal.quantity)
+      : Math.floor(Number(session.initialCapital) / (fill.price || 100) / 10);
+    if (quantity <= 0) {
+      return;
+    }
+
+    const exits = normalizeProtectiveExits(signal.exits, runner.parameters.exits);
+    // ATR-based exits only see candles that had closed before the fill
+    const knownHistory = fill.atOpen ? runner.history.slice(0, -1) : runner.history;
+    const entryCharges = calculateCharges(costModel, side, fill.price, quantity);
+
+    const trade = await storage.createTrade({
+      userId: session.userId,
+      strategyId: session.strategyId,
+      symbol: session.symbol,
+      exchange: session.exchange,
+      side,
+      quantity,
+      price: fill.price.toString(),
+      orderType: signal.orderType,
+      status: "filled",
+      mode: "paper",
+      paperSessionId: session.id,
+      executedAt: new Date(fill.timestamp),
+    });
+    const position = await storage.createPosition({
+      userId: session.userId,
+      symbol: session.symbol,
+      exchange: session.exchange,
+      quantity: side === "BUY" ? quantity : -quantity,
+      avgPrice: fill.price.toString(),
+      currentPrice: fill.price.toString(),
+      pnl: (-entryCharges.total).toString(),
+      isOpen: true,
+      mode: "paper",
+      paperSessionId: session.id,
+    });
+
+    state.openTrade = {
+      side,
+      quantity,
+      entryPrice: fill.price,
+      entryTime: fill.timestamp,
+      entryCharges,
+      exitState: exits ? createProtectiveExitState(exits, side, fill.price, knownHistory) : null,
+      exitsOnEntryCandle: !!fill.atOpen,
+      reason: signal.reason || (side === "BUY" ? "Long Entry" : "Short Entry"),
+      positionId: position.id,
+    };
+    wsManager.sendTradeUpdate(session.userId!, trade);
+  }
+
+  private async closeOpenTrade(runner: SessionRunner, fill: Fill, reason: string, orderType: string): Promise<void> {
+    const { session, costModel, state } = runner;
+    const openTrade = state.openTrade;
+    if (!openTrade) {
+      return;
+    }
+
+    const exitSide = openTrade.side === "BUY" ? "SELL" : "BUY";
+    const charges = addCharges(openTrade.entryCharges, calculateCharges(costModel, exitSide, fill.price, openTrade.quantity));
+    const grossPnl = openTrade.side === "BUY"
+      ? (fill.price - openTrade.entryPrice) * openTrade.quantity
+      : (openTrade.entryPrice - fill.price) * openTrade.quantity;
+    const pnl = grossPnl - charges.total;
+
+    const trade = await storage.createTrade({
+      userId: session.userId,
+      strategyId: session.strategyId,
+      symbol: session.symbol,
+      exchange: session.exchange,
+      side: exitSide,
+      quantity: openTrade.quantity,
+      price: fill.price.toString(),
+      orderType,
+      status: "filled",
+      pnl: pnl.toFixed(4),
+      mode: "paper",
+      paperSessionId: session.id,
+      executedAt: new Date(fill.timestamp),
+    });
+    await storage.updatePosition(openTrade.positionId, {
+      currentPrice: fill.price.toString(),
+      pnl: pnl.toFixed(4),
+      isOpen: false,
+    });
+
+    console.log(`Paper session ${session.id}: ${openTrade.reason} -> ${reason}, P&L ${pnl.toFixed(2)}`);
+    runner.cash += pnl;
+    state.openTrade = null;
+    wsManager.sendTradeUpdate(session.userId!, trade);
+  }
+
+  private async closeAtLastCandle(runner: SessionRunner, reason: string): Promise<void> {
+    const lastCandle = runner.history[runner.history.length - 1];
+    const openTrade = runner.state.openTrade;
+    if (!openTrade || !lastCandle) {
+      return;
+    }
+    const exitSide = openTrade.side === "BUY" ? "SELL" : "BUY";
+    await this.closeOpenTrade(runner, {
+      price: applySlippage(runner.costModel, exitSide, lastCandle.close),
+      referencePrice: lastCandle.close,
+      timestamp: lastCandle.timestamp,
+    }, reason, "MARKET");
+    runner.state.pendingOrders = [];
+  }
+
+  // Marks the open position to the candle's close, net of its entry charges
+  private async markPosition(runner: SessionRunner, candle: Candle): Promise<void> {
+    const openTrade = runner.state.openTrade;
+    if (!openTrade) {
+      return;
+    }
+    const unrealized = (openTrade.side === "BUY" ? candle.close - openTrade.entryPrice : openTrade.entryPrice - candle.close) * openTrade.quantity;
+    await storage.updatePosition(openTrade.positionId, {
+      currentPrice: candle.close.toString(),
+      pnl: (unrealized - openTrade.entryCharges.total).toFixed(4),
+    });
+  }
+
+  private async persist(runner: SessionRunner, lastCandleAt?: Date): Promise<PaperTradingSession> {
+    return await storage.updatePaperTradingSession(runner.session.id, {
+      cash: runner.cash.toFixed(2),
+      state: runner.state,
+      candlesProcessed: runner.candlesProcessed,
+      ...(lastCandleAt && { lastCandleAt }),
+    });
+  }
+
+  private summarize(runner: SessionRunner) {
+    const lastCandle = runner.history[runner.history.length - 1];
+    const openTrade = runner.state.openTrade;
+    const unrealized = openTrade && lastCandle
+      ? (openTrade.side === "BUY" ? lastCandle.close - openTrade.entryPrice : openTrade.entryPrice - lastCandle.close) * openTrade.quantity
+        - openTrade.entryCharges.total
+      : 0;
+    return {
+      id: runner.session.id,
+      strategyId: runner.session.strategyId,
+      status: runner.session.status,
+      lastCandleAt: lastCandle?.timestamp ?? null,
+      lastPrice: lastCandle?.close ?? null,
+      position: this.position(runner),
+      cash: Number(runner.cash.toFixed(2)),
+      equity: Number((runner.cash + unrealized).toFixed(2)),
+      remainingCandles: runner.session.feed === "replay" ? runner.replay.length : null,
+    };
+  }
+
+  private detach(runner: SessionRunner): void {
+    clearInterval(runner.timer);
+    runner.timer = undefined;
+    runner.stopped = true;
+    this.runners.delete(runner.session.id);
+  }
+
+  // Detaches the runner, then waits for a candle it is still processing so its writes land before the caller's
+  private async halt(runner: SessionRunner): Promise<void> {
+    this.detach(runner);
+    await runner.inFlight;
+  }
+
+  // Strategy errors end the session; data errors are logged and retried on the next poll
+  private async handleError(runner: SessionRunner, error: any): Promise<void> {
+    const session = runner.session;
+    if (error instanceof StrategyCompileError || error instanceof StrategyRuntimeError || session.feed === "replay") {
+      this.detach(runner);
+      runner.session = await this.fail(session, error);
+      return;
+    }
+    console.error(`Paper trading session ${session.id} poll failed:`, error);
+    await storage.createLog({
+      level: "warn",
+      module: "Paper Trading",
+      message: `Session ${session.id} (${session.symbol}) could not fetch candles: ${error?.message || "Unknown error"}`,
+      data: { sessionId: session.id, symbol: session.symbol, timeframe: session.timeframe },
+    });
+  }
+
+  private async fail(session: PaperTradingSession, error: any): Promise<PaperTradingSession> {
+    const message = error?.message || "Unknown error";
+    console.error(`Paper trading session ${session.id} failed:`, error);
+    await storage.createLog({
+      level: "error",
+      module: "Paper Trading",
+      message: `Session ${session.id} (${session.symbol}) stopped: ${message}`,
+      data: { sessionId: session.id, strategyId: session.strategyId },
+    });
+    return await this.setStatus(session, "error", { error: message, stoppedAt: new Date() });
+  }
+
+  private async setStatus(
+    session: PaperTradingSession,
+    status: string,
+    data: Partial<PaperTradingSession> = {}
+  ): Promise<PaperTradingSession> {
+    const updated = await storage.updatePaperTradingSession(session.id, { status, ...(status === "running" && { error: null }), ...data });
+    wsManager.sendStrategyUpdate(updated.userId!, { paperSession: { id: updated.id, strategyId: updated.strategyId, status } });
+    return updated;
+  }
+}
+
+export const paperTradingEngine = new PaperTradingEngine();
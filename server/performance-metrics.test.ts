@@ -0,0 +1,127 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { barsPerYear, calculatePerformanceMetrics } from "./performance-metrics";
+import type { Candle } from "./market-data";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Daily equity points at the 15:30 IST close, with drawdown from the running high
+function equityCurve(equities: number[], exposure = 1) {
+  let peak = 0;
+  return equities.map((equity, index) => {
+    peak = Math.max(peak, equity);
+    return {
+      timestamp: new Date(Date.UTC(2025, 0, 1, 10) + index * DAY_MS).toISOString(),
+      equity,
+      exposure,
+      drawdown: (peak - equity) / peak,
+    };
+  });
+}
+
+function assertClose(actual: number, expected: number) {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+}
+
+test("bars per year follow the NSE session and trading days", () => {
+  assert.equal(barsPerYear("1minute"), 375 * 252);
+  assert.equal(barsPerYear("75minute"), 5 * 252);
+  assert.equal(barsPerYear("1day"), 252);
+  assert.equal(barsPerYear("1week"), 52);
+  assert.equal(barsPerYear("1month"), 12);
+});
+
+test("return, drawdown and its duration come from the equity curve", () => {
+  const metrics = calculatePerformanceMetrics(equityCurve([100000, 110000, 99000, 104500, 121000]), [], 100000, "1day");
+
+  assertClose(metrics.totalReturn, 0.21);
+  assertClose(metrics.maxDrawdown, 0.1);
+  assert.deepEqual(metrics.maxDrawdownDuration, { bars: 3, days: 3 });
+  assert.equal(metrics.exposureTime, 1);
+  assert.equal(metrics.benchmark, null);
+});
+
+test("an unrecovered drawdown counts until the last bar", () => {
+  const metrics = calculatePerformanceMetrics(equityCurve([100000, 120000, 90000, 95000]), [], 100000, "1day");
+
+  assertClose(metrics.maxDrawdown, 0.25);
+  assert.deepEqual(metrics.maxDrawdownDuration, { bars: 2, days: 2 });
+});
+
+test("a flat curve has no volatility or risk-adjusted ratios", () => {
+  const metrics = calculatePerformanceMetrics(equityCurve([100000, 100000, 100000], 0), [], 100000, "1day");
+
+  assert.equal(metrics.totalReturn, 0);
+  assert.equal(metrics.volatility, 0);
+  assert.equal(metrics.sharpeRatio, 0);
+  assert.equal(metrics.sortinoRatio, 0);
+  assert.equal(metrics.calmarRatio, 0);
+  assert.equal(metrics.exposureTime, 0);
+});
+
+test("sharpe ratio annualises the mean bar return over its sample deviation", () => {
+  const metrics = calculatePerformanceMetrics(equityCurve([101000, 100990, 102000]), [], 100000, "1day");
+  const returns = [0.01, 100990 / 101000 - 1, 102000 / 100990 - 1];
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const stdDev = Math.sqrt(returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (returns.length - 1));
+
+  assertClose(metrics.sharpeRatio, (mean / stdDev) * Math.sqrt(252));
+  assertClose(metrics.volatility, stdDev * Math.sqrt(252));
+});
+
+test("trade statistics use net P&L per closed trade", () => {
+  const trades = [{ pnl: 500 }, { pnl: 300 }, { pnl: -200 }, { pnl: 400 }, { pnl: -100 }, { pnl: -300 }];
+  const metrics = calculatePerformanceMetrics(equityCurve([100000, 100600]), trades, 100000, "1day");
+
+  assert.equal(metrics.totalTrades, 6);
+  assert.equal(metrics.winRate, 0.5);
+  assert.equal(metrics.averageWin, 400);
+  assert.equal(metrics.averageLoss, -200);
+  assert.equal(metrics.avgTrade, 100);
+  assert.equal(metrics.profitFactor, 2);
+  assert.equal(metrics.expectancy, 100);
+  assert.equal(metrics.maxConsecutiveWins, 2);
+  assert.equal(metrics.maxConsecutiveLosses, 2);
+});
+
+test("profit factor is null without losing trades", () => {
+  const metrics = calculatePerformanceMetrics(equityCurve([100000, 100500]), [{ pnl: 500 }], 100000, "1day");
+
+  assert.equal(metrics.profitFactor, null);
+});
+
+test("monthly returns chain from the previous month's closing equity", () => {
+  const curve = [
+    { timestamp: "2025-01-31T10:00:00.000Z", equity: 110000, exposure: 1, drawdown: 0 },
+    { timestamp: "2025-02-28T10:00:00.000Z", equity: 99000, exposure: 1, drawdown: 0.1 },
+  ];
+  const metrics = calculatePerformanceMetrics(curve, [], 100000, "1day");
+
+  assert.deepEqual(metrics.monthlyReturns.map(entry => entry.month), ["2025-01", "2025-02"]);
+  assertClose(metrics.monthlyReturns[0].return, 0.1);
+  assertClose(metrics.monthlyReturns[1].return, -0.1);
+});
+
+test("a strategy that doubles the benchmark's daily moves has a beta of 2", () => {
+  const benchmarkCloses = [20000, 20200, 19998, 20398, 20194];
+  const benchmark: Candle[] = benchmarkCloses.map((value, index) => ({
+    timestamp: new Date(Date.UTC(2025, 0, 1, 10) + index * DAY_MS).toISOString(),
+    open: value,
+    high: value,
+    low: value,
+    close: value,
+    volume: 0,
+  }));
+
+  const equities = [100000];
+  for (let index = 1; index < benchmarkCloses.length; index++) {
+    equities.push(equities[index - 1] * (1 + 2 * (benchmarkCloses[index] / benchmarkCloses[index - 1] - 1)));
+  }
+  const metrics = calculatePerformanceMetrics(equityCurve(equities), [], 100000, "1day", benchmark);
+
+  assert.equal(metrics.benchmark?.symbol, "NIFTY");
+  assertClose(metrics.benchmark!.beta, 2);
+  assertClose(metrics.benchmark!.alpha, 0);
+  assertClose(metrics.benchmark!.correlation, 1);
+  assertClose(metrics.benchmark!.totalReturn, 20194 / 20000 - 1);
+});
@@ -0,0 +1,242 @@
+import { parseTimeframe } from "./resampling";
+import type { Candle } from "./market-data";
+
+// Index the backtests are measured against
+export const BENCHMARK_SYMBOL = "NIFTY";
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TRADING_DAYS = 252;
+
+interface EquitySample {
+  timestamp: string;
+  equity: number;
+  exposure: number;
+  drawdown: number;
+}
+
+interface TradeSample {
+  pnl?: number;
+}
+
+export interface BenchmarkMetrics {
+  symbol: string;
+  totalReturn: number;
+  alpha: number;
+  beta: number;
+  correlation: number;
+}
+
+export interface PerformanceMetrics {
+  totalReturn: number;
+  cagr: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  calmarRatio: number;
+  maxDrawdown: number;
+  maxDrawdownDuration: { bars: number; days: number };
+  volatility: number;
+  winRate: number;
+  totalTrades: number;
+  avgTrade: number;
+  averageWin: number;
+  averageLoss: number;
+  profitFactor: number | null;
+  expectancy: number;
+  maxConsecutiveWins: number;
+  maxConsecutiveLosses: number;
+  exposureTime: number;
+  monthlyReturns: Array<{ month: string; return: number }>;
+  benchmark: BenchmarkMetrics | null;
+}
+
+// NSE trades 375 minutes a day on roughly 252 days a year
+export function barsPerYear(timeframe: string): number {
+  const { unit, count } = parseTimeframe(timeframe);
+  switch (unit) {
+    case "minute": return (375 / count) * TRADING_DAYS;
+    case "day": return TRADING_DAYS / count;
+    case "week": return 52 / count;
+    case "month": return 12 / count;
+  }
+}
+
+function istDate(timestamp: string): string {
+  return new Date(new Date(timestamp).getTime() + IST_OFFSET_MS).toISOString().split("T")[0];
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function sampleStdDev(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - average, 2), 0) / (values.length - 1));
+}
+
+function periodReturns(values: number[], start: number): number[] {
+  const returns: number[] = [];
+  let previous = start;
+  for (const value of values) {
+    returns.push(previous > 0 ? value / previous - 1 : 0);
+    previous = value;
+  }
+  return returns;
+}
+
+// Last value of each IST calendar day (or month, with `keyLength` 7)
+function closesBy<T>(items: T[], timestamp: (item: T) => string, value: (item: T) => number, keyLength = 10): Map<string, number> {
+  const closes = new Map<string, number>();
+  for (const item of items) {
+    closes.set(istDate(timestamp(item)).slice(0, keyLength), value(item));
+  }
+  return closes;
+}
+
+function longestStreak(trades: TradeSample[], predicate: (pnl: number) => boolean): number {
+  let longest = 0;
+  let current = 0;
+  for (const trade of trades) {
+    current = predicate(trade.pnl || 0) ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
+
+// Longest stretch spent below a previous equity high, including one still open at the end
+function drawdownDuration(curve: EquitySample[]): { bars: number; days: number } {
+  let longest = { bars: 0, days: 0 };
+  let start = -1;
+
+  const close = (end: number) => {
+    const bars = end - start;
+    const days = Math.round((new Date(curve[end].timestamp).getTime() - new Date(curve[start].timestamp).getTime()) / DAY_MS);
+    if (bars > longest.bars) {
+      longest = { bars, days };
+    }
+  };
+
+  curve.forEach((point, index) => {
+    if (point.drawdown > 0 && start === -1) {
+      start = Math.max(0, index - 1);
+    } else if (point.drawdown === 0 && start !== -1) {
+      close(index);
+      start = -1;
+    }
+  });
+  if (start !== -1) {
+    close(curve.length - 1);
+  }
+  return longest;
+}
+
+/**
+ * Alpha and beta from daily returns on the days both the strategy and the
+ * benchmark have a close. Alpha is annualised.
+ */
+function benchmarkMetrics(curve: EquitySample[], initialCapital: number, benchmark: Candle[]): BenchmarkMetrics | null {
+  if (benchmark.length < 2) {
+    return null;
+  }
+
+  const equityCloses = closesBy(curve, point => point.timestamp, point => point.equity);
+  const benchmarkCloses = closesBy(benchmark, candle => candle.timestamp, candle => candle.close);
+  const days = Array.from(equityCloses.keys()).filter(day => benchmarkCloses.has(day));
+  if (days.length < 3) {
+    return null;
+  }
+
+  const strategyReturns = periodReturns(days.map(day => equityCloses.get(day)!), initialCapital).slice(1);
+  const benchmarkReturns = periodReturns(days.map(day => benchmarkCloses.get(day)!), benchmarkCloses.get(days[0])!).slice(1);
+
+  const strategyMean = mean(strategyReturns);
+  const benchmarkMean = mean(benchmarkReturns);
+  let covariance = 0;
+  let benchmarkVariance = 0;
+  let strategyVariance = 0;
+  strategyReturns.forEach((value, index) => {
+    const benchmarkDelta = benchmarkReturns[index] - benchmarkMean;
+    covariance += (value - strategyMean) * benchmarkDelta;
+    benchmarkVariance += benchmarkDelta * benchmarkDelta;
+    strategyVariance += Math.pow(value - strategyMean, 2);
+  });
+
+  const beta = benchmarkVariance > 0 ? covariance / benchmarkVariance : 0;
+  const first = benchmark[0].close;
+  return {
+    symbol: BENCHMARK_SYMBOL,
+    totalReturn: first > 0 ? benchmark[benchmark.length - 1].close / first - 1 : 0,
+    alpha: (strategyMean - beta * benchmarkMean) * TRADING_DAYS,
+    beta,
+    correlation: benchmarkVariance > 0 && strategyVariance > 0 ? covariance / Math.sqrt(benchmarkVariance * strategyVariance) : 0,
+  };
+}
+
+/**
+ * Computes the backtest metrics suite. Return, risk and drawdown figures come
+ * from the per-bar mark-to-market equity curve and are annualised using the
+ * backtest timeframe; trade statistics use net P&L per closed trade.
+ * Ratios are fractions (0.12 = 12%).
+ */
+export function calculatePerformanceMetrics(
+  curve: EquitySample[],
+  trades: TradeSample[],
+  initialCapital: number,
+  timeframe: string,
+  benchmark: Candle[] = []
+): PerformanceMetrics {
+  const periods = barsPerYear(timeframe);
+  const finalEquity = curve.length > 0 ? curve[curve.length - 1].equity : initialCapital;
+  const totalReturn = (finalEquity - initialCapital) / initialCapital;
+  const maxDrawdown = curve.reduce((max, point) => Math.max(max, point.drawdown), 0);
+
+  const returns = periodReturns(curve.map(point => point.equity), initialCapital);
+  const stdDev = sampleStdDev(returns);
+  const averageReturn = mean(returns);
+  const downsideDeviation = Math.sqrt(mean(returns.map(value => Math.pow(Math.min(value, 0), 2))));
+
+  const years = curve.length > 1
+    ? (new Date(curve[curve.length - 1].timestamp).getTime() - new Date(curve[0].timestamp).getTime()) / (365.25 * DAY_MS)
+    : 0;
+  const cagr = years > 0 && finalEquity > 0 ? Math.pow(finalEquity / initialCapital, 1 / years) - 1 : totalReturn;
+
+  const pnls = trades.map(trade => trade.pnl || 0);
+  const wins = pnls.filter(pnl => pnl > 0);
+  const losses = pnls.filter(pnl => pnl < 0);
+  const grossProfit = wins.reduce((sum, pnl) => sum + pnl, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, pnl) => sum + pnl, 0));
+  const winRate = pnls.length > 0 ? wins.length / pnls.length : 0;
+  const averageWin = mean(wins);
+  const averageLoss = losses.length > 0 ? -grossLoss / losses.length : 0;
+
+  const monthCloses = closesBy(curve, point => point.timestamp, point => point.equity, 7);
+  const months = Array.from(monthCloses.keys());
+  const monthReturns = periodReturns(months.map(month => monthCloses.get(month)!), initialCapital);
+
+  return {
+    totalReturn,
+    cagr,
+    sharpeRatio: stdDev > 0 ? (averageReturn / stdDev) * Math.sqrt(periods) : 0,
+    sortinoRatio: downsideDeviation > 0 ? (averageReturn / downsideDeviation) * Math.sqrt(periods) : 0,
+    calmarRatio: maxDrawdown > 0 ? cagr / maxDrawdown : 0,
+    maxDrawdown,
+    maxDrawdownDuration: drawdownDuration(curve),
+    volatility: stdDev * Math.sqrt(periods),
+    winRate,
+    totalTrades: trades.length,
+    avgTrade: mean(pnls),
+    averageWin,
+    averageLoss,
+    // Undefined when there are no losing trades; JSON has no Infinity
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    expectancy: winRate * averageWin + (1 - winRate) * averageLoss,
+    maxConsecutiveWins: longestStreak(trades, pnl => pnl > 0),
+    maxConsecutiveLosses: longestStreak(trades, pnl => pnl < 0),
+    exposureTime: curve.length > 0 ? curve.filter(point => point.exposure > 0).length / curve.length : 0,
+    monthlyReturns: months.map((month, index) => ({ month, return: monthReturns[index] })),
+    benchmark: benchmarkMetrics(curve, initialCapital, benchmark),
+  };
+}
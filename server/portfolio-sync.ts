@@ -0,0 +1,373 @@
+import { storage } from "./storage";
+import { wsManager } from "./websocket";
+import { upstoxService, getValidUpstoxToken } from "./upstox";
+import type { PortfolioDiscrepancy, Position } from "@shared/schema";
+
+const MODULE_NAME = "Portfolio Sync";
+const DEFAULT_INTERVAL_SECONDS = 60;
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface PortfolioSyncConfig {
+  intervalSeconds?: number;
+}
+
+export interface PortfolioSyncResult {
+  syncedAt: string;
+  positions: { created: number; updated: number; closed: number };
+  trades: { imported: number };
+  discrepancies: PortfolioDiscrepancy[];
+}
+
+// One row of the Upstox positions or holdings book, normalized
+interface BrokerHolding {
+  book: "positions" | "holdings";
+  instrumentKey: string;
+  symbol: string;
+  exchange: string;
+  product: string;
+  quantity: number;
+  avgPrice: number;
+  lastPrice: number;
+  pnl: number;
+  dayPnl: number;
+  dayChange: number | null;
+  realized: number;
+}
+
+const num = (value: unknown) => Number(value) || 0;
+
+function startOfTradingDay(now: Date = new Date()): Date {
+  const ist = now.getTime() + IST_OFFSET_MS;
+  return new Date(ist - (ist % DAY_MS) - IST_OFFSET_MS);
+}
+
+function fromPosition(row: any): BrokerHolding {
+  return {
+    book: "positions",
+    instrumentKey: row.instrument_token,
+    symbol: row.trading_symbol || row.tradingsymbol || row.instrument_token,
+    exchange: row.exchange || "NSE",
+    product: row.product || "I",
+    quantity: num(row.quantity),
+    avgPrice: num(row.average_price),
+    lastPrice: num(row.last_price),
+    pnl: num(row.pnl),
+    dayPnl: num(row.pnl),
+    dayChange: null,
+    realized: num(row.realised),
+  };
+}
+
+function fromHolding(row: any): BrokerHolding {
+  const quantity = num(row.quantity);
+  const lastPrice = num(row.last_price);
+  return {
+    book: "holdings",
+    instrumentKey: row.instrument_token,
+    symbol: row.trading_symbol || row.tradingsymbol || row.instrument_token,
+    exchange: row.exchange || "NSE",
+    product: row.product || "D",
+    quantity,
+    avgPrice: num(row.average_price),
+    lastPrice,
+    pnl: num(row.pnl),
+    dayPnl: row.close_price ? (lastPrice - num(row.close_price)) * quantity : 0,
+    dayChange: row.day_change_percentage != null ? num(row.day_change_percentage) : null,
+    realized: 0,
+  };
+}
+
+// Upstox trade book times are IST wall-clock times without an offset
+function parseBrokerTime(value: string | undefined): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(value);
+  const time = new Date(hasZone ? value : `${value.replace(" ", "T")}+05:30`);
+  return isNaN(time.getTime()) ? undefined : time;
+}
+
+const discrepancyKey = (discrepancy: PortfolioDiscrepancy) => `${discrepancy.type}:${discrepancy.symbol}:${discrepancy.local}:${discrepancy.broker}`;
+
+/**
+ * Mirrors each linked Upstox account into the local tables: positions and
+ * holdings into `positions`, the day's fills into `trades`, funds and day
+ * P&L into `accounts`. The broker is the source of truth; where it disagrees
+ * with what the app believed, the mismatch is logged and kept on the account
+ * among the day's discrepancies. Runs while the Portfolio Sync module is
+ * running and pushes every change on the `portfolio` channel.
+ */
+class PortfolioSyncService {
+  private timer?: NodeJS.Timeout;
+  private syncing = false;
+
+  start(config: PortfolioSyncConfig | null | undefined): void {
+    this.stop();
+    const intervalMs = (config?.intervalSeconds || DEFAULT_INTERVAL_SECONDS) * 1000;
+    this.timer = setInterval(() => this.syncAll(), intervalMs);
+    this.syncAll();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  isRunning(): boolean {
+    return !!this.timer;
+  }
+
+  async isEnabled(): Promise<boolean> {
+    const module = await storage.getModuleByName(MODULE_NAME);
+    return module?.status === "running";
+  }
+
+  async syncAll(): Promise<void> {
+    if (this.syncing) {
+      return;
+    }
+    this.syncing = true;
+    try {
+      const accounts = await storage.getLinkedAccounts();
+      for (const account of accounts) {
+        if (!account.userId) {
+          continue;
+        }
+        try {
+          await this.syncUser(account.userId);
+        } catch (error: any) {
+          console.error(`Portfolio sync for user ${account.userId} failed:`, error);
+          await storage.createLog({
+            level: "warn",
+            module: MODULE_NAME,
+            message: `Portfolio sync for user ${account.userId} failed: ${error?.message || "Unknown error"}`,
+            data: { userId: account.userId },
+          });
+        }
+      }
+    } catch (error) {
+      console.error("Portfolio sync failed:", error);
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  async syncUser(userId: number): Promise<PortfolioSyncResult> {
+    const accessToken = await getValidUpstoxToken(userId, storage);
+    if (!accessToken) {
+      throw new Error("Upstox account not connected or token expired");
+    }
+
+    const [positionRows, holdingRows, funds, tradeRows] = await Promise.all([
+      upstoxService.getPositions(accessToken),
+      upstoxService.getPortfolio(accessToken),
+      upstoxService.getFunds(accessToken),
+      upstoxService.getTrades(accessToken),
+    ]);
+    const broker = [
+      ...((positionRows as any[]) || []).map(fromPosition),
+      ...((holdingRows as any[]) || []).map(fromHolding),
+    ];
+
+    const result: PortfolioSyncResult = {
+      syncedAt: new Date().toISOString(),
+      positions: { created: 0, updated: 0, closed: 0 },
+      trades: { imported: 0 },
+      discrepancies: [],
+    };
+    const syncedAt = new Date(result.syncedAt);
+
+    // Local live positions that are open or were synced before
+    const local = (await storage.getPositions(userId)).filter(position => position.isOpen || position.brokerBook);
+    const matched = new Set<number>();
+    const orders = await storage.getOrders(userId, undefined, 500);
+    const startOfDay = startOfTradingDay();
+
+    for (const holding of broker) {
+      const existing =
+        local.find(position =>
+          !matched.has(position.id) &&
+          position.brokerBook === holding.book &&
+          position.instrumentKey === holding.instrumentKey &&
+          position.product === holding.product
+        ) ||
+        // A position the app opened itself, before the broker reported it
+        local.find(position =>
+          !matched.has(position.id) &&
+          !position.brokerBook &&
+          position.isOpen &&
+          position.symbol.toUpperCase() === holding.symbol.toUpperCase()
+        );
+
+      const values = {
+        symbol: holding.symbol,
+        exchange: holding.exchange,
+        quantity: holding.quantity,
+        avgPrice: holding.avgPrice.toString(),
+        currentPrice: holding.lastPrice.toString(),
+        pnl: holding.pnl.toFixed(4),
+        dayChange: holding.dayChange !== null ? holding.dayChange.toFixed(4) : null,
+        isOpen: holding.quantity !== 0,
+        instrumentKey: holding.instrumentKey,
+        product: holding.product,
+        brokerBook: holding.book,
+        syncedAt,
+      };
+
+      if (existing) {
+        matched.add(existing.id);
+        if (!existing.brokerBook && existing.quantity !== holding.quantity) {
+          result.discrepancies.push({
+            type: "quantity_mismatch",
+            symbol: holding.symbol,
+            message: `Tracked ${existing.quantity} ${holding.symbol} but Upstox reports ${holding.quantity}`,
+            local: existing.quantity,
+            broker: holding.quantity,
+          });
+        }
+        if (this.hasChanged(existing, values)) {
+          await storage.updatePosition(existing.id, values);
+          result.positions.updated++;
+        }
+        continue;
+      }
+
+      if (holding.quantity === 0) {
+        // Opened and closed at the broker before we ever saw it
+        continue;
+      }
+      const ordered = orders.some(order =>
+        order.instrumentKey === holding.instrumentKey && (!order.createdAt || order.createdAt >= startOfDay)
+      );
+      if (holding.book === "positions" && !ordered) {
+        result.discrepancies.push({
+          type: "untracked_position",
+          symbol: holding.symbol,
+          message: `Upstox reports ${holding.quantity} ${holding.symbol} with no order placed through the app`,
+          broker: holding.quantity,
+        });
+      }
+      await storage.createPosition({ userId, mode: "live", ...values });
+      result.positions.created++;
+    }
+
+    for (const position of local) {
+      if (matched.has(position.id) || !position.isOpen) {
+        continue;
+      }
+      result.discrepancies.push({
+        type: "missing_at_broker",
+        symbol: position.symbol,
+        message: `Open position of ${position.quantity} ${position.symbol} is not reported by Upstox and was closed`,
+        local: position.quantity,
+        broker: 0,
+      });
+      await storage.updatePosition(position.id, { isOpen: false, syncedAt });
+      result.positions.closed++;
+    }
+
+    const filledByOrder = new Map<string, number>();
+    for (const row of (tradeRows as any[]) || []) {
+      const brokerOrderId = String(row.order_id);
+      filledByOrder.set(brokerOrderId, (filledByOrder.get(brokerOrderId) || 0) + num(row.quantity));
+
+      const brokerTradeId = String(row.trade_id);
+      if (await storage.getTradeByBrokerId(userId, brokerTradeId)) {
+        continue;
+      }
+      const order = orders.find(candidate => candidate.brokerOrderId === brokerOrderId);
+      await storage.createTrade({
+        userId,
+        strategyId: order?.strategyId ?? null,
+        symbol: row.trading_symbol || row.tradingsymbol || row.instrument_token,
+        exchange: row.exchange || "NSE",
+        side: row.transaction_type,
+        quantity: num(row.quantity),
+        price: num(row.average_price).toString(),
+        orderType: row.order_type || order?.orderType || "MARKET",
+        status: "COMPLETE",
+        mode: "live",
+        instrumentKey: row.instrument_token,
+        brokerTradeId,
+        brokerOrderId,
+        executedAt: parseBrokerTime(row.exchange_timestamp || row.order_timestamp),
+      });
+      result.trades.imported++;
+    }
+
+    for (const order of orders) {
+      if (!order.brokerOrderId || !filledByOrder.has(order.brokerOrderId)) {
+        continue;
+      }
+      const filled = filledByOrder.get(order.brokerOrderId)!;
+      if ((order.filledQuantity ?? 0) !== filled) {
+        result.discrepancies.push({
+          type: "fill_mismatch",
+          symbol: order.symbol,
+          message: `Order ${order.id} shows ${order.filledQuantity ?? 0} filled but the Upstox trade book has ${filled}`,
+          local: order.filledQuantity ?? 0,
+          broker: filled,
+        });
+      }
+    }
+
+    // The account keeps every discrepancy found during the trading day; most are only seen once
+    const account = await storage.getAccount(userId);
+    const previous = account?.portfolioSyncedAt && account.portfolioSyncedAt >= startOfDay
+      ? (account.portfolioDiscrepancies as PortfolioDiscrepancy[] | null) || []
+      : [];
+    const seen = new Set(previous.map(discrepancyKey));
+    const fresh = result.discrepancies.filter(discrepancy => !seen.has(discrepancyKey(discrepancy)));
+    const discrepancies = [...previous, ...fresh];
+    if (fresh.length > 0) {
+      await storage.createLog({
+        level: "warn",
+        module: MODULE_NAME,
+        message: `Found ${fresh.length} portfolio discrepanc${fresh.length === 1 ? "y" : "ies"} for user ${userId}: ${fresh.map(discrepancy => discrepancy.message).join("; ")}`,
+        data: { userId, discrepancies: fresh },
+      });
+    }
+
+    const equity = funds?.equity || {};
+    const availableMargin = num(equity.available_margin);
+    const usedMargin = num(equity.used_margin);
+    const updatedAccount = await storage.updateAccount(userId, {
+      availableMargin: availableMargin.toFixed(2),
+      usedMargin: usedMargin.toFixed(2),
+      totalBalance: (availableMargin + usedMargin).toFixed(2),
+      todayPnL: broker.reduce((sum, holding) => sum + holding.dayPnl, 0).toFixed(2),
+      realizedPnL: broker.reduce((sum, holding) => sum + holding.realized, 0).toFixed(2),
+      portfolioSyncedAt: syncedAt,
+      portfolioDiscrepancies: discrepancies,
+    });
+
+    const { created, updated, closed } = result.positions;
+    if (created + updated + closed + result.trades.imported > 0 || fresh.length > 0) {
+      wsManager.sendPortfolioUpdate(userId, {
+        positions: await storage.getOpenPositions(userId),
+        account: updatedAccount,
+        discrepancies,
+        syncedAt: result.syncedAt,
+      });
+    }
+
+    return result;
+  }
+
+  // Decimal columns come back padded ("101.5000"), so numbers are compared by value
+  private hasChanged(position: Position, values: Record<string, unknown>): boolean {
+    return Object.entries(values).some(([key, value]) => {
+      if (key === "syncedAt") {
+        return false;
+      }
+      const current = position[key as keyof Position];
+      if (typeof value === "string" && current !== null && value !== "" && !isNaN(Number(value))) {
+        return Number(current) !== Number(value);
+      }
+      return String(current ?? "") !== String(value ?? "");
+    });
+  }
+}
+
+export const portfolioSyncService = new PortfolioSyncService();
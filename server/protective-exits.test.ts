@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkProtectiveExits, createProtectiveExitState, normalizeProtectiveExits, updateTrailingStop } from "./protective-exits";
+import type { Candle } from "./market-data";
+
+function candle(open: number, high: number, low: number, close: number): Candle {
+  return { timestamp: "2025-06-02T03:45:00.000Z", open, high, low, close, volume: 100 };
+}
+
+test("order options win over parameter defaults per exit type and invalid specs are dropped", () => {
+  const exits = normalizeProtectiveExits(
+    { stopLoss: { percent: 1 }, takeProfit: { points: -5 } },
+    { stopLoss: { points: 10 }, takeProfit: { points: 20 }, trailingStop: { atr: "2", period: 0 } },
+  );
+
+  assert.deepEqual(exits, { stopLoss: { percent: 1 }, takeProfit: { points: 20 }, trailingStop: { atr: 2 } });
+  assert.equal(normalizeProtectiveExits(null, { stopLoss: {} }), undefined);
+});
+
+test("levels sit on the losing and winning side of the entry for each direction", () => {
+  const exits = { stopLoss: { percent: 1 }, takeProfit: { points: 30 }, trailingStop: { points: 15 } };
+
+  assert.deepEqual(createProtectiveExitState(exits, "BUY", 1000, []), {
+    side: "BUY", stopPrice: 990, targetPrice: 1030, trailDistance: 15, trailExtreme: 1000,
+  });
+  assert.deepEqual(createProtectiveExitState(exits, "SELL", 1000, []), {
+    side: "SELL", stopPrice: 1010, targetPrice: 970, trailDistance: 15, trailExtreme: 1000,
+  });
+});
+
+test("atr distances use the candles up to entry", () => {
+  const history = Array.from({ length: 5 }, () => candle(100, 102, 98, 100));
+
+  assert.equal(createProtectiveExitState({ stopLoss: { atr: 2, period: 3 } }, "BUY", 100, history).stopPrice, 92);
+  assert.equal(createProtectiveExitState({ stopLoss: { atr: 2 } }, "BUY", 100, history).stopPrice, undefined);
+});
+
+test("touched levels fill at the level and gaps fill at the open", () => {
+  const state = createProtectiveExitState({ stopLoss: { points: 10 }, takeProfit: { points: 20 } }, "BUY", 100, []);
+
+  assert.equal(checkProtectiveExits(state, candle(100, 105, 95, 100)), null);
+  assert.deepEqual(checkProtectiveExits(state, candle(100, 105, 89, 92)), { trigger: "Stop Loss", price: 90, orderType: "STOP" });
+  assert.deepEqual(checkProtectiveExits(state, candle(85, 88, 80, 86)), { trigger: "Stop Loss", price: 85, orderType: "STOP" });
+  assert.deepEqual(checkProtectiveExits(state, candle(110, 121, 108, 118)), { trigger: "Take Profit", price: 120, orderType: "LIMIT" });
+  assert.deepEqual(checkProtectiveExits(state, candle(125, 126, 119, 121)), { trigger: "Take Profit", price: 125, orderType: "LIMIT" });
+});
+
+test("a candle spanning the stop and the target exits at the stop", () => {
+  const state = createProtectiveExitState({ stopLoss: { points: 10 }, takeProfit: { points: 10 } }, "SELL", 100, []);
+
+  assert.deepEqual(checkProtectiveExits(state, candle(100, 112, 88, 100)), { trigger: "Stop Loss", price: 110, orderType: "STOP" });
+});
+
+test("trailing stops follow the best price and trigger once tighter than the fixed stop", () => {
+  const state = createProtectiveExitState({ stopLoss: { points: 20 }, trailingStop: { points: 10 } }, "BUY", 100, []);
+
+  updateTrailingStop(state, candle(100, 130, 99, 125));
+  assert.equal(state.trailExtreme, 130);
+  updateTrailingStop(state, candle(125, 128, 121, 122));
+  assert.equal(state.trailExtreme, 130);
+
+  assert.deepEqual(checkProtectiveExits(state, candle(122, 123, 118, 119)), { trigger: "Trailing Stop", price: 120, orderType: "STOP" });
+});
@@ -0,0 +1,183 @@
+import { atr } from "./strategy-runtime";
+import type { Candle } from "./market-data";
+
+/*
+ * Protective exits attached to a position when it is opened. Each exit is a
+ * distance from the entry price, given as exactly one of:
+ *   { points: 25 }            fixed price distance
+ *   { percent: 1.5 }          percentage of the entry price
+ *   { atr: 2, period: 14 }    multiple of the ATR at entry (period defaults to 14)
+ *
+ * stopLoss and takeProfit are fixed levels. trailingStop follows the best
+ * price reached since entry (highest high for longs, lowest low for shorts)
+ * at the same distance.
+ */
+
+export interface ExitSpec {
+  points?: number;
+  percent?: number;
+  atr?: number;
+  period?: number;
+}
+
+export interface ProtectiveExits {
+  stopLoss?: ExitSpec;
+  takeProfit?: ExitSpec;
+  trailingStop?: ExitSpec;
+}
+
+export interface ProtectiveExitState {
+  side: "BUY" | "SELL";
+  stopPrice?: number;
+  targetPrice?: number;
+  trailDistance?: number;
+  trailExtreme?: number;
+}
+
+export type ExitTrigger = "Stop Loss" | "Take Profit" | "Trailing Stop";
+
+export interface ProtectiveExitHit {
+  trigger: ExitTrigger;
+  price: number;
+  // Stops become market orders when touched and slip; targets are limit orders
+  orderType: "STOP" | "LIMIT";
+}
+
+const DEFAULT_ATR_PERIOD = 14;
+
+function toExitSpec(value: any): ExitSpec | undefined {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+
+  const spec: ExitSpec = {};
+  for (const key of ["points", "percent", "atr", "period"] as const) {
+    const number = Number(value[key]);
+    if (value[key] !== undefined && Number.isFinite(number) && number > 0) {
+      spec[key] = number;
+    }
+  }
+  return spec.points || spec.percent || spec.atr ? spec : undefined;
+}
+
+/**
+ * Reads stopLoss / takeProfit / trailingStop from order options or from the
+ * strategy's `parameters.exits` defaults. Order options win per exit type.
+ */
+export function normalizeProtectiveExits(...sources: any[]): ProtectiveExits | undefined {
+  const exits: ProtectiveExits = {};
+  for (const source of sources) {
+    if (!source || typeof source !== "object") {
+      continue;
+    }
+    for (const key of ["stopLoss", "takeProfit", "trailingStop"] as const) {
+      const spec = toExitSpec(source[key]);
+      if (spec && !exits[key]) {
+        exits[key] = spec;
+      }
+    }
+  }
+  return exits.stopLoss || exits.takeProfit || exits.trailingStop ? exits : undefined;
+}
+
+function exitDistance(spec: ExitSpec, entryPrice: number, history: Candle[]): number | undefined {
+  if (spec.points) {
+    return spec.points;
+  }
+  if (spec.percent) {
+    return entryPrice * spec.percent / 100;
+  }
+  if (spec.atr) {
+    const values = atr(history, spec.period || DEFAULT_ATR_PERIOD);
+    const latest = values[values.length - 1];
+    return latest ? latest * spec.atr : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Converts exit specs into price levels for a position opened at
+ * `entryPrice`. ATR distances use `history`, the candles up to entry.
+ */
+export function createProtectiveExitState(
+  exits: ProtectiveExits,
+  side: "BUY" | "SELL",
+  entryPrice: number,
+  history: Candle[]
+): ProtectiveExitState {
+  const direction = side === "BUY" ? 1 : -1;
+  const state: ProtectiveExitState = { side };
+
+  const stopDistance = exits.stopLoss && exitDistance(exits.stopLoss, entryPrice, history);
+  if (stopDistance) {
+    state.stopPrice = entryPrice - direction * stopDistance;
+  }
+
+  const targetDistance = exits.takeProfit && exitDistance(exits.takeProfit, entryPrice, history);
+  if (targetDistance) {
+    state.targetPrice = entryPrice + direction * targetDistance;
+  }
+
+  const trailDistance = exits.trailingStop && exitDistance(exits.trailingStop, entryPrice, history);
+  if (trailDistance) {
+    state.trailDistance = trailDistance;
+    state.trailExtreme = entryPrice;
+  }
+
+  return state;
+}
+
+function trailingStopPrice(state: ProtectiveExitState): number | undefined {
+  if (state.trailDistance === undefined || state.trailExtreme === undefined) {
+    return undefined;
+  }
+  return state.side === "BUY" ? state.trailExtreme - state.trailDistance : state.trailExtreme + state.trailDistance;
+}
+
+/**
+ * Checks a candle against the exit levels. Gaps through a level fill at the
+ * open. When a candle spans both a stop and the target the stop is assumed
+ * to have been hit first. The trailing level used is the one in force at
+ * the start of the candle; call updateTrailingStop afterwards.
+ */
+export function checkProtectiveExits(state: ProtectiveExitState, candle: Candle): ProtectiveExitHit | null {
+  const long = state.side === "BUY";
+
+  const stops: Array<{ trigger: ExitTrigger; price: number }> = [];
+  if (state.stopPrice !== undefined) {
+    stops.push({ trigger: "Stop Loss", price: state.stopPrice });
+  }
+  const trail = trailingStopPrice(state);
+  if (trail !== undefined) {
+    stops.push({ trigger: "Trailing Stop", price: trail });
+  }
+
+  // The tighter of the fixed and trailing stop is the one that triggers first
+  stops.sort((a, b) => long ? b.price - a.price : a.price - b.price);
+  const stop = stops[0];
+
+  if (stop) {
+    if (long ? candle.open <= stop.price : candle.open >= stop.price) {
+      return { trigger: stop.trigger, price: candle.open, orderType: "STOP" };
+    }
+  }
+  if (state.targetPrice !== undefined && (long ? candle.open >= state.targetPrice : candle.open <= state.targetPrice)) {
+    return { trigger: "Take Profit", price: candle.open, orderType: "LIMIT" };
+  }
+  if (stop && (long ? candle.low <= stop.price : candle.high >= stop.price)) {
+    return { trigger: stop.trigger, price: stop.price, orderType: "STOP" };
+  }
+  if (state.targetPrice !== undefined && (long ? candle.high >= state.targetPrice : candle.low <= state.targetPrice)) {
+    return { trigger: "Take Profit", price: state.targetPrice, orderType: "LIMIT" };
+  }
+  return null;
+}
+
+export function updateTrailingStop(state: ProtectiveExitState, candle: Candle): void {
+  if (state.trailExtreme === undefined) {
+    return;
+  }
+  state.trailExtreme = state.side === "BUY"
+    ? Math.max(state.trailExtreme, candle.high)
+    : Math.min(state.trailExtreme, candle.low);
+}
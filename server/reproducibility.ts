@@ -0,0 +1,127 @@
+import { createHash } from "crypto";
+import type { Candle } from "./market-data";
+import type { ResolvedCostModel } from "./cost-model";
+
+/*
+ * Fingerprints of everything that determines a backtest's outcome, stored
+ * in backtests.results so a later rerun can tell whether the code, the
+ * settings or the data moved underneath it.
+ */
+
+// Bump whenever a change to the engine can alter the trades or metrics of an unchanged backtest
+export const ENGINE_VERSION = "2.0.0";
+
+export interface DataFingerprint {
+  candles: number;
+  first: string | null;
+  last: string | null;
+  checksum: string;
+}
+
+export interface ReproducibilityMetadata {
+  engineVersion: string;
+  strategy: { id: number; version?: number | null; codeHash: string; parameters: Record<string, unknown> };
+  dataSource: string;
+  timeframe: string;
+  sourceInterval: string;
+  startDate: string;
+  endDate: string;
+  initialCapital: number;
+  costModel: ResolvedCostModel;
+  portfolio: unknown;
+  data: Record<string, DataFingerprint>;
+  benchmark: DataFingerprint | null;
+  outcome?: { totalTrades: number; finalEquity: number };
+}
+
+export interface Divergence {
+  field: string;
+  original: unknown;
+  rerun: unknown;
+}
+
+export interface RerunReport {
+  rerunOf: number;
+  // False when the original predates this metadata and cannot be checked
+  comparable: boolean;
+  identical: boolean;
+  differences: Divergence[];
+}
+
+const sha256 = (text: string) => createHash("sha256").update(text).digest("hex");
+
+export function hashStrategyCode(code: string): string {
+  return sha256(code);
+}
+
+export function fingerprintCandles(candles: Candle[]): DataFingerprint {
+  const hash = createHash("sha256");
+  for (const candle of candles) {
+    hash.update(`${candle.timestamp},${candle.open},${candle.high},${candle.low},${candle.close},${candle.volume}\n`);
+  }
+  return {
+    candles: candles.length,
+    first: candles[0]?.timestamp ?? null,
+    last: candles[candles.length - 1]?.timestamp ?? null,
+    checksum: hash.digest("hex"),
+  };
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Lists every input or outcome of `rerun` that differs from `original`.
+ * Each symbol's candle data is compared separately so the report names the
+ * series that changed.
+ */
+export function compareReproducibility(
+  rerunOf: number,
+  original: ReproducibilityMetadata | undefined,
+  rerun: ReproducibilityMetadata
+): RerunReport {
+  if (!original) {
+    return { rerunOf, comparable: false, identical: false, differences: [] };
+  }
+
+  const differences: Divergence[] = [];
+  const check = (field: string, a: unknown, b: unknown) => {
+    if (!same(a, b)) {
+      differences.push({ field, original: a ?? null, rerun: b ?? null });
+    }
+  };
+
+  check("engineVersion", original.engineVersion, rerun.engineVersion);
+  check("strategy.codeHash", original.strategy.codeHash, rerun.strategy.codeHash);
+  check("strategy.parameters", original.strategy.parameters, rerun.strategy.parameters);
+  check("dataSource", original.dataSource, rerun.dataSource);
+  check("timeframe", original.timeframe, rerun.timeframe);
+  check("sourceInterval", original.sourceInterval, rerun.sourceInterval);
+  check("period", [original.startDate, original.endDate], [rerun.startDate, rerun.endDate]);
+  check("initialCapital", original.initialCapital, rerun.initialCapital);
+  check("costModel", original.costModel, rerun.costModel);
+  check("portfolio", original.portfolio, rerun.portfolio);
+
+  const symbols = Array.from(new Set([...Object.keys(original.data), ...Object.keys(rerun.data)]));
+  for (const symbol of symbols) {
+    const a = original.data[symbol];
+    const b = rerun.data[symbol];
+    if (!a || !b) {
+      check(`data.${symbol}`, a, b);
+      continue;
+    }
+    check(`data.${symbol}.candles`, a.candles, b.candles);
+    check(`data.${symbol}.range`, [a.first, a.last], [b.first, b.last]);
+    // Same count and range but different values means the history was revised
+    if (a.candles === b.candles) {
+      check(`data.${symbol}.checksum`, a.checksum, b.checksum);
+    }
+  }
+  check("benchmark", original.benchmark?.checksum, rerun.benchmark?.checksum);
+
+  if (original.outcome && rerun.outcome) {
+    check("outcome.totalTrades", original.outcome.totalTrades, rerun.outcome.totalTrades);
+    check("outcome.finalEquity", Number(original.outcome.finalEquity.toFixed(2)), Number(rerun.outcome.finalEquity.toFixed(2)));
+  }
+
+  return { rerunOf, comparable: true, identical: differences.length === 0, differences };
+}
@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isSameTimeframe, parseTimeframe, resampleCandles, selectSourceTimeframe } from "./resampling";
+import type { Candle } from "./market-data";
+
+const MINUTE_MS = 60 * 1000;
+const UPSTOX_INTERVALS = ["1minute", "30minute", "day"];
+
+function candle(timestamp: string, open: number, overrides: Partial<Candle> = {}): Candle {
+  return { timestamp, open, high: open + 1, low: open - 1, close: open + 0.5, volume: 1, ...overrides };
+}
+
+// One full NSE session of 1-minute candles on 2 June 2025, 09:15 to 15:29 IST
+function sessionMinutes(): Candle[] {
+  const open = Date.parse("2025-06-02T03:45:00.000Z");
+  return Array.from({ length: 375 }, (_, index) => candle(new Date(open + index * MINUTE_MS).toISOString(), index));
+}
+
+// Upstox stamps daily candles at midnight IST
+function day(date: string, open: number): Candle {
+  return candle(new Date(Date.parse(`${date}T00:00:00.000Z`) - 330 * MINUTE_MS).toISOString(), open);
+}
+
+test("timeframes parse with aliases and hours as minutes", () => {
+  assert.deepEqual(parseTimeframe("5m"), { unit: "minute", count: 5 });
+  assert.deepEqual(parseTimeframe("1hour"), { unit: "minute", count: 60 });
+  assert.deepEqual(parseTimeframe("Daily"), { unit: "day", count: 1 });
+  assert.deepEqual(parseTimeframe("2weeks"), { unit: "week", count: 2 });
+  assert.ok(isSameTimeframe("1hour", "60minute"));
+  assert.throws(() => parseTimeframe("0day"), /Invalid timeframe/);
+  assert.throws(() => parseTimeframe("1fortnight"), /Invalid timeframe/);
+});
+
+test("the coarsest native interval that divides the request is the source", () => {
+  assert.equal(selectSourceTimeframe("1hour", UPSTOX_INTERVALS), "30minute");
+  assert.equal(selectSourceTimeframe("75minute", UPSTOX_INTERVALS), "1minute");
+  assert.equal(selectSourceTimeframe("1week", UPSTOX_INTERVALS), "day");
+  assert.equal(selectSourceTimeframe("15minute"), "15minute");
+  assert.throws(() => selectSourceTimeframe("45minute", ["30minute"]), /Cannot build 45minute/);
+});
+
+test("intraday bars align to the 09:15 IST session open", () => {
+  const bars = resampleCandles(sessionMinutes(), "75minute");
+
+  assert.deepEqual(bars.map(bar => bar.timestamp), [
+    "2025-06-02T03:45:00.000Z",
+    "2025-06-02T05:00:00.000Z",
+    "2025-06-02T06:15:00.000Z",
+    "2025-06-02T07:30:00.000Z",
+    "2025-06-02T08:45:00.000Z",
+  ]);
+  assert.deepEqual(bars[0], {
+    timestamp: "2025-06-02T03:45:00.000Z",
+    open: 0,
+    high: 75,
+    low: -1,
+    close: 74.5,
+    volume: 75,
+  });
+});
+
+test("hourly bars start at 09:15 and the last one is partial", () => {
+  const bars = resampleCandles(sessionMinutes(), "1hour");
+
+  assert.equal(bars.length, 7);
+  assert.equal(bars[1].timestamp, "2025-06-02T04:45:00.000Z");
+  assert.equal(bars[6].volume, 15);
+});
+
+test("input order does not matter", () => {
+  const minutes = sessionMinutes().slice(0, 30);
+  assert.deepEqual(resampleCandles([...minutes].reverse(), "15minute"), resampleCandles(minutes, "15minute"));
+});
+
+test("multi-day bars group consecutive trading days across weekends", () => {
+  const bars = resampleCandles([day("2025-06-05", 10), day("2025-06-06", 20), day("2025-06-09", 30)], "2day");
+
+  assert.deepEqual(bars.map(bar => [bar.open, bar.close, bar.volume]), [[10, 20.5, 2], [30, 30.5, 1]]);
+});
+
+test("weeks start on Monday and months on the 1st in IST", () => {
+  const days = [day("2025-05-30", 10), day("2025-06-02", 20), day("2025-06-06", 30), day("2025-06-09", 40)];
+
+  assert.deepEqual(resampleCandles(days, "1week").map(bar => bar.open), [10, 20, 40]);
+  assert.deepEqual(resampleCandles(days, "1month").map(bar => [bar.open, bar.close]), [[10, 10.5], [20, 40.5]]);
+});
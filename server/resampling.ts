@@ -0,0 +1,175 @@
+import type { Candle } from "./market-data";
+
+export type TimeframeUnit = "minute" | "day" | "week" | "month";
+
+export interface Timeframe {
+  unit: TimeframeUnit;
+  count: number;
+}
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// NSE cash and F&O sessions open at 09:15 IST; intraday buckets are counted from there
+const SESSION_OPEN_MINUTE = 9 * 60 + 15;
+
+const UNIT_ALIASES: Record<string, { unit: TimeframeUnit; multiplier: number }> = {
+  m: { unit: "minute", multiplier: 1 },
+  min: { unit: "minute", multiplier: 1 },
+  minute: { unit: "minute", multiplier: 1 },
+  minutes: { unit: "minute", multiplier: 1 },
+  h: { unit: "minute", multiplier: 60 },
+  hr: { unit: "minute", multiplier: 60 },
+  hour: { unit: "minute", multiplier: 60 },
+  hours: { unit: "minute", multiplier: 60 },
+  d: { unit: "day", multiplier: 1 },
+  day: { unit: "day", multiplier: 1 },
+  days: { unit: "day", multiplier: 1 },
+  daily: { unit: "day", multiplier: 1 },
+  w: { unit: "week", multiplier: 1 },
+  week: { unit: "week", multiplier: 1 },
+  weeks: { unit: "week", multiplier: 1 },
+  weekly: { unit: "week", multiplier: 1 },
+  mo: { unit: "month", multiplier: 1 },
+  month: { unit: "month", multiplier: 1 },
+  months: { unit: "month", multiplier: 1 },
+  monthly: { unit: "month", multiplier: 1 },
+};
+
+/**
+ * Parses timeframes such as 1minute, 5m, 75minute, 1hour, 1day, week or
+ * 1month. Hours are expressed as minutes so 1hour and 60minute are equal.
+ */
+export function parseTimeframe(timeframe: string): Timeframe {
+  const match = /^(\d*)\s*([a-z]+)$/.exec(timeframe.trim().toLowerCase());
+  const alias = match && UNIT_ALIASES[match[2]];
+  const count = match && match[1] ? parseInt(match[1]) : 1;
+
+  if (!alias || !Number.isFinite(count) || count <= 0) {
+    throw new Error(`Invalid timeframe "${timeframe}". Use values like 1minute, 15minute, 1hour, 1day, 1week or 1month`);
+  }
+
+  return { unit: alias.unit, count: count * alias.multiplier };
+}
+
+export function formatTimeframe({ unit, count }: Timeframe): string {
+  return `${count}${unit}`;
+}
+
+export function isSameTimeframe(a: string, b: string): boolean {
+  const left = parseTimeframe(a);
+  const right = parseTimeframe(b);
+  return left.unit === right.unit && left.count === right.count;
+}
+
+/**
+ * Picks the coarsest interval a provider can serve natively that divides the
+ * requested one evenly, so e.g. 1hour is built from 30minute bars and 75minute
+ * or 15minute from 1minute bars. Providers without a fixed list serve the
+ * requested timeframe as-is.
+ */
+export function selectSourceTimeframe(timeframe: string, available?: readonly string[]): string {
+  const target = parseTimeframe(timeframe);
+  if (!available || available.length === 0) {
+    return timeframe;
+  }
+
+  const candidates = available
+    .map(value => ({ value, parsed: parseTimeframe(value) }))
+    .filter(({ parsed }) => divides(parsed, target))
+    .sort((a, b) => approximateMinutes(b.parsed) - approximateMinutes(a.parsed));
+
+  if (candidates.length === 0) {
+    throw new Error(`Cannot build ${timeframe} candles from the available intervals (${available.join(", ")})`);
+  }
+  return candidates[0].value;
+}
+
+function divides(source: Timeframe, target: Timeframe): boolean {
+  if (source.unit === "minute") {
+    return target.unit !== "minute" || target.count % source.count === 0;
+  }
+  if (source.unit === "day") {
+    return source.count === 1 ? target.unit !== "minute" : target.unit === "day" && target.count % source.count === 0;
+  }
+  return source.unit === target.unit && target.count % source.count === 0;
+}
+
+function approximateMinutes({ unit, count }: Timeframe): number {
+  const perUnit = { minute: 1, day: 1440, week: 7 * 1440, month: 30 * 1440 };
+  return perUnit[unit] * count;
+}
+
+function istParts(timestamp: string) {
+  const ist = new Date(new Date(timestamp).getTime() + IST_OFFSET_MS);
+  return {
+    date: ist.toISOString().split("T")[0],
+    year: ist.getUTCFullYear(),
+    month: ist.getUTCMonth(),
+    minuteOfDay: ist.getUTCHours() * 60 + ist.getUTCMinutes(),
+    dayNumber: Math.floor(ist.getTime() / DAY_MS),
+  };
+}
+
+/**
+ * Aggregates candles into the requested timeframe. Intraday buckets are
+ * aligned to the 09:15 IST session open (so 75minute bars start at 09:15,
+ * 10:30, 11:45, ...), weeks start on Monday and months on the 1st, all in
+ * IST. Multi-day bars group consecutive trading days. Input already at the
+ * target interval passes through unchanged.
+ */
+export function resampleCandles(candles: Candle[], timeframe: string): Candle[] {
+  const target = parseTimeframe(timeframe);
+  const sorted = [...candles].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const buckets = new Map<string, { start: string; candles: Candle[] }>();
+  const tradingDays: string[] = [];
+
+  for (const candle of sorted) {
+    const parts = istParts(candle.timestamp);
+    let key: string;
+    let start = candle.timestamp;
+
+    switch (target.unit) {
+      case "minute": {
+        const index = Math.floor((parts.minuteOfDay - SESSION_OPEN_MINUTE) / target.count);
+        const startMinute = SESSION_OPEN_MINUTE + index * target.count;
+        key = `${parts.date}|${index}`;
+        start = new Date(Date.parse(`${parts.date}T00:00:00Z`) - IST_OFFSET_MS + startMinute * 60 * 1000).toISOString();
+        break;
+      }
+      case "day": {
+        if (tradingDays[tradingDays.length - 1] !== parts.date) {
+          tradingDays.push(parts.date);
+        }
+        key = `${Math.floor((tradingDays.length - 1) / target.count)}`;
+        break;
+      }
+      case "week": {
+        // Day 0 of the epoch was a Thursday; shift so weeks roll over on Monday
+        const week = Math.floor((parts.dayNumber + 3) / 7);
+        key = `${Math.floor(week / target.count)}`;
+        break;
+      }
+      case "month": {
+        key = `${Math.floor((parts.year * 12 + parts.month) / target.count)}`;
+        break;
+      }
+    }
+
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.candles.push(candle);
+    } else {
+      buckets.set(key, { start, candles: [candle] });
+    }
+  }
+
+  return Array.from(buckets.values()).map(({ start, candles: group }) => ({
+    timestamp: start,
+    open: group[0].open,
+    high: group.reduce((high, candle) => Math.max(high, candle.high), group[0].high),
+    low: group.reduce((low, candle) => Math.min(low, candle.low), group[0].low),
+    close: group[group.length - 1].close,
+    volume: group.reduce((sum, candle) => sum + (candle.volume || 0), 0),
+  }));
+}
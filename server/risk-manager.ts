@@ -0,0 +1,206 @@
+import { storage } from "./storage";
+import { upstoxService, getValidUpstoxToken } from "./upstox";
+import type { Order, OrderStatus, RiskLimits, RiskManagerConfig } from "@shared/schema";
+
+const MODULE_NAME = "Risk Manager";
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WORKING_STATUSES: OrderStatus[] = ["created", "sent", "open", "partially_filled"];
+
+export type RiskRule =
+  | "allowedInstruments"
+  | "maxOrderValue"
+  | "maxQuantityPerSymbol"
+  | "maxOpenPositions"
+  | "dailyLossLimit"
+  | "priceBandPercent";
+
+export interface RiskViolation {
+  rule: RiskRule;
+  message: string;
+}
+
+export interface RiskCheckResult {
+  passed: boolean;
+  violations: RiskViolation[];
+  limits: RiskLimits;
+  lastPrice: number | null;
+}
+
+export interface CheckedOrder {
+  instrumentKey: string;
+  symbol: string;
+  side: string;
+  quantity: number;
+  price?: number | null;
+  triggerPrice?: number | null;
+}
+
+// Start of the current trading day in IST, as a UTC instant
+function startOfTradingDay(now: Date = new Date()): Date {
+  const ist = now.getTime() + IST_OFFSET_MS;
+  return new Date(ist - (ist % DAY_MS) - IST_OFFSET_MS);
+}
+
+const formatRupees = (value: number) => `₹${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+/**
+ * Pre-trade checks for live orders, enforced while the Risk Manager module
+ * is running. Limits live in the module's config: `defaults` for every user,
+ * overridden field by field under `users[userId]` where the user set one. Orders that only reduce
+ * an open position are never blocked by the position count or daily loss
+ * limit, so a breached account can still be flattened.
+ */
+class RiskManager {
+  async isEnabled(): Promise<boolean> {
+    const module = await storage.getModuleByName(MODULE_NAME);
+    return module?.status === "running";
+  }
+
+  async getLimits(userId: number): Promise<RiskLimits> {
+    const config = await this.getConfig();
+    // Limits the user left empty fall back to the defaults
+    const overrides = Object.entries(config.users?.[String(userId)] || {})
+      .filter(([, value]) => value !== null && value !== undefined && !(Array.isArray(value) && value.length === 0));
+    return { ...config.defaults, ...Object.fromEntries(overrides) };
+  }
+
+  async setLimits(userId: number, limits: RiskLimits): Promise<RiskLimits> {
+    const module = await storage.getModuleByName(MODULE_NAME);
+    if (!module) {
+      throw new Error("Risk Manager module not found");
+    }
+    const config = (module.config as RiskManagerConfig | null) || {};
+    await storage.updateModule(module.id, {
+      config: { ...config, users: { ...config.users, [String(userId)]: limits } },
+    });
+    return await this.getLimits(userId);
+  }
+
+  /**
+   * Runs every configured check against an order. When re-checking a
+   * modification, pass the order being modified so its own working quantity
+   * is not counted twice.
+   */
+  async checkOrder(userId: number, order: CheckedOrder, replacing?: Order): Promise<RiskCheckResult> {
+    const limits = await this.getLimits(userId);
+    const violations: RiskViolation[] = [];
+
+    const allowed = limits.allowedInstruments || [];
+    if (allowed.length > 0 && !allowed.some(entry => entry === order.instrumentKey || entry.toUpperCase() === order.symbol.toUpperCase())) {
+      violations.push({ rule: "allowedInstruments", message: `${order.symbol} is not in the allowed instruments list` });
+    }
+
+    const needsLastPrice = !!limits.priceBandPercent || (!!limits.maxOrderValue && !order.price);
+    const lastPrice = needsLastPrice ? await this.getLastPrice(userId, order.instrumentKey) : null;
+
+    if (limits.priceBandPercent) {
+      const orderPrice = order.price ?? order.triggerPrice;
+      if (orderPrice) {
+        if (lastPrice === null) {
+          violations.push({ rule: "priceBandPercent", message: `No last traded price for ${order.symbol} to check the price band against` });
+        } else {
+          const deviation = Math.abs(orderPrice - lastPrice) / lastPrice * 100;
+          if (deviation > limits.priceBandPercent) {
+            violations.push({
+              rule: "priceBandPercent",
+              message: `Price ${orderPrice} is ${deviation.toFixed(2)}% away from the last traded price ${lastPrice}, above the ${limits.priceBandPercent}% band`,
+            });
+          }
+        }
+      }
+    }
+
+    if (limits.maxOrderValue) {
+      const price = order.price ?? lastPrice;
+      if (price === null || price === undefined) {
+        violations.push({ rule: "maxOrderValue", message: `No price for ${order.symbol} to value the order at` });
+      } else if (order.quantity * price > limits.maxOrderValue) {
+        violations.push({
+          rule: "maxOrderValue",
+          message: `Order value ${formatRupees(order.quantity * price)} exceeds the ${formatRupees(limits.maxOrderValue)} limit`,
+        });
+      }
+    }
+
+    const openPositions = await storage.getOpenPositions(userId);
+    const held = openPositions
+      .filter(position => position.symbol.toUpperCase() === order.symbol.toUpperCase())
+      .reduce((sum, position) => sum + position.quantity, 0);
+    const signed = order.side === "BUY" ? order.quantity : -order.quantity;
+    // Shrinks an existing position without flipping it
+    const reducing = held !== 0 && Math.sign(signed) !== Math.sign(held) && order.quantity <= Math.abs(held);
+
+    if (limits.maxQuantityPerSymbol && !reducing) {
+      const working = (await storage.getOrders(userId))
+        .filter(other =>
+          WORKING_STATUSES.includes(other.status as OrderStatus) &&
+          other.id !== replacing?.id &&
+          other.symbol.toUpperCase() === order.symbol.toUpperCase() &&
+          other.side === order.side
+        )
+        .reduce((sum, other) => sum + other.quantity - (other.filledQuantity ?? 0), 0);
+      const exposure = Math.abs(held + signed + (order.side === "BUY" ? working : -working));
+      if (exposure > limits.maxQuantityPerSymbol) {
+        violations.push({
+          rule: "maxQuantityPerSymbol",
+          message: `${order.symbol} quantity would reach ${exposure}, above the ${limits.maxQuantityPerSymbol} limit`,
+        });
+      }
+    }
+
+    if (limits.maxOpenPositions && held === 0) {
+      const symbols = new Set(openPositions.map(position => position.symbol.toUpperCase()));
+      if (symbols.size >= limits.maxOpenPositions) {
+        violations.push({
+          rule: "maxOpenPositions",
+          message: `Open positions are at the limit of ${limits.maxOpenPositions}`,
+        });
+      }
+    }
+
+    if (limits.dailyLossLimit && !reducing) {
+      const realized = await storage.getRealizedPnlSince(userId, startOfTradingDay());
+      const unrealized = openPositions.reduce((sum, position) => sum + Number(position.pnl || 0), 0);
+      const dayPnl = realized + unrealized;
+      if (dayPnl <= -limits.dailyLossLimit) {
+        violations.push({
+          rule: "dailyLossLimit",
+          message: `Today's loss of ${formatRupees(-dayPnl)} has reached the ${formatRupees(limits.dailyLossLimit)} daily limit`,
+        });
+      }
+    }
+
+    return { passed: violations.length === 0, violations, limits, lastPrice };
+  }
+
+  /** Records a blocked order in the logs. */
+  async logRejection(userId: number, order: CheckedOrder, result: RiskCheckResult, orderId?: number): Promise<void> {
+    await storage.createLog({
+      level: "warn",
+      module: MODULE_NAME,
+      message: `${order.side} ${order.quantity} ${order.symbol} blocked: ${result.violations.map(violation => violation.message).join("; ")}`,
+      data: { userId, orderId, violations: result.violations, lastPrice: result.lastPrice },
+    });
+  }
+
+  private async getConfig(): Promise<RiskManagerConfig> {
+    const module = await storage.getModuleByName(MODULE_NAME);
+    return (module?.config as RiskManagerConfig | null) || {};
+  }
+
+  private async getLastPrice(userId: number, instrumentKey: string): Promise<number | null> {
+    const accessToken = await getValidUpstoxToken(userId, storage);
+    if (!accessToken) {
+      return null;
+    }
+    try {
+      const quote = await upstoxService.getQuote(instrumentKey, accessToken);
+      return quote.ltp > 0 ? quote.ltp : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const riskManager = new RiskManager();
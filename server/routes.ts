@@ -1,21 +1,64 @@
-import type { Express, Request, Response } from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
+import cookieParser from "cookie-parser";
 import { createServer, type Server } from "http";
 import { WebSocketServer } from "ws";
 import { storage } from "./storage";
 import { setupWebSocket } from "./websocket";
 import { generateStrategy } from "./openai";
-import { runEnhancedBacktest, cancelBacktest } from "./enhanced-backtesting";
+import { backtestQueue } from "./backtest-queue";
+import { paperTradingEngine } from "./paper-trading";
+import { orderManager, OrderError } from "./order-manager";
+import { riskManager } from "./risk-manager";
+import { portfolioSyncService } from "./portfolio-sync";
+import { runOptimization, cancelOptimization, planOptimization, optimizationService } from "./optimization";
+import { runMonteCarlo } from "./monte-carlo";
+import { compareBacktests, MAX_COMPARED_BACKTESTS, MIN_COMPARED_BACKTESTS } from "./backtest-comparison";
+import { diffStrategyVersions } from "./strategy-diff";
+import { backtestReportHtml, buildBacktestReport, equityCurveCsv, exportFilename, EXPORT_FORMATS, tradesCsv, type ExportFormat } from "./backtest-export";
 import { upstoxService, getValidUpstoxToken } from "./upstox";
+import { getMarketDataProvider, getResampledCandles, listMarketDataProviders } from "./market-data";
+import { parseTimeframe } from "./resampling";
+import { candleSyncService } from "./candle-sync";
+import { instrumentService } from "./instruments";
 import { configService } from "./config-service";
-import { insertStrategySchema, insertBacktestSchema, insertLogSchema, upstoxAuthSchema, upstoxAccountLinkSchema, insertUserSchema, insertExclusiveStrategySchema } from "@shared/schema";
+import { insertStrategySchema, updateStrategySchema, insertPaperTradingSessionSchema, placeOrderSchema, modifyOrderSchema, riskLimitsSchema, candleRangeSchema, orderStatuses, type OrderStatus, insertBacktestSchema, insertLogSchema, upstoxAuthSchema, upstoxAccountLinkSchema, insertUserSchema, insertExclusiveStrategySchema, insertOptimizationSchema, costModelSchema, type PortfolioConfig, type CostModel, type Backtest, type BacktestTrade, type Strategy } from "@shared/schema";
 import bcrypt from "bcrypt";
 
 
-export async function registerRoutes(app: Express): Promise<Server> {
+export async function registerRoutes(app: Express, sessionMiddleware: RequestHandler): Promise<Server> {
   const httpServer = createServer(app);
   
   // Initialize configuration service
   await configService.initialize();
+
+  // Resume background modules that were left running before a restart
+  try {
+    const modules = await storage.getModules();
+    const dataFetcher = modules.find(m => m.name === 'Data Fetcher');
+    if (dataFetcher?.status === 'running') {
+      candleSyncService.start(dataFetcher.config as any);
+    }
+    if (modules.find(m => m.name === 'Order Manager')?.status === 'running') {
+      orderManager.start();
+    }
+    const portfolioSync = modules.find(m => m.name === 'Portfolio Sync');
+    if (portfolioSync?.status === 'running') {
+      portfolioSyncService.start(portfolioSync.config as any);
+    }
+  } catch (error) {
+    console.error("Error resuming modules:", error);
+  }
+
+  // Re-queues backtests orphaned by the previous process and starts the workers
+  backtestQueue.start();
+
+  // Resumes optimizations left unfinished by a stopped process and heartbeats the ones run here
+  optimizationService.start();
+
+  // Paper trading sessions that were running pick up from their last candle
+  paperTradingEngine.start().catch(error => {
+    console.error("Error resuming paper trading sessions:", error);
+  });
   
   // Authentication middleware
   const requireAuth = (req: Request, res: Response, next: any) => {
@@ -370,9 +413,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Temporarily disable WebSocket to prevent crashes
-  // const wss = new WebSocketServer({ server: httpServer });
-  // setupWebSocket(wss);
+  // WebSocket on its own path so upgrades for the Vite HMR socket are left alone
+  const wss = new WebSocketServer({ noServer: true });
+  const parseCookies = cookieParser();
+  setupWebSocket(wss, {
+    // Same credentials as requireAuthFlexible: the session first, then the auth_token cookie
+    authenticateRequest: (upgradeRequest) => new Promise((resolve, reject) => {
+      const req = upgradeRequest as Request;
+      const res = {} as Response;
+      sessionMiddleware(req, res, (sessionError?: any) => {
+        if (sessionError) {
+          return reject(sessionError);
+        }
+        parseCookies(req, res, async () => {
+          try {
+            if (req.session?.userId && await storage.getUser(req.session.userId)) {
+              return resolve(req.session.userId);
+            }
+            const authToken = req.cookies?.auth_token;
+            if (!authToken) {
+              return resolve(null);
+            }
+            const allUsers = await storage.getAllUsers();
+            resolve(allUsers.find(u => u.lastAuthToken === authToken)?.id ?? null);
+          } catch (error) {
+            reject(error);
+          }
+        });
+      });
+    }),
+    authenticateToken: async (authToken) => {
+      const allUsers = await storage.getAllUsers();
+      return allUsers.find(u => u.lastAuthToken === authToken)?.id ?? null;
+    },
+  });
+  httpServer.on("upgrade", (req, socket, head) => {
+    if (new URL(req.url || "/", "http://localhost").pathname !== "/ws") {
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+  });
 
   // Subscription endpoints
   app.get("/api/subscription/usage", async (req, res) => {
@@ -625,6 +705,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/positions", async (req, res) => {
     try {
       const userId = 1; // In real app, get from session
+
+      // Paper positions only ever live in the database
+      if (req.query.mode === "paper") {
+        return res.json(await storage.getPositions(userId, "paper"));
+      }
       
       // Try to get real positions from Upstox if linked
       const accessToken = await getValidUpstoxToken(userId, storage);
@@ -650,6 +735,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/positions/open", async (req, res) => {
     try {
       const userId = 1; // In real app, get from session
+
+      // Paper positions only ever live in the database
+      if (req.query.mode === "paper") {
+        return res.json(await storage.getOpenPositions(userId, "paper"));
+      }
       
       // Try to get real positions from Upstox if linked
       const accessToken = await getValidUpstoxToken(userId, storage);
@@ -678,7 +768,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/trades", async (req, res) => {
     try {
       const userId = 1; // In real app, get from session
-      const trades = await storage.getTrades(userId);
+      const mode = req.query.mode === "paper" ? "paper" : "live";
+      const trades = await storage.getTrades(userId, mode);
       res.json(trades);
     } catch (error) {
       console.error("Error fetching trades:", error);
@@ -690,7 +781,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = 1; // In real app, get from session
       const { limit = 50, offset = 0 } = req.query;
-      const trades = await storage.getTradeHistory(userId, Number(limit), Number(offset));
+      const mode = req.query.mode === "paper" ? "paper" : "live";
+      const trades = await storage.getTradeHistory(userId, Number(limit), Number(offset), mode);
       res.json(trades);
     } catch (error) {
       console.error("Error fetching trade history:", error);
@@ -880,6 +972,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         isActive: !strategy.isActive,
         updatedAt: new Date(),
       });
+      // Paper trading sessions run only while their strategy is active
+      await paperTradingEngine.syncStrategy(updatedStrategy.id, !!updatedStrategy.isActive);
       res.json(updatedStrategy);
     } catch (error) {
       console.error("Error toggling strategy:", error);
@@ -887,279 +981,1269 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Backtesting endpoints
-  app.get("/api/backtests", requireAuthFlexible, async (req: any, res) => {
+  // Edits name and description in place; changed code or parameters are saved as a new version
+  app.put("/api/strategies/:id", requireAuthFlexible, async (req: any, res) => {
     try {
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ error: "User not authenticated" });
       }
-      
-      const backtests = await storage.getBacktests(userId);
-      res.json(backtests);
+
+      const strategy = await storage.getStrategy(Number(req.params.id));
+      if (!strategy) {
+        return res.status(404).json({ error: "Strategy not found" });
+      }
+      if (strategy.userId !== userId) {
+        return res.status(403).json({ error: "Access denied to this strategy" });
+      }
+
+      const parsed = updateStrategySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid strategy update" });
+      }
+      const { name, description, code, parameters, changeNote } = parsed.data;
+
+      const codeChanged = code !== undefined && code !== strategy.code;
+      const parametersChanged = parameters !== undefined &&
+        JSON.stringify(parameters) !== JSON.stringify(strategy.parameters ?? null);
+      const version = codeChanged || parametersChanged
+        ? await storage.createStrategyVersion({
+          strategyId: strategy.id,
+          code: code ?? strategy.code,
+          parameters: (parameters !== undefined ? parameters : strategy.parameters) as Record<string, any> | null,
+          changeNote: changeNote || null,
+          createdBy: userId,
+        })
+        : undefined;
+
+      const updatedStrategy = name !== undefined || description !== undefined
+        ? await storage.updateStrategy(strategy.id, {
+          ...(name !== undefined && { name }),
+          ...(description !== undefined && { description }),
+        })
+        : await storage.getStrategy(strategy.id);
+
+      res.json({ ...updatedStrategy, newVersion: version?.version ?? null });
     } catch (error) {
-      console.error("Error fetching backtests:", error);
-      res.status(500).json({ error: "Failed to fetch backtests" });
+      console.error("Error updating strategy:", error);
+      res.status(500).json({ error: "Failed to update strategy" });
     }
   });
 
-  app.post("/api/backtests", requireAuthFlexible, async (req: any, res) => {
+  app.get("/api/strategies/:id/versions", requireAuthFlexible, async (req: any, res) => {
     try {
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ error: "User not authenticated" });
       }
-      
-      const validatedData = insertBacktestSchema.parse({
-        ...req.body,
-        userId,
-      });
-      
-      const backtest = await storage.createBacktest(validatedData);
-      
-      // Run enhanced backtest asynchronously
-      runEnhancedBacktest(backtest.id).catch(error => {
-        console.error("Backtest execution failed:", error);
-        storage.updateBacktest(backtest.id, { 
-          status: "error",
-          progressMessage: `Error: ${error.message}`,
-          completedAt: new Date()
-        });
-      });
-      
-      res.status(201).json(backtest);
+
+      const strategy = await storage.getStrategy(Number(req.params.id));
+      if (!strategy) {
+        return res.status(404).json({ error: "Strategy not found" });
+      }
+      if (strategy.userId !== userId) {
+        return res.status(403).json({ error: "Access denied to this strategy" });
+      }
+
+      // Backfills version 1 for strategies saved before versioning
+      await storage.getCurrentStrategyVersion(strategy.id);
+      const versions = await storage.getStrategyVersions(strategy.id);
+      res.json({ currentVersion: strategy.currentVersion ?? 1, versions });
     } catch (error) {
-      console.error("Error creating backtest:", error);
-      res.status(500).json({ error: "Failed to create backtest" });
+      console.error("Error fetching strategy versions:", error);
+      res.status(500).json({ error: "Failed to fetch strategy versions" });
     }
   });
 
-  app.get("/api/backtests/:id", requireAuthFlexible, async (req: any, res) => {
+  app.get("/api/strategies/:id/versions/:version", requireAuthFlexible, async (req: any, res) => {
     try {
-      const { id } = req.params;
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ error: "User not authenticated" });
       }
-      
-      const backtest = await storage.getBacktest(Number(id));
-      if (!backtest) {
-        return res.status(404).json({ error: "Backtest not found" });
+
+      const strategy = await storage.getStrategy(Number(req.params.id));
+      if (!strategy) {
+        return res.status(404).json({ error: "Strategy not found" });
       }
-      
-      // Ensure user can only access their own backtests
-      if (backtest.userId !== userId) {
-        return res.status(403).json({ error: "Access denied to this backtest" });
+      if (strategy.userId !== userId) {
+        return res.status(403).json({ error: "Access denied to this strategy" });
       }
-      
-      res.json(backtest);
+
+      const version = await storage.getStrategyVersion(strategy.id, Number(req.params.version));
+      if (!version) {
+        return res.status(404).json({ error: "Strategy version not found" });
+      }
+      res.json(version);
     } catch (error) {
-      console.error("Error fetching backtest:", error);
-      res.status(500).json({ error: "Failed to fetch backtest" });
+      console.error("Error fetching strategy version:", error);
+      res.status(500).json({ error: "Failed to fetch strategy version" });
     }
   });
 
-  // Cancel backtest endpoint
-  app.post("/api/backtests/:id/cancel", requireAuthFlexible, async (req: any, res) => {
+  // Line diff of the code between two versions: ?from=1&to=3
+  app.get("/api/strategies/:id/diff", requireAuthFlexible, async (req: any, res) => {
     try {
-      const { id } = req.params;
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ error: "User not authenticated" });
       }
-      
-      const backtest = await storage.getBacktest(Number(id));
-      if (!backtest) {
-        return res.status(404).json({ error: "Backtest not found" });
+
+      const strategy = await storage.getStrategy(Number(req.params.id));
+      if (!strategy) {
+        return res.status(404).json({ error: "Strategy not found" });
       }
-      
-      // Ensure user can only cancel their own backtests
-      if (backtest.userId !== userId) {
-        return res.status(403).json({ error: "Access denied to this backtest" });
+      if (strategy.userId !== userId) {
+        return res.status(403).json({ error: "Access denied to this strategy" });
       }
-      
-      await cancelBacktest(Number(id));
-      res.json({ message: "Backtest cancelled successfully" });
+
+      const from = Number(req.query.from);
+      const to = Number(req.query.to ?? strategy.currentVersion ?? 1);
+      if (!Number.isInteger(from) || !Number.isInteger(to)) {
+        return res.status(400).json({ error: "from and to must be version numbers" });
+      }
+
+      const [fromVersion, toVersion] = await Promise.all([
+        storage.getStrategyVersion(strategy.id, from),
+        storage.getStrategyVersion(strategy.id, to),
+      ]);
+      if (!fromVersion || !toVersion) {
+        return res.status(404).json({ error: `Version ${!fromVersion ? from : to} not found` });
+      }
+      res.json(diffStrategyVersions(fromVersion, toVersion));
     } catch (error) {
-      console.error("Error cancelling backtest:", error);
-      res.status(500).json({ error: "Failed to cancel backtest" });
+      console.error("Error diffing strategy versions:", error);
+      res.status(500).json({ error: "Failed to diff strategy versions" });
     }
   });
 
-  // Delete backtest endpoint
-  app.delete("/api/backtests/:id", requireAuthFlexible, async (req: any, res) => {
+  // Rolling back appends a copy of the old version, so the versions after it stay in the history
+  app.post("/api/strategies/:id/versions/:version/rollback", requireAuthFlexible, async (req: any, res) => {
     try {
-      const { id } = req.params;
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ error: "User not authenticated" });
       }
-      
-      const backtestId = Number(id);
-      const backtest = await storage.getBacktest(backtestId);
-      if (!backtest) {
-        return res.status(404).json({ error: "Backtest not found" });
+
+      const strategy = await storage.getStrategy(Number(req.params.id));
+      if (!strategy) {
+        return res.status(404).json({ error: "Strategy not found" });
       }
-      
-      // Ensure user can only delete their own backtests
-      if (backtest.userId !== userId) {
-        return res.status(403).json({ error: "Access denied to this backtest" });
+      if (strategy.userId !== userId) {
+        return res.status(403).json({ error: "Access denied to this strategy" });
       }
-      
-      // First delete all associated backtest trades
-      const trades = await storage.getBacktestTrades(backtestId);
-      for (const trade of trades) {
-        await storage.updateBacktestTrade(trade.id, { status: 'deleted' });
+
+      const target = await storage.getStrategyVersion(strategy.id, Number(req.params.version));
+      if (!target) {
+        return res.status(404).json({ error: "Strategy version not found" });
       }
-      
-      // Mark backtest as deleted (soft delete)
-      await storage.updateBacktest(backtestId, { 
-        status: "deleted",
-        progressMessage: "Deleted by user"
+      if (target.version === strategy.currentVersion) {
+        return res.status(400).json({ error: `Version ${target.version} is already the current version` });
+      }
+
+      const version = await storage.createStrategyVersion({
+        strategyId: strategy.id,
+        code: target.code,
+        parameters: target.parameters as Record<string, any> | null,
+        changeNote: `Rolled back to version ${target.version}`,
+        restoredFrom: target.version,
+        createdBy: userId,
       });
-      
-      res.json({ message: "Backtest deleted successfully" });
+      res.status(201).json(version);
     } catch (error) {
-      console.error("Error deleting backtest:", error);
-      res.status(500).json({ error: "Failed to delete backtest" });
+      console.error("Error rolling back strategy:", error);
+      res.status(500).json({ error: "Failed to roll back strategy" });
     }
   });
 
-  // Create backtest from existing (edit/duplicate)
-  app.post("/api/backtests/:id/duplicate", requireAuthFlexible, async (req: any, res) => {
+  // Paper trading endpoints
+  app.get("/api/paper-trading/sessions", requireAuthFlexible, async (req: any, res) => {
     try {
-      const { id } = req.params;
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ error: "User not authenticated" });
       }
-      
-      const originalBacktest = await storage.getBacktest(Number(id));
-      
-      if (!originalBacktest) {
-        return res.status(404).json({ error: "Original backtest not found" });
+
+      const sessions = await storage.getPaperTradingSessions(userId);
+      const summaries = [];
+      for (const session of sessions) {
+        const positions = await storage.getPaperSessionPositions(session.id);
+        const open = positions.find(position => position.isOpen);
+        const unrealized = open ? Number(open.pnl || 0) : 0;
+        summaries.push({
+          ...session,
+          position: open?.quantity ?? 0,
+          equity: Number((Number(session.cash ?? session.initialCapital) + unrealized).toFixed(2)),
+        });
       }
-      
-      // Ensure user can only duplicate their own backtests
-      if (originalBacktest.userId !== userId) {
-        return res.status(403).json({ error: "Access denied to this backtest" });
+      res.json(summaries);
+    } catch (error) {
+      console.error("Error fetching paper trading sessions:", error);
+      res.status(500).json({ error: "Failed to fetch paper trading sessions" });
+    }
+  });
+
+  app.post("/api/paper-trading/sessions", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
       }
 
-      // Parse update data and merge with original
-      const updateData = req.body;
-      
-      // Find the next incremental number for the name
-      const baseName = originalBacktest.name.replace(/_\d+$/, ''); // Remove existing suffix
-      const existingBacktests = await storage.getBacktests(userId);
-      const relatedBacktests = existingBacktests.filter(bt => bt.name.startsWith(baseName));
-      const maxNumber = relatedBacktests.reduce((max, bt) => {
-        const match = bt.name.match(/_(\d+)$/);
-        const num = match ? parseInt(match[1]) : 0;
-        return Math.max(max, num);
-      }, 0);
-      
-      const newName = `${baseName}_${maxNumber + 1}`;
-      
-      const newBacktest = await storage.createBacktest({
-        userId,
-        strategyId: originalBacktest.strategyId,
-        name: newName,
-        symbol: updateData.symbol || originalBacktest.symbol,
-        timeframe: updateData.timeframe || originalBacktest.timeframe,
-        startDate: updateData.startDate ? new Date(updateData.startDate) : originalBacktest.startDate,
-        endDate: updateData.endDate ? new Date(updateData.endDate) : originalBacktest.endDate,
-        initialCapital: updateData.initialCapital || originalBacktest.initialCapital,
-        status: "pending"
-      });
-      
-      // Run enhanced backtest asynchronously
-      runEnhancedBacktest(newBacktest.id).catch(error => {
-        console.error("Backtest execution failed:", error);
-        storage.updateBacktest(newBacktest.id, { 
-          status: "error",
-          progressMessage: `Error: ${error.message}`,
-          completedAt: new Date()
-        });
+      const parsed = insertPaperTradingSessionSchema.safeParse({ ...req.body, userId, strategyVersionId: null });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid paper trading session" });
+      }
+      const data = parsed.data;
+
+      try {
+        getMarketDataProvider(data.dataSource);
+        parseTimeframe(data.timeframe);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      const strategy = await storage.getStrategy(data.strategyId);
+      if (!strategy || strategy.userId !== userId) {
+        return res.status(404).json({ error: "Strategy not found" });
+      }
+
+      const session = await storage.createPaperTradingSession({
+        ...data,
+        symbol: data.symbol.trim().toUpperCase(),
       });
-      
-      res.status(201).json(newBacktest);
+      // Starts right away when the strategy is active, otherwise waits paused for it
+      res.status(201).json(await paperTradingEngine.startSession(session.id));
     } catch (error) {
-      console.error("Error duplicating backtest:", error);
-      res.status(500).json({ error: "Failed to duplicate backtest" });
+      console.error("Error creating paper trading session:", error);
+      res.status(500).json({ error: "Failed to create paper trading session" });
     }
   });
 
-  // Get backtest trades endpoint
-  app.get("/api/backtests/:id/trades", requireAuthFlexible, async (req: any, res) => {
+  app.get("/api/paper-trading/sessions/:id", requireAuthFlexible, async (req: any, res) => {
     try {
-      const { id } = req.params;
       const userId = req.user?.id;
       if (!userId) {
         return res.status(401).json({ error: "User not authenticated" });
       }
-      
-      const backtest = await storage.getBacktest(Number(id));
-      if (!backtest) {
-        return res.status(404).json({ error: "Backtest not found" });
+
+      const session = await storage.getPaperTradingSession(Number(req.params.id));
+      if (!session) {
+        return res.status(404).json({ error: "Paper trading session not found" });
       }
-      
-      // Ensure user can only access trades from their own backtests
-      if (backtest.userId !== userId) {
-        return res.status(403).json({ error: "Access denied to this backtest" });
+      if (session.userId !== userId) {
+        return res.status(403).json({ error: "Access denied to this paper trading session" });
       }
-      
-      const trades = await storage.getBacktestTrades(Number(id));
-      res.json(trades);
+
+      const [trades, positions] = await Promise.all([
+        storage.getPaperSessionTrades(session.id),
+        storage.getPaperSessionPositions(session.id),
+      ]);
+      res.json({ session, trades, positions });
     } catch (error) {
-      console.error("Error fetching backtest trades:", error);
-      res.status(500).json({ error: "Failed to fetch backtest trades" });
+      console.error("Error fetching paper trading session:", error);
+      res.status(500).json({ error: "Failed to fetch paper trading session" });
     }
   });
 
-  // Modules endpoints
-  app.get("/api/modules", async (req, res) => {
+  app.post("/api/paper-trading/sessions/:id/stop", requireAuthFlexible, async (req: any, res) => {
     try {
-      const modules = await storage.getModules();
-      res.json(modules);
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const session = await storage.getPaperTradingSession(Number(req.params.id));
+      if (!session) {
+        return res.status(404).json({ error: "Paper trading session not found" });
+      }
+      if (session.userId !== userId) {
+        return res.status(403).json({ error: "Access denied to this paper trading session" });
+      }
+      if (session.status === "stopped" || session.status === "completed") {
+        return res.status(400).json({ error: `Session is already ${session.status}` });
+      }
+
+      res.json(await paperTradingEngine.stopSession(session.id));
     } catch (error) {
-      console.error("Error fetching modules:", error);
-      res.status(500).json({ error: "Failed to fetch modules" });
+      console.error("Error stopping paper trading session:", error);
+      res.status(500).json({ error: "Failed to stop paper trading session" });
     }
   });
 
-  app.post("/api/modules/:id/toggle", async (req, res) => {
+  // Order endpoints
+  app.get("/api/orders", requireAuthFlexible, async (req: any, res) => {
     try {
-      const { id } = req.params;
-      const { action } = req.body; // 'start' or 'stop'
-      
-      const module = await storage.getModule(Number(id));
-      if (!module) {
-        return res.status(404).json({ error: "Module not found" });
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
       }
-      
-      let newStatus: string;
-      let statusMessage: string;
-      
-      if (action === 'start') {
-        newStatus = "running";
-        statusMessage = `${module.name} started successfully`;
-        
-        // Add specific startup logic for different modules
-        switch (module.name) {
-          case 'Data Fetcher':
-            console.log(`Starting data fetcher module for real-time market data`);
-            break;
-          case 'Strategy Engine':
-            console.log(`Starting strategy engine - all automated strategies activated`);
-            break;
-          case 'Order Manager':
-            console.log(`Starting order manager - trade execution enabled`);
-            break;
+
+      const status = req.query.status as OrderStatus | undefined;
+      if (status && !orderStatuses.includes(status)) {
+        return res.status(400).json({ error: `Invalid status. Use one of: ${orderStatuses.join(", ")}` });
+      }
+      const limit = Math.min(Number(req.query.limit) || 100, 500);
+      res.json(await storage.getOrders(userId, status, limit));
+    } catch (error) {
+      console.error("Error fetching orders:", error);
+      res.status(500).json({ error: "Failed to fetch orders" });
+    }
+  });
+
+  app.post("/api/orders", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const parsed = placeOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid order" });
+      }
+      if (parsed.data.strategyId) {
+        const strategy = await storage.getStrategy(parsed.data.strategyId);
+        if (!strategy || strategy.userId !== userId) {
+          return res.status(404).json({ error: "Strategy not found" });
+        }
+      }
+
+      const order = await orderManager.placeOrder(userId, parsed.data);
+      // Risk and broker rejections are still recorded, so they come back with the stored order
+      if (order.status === "rejected") {
+        return res.status(422).json({ error: order.statusMessage || "Order rejected", order });
+      }
+      res.status(201).json(order);
+    } catch (error: any) {
+      if (error instanceof OrderError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error placing order:", error);
+      res.status(500).json({ error: "Failed to place order" });
+    }
+  });
+
+  app.post("/api/orders/reconcile", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      if (!(await orderManager.isEnabled())) {
+        return res.status(503).json({ error: "The Order Manager module is not running" });
+      }
+
+      res.json(await orderManager.reconcile(userId));
+    } catch (error: any) {
+      if (error instanceof OrderError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error reconciling orders:", error);
+      res.status(500).json({ error: "Failed to reconcile orders" });
+    }
+  });
+
+  app.get("/api/orders/:id", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const order = await storage.getOrder(Number(req.params.id));
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      if (order.userId !== userId) {
+        return res.status(403).json({ error: "Access denied to this order" });
+      }
+      res.json(order);
+    } catch (error) {
+      console.error("Error fetching order:", error);
+      res.status(500).json({ error: "Failed to fetch order" });
+    }
+  });
+
+  app.put("/api/orders/:id", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const parsed = modifyOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid order changes" });
+      }
+
+      const order = await storage.getOrder(Number(req.params.id));
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      if (order.userId !== userId) {
+        return res.status(403).json({ error: "Access denied to this order" });
+      }
+
+      res.json(await orderManager.modifyOrder(order, parsed.data));
+    } catch (error: any) {
+      if (error instanceof OrderError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error modifying order:", error);
+      res.status(500).json({ error: "Failed to modify order" });
+    }
+  });
+
+  app.post("/api/orders/:id/cancel", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const order = await storage.getOrder(Number(req.params.id));
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      if (order.userId !== userId) {
+        return res.status(403).json({ error: "Access denied to this order" });
+      }
+
+      res.json(await orderManager.cancelOrder(order));
+    } catch (error: any) {
+      if (error instanceof OrderError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error cancelling order:", error);
+      res.status(500).json({ error: "Failed to cancel order" });
+    }
+  });
+
+  // Risk limits applied by the Risk Manager module to the user's orders
+  app.get("/api/risk/limits", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      res.json({
+        enabled: await riskManager.isEnabled(),
+        limits: await riskManager.getLimits(userId),
+      });
+    } catch (error) {
+      console.error("Error fetching risk limits:", error);
+      res.status(500).json({ error: "Failed to fetch risk limits" });
+    }
+  });
+
+  app.put("/api/risk/limits", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const parsed = riskLimitsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid risk limits" });
+      }
+
+      const limits = await riskManager.setLimits(userId, parsed.data);
+      await storage.createLog({
+        level: "info",
+        module: "Risk Manager",
+        message: `Risk limits updated for user ${userId}`,
+        data: { userId, limits },
+      });
+      res.json({ enabled: await riskManager.isEnabled(), limits });
+    } catch (error: any) {
+      if (error.message === "Risk Manager module not found") {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error("Error updating risk limits:", error);
+      res.status(500).json({ error: "Failed to update risk limits" });
+    }
+  });
+
+  // Portfolio Sync status and on-demand sync with the broker
+  app.get("/api/portfolio/sync", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const account = await storage.getAccount(userId);
+      res.json({
+        enabled: await portfolioSyncService.isEnabled(),
+        syncedAt: account?.portfolioSyncedAt ?? null,
+        discrepancies: account?.portfolioDiscrepancies ?? [],
+      });
+    } catch (error) {
+      console.error("Error fetching portfolio sync status:", error);
+      res.status(500).json({ error: "Failed to fetch portfolio sync status" });
+    }
+  });
+
+  app.post("/api/portfolio/sync", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      if (!(await portfolioSyncService.isEnabled())) {
+        return res.status(503).json({ error: "The Portfolio Sync module is not running" });
+      }
+
+      const account = await storage.getAccount(userId);
+      if (!account?.upstoxAccessToken) {
+        return res.status(401).json({ error: "Upstox account not linked or token expired" });
+      }
+
+      res.json(await portfolioSyncService.syncUser(userId));
+    } catch (error: any) {
+      console.error("Error syncing portfolio:", error);
+      res.status(500).json({ error: error.message || "Failed to sync portfolio" });
+    }
+  });
+
+  // Backtesting endpoints
+  app.get("/api/backtests", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      
+      const backtests = await storage.getBacktests(userId);
+      res.json(backtests);
+    } catch (error) {
+      console.error("Error fetching backtests:", error);
+      res.status(500).json({ error: "Failed to fetch backtests" });
+    }
+  });
+
+  app.post("/api/backtests", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      
+      const validatedData = insertBacktestSchema.parse({
+        ...req.body,
+        userId,
+        // Links to other backtests are only ever set by the server
+        optimizationId: null,
+        rerunOfId: null,
+      });
+
+      const strategy = await storage.getStrategy(validatedData.strategyId!);
+      if (!strategy || strategy.userId !== userId) {
+        return res.status(404).json({ error: "Strategy not found" });
+      }
+
+      // An explicitly pinned version has to belong to the strategy being run
+      if (validatedData.strategyVersionId) {
+        const version = await storage.getStrategyVersionById(validatedData.strategyVersionId);
+        if (!version || version.strategyId !== validatedData.strategyId) {
+          return res.status(400).json({ error: "Strategy version does not belong to this strategy" });
+        }
+      }
+
+      try {
+        getMarketDataProvider(validatedData.dataSource);
+        parseTimeframe(validatedData.timeframe);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      // Index baskets are resolved to their constituents as of the start date
+      const indexGroup = validatedData.portfolio?.indexGroup;
+      if (indexGroup && !validatedData.symbols?.length) {
+        const startDate = new Date(validatedData.startDate).toISOString().split("T")[0];
+        const constituents = await storage.getIndexConstituents(indexGroup, startDate);
+        if (constituents.length === 0) {
+          return res.status(400).json({ error: `No constituents found for ${indexGroup} on or before ${startDate}` });
+        }
+        validatedData.symbols = constituents;
+      }
+      if (validatedData.symbols?.length) {
+        validatedData.symbols = Array.from(new Set(validatedData.symbols.map(symbol => symbol.trim().toUpperCase()).filter(Boolean)));
+        validatedData.instrumentKey = null;
+        validatedData.symbol = indexGroup || (validatedData.symbols.length > 1
+          ? `${validatedData.symbols[0]} +${validatedData.symbols.length - 1}`
+          : validatedData.symbols[0]);
+      }
+      
+      const quotaError = await backtestQueue.checkQuota(userId);
+      if (quotaError) {
+        return res.status(429).json({ error: quotaError });
+      }
+      
+      const backtest = await storage.createBacktest(validatedData);
+      await backtestQueue.enqueue(backtest.id, userId);
+      
+      res.status(201).json(backtest);
+    } catch (error) {
+      console.error("Error creating backtest:", error);
+      res.status(500).json({ error: "Failed to create backtest" });
+    }
+  });
+
+  // Side-by-side view of several backtests; registered before /:id so "compare" is not taken for an id
+  app.get("/api/backtests/compare", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const ids = Array.from(new Set(String(req.query.ids || "").split(",").map(id => Number(id.trim())).filter(id => Number.isInteger(id) && id > 0)));
+      if (ids.length < MIN_COMPARED_BACKTESTS || ids.length > MAX_COMPARED_BACKTESTS) {
+        return res.status(400).json({ error: `Select between ${MIN_COMPARED_BACKTESTS} and ${MAX_COMPARED_BACKTESTS} backtests to compare` });
+      }
+
+      const backtests: Backtest[] = [];
+      for (const id of ids) {
+        const backtest = await storage.getBacktest(id);
+        if (!backtest) {
+          return res.status(404).json({ error: `Backtest ${id} not found` });
+        }
+        if (backtest.userId !== userId) {
+          return res.status(403).json({ error: "Access denied to this backtest" });
+        }
+        if (backtest.status !== "completed") {
+          return res.status(400).json({ error: `Backtest ${backtest.name} has not completed` });
+        }
+        backtests.push(backtest);
+      }
+
+      const trades = new Map<number, BacktestTrade[]>();
+      const strategies = new Map<number, Strategy>();
+      for (const backtest of backtests) {
+        trades.set(backtest.id, await storage.getBacktestTrades(backtest.id));
+        if (backtest.strategyId !== null && !strategies.has(backtest.strategyId)) {
+          const strategy = await storage.getStrategy(backtest.strategyId);
+          if (strategy) {
+            strategies.set(strategy.id, strategy);
+          }
+        }
+      }
+
+      res.json(compareBacktests(backtests, trades, strategies));
+    } catch (error) {
+      console.error("Error comparing backtests:", error);
+      res.status(500).json({ error: "Failed to compare backtests" });
+    }
+  });
+
+  app.get("/api/backtests/:id", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      
+      const backtest = await storage.getBacktest(Number(id));
+      if (!backtest) {
+        return res.status(404).json({ error: "Backtest not found" });
+      }
+      
+      // Ensure user can only access their own backtests
+      if (backtest.userId !== userId) {
+        return res.status(403).json({ error: "Access denied to this backtest" });
+      }
+      
+      res.json(backtest);
+    } catch (error) {
+      console.error("Error fetching backtest:", error);
+      res.status(500).json({ error: "Failed to fetch backtest" });
+    }
+  });
+
+  // Cancel backtest endpoint
+  app.post("/api/backtests/:id/cancel", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      
+      const backtest = await storage.getBacktest(Number(id));
+      if (!backtest) {
+        return res.status(404).json({ error: "Backtest not found" });
+      }
+      
+      // Ensure user can only cancel their own backtests
+      if (backtest.userId !== userId) {
+        return res.status(403).json({ error: "Access denied to this backtest" });
+      }
+      
+      await backtestQueue.cancel(Number(id));
+      res.json({ message: "Backtest cancelled successfully" });
+    } catch (error) {
+      console.error("Error cancelling backtest:", error);
+      res.status(500).json({ error: "Failed to cancel backtest" });
+    }
+  });
+
+  // Delete backtest endpoint
+  app.delete("/api/backtests/:id", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      
+      const backtestId = Number(id);
+      const backtest = await storage.getBacktest(backtestId);
+      if (!backtest) {
+        return res.status(404).json({ error: "Backtest not found" });
+      }
+      
+      // Ensure user can only delete their own backtests
+      if (backtest.userId !== userId) {
+        return res.status(403).json({ error: "Access denied to this backtest" });
+      }
+      
+      // First delete all associated backtest trades
+      const trades = await storage.getBacktestTrades(backtestId);
+      for (const trade of trades) {
+        await storage.updateBacktestTrade(trade.id, { status: 'deleted' });
+      }
+      
+      // Mark backtest as deleted (soft delete)
+      await storage.updateBacktest(backtestId, { 
+        status: "deleted",
+        progressMessage: "Deleted by user"
+      });
+      
+      res.json({ message: "Backtest deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting backtest:", error);
+      res.status(500).json({ error: "Failed to delete backtest" });
+    }
+  });
+
+  // Create backtest from existing (edit/duplicate)
+  app.post("/api/backtests/:id/duplicate", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      
+      const originalBacktest = await storage.getBacktest(Number(id));
+      
+      if (!originalBacktest) {
+        return res.status(404).json({ error: "Original backtest not found" });
+      }
+      
+      // Ensure user can only duplicate their own backtests
+      if (originalBacktest.userId !== userId) {
+        return res.status(403).json({ error: "Access denied to this backtest" });
+      }
+
+      // Parse update data and merge with original
+      const updateData = req.body;
+      const dataSource = updateData.dataSource || originalBacktest.dataSource;
+      const timeframe = updateData.timeframe || originalBacktest.timeframe;
+
+      try {
+        getMarketDataProvider(dataSource);
+        parseTimeframe(timeframe);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      let costModel = originalBacktest.costModel as CostModel | null;
+      if (updateData.costModel) {
+        const parsed = costModelSchema.safeParse(updateData.costModel);
+        if (!parsed.success) {
+          return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid cost model" });
+        }
+        costModel = parsed.data;
+      }
+      
+      // Find the next incremental number for the name
+      const baseName = originalBacktest.name.replace(/_\d+$/, ''); // Remove existing suffix
+      const existingBacktests = await storage.getBacktests(userId);
+      const relatedBacktests = existingBacktests.filter(bt => bt.name.startsWith(baseName));
+      const maxNumber = relatedBacktests.reduce((max, bt) => {
+        const match = bt.name.match(/_(\d+)$/);
+        const num = match ? parseInt(match[1]) : 0;
+        return Math.max(max, num);
+      }, 0);
+      
+      const newName = `${baseName}_${maxNumber + 1}`;
+      
+      const quotaError = await backtestQueue.checkQuota(userId);
+      if (quotaError) {
+        return res.status(429).json({ error: quotaError });
+      }
+      
+      const newBacktest = await storage.createBacktest({
+        userId,
+        strategyId: originalBacktest.strategyId,
+        // Stay on the original strategy version unless the caller asks for the latest one
+        strategyVersionId: updateData.useLatestVersion === true ? null : originalBacktest.strategyVersionId,
+        parameters: originalBacktest.parameters as Record<string, any> | null,
+        name: newName,
+        symbol: updateData.symbol || originalBacktest.symbol,
+        instrumentKey: updateData.symbol ? updateData.instrumentKey || null : originalBacktest.instrumentKey,
+        timeframe,
+        dataSource,
+        costModel,
+        // Picking a different instrument turns a basket backtest into a single-symbol one
+        symbols: updateData.symbol && updateData.symbol !== originalBacktest.symbol ? null : originalBacktest.symbols as string[] | null,
+        portfolio: updateData.symbol && updateData.symbol !== originalBacktest.symbol ? null : originalBacktest.portfolio as PortfolioConfig | null,
+        startDate: updateData.startDate ? new Date(updateData.startDate) : originalBacktest.startDate,
+        endDate: updateData.endDate ? new Date(updateData.endDate) : originalBacktest.endDate,
+        initialCapital: updateData.initialCapital || originalBacktest.initialCapital,
+        status: "pending"
+      });
+      
+      await backtestQueue.enqueue(newBacktest.id, userId);
+      
+      res.status(201).json(newBacktest);
+    } catch (error) {
+      console.error("Error duplicating backtest:", error);
+      res.status(500).json({ error: "Failed to duplicate backtest" });
+    }
+  });
+
+  // Parameter optimization endpoints
+  app.get("/api/optimizations", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const optimizations = await storage.getOptimizations(userId);
+      res.json(optimizations);
+    } catch (error) {
+      console.error("Error fetching optimizations:", error);
+      res.status(500).json({ error: "Failed to fetch optimizations" });
+    }
+  });
+
+  app.post("/api/optimizations", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const parsed = insertOptimizationSchema.safeParse({ ...req.body, userId });
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid optimization", details: parsed.error.errors });
+      }
+      // Sampled sweeps keep their seed so the same combinations can be drawn again
+      const validatedData = { ...parsed.data, seed: parsed.data.seed ?? Math.floor(Math.random() * 2 ** 31) };
+
+      let totalRuns: number;
+      try {
+        getMarketDataProvider(validatedData.backtestConfig.dataSource);
+        parseTimeframe(validatedData.backtestConfig.timeframe);
+        totalRuns = planOptimization(validatedData).totalRuns;
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      const strategy = await storage.getStrategy(validatedData.strategyId!);
+      if (!strategy || strategy.userId !== userId) {
+        return res.status(404).json({ error: "Strategy not found" });
+      }
+      if (validatedData.strategyVersionId) {
+        const version = await storage.getStrategyVersionById(validatedData.strategyVersionId);
+        if (!version || version.strategyId !== strategy.id) {
+          return res.status(400).json({ error: "Strategy version does not belong to this strategy" });
+        }
+      }
+
+      // Every run the optimization will spawn counts against the plan's queue and monthly limits
+      const quotaError = await backtestQueue.checkQuota(userId, totalRuns);
+      if (quotaError) {
+        return res.status(429).json({ error: quotaError });
+      }
+
+      const optimization = await storage.createOptimization(validatedData);
+
+      // Child backtests run one after another in the background
+      runOptimization(optimization.id).catch(error => {
+        console.error("Optimization execution failed:", error);
+      });
+
+      res.status(201).json(optimization);
+    } catch (error) {
+      console.error("Error creating optimization:", error);
+      res.status(500).json({ error: "Failed to create optimization" });
+    }
+  });
+
+  app.get("/api/optimizations/:id", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const optimization = await storage.getOptimization(Number(req.params.id));
+      if (!optimization) {
+        return res.status(404).json({ error: "Optimization not found" });
+      }
+      if (optimization.userId !== req.user?.id) {
+        return res.status(403).json({ error: "Access denied to this optimization" });
+      }
+
+      res.json(optimization);
+    } catch (error) {
+      console.error("Error fetching optimization:", error);
+      res.status(500).json({ error: "Failed to fetch optimization" });
+    }
+  });
+
+  app.post("/api/optimizations/:id/cancel", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const optimization = await storage.getOptimization(Number(req.params.id));
+      if (!optimization) {
+        return res.status(404).json({ error: "Optimization not found" });
+      }
+      if (optimization.userId !== req.user?.id) {
+        return res.status(403).json({ error: "Access denied to this optimization" });
+      }
+
+      await cancelOptimization(optimization.id);
+      res.json({ message: "Optimization cancelled successfully" });
+    } catch (error) {
+      console.error("Error cancelling optimization:", error);
+      res.status(500).json({ error: "Failed to cancel optimization" });
+    }
+  });
+
+  app.get("/api/market-data/sources", requireAuthFlexible, async (req: any, res) => {
+    res.json(listMarketDataProviders());
+  });
+
+  // Index groups from the EOD price report that can be backtested as baskets
+  app.get("/api/market-data/baskets", requireAuthFlexible, async (req: any, res) => {
+    try {
+      res.json(await storage.getEodIndexGroups());
+    } catch (error) {
+      console.error("Error fetching index baskets:", error);
+      res.status(500).json({ error: "Failed to fetch index baskets" });
+    }
+  });
+
+  // Candle store endpoints
+  app.get("/api/candles", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const { from, to, ...query } = req.query;
+      const parsed = candleRangeSchema.safeParse({ ...query, startDate: from, endDate: to });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid candle range" });
+      }
+      try {
+        parseTimeframe(parsed.data.timeframe);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      const { candles } = await getResampledCandles(getMarketDataProvider("database"), {
+        ...parsed.data,
+        userId: req.user.id,
+      });
+      res.json(candles);
+    } catch (error: any) {
+      console.error("Error fetching candles:", error);
+      res.status(500).json({ error: error.message || "Failed to fetch candles" });
+    }
+  });
+
+  app.post("/api/candles/sync", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const parsed = candleRangeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid candle range" });
+      }
+      try {
+        parseTimeframe(parsed.data.timeframe);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      const result = await candleSyncService.syncCandles({
+        ...parsed.data,
+        userId: req.user.id,
+      });
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error syncing candles:", error);
+      res.status(500).json({ error: error.message || "Failed to sync candles" });
+    }
+  });
+
+  // Instrument master endpoints
+  app.get("/api/instruments/search", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const { q = "", segment, type, limit } = req.query;
+      const results = await instrumentService.search(
+        String(q),
+        {
+          segment: segment ? String(segment) : undefined,
+          instrumentType: type ? String(type) : undefined,
+        },
+        limit ? parseInt(String(limit)) || 20 : 20
+      );
+      res.json(results);
+    } catch (error) {
+      console.error("Error searching instruments:", error);
+      res.status(500).json({ error: "Failed to search instruments" });
+    }
+  });
+
+  app.post("/api/instruments/import", requireAuthFlexible, async (req: any, res) => {
+    try {
+      if (req.user?.role !== 'admin') {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const result = await instrumentService.importFromFile(req.body?.file || undefined);
+
+      await storage.createLog({
+        level: 'info',
+        module: 'Data Fetcher',
+        message: `Imported ${result.imported} instruments`,
+        data: result,
+      });
+
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error importing instruments:", error);
+      res.status(500).json({ error: error.message || "Failed to import instruments" });
+    }
+  });
+
+  // Get backtest trades endpoint
+  app.get("/api/backtests/:id/trades", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+      
+      const backtest = await storage.getBacktest(Number(id));
+      if (!backtest) {
+        return res.status(404).json({ error: "Backtest not found" });
+      }
+      
+      // Ensure user can only access trades from their own backtests
+      if (backtest.userId !== userId) {
+        return res.status(403).json({ error: "Access denied to this backtest" });
+      }
+      
+      const trades = await storage.getBacktestTrades(Number(id));
+      res.json(trades);
+    } catch (error) {
+      console.error("Error fetching backtest trades:", error);
+      res.status(500).json({ error: "Failed to fetch backtest trades" });
+    }
+  });
+
+  // Reruns a completed backtest with exactly the same settings; the new run's results.rerun flags any drift
+  app.post("/api/backtests/:id/rerun", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const original = await storage.getBacktest(Number(req.params.id));
+      if (!original) {
+        return res.status(404).json({ error: "Backtest not found" });
+      }
+      if (original.userId !== userId) {
+        return res.status(403).json({ error: "Access denied to this backtest" });
+      }
+      if (original.status !== "completed") {
+        return res.status(400).json({ error: "Only completed backtests can be rerun" });
+      }
+
+      const quotaError = await backtestQueue.checkQuota(userId);
+      if (quotaError) {
+        return res.status(429).json({ error: quotaError });
+      }
+
+      const rerun = await storage.createBacktest({
+        userId,
+        strategyId: original.strategyId,
+        strategyVersionId: original.strategyVersionId,
+        name: `${original.name} (rerun)`,
+        symbol: original.symbol,
+        symbols: original.symbols as string[] | null,
+        portfolio: original.portfolio as PortfolioConfig | null,
+        instrumentKey: original.instrumentKey,
+        timeframe: original.timeframe,
+        dataSource: original.dataSource,
+        costModel: original.costModel as CostModel | null,
+        parameters: original.parameters as Record<string, any> | null,
+        startDate: original.startDate,
+        endDate: original.endDate,
+        initialCapital: original.initialCapital,
+        rerunOfId: original.id,
+        status: "pending"
+      });
+      await backtestQueue.enqueue(rerun.id, userId);
+
+      res.status(201).json(rerun);
+    } catch (error) {
+      console.error("Error rerunning backtest:", error);
+      res.status(500).json({ error: "Failed to rerun backtest" });
+    }
+  });
+
+  // Downloadable report: CSV trades (or equity curve with section=equity), full JSON results, or an HTML tearsheet
+  app.get("/api/backtests/:id/export", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const format = String(req.query.format || "json") as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `format must be one of ${EXPORT_FORMATS.join(", ")}` });
+      }
+
+      const backtest = await storage.getBacktest(Number(req.params.id));
+      if (!backtest) {
+        return res.status(404).json({ error: "Backtest not found" });
+      }
+      if (backtest.userId !== userId) {
+        return res.status(403).json({ error: "Access denied to this backtest" });
+      }
+      if (backtest.status !== "completed") {
+        return res.status(400).json({ error: "Only completed backtests can be exported" });
+      }
+
+      const trades = await storage.getBacktestTrades(backtest.id);
+      const strategy = backtest.strategyId !== null ? await storage.getStrategy(backtest.strategyId) : undefined;
+      const report = buildBacktestReport(backtest, trades, strategy);
+
+      if (format === "csv") {
+        const equity = req.query.section === "equity";
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename=${exportFilename(backtest, "csv", equity ? "-equity" : "-trades")}`);
+        res.send(equity ? equityCurveCsv(report) : tradesCsv(report));
+      } else if (format === "html") {
+        res.setHeader('Content-Type', 'text/html; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename=${exportFilename(backtest, "html")}`);
+        res.send(backtestReportHtml(report));
+      } else {
+        res.setHeader('Content-Disposition', `attachment; filename=${exportFilename(backtest, "json")}`);
+        res.json(report);
+      }
+    } catch (error) {
+      console.error("Error exporting backtest:", error);
+      res.status(500).json({ error: "Failed to export backtest" });
+    }
+  });
+
+  // Monte Carlo resampling of a completed backtest's closed trades
+  app.get("/api/backtests/:id/monte-carlo", requireAuthFlexible, async (req: any, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const backtest = await storage.getBacktest(Number(req.params.id));
+      if (!backtest) {
+        return res.status(404).json({ error: "Backtest not found" });
+      }
+      if (backtest.userId !== userId) {
+        return res.status(403).json({ error: "Access denied to this backtest" });
+      }
+      if (backtest.status !== "completed") {
+        return res.status(400).json({ error: "Monte Carlo analysis needs a completed backtest" });
+      }
+
+      const { simulations, method, ruin, seed } = req.query;
+      if (method && method !== "shuffle" && method !== "bootstrap") {
+        return res.status(400).json({ error: "method must be shuffle or bootstrap" });
+      }
+
+      const trades = (await storage.getBacktestTrades(backtest.id))
+        .filter(trade => trade.status !== "deleted" && trade.pnl !== null && trade.exitTime)
+        .sort((a, b) => a.exitTime!.getTime() - b.exitTime!.getTime());
+      if (trades.length < 2) {
+        return res.status(400).json({ error: "Monte Carlo analysis needs at least two closed trades" });
+      }
+
+      const result = runMonteCarlo(trades.map(trade => Number(trade.pnl)), Number(backtest.initialCapital), {
+        simulations: simulations ? Number(simulations) : undefined,
+        method: method as "shuffle" | "bootstrap" | undefined,
+        ruinDrawdown: ruin ? Number(ruin) : undefined,
+        seed: seed ? Number(seed) : undefined,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error running Monte Carlo analysis:", error);
+      res.status(500).json({ error: "Failed to run Monte Carlo analysis" });
+    }
+  });
+
+  // Modules endpoints
+  app.get("/api/modules", async (req, res) => {
+    try {
+      const modules = await storage.getModules();
+      res.json(modules);
+    } catch (error) {
+      console.error("Error fetching modules:", error);
+      res.status(500).json({ error: "Failed to fetch modules" });
+    }
+  });
+
+  app.post("/api/modules/:id/toggle", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { action } = req.body; // 'start' or 'stop'
+      
+      const module = await storage.getModule(Number(id));
+      if (!module) {
+        return res.status(404).json({ error: "Module not found" });
+      }
+      
+      let newStatus: string;
+      let statusMessage: string;
+      
+      if (action === 'start') {
+        newStatus = "running";
+        statusMessage = `${module.name} started successfully`;
+        
+        // Add specific startup logic for different modules
+        switch (module.name) {
+          case 'Data Fetcher':
+            console.log(`Starting data fetcher module for real-time market data`);
+            candleSyncService.start(module.config as any);
+            break;
+          case 'Strategy Engine':
+            console.log(`Starting strategy engine - all automated strategies activated`);
+            break;
+          case 'Order Manager':
+            console.log(`Starting order manager - trade execution enabled`);
+            orderManager.start();
+            break;
           case 'Risk Manager':
             console.log(`Starting risk manager - automatic risk controls activated`);
             break;
           case 'Portfolio Sync':
             console.log(`Starting portfolio sync - broker synchronization enabled`);
+            portfolioSyncService.start(module.config as any);
             break;
         }
       } else if (action === 'stop') {
@@ -1170,18 +2254,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         switch (module.name) {
           case 'Data Fetcher':
             console.log(`Stopping data fetcher - real-time market data collection halted`);
+            candleSyncService.stop();
             break;
           case 'Strategy Engine':
             console.log(`Stopping strategy engine - all automated strategies deactivated`);
             break;
           case 'Order Manager':
             console.log(`Stopping order manager - trade execution disabled`);
+            orderManager.stop();
             break;
           case 'Risk Manager':
             console.log(`Stopping risk manager - automatic risk controls disabled`);
             break;
           case 'Portfolio Sync':
             console.log(`Stopping portfolio sync - broker synchronization disabled`);
+            portfolioSyncService.stop();
             break;
         }
       } else {
@@ -1812,19 +2899,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/upstox/place-order", async (req, res) => {
+  // Older clients send Upstox's own order fields; they go through the order manager like /api/orders
+  app.post("/api/upstox/place-order", requireAuthFlexible, async (req: any, res) => {
     try {
-      const userId = 1; // In real app, get from session
-      const accessToken = await getValidUpstoxToken(userId, storage);
-      
-      if (!accessToken) {
-        return res.status(401).json({ error: "Upstox account not linked or token expired" });
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
       }
 
-      const orderData = req.body;
-      const result = await upstoxService.placeOrder(orderData, accessToken);
-      res.json(result);
-    } catch (error) {
+      const body = req.body || {};
+      const parsed = placeOrderSchema.safeParse({
+        instrumentKey: body.instrument_token,
+        symbol: body.symbol || body.instrument_token,
+        side: body.transaction_type,
+        orderType: body.order_type,
+        product: body.product,
+        validity: body.validity,
+        quantity: body.quantity,
+        price: Number(body.price) > 0 ? Number(body.price) : undefined,
+        triggerPrice: Number(body.trigger_price) > 0 ? Number(body.trigger_price) : undefined,
+        disclosedQuantity: body.disclosed_quantity,
+        isAmo: body.is_amo,
+        tag: body.tag || undefined,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid order" });
+      }
+
+      const order = await orderManager.placeOrder(userId, parsed.data);
+      if (order.status === "rejected") {
+        return res.status(422).json({ error: order.statusMessage || "Order rejected", order });
+      }
+      res.json({ status: "success", data: { order_id: order.brokerOrderId }, order });
+    } catch (error: any) {
+      if (error instanceof OrderError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("Error placing order:", error);
       res.status(500).json({ error: "Failed to place order" });
     }
@@ -1,13 +1,19 @@
 import { 
-  users, accounts, positions, trades, strategies, exclusiveStrategies, eodPriceReport, backtests, backtestTrades, modules, logs, configurations,
+  users, accounts, positions, trades, orders, paperTradingSessions, strategies, strategyVersions, exclusiveStrategies, eodPriceReport, backtests, backtestTrades, backtestJobs, optimizations, instruments, candles, modules, logs, configurations,
   subscriptionPlans, userSubscriptions, paymentMethods, paymentTransactions, usageAnalytics,
   learningPaths, lessons, quizzes, userProgress, achievements, userAchievements, userStats,
   type User, type InsertUser, type Account, type InsertAccount,
-  type Position, type InsertPosition, type Trade, type InsertTrade,
-  type Strategy, type InsertStrategy, type ExclusiveStrategy, type InsertExclusiveStrategy,
+  type Position, type InsertPosition, type Trade, type InsertTrade, type TradingMode,
+  type Order, type InsertOrder, type OrderStatus,
+  type PaperTradingSession, type InsertPaperTradingSession,
+  type Strategy, type InsertStrategy, type StrategyVersion, type InsertStrategyVersion, type ExclusiveStrategy, type InsertExclusiveStrategy,
   type EodPriceReport, type InsertEodPriceReport,
   type Backtest, type InsertBacktest,
+  type BacktestJob, type InsertBacktestJob,
+  type Optimization, type InsertOptimization,
   type BacktestTrade, type InsertBacktestTrade,
+  type Instrument, type InsertInstrument,
+  type StoredCandle, type InsertStoredCandle,
   type Module, type InsertModule, type Log, type InsertLog,
   type Configuration, type InsertConfiguration,
   type SubscriptionPlan, type InsertSubscriptionPlan,
@@ -21,7 +27,13 @@ import {
   type UserStats, type InsertUserStats
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, ne, gte, lte, like, or } from "drizzle-orm";
+import { eq, desc, and, ne, gte, lte, like, ilike, or, sql, isNull, isNotNull, asc, inArray } from "drizzle-orm";
+
+// Rows per INSERT when writing a backtest's trades; keeps statements under Postgres' parameter limit
+const TRADE_INSERT_CHUNK_SIZE = 500;
+
+// Lets a write join a transaction the caller already holds
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 export interface IStorage {
   // User operations
@@ -34,18 +46,43 @@ export interface IStorage {
   // Account operations
   getAccount(userId: number): Promise<Account | undefined>;
   updateAccount(userId: number, data: Partial<InsertAccount>): Promise<Account>;
+  // Accounts with an Upstox token, for background broker syncs
+  getLinkedAccounts(): Promise<Account[]>;
   createAccount(account: InsertAccount): Promise<Account>;
 
   // Position operations
-  getPositions(userId: number): Promise<Position[]>;
-  getOpenPositions(userId: number): Promise<Position[]>;
+  getPositions(userId: number, mode?: TradingMode): Promise<Position[]>;
+  getOpenPositions(userId: number, mode?: TradingMode): Promise<Position[]>;
   createPosition(position: InsertPosition): Promise<Position>;
   updatePosition(id: number, data: Partial<InsertPosition>): Promise<Position>;
 
   // Trade operations
-  getTrades(userId: number): Promise<Trade[]>;
-  getTradeHistory(userId: number, limit: number, offset: number): Promise<Trade[]>;
-  createTrade(trade: InsertTrade): Promise<Trade>;
+  getTrades(userId: number, mode?: TradingMode): Promise<Trade[]>;
+  getTradeHistory(userId: number, limit: number, offset: number, mode?: TradingMode): Promise<Trade[]>;
+  getTradeByBrokerId(userId: number, brokerTradeId: string): Promise<Trade | undefined>;
+  // Sum of realized P&L on trades executed at or after `since`
+  getRealizedPnlSince(userId: number, since: Date, mode?: TradingMode): Promise<number>;
+  // executedAt defaults to now; paper fills pass the candle time
+  createTrade(trade: InsertTrade & { executedAt?: Date }): Promise<Trade>;
+
+  // Order operations
+  getOrders(userId: number, status?: OrderStatus, limit?: number): Promise<Order[]>;
+  getOrder(id: number): Promise<Order | undefined>;
+  getOrderByBrokerId(userId: number, brokerOrderId: string): Promise<Order | undefined>;
+  // Orders in any of the given statuses, across users
+  getOrdersByStatus(statuses: OrderStatus[]): Promise<Order[]>;
+  createOrder(order: InsertOrder): Promise<Order>;
+  updateOrder(id: number, data: Partial<Order>): Promise<Order>;
+
+  // Paper trading operations
+  getPaperTradingSessions(userId: number): Promise<PaperTradingSession[]>;
+  getPaperTradingSession(id: number): Promise<PaperTradingSession | undefined>;
+  getPaperTradingSessionsByStatus(status: string): Promise<PaperTradingSession[]>;
+  getStrategyPaperTradingSessions(strategyId: number): Promise<PaperTradingSession[]>;
+  createPaperTradingSession(session: InsertPaperTradingSession): Promise<PaperTradingSession>;
+  updatePaperTradingSession(id: number, data: Partial<PaperTradingSession>): Promise<PaperTradingSession>;
+  getPaperSessionTrades(sessionId: number): Promise<Trade[]>;
+  getPaperSessionPositions(sessionId: number): Promise<Position[]>;
 
   // Strategy operations
   getStrategies(userId: number): Promise<Strategy[]>;
@@ -53,6 +90,13 @@ export interface IStorage {
   createStrategy(strategy: InsertStrategy): Promise<Strategy>;
   updateStrategy(id: number, data: Partial<Strategy>): Promise<Strategy>;
 
+  // Strategy version operations
+  getStrategyVersions(strategyId: number): Promise<StrategyVersion[]>;
+  getStrategyVersion(strategyId: number, version: number): Promise<StrategyVersion | undefined>;
+  getStrategyVersionById(id: number): Promise<StrategyVersion | undefined>;
+  getCurrentStrategyVersion(strategyId: number): Promise<StrategyVersion | undefined>;
+  createStrategyVersion(version: InsertStrategyVersion): Promise<StrategyVersion>;
+
   // Exclusive strategy operations
   getExclusiveStrategies(): Promise<ExclusiveStrategy[]>;
   getExclusiveStrategy(id: number): Promise<ExclusiveStrategy | undefined>;
@@ -64,15 +108,48 @@ export interface IStorage {
   getBacktest(id: number): Promise<Backtest | undefined>;
   createBacktest(backtest: InsertBacktest): Promise<Backtest>;
   updateBacktest(id: number, data: Partial<Backtest>): Promise<Backtest>;
+  completeBacktest(id: number, trades: InsertBacktestTrade[], data: Partial<Backtest>): Promise<Backtest>;
+  getOptimizationBacktests(optimizationId: number): Promise<Backtest[]>;
+  countUserBacktestsSince(userId: number, since: Date): Promise<number>;
+
+  // Backtest job queue operations
+  createBacktestJob(job: InsertBacktestJob): Promise<BacktestJob>;
+  getBacktestJobByBacktestId(backtestId: number): Promise<BacktestJob | undefined>;
+  updateBacktestJob(id: number, data: Partial<BacktestJob>): Promise<BacktestJob>;
+  claimNextBacktestJob(workerId: string, excludeUserIds: number[]): Promise<BacktestJob | undefined>;
+  countUserBacktestJobs(userId: number): Promise<{ queued: number; running: number }>;
+  getRunningBacktestJobCounts(): Promise<Array<{ userId: number; running: number }>>;
+  requeueStaleBacktestJobs(staleBefore: Date): Promise<BacktestJob[]>;
+  cancelStaleBacktestJobs(staleBefore: Date): Promise<BacktestJob[]>;
+
+  // Optimization operations
+  getOptimizations(userId: number): Promise<Optimization[]>;
+  getOptimization(id: number): Promise<Optimization | undefined>;
+  createOptimization(optimization: InsertOptimization): Promise<Optimization>;
+  updateOptimization(id: number, data: Partial<Optimization>): Promise<Optimization>;
+  claimStaleOptimizations(workerId: string, staleBefore: Date): Promise<Optimization[]>;
   
   // Backtest trades operations
   getBacktestTrades(backtestId: number): Promise<BacktestTrade[]>;
   createBacktestTrade(trade: InsertBacktestTrade): Promise<BacktestTrade>;
+  createBacktestTrades(trades: InsertBacktestTrade[], tx?: DbTransaction): Promise<number>;
   updateBacktestTrade(id: number, data: Partial<BacktestTrade>): Promise<BacktestTrade>;
 
+  // Instrument master operations
+  getInstrument(instrumentKey: string): Promise<Instrument | undefined>;
+  getInstrumentsBySymbol(tradingSymbol: string): Promise<Instrument[]>;
+  searchInstruments(query: string, filters: { segment?: string; instrumentType?: string }, limit: number): Promise<Instrument[]>;
+  upsertInstruments(rows: InsertInstrument[]): Promise<number>;
+
+  // Candle store operations
+  getCandles(instrumentKey: string, interval: string, from: Date, to: Date): Promise<StoredCandle[]>;
+  getCandleCountsByDate(instrumentKey: string, interval: string, from: Date, to: Date): Promise<Array<{ tradeDate: string; count: number }>>;
+  upsertCandles(rows: InsertStoredCandle[]): Promise<number>;
+
   // Module operations
   getModules(): Promise<Module[]>;
   getModule(id: number): Promise<Module | undefined>;
+  getModuleByName(name: string): Promise<Module | undefined>;
   createModule(module: InsertModule): Promise<Module>;
   updateModule(id: number, data: Partial<Module>): Promise<Module>;
 
@@ -152,6 +229,13 @@ export interface IStorage {
   getEodSymbols(): Promise<string[]>;
   getEodExpiryDates(): Promise<string[]>;
   getEodPriceBySymbol(symbol: string, expiryDt: string, tradeDate: string): Promise<EodPriceReport | undefined>;
+  getEodIndexGroups(): Promise<Array<{ indexGroup: string; symbols: number }>>;
+  getIndexConstituents(indexGroup: string, asOf?: string): Promise<string[]>;
+}
+
+// Escapes LIKE metacharacters with Postgres' default backslash escape
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
 }
 
 export class DatabaseStorage implements IStorage {
@@ -203,6 +287,10 @@ export class DatabaseStorage implements IStorage {
     return account;
   }
 
+  async getLinkedAccounts(): Promise<Account[]> {
+    return await db.select().from(accounts).where(isNotNull(accounts.upstoxAccessToken));
+  }
+
   async createAccount(account: InsertAccount): Promise<Account> {
     const [newAccount] = await db
       .insert(accounts)
@@ -212,13 +300,16 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Position operations
-  async getPositions(userId: number): Promise<Position[]> {
-    return await db.select().from(positions).where(eq(positions.userId, userId)).orderBy(desc(positions.createdAt));
+  // Paper positions are kept apart from live ones unless asked for
+  async getPositions(userId: number, mode: TradingMode = "live"): Promise<Position[]> {
+    return await db.select().from(positions)
+      .where(and(eq(positions.userId, userId), eq(positions.mode, mode)))
+      .orderBy(desc(positions.createdAt));
   }
 
-  async getOpenPositions(userId: number): Promise<Position[]> {
+  async getOpenPositions(userId: number, mode: TradingMode = "live"): Promise<Position[]> {
     return await db.select().from(positions)
-      .where(and(eq(positions.userId, userId), eq(positions.isOpen, true)))
+      .where(and(eq(positions.userId, userId), eq(positions.isOpen, true), eq(positions.mode, mode)))
       .orderBy(desc(positions.createdAt));
   }
 
@@ -240,19 +331,33 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Trade operations
-  async getTrades(userId: number): Promise<Trade[]> {
-    return await db.select().from(trades).where(eq(trades.userId, userId)).orderBy(desc(trades.executedAt));
+  async getTrades(userId: number, mode: TradingMode = "live"): Promise<Trade[]> {
+    return await db.select().from(trades)
+      .where(and(eq(trades.userId, userId), eq(trades.mode, mode)))
+      .orderBy(desc(trades.executedAt));
   }
 
-  async getTradeHistory(userId: number, limit: number, offset: number): Promise<Trade[]> {
+  async getTradeByBrokerId(userId: number, brokerTradeId: string): Promise<Trade | undefined> {
+    const [trade] = await db.select().from(trades)
+      .where(and(eq(trades.userId, userId), eq(trades.brokerTradeId, brokerTradeId)));
+    return trade || undefined;
+  }
+
+  async getRealizedPnlSince(userId: number, since: Date, mode: TradingMode = "live"): Promise<number> {
+    const [result] = await db.select({ pnl: sql<string | null>`sum(${trades.pnl})` }).from(trades)
+      .where(and(eq(trades.userId, userId), eq(trades.mode, mode), gte(trades.executedAt, since)));
+    return Number(result?.pnl ?? 0);
+  }
+
+  async getTradeHistory(userId: number, limit: number, offset: number, mode: TradingMode = "live"): Promise<Trade[]> {
     return await db.select().from(trades)
-      .where(eq(trades.userId, userId))
+      .where(and(eq(trades.userId, userId), eq(trades.mode, mode)))
       .orderBy(desc(trades.executedAt))
       .limit(limit)
       .offset(offset);
   }
 
-  async createTrade(trade: InsertTrade): Promise<Trade> {
+  async createTrade(trade: InsertTrade & { executedAt?: Date }): Promise<Trade> {
     const [newTrade] = await db
       .insert(trades)
       .values(trade)
@@ -260,6 +365,105 @@ export class DatabaseStorage implements IStorage {
     return newTrade;
   }
 
+  // Order operations
+  async getOrders(userId: number, status?: OrderStatus, limit: number = 100): Promise<Order[]> {
+    const conditions = [eq(orders.userId, userId)];
+    if (status) {
+      conditions.push(eq(orders.status, status));
+    }
+    return await db.select().from(orders)
+      .where(and(...conditions))
+      .orderBy(desc(orders.createdAt))
+      .limit(limit);
+  }
+
+  async getOrder(id: number): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, id));
+    return order || undefined;
+  }
+
+  async getOrderByBrokerId(userId: number, brokerOrderId: string): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders)
+      .where(and(eq(orders.userId, userId), eq(orders.brokerOrderId, brokerOrderId)));
+    return order || undefined;
+  }
+
+  async getOrdersByStatus(statuses: OrderStatus[]): Promise<Order[]> {
+    return await db.select().from(orders).where(inArray(orders.status, statuses));
+  }
+
+  async createOrder(order: InsertOrder): Promise<Order> {
+    const [newOrder] = await db
+      .insert(orders)
+      .values(order)
+      .returning();
+    return newOrder;
+  }
+
+  async updateOrder(id: number, data: Partial<Order>): Promise<Order> {
+    const [order] = await db
+      .update(orders)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(orders.id, id))
+      .returning();
+    return order;
+  }
+
+  // Paper trading operations
+  async getPaperTradingSessions(userId: number): Promise<PaperTradingSession[]> {
+    return await db.select().from(paperTradingSessions)
+      .where(eq(paperTradingSessions.userId, userId))
+      .orderBy(desc(paperTradingSessions.createdAt));
+  }
+
+  async getPaperTradingSession(id: number): Promise<PaperTradingSession | undefined> {
+    const [session] = await db.select().from(paperTradingSessions).where(eq(paperTradingSessions.id, id));
+    return session || undefined;
+  }
+
+  async getPaperTradingSessionsByStatus(status: string): Promise<PaperTradingSession[]> {
+    return await db.select().from(paperTradingSessions).where(eq(paperTradingSessions.status, status));
+  }
+
+  async getStrategyPaperTradingSessions(strategyId: number): Promise<PaperTradingSession[]> {
+    return await db.select().from(paperTradingSessions).where(eq(paperTradingSessions.strategyId, strategyId));
+  }
+
+  async createPaperTradingSession(session: InsertPaperTradingSession): Promise<PaperTradingSession> {
+    // Pinned to the strategy's current code, like a backtest
+    let strategyVersionId = session.strategyVersionId ?? null;
+    if (strategyVersionId === null) {
+      strategyVersionId = (await this.getCurrentStrategyVersion(session.strategyId))?.id ?? null;
+    }
+
+    const [newSession] = await db
+      .insert(paperTradingSessions)
+      .values({ ...session, strategyVersionId, cash: session.initialCapital })
+      .returning();
+    return newSession;
+  }
+
+  async updatePaperTradingSession(id: number, data: Partial<PaperTradingSession>): Promise<PaperTradingSession> {
+    const [session] = await db
+      .update(paperTradingSessions)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(paperTradingSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async getPaperSessionTrades(sessionId: number): Promise<Trade[]> {
+    return await db.select().from(trades)
+      .where(eq(trades.paperSessionId, sessionId))
+      .orderBy(desc(trades.executedAt));
+  }
+
+  async getPaperSessionPositions(sessionId: number): Promise<Position[]> {
+    return await db.select().from(positions)
+      .where(eq(positions.paperSessionId, sessionId))
+      .orderBy(desc(positions.createdAt));
+  }
+
   // Strategy operations
   async getStrategies(userId: number): Promise<Strategy[]> {
     return await db.select().from(strategies).where(eq(strategies.userId, userId)).orderBy(desc(strategies.createdAt));
@@ -271,11 +475,21 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createStrategy(strategy: InsertStrategy): Promise<Strategy> {
-    const [newStrategy] = await db
-      .insert(strategies)
-      .values(strategy)
-      .returning();
-    return newStrategy;
+    return await db.transaction(async (tx) => {
+      const [newStrategy] = await tx
+        .insert(strategies)
+        .values({ ...strategy, currentVersion: 1 })
+        .returning();
+      await tx.insert(strategyVersions).values({
+        strategyId: newStrategy.id,
+        version: 1,
+        code: newStrategy.code,
+        parameters: newStrategy.parameters,
+        changeNote: "Initial version",
+        createdBy: newStrategy.userId,
+      });
+      return newStrategy;
+    });
   }
 
   async updateStrategy(id: number, data: Partial<Strategy>): Promise<Strategy> {
@@ -287,6 +501,81 @@ export class DatabaseStorage implements IStorage {
     return strategy;
   }
 
+  // Strategy version operations
+  async getStrategyVersions(strategyId: number): Promise<StrategyVersion[]> {
+    return await db.select().from(strategyVersions)
+      .where(eq(strategyVersions.strategyId, strategyId))
+      .orderBy(desc(strategyVersions.version));
+  }
+
+  async getStrategyVersion(strategyId: number, version: number): Promise<StrategyVersion | undefined> {
+    const [strategyVersion] = await db.select().from(strategyVersions)
+      .where(and(eq(strategyVersions.strategyId, strategyId), eq(strategyVersions.version, version)));
+    return strategyVersion || undefined;
+  }
+
+  async getStrategyVersionById(id: number): Promise<StrategyVersion | undefined> {
+    const [strategyVersion] = await db.select().from(strategyVersions).where(eq(strategyVersions.id, id));
+    return strategyVersion || undefined;
+  }
+
+  async getCurrentStrategyVersion(strategyId: number): Promise<StrategyVersion | undefined> {
+    const strategy = await this.getStrategy(strategyId);
+    if (!strategy) {
+      return undefined;
+    }
+    const version = strategy.currentVersion ?? 1;
+    const existing = await this.getStrategyVersion(strategyId, version);
+    if (existing) {
+      return existing;
+    }
+
+    // Strategies saved before versioning have no history yet; their current code becomes the first entry
+    const [created] = await db
+      .insert(strategyVersions)
+      .values({
+        strategyId,
+        version,
+        code: strategy.code,
+        parameters: strategy.parameters,
+        changeNote: "Initial version",
+        createdBy: strategy.userId,
+      })
+      .onConflictDoNothing()
+      .returning();
+    return created || await this.getStrategyVersion(strategyId, version);
+  }
+
+  // Appends the next version and makes it the strategy's current code and parameters
+  async createStrategyVersion(version: InsertStrategyVersion): Promise<StrategyVersion> {
+    // Make sure a legacy strategy's original code is kept as its own version first
+    await this.getCurrentStrategyVersion(version.strategyId);
+
+    return await db.transaction(async (tx) => {
+      // Locking the strategy row serializes concurrent saves of the same strategy
+      await tx.execute(sql`select id from ${strategies} where ${strategies.id} = ${version.strategyId} for update`);
+      const [{ latest }] = await tx
+        .select({ latest: sql<number>`coalesce(max(${strategyVersions.version}), 0)` })
+        .from(strategyVersions)
+        .where(eq(strategyVersions.strategyId, version.strategyId));
+
+      const [newVersion] = await tx
+        .insert(strategyVersions)
+        .values({ ...version, version: Number(latest) + 1 })
+        .returning();
+      await tx
+        .update(strategies)
+        .set({
+          code: newVersion.code,
+          parameters: newVersion.parameters,
+          currentVersion: newVersion.version,
+          updatedAt: new Date(),
+        })
+        .where(eq(strategies.id, version.strategyId));
+      return newVersion;
+    });
+  }
+
   // Exclusive strategy operations
   async getExclusiveStrategies(): Promise<ExclusiveStrategy[]> {
     return await db.select().from(exclusiveStrategies).where(eq(exclusiveStrategies.isActive, true)).orderBy(desc(exclusiveStrategies.createdAt));
@@ -315,8 +604,9 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Backtest operations
+  // Runs spawned by optimizations are listed under their optimization instead
   async getBacktests(userId: number): Promise<Backtest[]> {
-    return await db.select().from(backtests).where(and(eq(backtests.userId, userId), or(eq(backtests.status, "completed"), eq(backtests.status, "running"), eq(backtests.status, "pending"), eq(backtests.status, "error"), eq(backtests.status, "cancelled")))).orderBy(desc(backtests.createdAt));
+    return await db.select().from(backtests).where(and(eq(backtests.userId, userId), isNull(backtests.optimizationId), or(eq(backtests.status, "completed"), eq(backtests.status, "running"), eq(backtests.status, "pending"), eq(backtests.status, "error"), eq(backtests.status, "cancelled")))).orderBy(desc(backtests.createdAt));
   }
 
   async getBacktest(id: number): Promise<Backtest | undefined> {
@@ -325,9 +615,15 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createBacktest(backtest: InsertBacktest): Promise<Backtest> {
+    // Pin the run to the strategy's current code unless the caller chose a version
+    let strategyVersionId = backtest.strategyVersionId ?? null;
+    if (strategyVersionId === null && backtest.strategyId) {
+      strategyVersionId = (await this.getCurrentStrategyVersion(backtest.strategyId))?.id ?? null;
+    }
+
     const [newBacktest] = await db
       .insert(backtests)
-      .values(backtest)
+      .values({ ...backtest, strategyVersionId })
       .returning();
     return newBacktest;
   }
@@ -341,6 +637,175 @@ export class DatabaseStorage implements IStorage {
     return backtest;
   }
 
+  // Replaces the trade list and writes the final row in one transaction, so a failed run never leaves partial trades
+  async completeBacktest(id: number, trades: InsertBacktestTrade[], data: Partial<Backtest>): Promise<Backtest> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(backtestTrades).where(eq(backtestTrades.backtestId, id));
+      await this.createBacktestTrades(trades, tx);
+      const [backtest] = await tx
+        .update(backtests)
+        .set({ ...data })
+        .where(eq(backtests.id, id))
+        .returning();
+      return backtest;
+    });
+  }
+
+  async getOptimizationBacktests(optimizationId: number): Promise<Backtest[]> {
+    return await db.select().from(backtests).where(eq(backtests.optimizationId, optimizationId)).orderBy(asc(backtests.id));
+  }
+
+  // Includes the runs spawned by optimizations, which use the plan's allowance like any other backtest
+  async countUserBacktestsSince(userId: number, since: Date): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(backtests)
+      .where(and(eq(backtests.userId, userId), gte(backtests.createdAt, since)));
+    return result?.count ?? 0;
+  }
+
+  // Backtest job queue operations
+  async createBacktestJob(job: InsertBacktestJob): Promise<BacktestJob> {
+    const [newJob] = await db
+      .insert(backtestJobs)
+      .values(job)
+      .returning();
+    return newJob;
+  }
+
+  async getBacktestJobByBacktestId(backtestId: number): Promise<BacktestJob | undefined> {
+    const [job] = await db.select().from(backtestJobs).where(eq(backtestJobs.backtestId, backtestId));
+    return job || undefined;
+  }
+
+  async updateBacktestJob(id: number, data: Partial<BacktestJob>): Promise<BacktestJob> {
+    const [job] = await db
+      .update(backtestJobs)
+      .set({ ...data })
+      .where(eq(backtestJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  // Oldest runnable job, skipping users already at their concurrency limit
+  async claimNextBacktestJob(workerId: string, excludeUserIds: number[]): Promise<BacktestJob | undefined> {
+    const excluded = excludeUserIds.length > 0
+      ? sql`and (${backtestJobs.userId} is null or ${backtestJobs.userId} not in (${sql.join(excludeUserIds.map(id => sql`${id}`), sql`, `)}))`
+      : sql``;
+
+    const result = await db.execute(sql`
+      update ${backtestJobs}
+      set status = 'running', attempts = ${backtestJobs.attempts} + 1, locked_by = ${workerId}, heartbeat_at = now()
+      where ${backtestJobs.id} = (
+        select ${backtestJobs.id} from ${backtestJobs}
+        where ${backtestJobs.status} = 'queued' and ${backtestJobs.runAfter} <= now() ${excluded}
+        order by ${backtestJobs.runAfter}, ${backtestJobs.id}
+        for update skip locked
+        limit 1
+      )
+      returning ${backtestJobs.id}
+    `);
+
+    const id = (result.rows[0] as { id?: number } | undefined)?.id;
+    if (id === undefined) {
+      return undefined;
+    }
+    const [job] = await db.select().from(backtestJobs).where(eq(backtestJobs.id, id));
+    return job;
+  }
+
+  async countUserBacktestJobs(userId: number): Promise<{ queued: number; running: number }> {
+    const rows = await db
+      .select({ status: backtestJobs.status, count: sql<number>`count(*)::int` })
+      .from(backtestJobs)
+      .where(and(eq(backtestJobs.userId, userId), or(eq(backtestJobs.status, "queued"), eq(backtestJobs.status, "running"))))
+      .groupBy(backtestJobs.status);
+
+    return {
+      queued: rows.find(row => row.status === "queued")?.count ?? 0,
+      running: rows.find(row => row.status === "running")?.count ?? 0,
+    };
+  }
+
+  async getRunningBacktestJobCounts(): Promise<Array<{ userId: number; running: number }>> {
+    const rows = await db
+      .select({ userId: backtestJobs.userId, running: sql<number>`count(*)::int` })
+      .from(backtestJobs)
+      .where(eq(backtestJobs.status, "running"))
+      .groupBy(backtestJobs.userId);
+    return rows.filter(row => row.userId !== null).map(row => ({ userId: row.userId!, running: row.running }));
+  }
+
+  // Jobs whose worker stopped heartbeating (e.g. the server restarted) go back to the queue
+  async requeueStaleBacktestJobs(staleBefore: Date): Promise<BacktestJob[]> {
+    return await db
+      .update(backtestJobs)
+      .set({ status: "queued", lockedBy: null, runAfter: new Date() })
+      .where(and(
+        eq(backtestJobs.status, "running"),
+        lte(backtestJobs.heartbeatAt, staleBefore),
+        eq(backtestJobs.cancelRequested, false)
+      ))
+      .returning();
+  }
+
+  // Orphaned jobs the user cancelled are finished off instead of re-queued
+  async cancelStaleBacktestJobs(staleBefore: Date): Promise<BacktestJob[]> {
+    return await db
+      .update(backtestJobs)
+      .set({ status: "cancelled", lockedBy: null, completedAt: new Date() })
+      .where(and(
+        eq(backtestJobs.status, "running"),
+        lte(backtestJobs.heartbeatAt, staleBefore),
+        eq(backtestJobs.cancelRequested, true)
+      ))
+      .returning();
+  }
+
+  // Optimization operations
+  async getOptimizations(userId: number): Promise<Optimization[]> {
+    return await db.select().from(optimizations).where(and(eq(optimizations.userId, userId), ne(optimizations.status, "deleted"))).orderBy(desc(optimizations.createdAt));
+  }
+
+  async getOptimization(id: number): Promise<Optimization | undefined> {
+    const [optimization] = await db.select().from(optimizations).where(eq(optimizations.id, id));
+    return optimization || undefined;
+  }
+
+  async createOptimization(optimization: InsertOptimization): Promise<Optimization> {
+    let strategyVersionId = optimization.strategyVersionId ?? null;
+    if (strategyVersionId === null && optimization.strategyId) {
+      strategyVersionId = (await this.getCurrentStrategyVersion(optimization.strategyId))?.id ?? null;
+    }
+
+    const [newOptimization] = await db
+      .insert(optimizations)
+      .values({ ...optimization, strategyVersionId })
+      .returning();
+    return newOptimization;
+  }
+
+  async updateOptimization(id: number, data: Partial<Optimization>): Promise<Optimization> {
+    const [optimization] = await db
+      .update(optimizations)
+      .set({ ...data })
+      .where(eq(optimizations.id, id))
+      .returning();
+    return optimization;
+  }
+
+  // Unfinished sweeps whose process stopped heartbeating move to the caller, which resumes them
+  async claimStaleOptimizations(workerId: string, staleBefore: Date): Promise<Optimization[]> {
+    return await db
+      .update(optimizations)
+      .set({ lockedBy: workerId, heartbeatAt: new Date() })
+      .where(and(
+        or(eq(optimizations.status, "pending"), eq(optimizations.status, "running")),
+        lte(optimizations.heartbeatAt, staleBefore)
+      ))
+      .returning();
+  }
+
   // Backtest trades operations
   async getBacktestTrades(backtestId: number): Promise<BacktestTrade[]> {
     return await db.select().from(backtestTrades).where(eq(backtestTrades.backtestId, backtestId)).orderBy(backtestTrades.entryTime);
@@ -354,6 +819,17 @@ export class DatabaseStorage implements IStorage {
     return newTrade;
   }
 
+  // Bulk insert in chunks; without a caller's transaction the batch gets its own, so it is written all or nothing
+  async createBacktestTrades(trades: InsertBacktestTrade[], tx?: DbTransaction): Promise<number> {
+    if (!tx) {
+      return await db.transaction(transaction => this.createBacktestTrades(trades, transaction));
+    }
+    for (let i = 0; i < trades.length; i += TRADE_INSERT_CHUNK_SIZE) {
+      await tx.insert(backtestTrades).values(trades.slice(i, i + TRADE_INSERT_CHUNK_SIZE));
+    }
+    return trades.length;
+  }
+
   async updateBacktestTrade(id: number, data: Partial<BacktestTrade>): Promise<BacktestTrade> {
     const [trade] = await db
       .update(backtestTrades)
@@ -363,6 +839,135 @@ export class DatabaseStorage implements IStorage {
     return trade;
   }
 
+  // Instrument master operations
+  async getInstrument(instrumentKey: string): Promise<Instrument | undefined> {
+    const [instrument] = await db.select().from(instruments).where(eq(instruments.instrumentKey, instrumentKey));
+    return instrument || undefined;
+  }
+
+  async getInstrumentsBySymbol(tradingSymbol: string): Promise<Instrument[]> {
+    return await db.select().from(instruments)
+      .where(sql`upper(${instruments.tradingSymbol}) = upper(${tradingSymbol})`);
+  }
+
+  async searchInstruments(query: string, filters: { segment?: string; instrumentType?: string }, limit: number): Promise<Instrument[]> {
+    // User input is matched literally; % and _ would otherwise match the whole master
+    const pattern = escapeLike(query);
+    const conditions = [
+      or(
+        ilike(instruments.tradingSymbol, `${pattern}%`),
+        ilike(instruments.name, `%${pattern}%`),
+        eq(instruments.isin, query.toUpperCase())
+      )
+    ];
+    if (filters.segment) {
+      conditions.push(eq(instruments.segment, filters.segment));
+    }
+    if (filters.instrumentType) {
+      conditions.push(eq(instruments.instrumentType, filters.instrumentType));
+    }
+
+    // Exact symbol matches first, then prefix matches, nearest expiry first for derivatives
+    return await db.select().from(instruments)
+      .where(and(...conditions))
+      .orderBy(
+        sql`case when upper(${instruments.tradingSymbol}) = upper(${query}) then 0 when ${instruments.tradingSymbol} ilike ${pattern + '%'} then 1 else 2 end`,
+        sql`${instruments.expiry} asc nulls first`,
+        instruments.tradingSymbol
+      )
+      .limit(limit);
+  }
+
+  async upsertInstruments(rows: InsertInstrument[]): Promise<number> {
+    const chunkSize = 1000;
+    let written = 0;
+
+    for (let i = 0; i < rows.length; i += chunkSize) {
+      const chunk = rows.slice(i, i + chunkSize);
+      await db
+        .insert(instruments)
+        .values(chunk)
+        .onConflictDoUpdate({
+          target: instruments.instrumentKey,
+          set: {
+            exchangeToken: sql`excluded.exchange_token`,
+            tradingSymbol: sql`excluded.trading_symbol`,
+            name: sql`excluded.name`,
+            shortName: sql`excluded.short_name`,
+            isin: sql`excluded.isin`,
+            exchange: sql`excluded.exchange`,
+            segment: sql`excluded.segment`,
+            instrumentType: sql`excluded.instrument_type`,
+            lotSize: sql`excluded.lot_size`,
+            tickSize: sql`excluded.tick_size`,
+            freezeQuantity: sql`excluded.freeze_quantity`,
+            expiry: sql`excluded.expiry`,
+            strikePrice: sql`excluded.strike_price`,
+            underlyingKey: sql`excluded.underlying_key`,
+            updatedAt: new Date(),
+          },
+        });
+      written += chunk.length;
+    }
+
+    return written;
+  }
+
+  // Candle store operations
+  async getCandles(instrumentKey: string, interval: string, from: Date, to: Date): Promise<StoredCandle[]> {
+    return await db.select().from(candles)
+      .where(and(
+        eq(candles.instrumentKey, instrumentKey),
+        eq(candles.interval, interval),
+        gte(candles.timestamp, from),
+        lte(candles.timestamp, to)
+      ))
+      .orderBy(candles.timestamp);
+  }
+
+  // Trading days (IST, YYYY-MM-DD) that already have at least one candle
+  async getCandleCountsByDate(instrumentKey: string, interval: string, from: Date, to: Date): Promise<Array<{ tradeDate: string; count: number }>> {
+    const tradeDate = sql<string>`to_char(${candles.timestamp} + interval '330 minutes', 'YYYY-MM-DD')`;
+    return await db
+      .select({ tradeDate, count: sql<number>`count(*)::int` })
+      .from(candles)
+      .where(and(
+        eq(candles.instrumentKey, instrumentKey),
+        eq(candles.interval, interval),
+        gte(candles.timestamp, from),
+        lte(candles.timestamp, to)
+      ))
+      .groupBy(tradeDate)
+      .orderBy(tradeDate);
+  }
+
+  async upsertCandles(rows: InsertStoredCandle[]): Promise<number> {
+    const chunkSize = 1000;
+    let written = 0;
+
+    for (let i = 0; i < rows.length; i += chunkSize) {
+      const chunk = rows.slice(i, i + chunkSize);
+      const result = await db
+        .insert(candles)
+        .values(chunk)
+        .onConflictDoUpdate({
+          target: [candles.instrumentKey, candles.interval, candles.timestamp],
+          set: {
+            open: sql`excluded.open`,
+            high: sql`excluded.high`,
+            low: sql`excluded.low`,
+            close: sql`excluded.close`,
+            volume: sql`excluded.volume`,
+            openInterest: sql`excluded.open_interest`,
+          },
+        })
+        .returning({ timestamp: candles.timestamp });
+      written += result.length;
+    }
+
+    return written;
+  }
+
   // Module operations
   async getModules(): Promise<Module[]> {
     return await db.select().from(modules).orderBy(modules.name);
@@ -373,6 +978,11 @@ export class DatabaseStorage implements IStorage {
     return module || undefined;
   }
 
+  async getModuleByName(name: string): Promise<Module | undefined> {
+    const [module] = await db.select().from(modules).where(eq(modules.name, name));
+    return module || undefined;
+  }
+
   async createModule(module: InsertModule): Promise<Module> {
     const [newModule] = await db
       .insert(modules)
@@ -791,6 +1401,45 @@ export class DatabaseStorage implements IStorage {
     return result.map(row => row.expiryDt);
   }
 
+  async getEodIndexGroups(): Promise<Array<{ indexGroup: string; symbols: number }>> {
+    const result = await db
+      .select({
+        indexGroup: eodPriceReport.indxGrp,
+        symbols: sql<number>`count(distinct ${eodPriceReport.symbol})::int`,
+      })
+      .from(eodPriceReport)
+      .where(sql`${eodPriceReport.indxGrp} is not null and ${eodPriceReport.indxGrp} <> ''`)
+      .groupBy(eodPriceReport.indxGrp)
+      .orderBy(eodPriceReport.indxGrp);
+
+    return result.map(row => ({ indexGroup: row.indexGroup!, symbols: row.symbols }));
+  }
+
+  // Constituents as of the latest report on or before `asOf` (default: the latest report)
+  async getIndexConstituents(indexGroup: string, asOf?: string): Promise<string[]> {
+    const conditions = [eq(eodPriceReport.indxGrp, indexGroup)];
+    if (asOf) {
+      conditions.push(lte(eodPriceReport.tradeDate, asOf));
+    }
+
+    const [latest] = await db
+      .select({ tradeDate: sql<string>`max(${eodPriceReport.tradeDate})` })
+      .from(eodPriceReport)
+      .where(and(...conditions));
+
+    if (!latest?.tradeDate) {
+      return [];
+    }
+
+    const result = await db
+      .selectDistinct({ symbol: eodPriceReport.symbol })
+      .from(eodPriceReport)
+      .where(and(eq(eodPriceReport.indxGrp, indexGroup), eq(eodPriceReport.tradeDate, latest.tradeDate)))
+      .orderBy(eodPriceReport.symbol);
+
+    return result.map(row => row.symbol);
+  }
+
   async getEodPriceBySymbol(symbol: string, expiryDt: string, tradeDate: string): Promise<EodPriceReport | undefined> {
     const [result] = await db
       .select()
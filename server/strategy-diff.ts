@@ -0,0 +1,110 @@
+import type { StrategyVersion } from "@shared/schema";
+
+// Above this many cells in the LCS table the middle of the diff is shown as a block replace
+const MAX_LCS_CELLS = 4_000_000;
+
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+  // 1-based line numbers in the old and new code; null on the side the line is missing from
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+export interface StrategyVersionDiff {
+  strategyId: number;
+  from: { version: number; createdAt: Date | null; changeNote: string | null };
+  to: { version: number; createdAt: Date | null; changeNote: string | null };
+  added: number;
+  removed: number;
+  parametersChanged: boolean;
+  lines: DiffLine[];
+}
+
+/**
+ * Line diff of two texts by longest common subsequence. The common prefix
+ * and suffix are matched first, so small edits to long strategies stay cheap.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split(/\r?\n/);
+  const b = newText.split(/\r?\n/);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const lines: DiffLine[] = [];
+  for (let i = 0; i < start; i++) {
+    lines.push({ type: "same", text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const removed = (i: number) => lines.push({ type: "removed", text: midA[i], oldLine: start + i + 1, newLine: null });
+  const added = (j: number) => lines.push({ type: "added", text: midB[j], oldLine: null, newLine: start + j + 1 });
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    midA.forEach((_, i) => removed(i));
+    midB.forEach((_, j) => added(j));
+  } else {
+    // lengths[i][j] is the LCS length of midA[i..] and midB[j..]
+    const lengths = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i][j] = midA[i] === midB[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        lines.push({ type: "same", text: midA[i], oldLine: start + i + 1, newLine: start + j + 1 });
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        removed(i++);
+      } else {
+        added(j++);
+      }
+    }
+    while (i < midA.length) {
+      removed(i++);
+    }
+    while (j < midB.length) {
+      added(j++);
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) {
+    lines.push({ type: "same", text: a[endA + k], oldLine: endA + k + 1, newLine: endB + k + 1 });
+  }
+  return lines;
+}
+
+export function diffStrategyVersions(from: StrategyVersion, to: StrategyVersion): StrategyVersionDiff {
+  const lines = diffLines(from.code, to.code);
+  const summary = (version: StrategyVersion) => ({
+    version: version.version,
+    createdAt: version.createdAt,
+    changeNote: version.changeNote,
+  });
+  return {
+    strategyId: to.strategyId,
+    from: summary(from),
+    to: summary(to),
+    added: lines.filter(line => line.type === "added").length,
+    removed: lines.filter(line => line.type === "removed").length,
+    parametersChanged: JSON.stringify(from.parameters ?? null) !== JSON.stringify(to.parameters ?? null),
+    lines,
+  };
+}
@@ -0,0 +1,117 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createStrategyRuntime, StrategyCompileError, StrategyRuntimeError, type StrategyContext } from "./strategy-runtime";
+import type { Candle } from "./market-data";
+
+function candle(timestamp: string, close: number): Candle {
+  return { timestamp, open: close, high: close + 1, low: close - 1, close, volume: 100 };
+}
+
+function context(symbol: string, history: Candle[], position = 0): StrategyContext {
+  return { symbol, candle: history[history.length - 1], index: history.length - 1, history, position, cash: 100000 };
+}
+
+const CANDLES = [candle("2025-06-02T03:45:00.000Z", 100), candle("2025-06-02T03:46:00.000Z", 102)];
+
+test("hooks run in order and top-level state persists between candles", () => {
+  const runtime = createStrategyRuntime(`
+    let seen = 0;
+    function init(ctx) { state.started = ctx.symbol; buy(ctx.symbol, 1); }
+    function onCandle(candle, ctx) {
+      seen++;
+      if (seen === 2) buy(ctx.symbol, parameters.quantity, candle.close, undefined, state.started);
+    }
+    function onBar(ctx) { log("bar", ctx.index); }
+    function onExit(ctx) { log("seen", seen); sell(ctx.symbol, 1); }
+  `, { symbol: "RELIANCE", parameters: { quantity: 5 } });
+
+  runtime.init(context("RELIANCE", CANDLES.slice(0, 1)));
+  assert.deepEqual(runtime.onCandle(context("RELIANCE", CANDLES.slice(0, 1))), []);
+  assert.deepEqual(runtime.onBar(context("RELIANCE", CANDLES.slice(0, 1))), []);
+  const [signal] = runtime.onCandle(context("RELIANCE", CANDLES));
+  runtime.onExit(context("RELIANCE", CANDLES));
+
+  assert.deepEqual(signal, {
+    action: "BUY",
+    symbol: "RELIANCE",
+    quantity: 5,
+    orderType: "MARKET",
+    price: 102,
+    timestamp: undefined,
+    reason: "RELIANCE",
+    exits: undefined,
+  });
+  assert.deepEqual(runtime.getLogs(), ["bar 0", "seen 2"]);
+});
+
+test("scripts run top to bottom per candle and may return a signal", () => {
+  const runtime = createStrategyRuntime(`
+    if (currentPrice > 101) return { action: 'SELL', quantity: position, reason: 'above 101' };
+  `, { symbol: "TCS" });
+
+  assert.deepEqual(runtime.onCandle(context("TCS", CANDLES.slice(0, 1), 3)), []);
+  const [signal] = runtime.onCandle(context("TCS", CANDLES, 3));
+  assert.equal(signal.action, "SELL");
+  assert.equal(signal.symbol, "TCS");
+  assert.equal(signal.quantity, 3);
+  assert.equal(signal.reason, "above 101");
+});
+
+test("orders are market orders unless limit or stop options carry a price", () => {
+  const runtime = createStrategyRuntime(`
+    function onCandle(candle, ctx) {
+      buy('NIFTY', 50, 21950);
+      buy('NIFTY', 50, { type: 'limit', limitPrice: 21950 });
+      buy('NIFTY', 50, { type: 'stop', stopPrice: 22000, reason: 'breakout' });
+      sell('NIFTY', 'all', { type: 'limit' });
+      sell(undefined, 10, { stopLoss: { percent: 1 }, trailingStop: { atr: 2 } });
+    }
+  `, { symbol: "NIFTY" });
+
+  const signals = runtime.onCandle(context("NIFTY", CANDLES));
+
+  assert.deepEqual(signals.map(signal => [signal.orderType, signal.price]), [
+    ["MARKET", 21950],
+    ["LIMIT", 21950],
+    ["STOP", 22000],
+    ["MARKET", undefined],
+    ["MARKET", undefined],
+  ]);
+  assert.equal(signals[2].reason, "breakout");
+  assert.equal(signals[3].quantity, undefined);
+  assert.equal(signals[4].symbol, "NIFTY");
+  assert.deepEqual(signals[4].exits, { stopLoss: { percent: 1 }, trailingStop: { atr: 2 } });
+});
+
+test("the sandbox exposes no Node globals", () => {
+  const runtime = createStrategyRuntime(`
+    function onCandle() {
+      log(typeof require, typeof process, typeof setTimeout);
+    }
+  `, { symbol: "INFY" });
+
+  runtime.onCandle(context("INFY", CANDLES));
+  assert.deepEqual(runtime.getLogs(), ["undefined undefined undefined"]);
+});
+
+test("syntax errors fail to compile and thrown errors name the candle", () => {
+  assert.throws(() => createStrategyRuntime("function onCandle( {", { symbol: "INFY" }), StrategyCompileError);
+
+  const runtime = createStrategyRuntime("function onCandle() { throw new Error('boom'); }", { symbol: "INFY" });
+  assert.throws(() => runtime.onCandle(context("INFY", CANDLES)), (error: unknown) => {
+    assert.ok(error instanceof StrategyRuntimeError);
+    assert.equal(error.timestamp, "2025-06-02T03:46:00.000Z");
+    assert.match(error.message, /boom/);
+    return true;
+  });
+});
+
+test("a candle that runs past the timeout is stopped", () => {
+  const runtime = createStrategyRuntime("function onCandle() { while (true) {} }", { symbol: "INFY", timeout: 50 });
+
+  assert.throws(() => runtime.onCandle(context("INFY", CANDLES)), (error: unknown) => {
+    assert.ok(error instanceof StrategyRuntimeError);
+    assert.match(error.message, /timed out/i);
+    return true;
+  });
+});
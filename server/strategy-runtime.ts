@@ -0,0 +1,377 @@
+import { VM, VMScript } from "vm2";
+import type { Candle } from "./market-data";
+
+/*
+ * Strategy runtime contract
+ *
+ * Strategy code stored in `strategies.code` is executed inside a vm2 sandbox,
+ * once per candle. Two styles are supported:
+ *
+ * 1. Hook style - the code declares any of the following functions:
+ *      init(ctx)              called once before the first candle
+ *      onCandle(candle, ctx)  called for every candle
+ *      onBar(ctx)             called once per timestamp, after onCandle has
+ *                             run for every symbol that has a candle at it
+ *      onExit(ctx)            called once after the last candle
+ *    Top-level code runs once when the strategy is loaded, so it can hold
+ *    state in ordinary variables.
+ *
+ * 2. Script style - the code has no onCandle hook and is run top to bottom
+ *    for every candle, reading the globals below. A script may also `return`
+ *    a signal object ({ action: 'BUY' | 'SELL', quantity, reason }).
+ *
+ * Globals available in both styles:
+ *   buy(symbol, quantity, price?, timestamp?, reason?)   queue a buy order
+ *   sell(symbol, quantity, price?, timestamp?, reason?)  queue a sell order
+ *     Orders are market orders; a positional price is only the strategy's
+ *     reference for the signal and does not change how the order fills.
+ *     Limit and stop orders are opt-in through an options object in place
+ *     of the price:
+ *       buy('NIFTY', 50, { type: 'limit', limitPrice: 21950 })
+ *       buy('NIFTY', 50, { type: 'stop', stopPrice: 22000, reason: 'breakout' })
+ *     Options may also attach
+ *     protective exits to the position the order opens (see protective-exits):
+ *       buy('NIFTY', 50, { stopLoss: { percent: 1 }, trailingStop: { atr: 2 } })
+ *     Defaults for every entry can be set in parameters.exits.
+ *   sma(prices, period) / rsi(prices, period) / atr(candles, period)   indicator helpers
+ *   data[symbol]   candles up to and including the current one, for every
+ *                  symbol in the backtest
+ *   candle, currentPrice, position, portfolio { cash, positions }
+ *   In portfolio backtests onCandle runs once per symbol (ctx.symbol says
+ *   which), ctx.symbols lists the basket and ctx.candles maps each symbol to
+ *   its candle at the current timestamp. Orders default to ctx.symbol.
+ *   parameters     the strategy's `parameters` JSON
+ *   state          an object that persists between candles
+ *   log(...) / console.log(...)
+ */
+
+export type StrategyOrderType = "MARKET" | "LIMIT" | "STOP";
+
+export interface StrategySignal {
+  action: "BUY" | "SELL";
+  symbol: string;
+  quantity?: number;
+  orderType: StrategyOrderType;
+  price?: number;
+  timestamp?: string;
+  reason?: string;
+  exits?: { stopLoss?: unknown; takeProfit?: unknown; trailingStop?: unknown };
+}
+
+interface OrderOptions {
+  type?: string;
+  price?: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  reason?: string;
+  stopLoss?: unknown;
+  takeProfit?: unknown;
+  trailingStop?: unknown;
+}
+
+export interface StrategyContext {
+  symbol: string;
+  candle: Candle;
+  index: number;
+  history: Candle[];
+  position: number;
+  cash: number;
+  // Portfolio backtests: every symbol's history, position and current candle
+  symbols?: string[];
+  data?: Record<string, Candle[]>;
+  positions?: Record<string, number>;
+  candles?: Record<string, Candle>;
+}
+
+export interface StrategyRuntimeOptions {
+  symbol: string;
+  parameters?: Record<string, any> | null;
+  timeout?: number;
+}
+
+export class StrategyCompileError extends Error {
+  constructor(message: string) {
+    super(`Strategy compile error: ${message}`);
+    this.name = "StrategyCompileError";
+  }
+}
+
+export class StrategyRuntimeError extends Error {
+  constructor(message: string, public readonly timestamp?: string) {
+    super(`Strategy runtime error${timestamp ? ` at ${timestamp}` : ""}: ${message}`);
+    this.name = "StrategyRuntimeError";
+  }
+}
+
+const MAX_LOG_LINES = 200;
+
+export function sma(prices: number[], period: number): number[] {
+  const values: number[] = [];
+  if (!Array.isArray(prices) || period <= 0) {
+    return values;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < prices.length; i++) {
+    sum += prices[i];
+    if (i >= period) {
+      sum -= prices[i - period];
+    }
+    if (i >= period - 1) {
+      values.push(sum / period);
+    }
+  }
+  return values;
+}
+
+export function rsi(prices: number[], period: number = 14): number[] {
+  if (!Array.isArray(prices) || prices.length < period + 1) {
+    return [];
+  }
+
+  const gains: number[] = [];
+  const losses: number[] = [];
+
+  for (let i = 1; i < prices.length; i++) {
+    const change = prices[i] - prices[i - 1];
+    gains.push(change > 0 ? change : 0);
+    losses.push(change < 0 ? Math.abs(change) : 0);
+  }
+
+  const rsiValues: number[] = [];
+
+  // First value is a simple average, the rest use Wilder's smoothing
+  let avgGain = gains.slice(0, period).reduce((sum, gain) => sum + gain, 0) / period;
+  let avgLoss = losses.slice(0, period).reduce((sum, loss) => sum + loss, 0) / period;
+  rsiValues.push(avgLoss === 0 ? 100 : 100 - (100 / (1 + avgGain / avgLoss)));
+
+  for (let i = period; i < gains.length; i++) {
+    avgGain = (avgGain * (period - 1) + gains[i]) / period;
+    avgLoss = (avgLoss * (period - 1) + losses[i]) / period;
+    rsiValues.push(avgLoss === 0 ? 100 : 100 - (100 / (1 + avgGain / avgLoss)));
+  }
+
+  return rsiValues;
+}
+
+// Average true range with Wilder's smoothing, one value per candle from index `period`
+export function atr(candles: Array<{ high: number; low: number; close: number }>, period: number = 14): number[] {
+  if (!Array.isArray(candles) || period <= 0 || candles.length < period + 1) {
+    return [];
+  }
+
+  const trueRanges: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const { high, low } = candles[i];
+    const previousClose = candles[i - 1].close;
+    trueRanges.push(Math.max(high - low, Math.abs(high - previousClose), Math.abs(low - previousClose)));
+  }
+
+  let value = trueRanges.slice(0, period).reduce((sum, range) => sum + range, 0) / period;
+  const values = [value];
+  for (let i = period; i < trueRanges.length; i++) {
+    value = (value * (period - 1) + trueRanges[i]) / period;
+    values.push(value);
+  }
+  return values;
+}
+
+export class StrategyRuntime {
+  private vm: VM;
+  private mode: "hooks" | "script";
+  private pendingSignals: StrategySignal[] = [];
+  private logs: string[] = [];
+  private candleScript!: VMScript;
+  private initScript?: VMScript;
+  private barScript?: VMScript;
+  private exitScript?: VMScript;
+  private currentSymbol: string;
+
+  constructor(code: string, private options: StrategyRuntimeOptions) {
+    this.mode = /\b(?:function\s+(?:onCandle|onBar)|(?:const|let|var)\s+(?:onCandle|onBar))\b/.test(code) ? "hooks" : "script";
+    this.currentSymbol = options.symbol;
+
+    this.vm = new VM({
+      timeout: options.timeout ?? 1000,
+      sandbox: {
+        parameters: JSON.parse(JSON.stringify(options.parameters || {})),
+        state: {},
+        buy: (symbol: string, quantity?: number, price?: number | OrderOptions, timestamp?: string, reason?: string) =>
+          this.queueSignal("BUY", symbol, quantity, price, timestamp, reason),
+        sell: (symbol: string, quantity?: number, price?: number | OrderOptions, timestamp?: string, reason?: string) =>
+          this.queueSignal("SELL", symbol, quantity, price, timestamp, reason),
+        sma,
+        rsi,
+        atr,
+        log: (...args: any[]) => this.log(args),
+        console: { log: (...args: any[]) => this.log(args) },
+      },
+    });
+
+    try {
+      if (this.mode === "hooks") {
+        const loadScript = new VMScript(
+          `var __hooks = (function () {\n${code}\n;return {` +
+          ` init: typeof init === 'function' ? init : undefined,` +
+          ` onCandle: typeof onCandle === 'function' ? onCandle : undefined,` +
+          ` onBar: typeof onBar === 'function' ? onBar : undefined,` +
+          ` onExit: typeof onExit === 'function' ? onExit : undefined };\n})();`
+        ).compile();
+        this.vm.run(loadScript);
+        this.initScript = new VMScript(`__hooks.init && __hooks.init(__ctx)`).compile();
+        this.candleScript = new VMScript(`__hooks.onCandle && __hooks.onCandle(__ctx.candle, __ctx)`).compile();
+        this.barScript = new VMScript(`__hooks.onBar && __hooks.onBar(__ctx)`).compile();
+        this.exitScript = new VMScript(`__hooks.onExit && __hooks.onExit(__ctx)`).compile();
+      } else {
+        this.candleScript = new VMScript(`(function () {\n${code}\n})()`).compile();
+      }
+    } catch (error: any) {
+      throw new StrategyCompileError(error?.message || String(error));
+    }
+  }
+
+  getLogs(): string[] {
+    return this.logs;
+  }
+
+  init(context: StrategyContext): void {
+    if (this.initScript) {
+      this.invoke(this.initScript, context);
+      // Orders placed before the first candle have nothing to fill against
+      this.pendingSignals = [];
+    }
+  }
+
+  onCandle(context: StrategyContext): StrategySignal[] {
+    const returned = this.invoke(this.candleScript, context);
+    const signals = this.pendingSignals;
+    this.pendingSignals = [];
+
+    if (signals.length === 0 && returned && (returned.action === "BUY" || returned.action === "SELL")) {
+      signals.push(this.toSignal(returned.action, returned.symbol, returned.quantity, {
+        type: returned.orderType,
+        price: returned.price,
+        reason: returned.reason,
+        stopLoss: returned.stopLoss,
+        takeProfit: returned.takeProfit,
+        trailingStop: returned.trailingStop,
+      }, returned.timestamp));
+    }
+
+    return signals;
+  }
+
+  onBar(context: StrategyContext): StrategySignal[] {
+    if (!this.barScript) {
+      return [];
+    }
+    this.invoke(this.barScript, context);
+    const signals = this.pendingSignals;
+    this.pendingSignals = [];
+    return signals;
+  }
+
+  onExit(context: StrategyContext): void {
+    if (this.exitScript) {
+      this.invoke(this.exitScript, context);
+      this.pendingSignals = [];
+    }
+  }
+
+  private invoke(script: VMScript, context: StrategyContext): any {
+    const { symbol } = context;
+    this.currentSymbol = symbol;
+    const ctx = {
+      ...context,
+      symbols: context.symbols || [symbol],
+      data: context.data || { [symbol]: context.history },
+      candles: context.candles || { [symbol]: context.candle },
+      parameters: this.vm.getGlobal("parameters"),
+      state: this.vm.getGlobal("state"),
+    };
+
+    this.vm.setGlobals({
+      __ctx: ctx,
+      data: ctx.data,
+      candle: context.candle,
+      currentPrice: context.candle.close,
+      position: context.position,
+      portfolio: {
+        cash: context.cash,
+        positions: context.positions || { [symbol]: context.position },
+      },
+    });
+
+    try {
+      return this.vm.run(script);
+    } catch (error: any) {
+      throw new StrategyRuntimeError(error?.message || String(error), context.candle.timestamp);
+    }
+  }
+
+  private queueSignal(
+    action: "BUY" | "SELL",
+    symbol: string,
+    quantity?: number,
+    price?: number | OrderOptions,
+    timestamp?: string,
+    reason?: string
+  ): StrategySignal {
+    const options: OrderOptions = price !== null && typeof price === "object" ? price : { price, reason };
+    const signal = this.toSignal(action, symbol, quantity, options, timestamp);
+    this.pendingSignals.push(signal);
+    return { ...signal };
+  }
+
+  private toSignal(
+    action: "BUY" | "SELL",
+    symbol: string | undefined,
+    quantity: unknown,
+    options: OrderOptions,
+    timestamp?: string
+  ): StrategySignal {
+    const requestedType = typeof options.type === "string" ? options.type.toUpperCase() : undefined;
+    let orderType: StrategyOrderType = requestedType === "LIMIT" || requestedType === "STOP" ? requestedType : "MARKET";
+    const rawPrice = orderType === "LIMIT"
+      ? options.limitPrice ?? options.price
+      : orderType === "STOP" ? options.stopPrice ?? options.price : options.price;
+    const price = rawPrice === undefined || rawPrice === null || !Number.isFinite(Number(rawPrice))
+      ? undefined
+      : Number(rawPrice);
+    // Limit and stop orders without a price cannot trigger; treat them as market orders
+    if (price === undefined) {
+      orderType = "MARKET";
+    }
+
+    const exits = options.stopLoss || options.takeProfit || options.trailingStop
+      // Copy out of the sandbox so the engine never holds VM proxies
+      ? JSON.parse(JSON.stringify({
+          stopLoss: options.stopLoss,
+          takeProfit: options.takeProfit,
+          trailingStop: options.trailingStop,
+        }))
+      : undefined;
+
+    return {
+      action,
+      symbol: symbol || this.currentSymbol,
+      quantity: Number.isFinite(Number(quantity)) ? Number(quantity) : undefined,
+      orderType,
+      price,
+      timestamp,
+      reason: typeof options.reason === "string" ? options.reason : undefined,
+      exits,
+    };
+  }
+
+  private log(args: any[]) {
+    if (this.logs.length >= MAX_LOG_LINES) {
+      return;
+    }
+    this.logs.push(args.map(arg => typeof arg === "string" ? arg : JSON.stringify(arg)).join(" "));
+  }
+}
+
+export function createStrategyRuntime(code: string, options: StrategyRuntimeOptions): StrategyRuntime {
+  return new StrategyRuntime(code, options);
+}
@@ -19,6 +19,7 @@ interface HistoricalDataPoint {
   low: number;
   close: number;
   volume: number;
+  openInterest?: number;
 }
 
 class UpstoxService {
@@ -138,11 +139,15 @@ class UpstoxService {
   async getQuote(symbol: string, accessToken: string): Promise<UpstoxQuote> {
     try {
       const response = await axios.get(
-        `${this.baseUrl}/market-quote/quotes?symbol=${symbol}`,
-        { headers: this.getHeaders(accessToken) }
+        `${this.baseUrl}/market-quote/quotes`,
+        { headers: this.getHeaders(accessToken), params: { instrument_key: symbol } }
       );
 
-      const data = response.data.data[symbol];
+      // Quotes come back keyed by exchange:trading symbol rather than the instrument key asked for
+      const data = response.data.data[symbol] ?? Object.values(response.data.data || {})[0];
+      if (!data) {
+        throw new Error(`No quote returned for ${symbol}`);
+      }
       return {
         symbol,
         ltp: data.ltp,
@@ -185,13 +190,18 @@ class UpstoxService {
         low: Number(candle[3]),
         close: Number(candle[4]),
         volume: Number(candle[5] || 0),
+        openInterest: Number(candle[6] || 0),
       }));
 
       console.log(`Successfully fetched ${candles.length} candles for ${symbol}`);
       return candles;
     } catch (error: any) {
       console.error(`Error fetching historical data for ${symbol}:`, error.response?.data || error.message);
-      throw new Error(`Failed to fetch historical data for ${symbol}: ${error.response?.data?.message || error.message}`);
+      // Keep the HTTP status and network code so callers can tell rate limits and outages from bad requests
+      throw Object.assign(
+        new Error(`Failed to fetch historical data for ${symbol}: ${error.response?.data?.message || error.message}`),
+        { status: error.response?.status, code: error.code }
+      );
     }
   }
 
@@ -254,9 +264,44 @@ class UpstoxService {
         { headers: this.getHeaders(accessToken) }
       );
       return response.data;
-    } catch (error) {
-      console.error("Error placing order:", error);
-      throw new Error("Failed to place order");
+    } catch (error: any) {
+      console.error("Error placing order:", error.response?.data || error.message);
+      throw orderError("Failed to place order", error);
+    }
+  }
+
+  async modifyOrder(orderData: {
+    order_id: string;
+    quantity?: number;
+    validity: string;
+    price: number;
+    order_type: string;
+    disclosed_quantity?: number;
+    trigger_price: number;
+  }, accessToken: string): Promise<any> {
+    try {
+      const response = await axios.put(
+        `${this.baseUrl}/order/modify`,
+        orderData,
+        { headers: this.getHeaders(accessToken) }
+      );
+      return response.data;
+    } catch (error: any) {
+      console.error("Error modifying order:", error.response?.data || error.message);
+      throw orderError("Failed to modify order", error);
+    }
+  }
+
+  async cancelOrder(orderId: string, accessToken: string): Promise<any> {
+    try {
+      const response = await axios.delete(
+        `${this.baseUrl}/order/cancel`,
+        { headers: this.getHeaders(accessToken), params: { order_id: orderId } }
+      );
+      return response.data;
+    } catch (error: any) {
+      console.error("Error cancelling order:", error.response?.data || error.message);
+      throw orderError("Failed to cancel order", error);
     }
   }
 
@@ -285,6 +330,30 @@ class UpstoxService {
       throw new Error("Failed to fetch trades");
     }
   }
+
+  // One-time websocket URL for the v3 market data feed; a fresh one is needed for every connection
+  async authorizeMarketDataFeed(accessToken: string): Promise<string> {
+    try {
+      const response = await axios.get(
+        "https://api.upstox.com/v3/feed/market-data-feed/authorize",
+        { headers: this.getHeaders(accessToken) }
+      );
+      return response.data.data.authorized_redirect_uri;
+    } catch (error: any) {
+      console.error("Error authorizing market data feed:", error.response?.data || error.message);
+      throw new Error("Failed to authorize market data feed");
+    }
+  }
+}
+
+// Order calls keep the broker's rejection reason and HTTP status, which the order manager records
+function orderError(message: string, error: any): Error {
+  const reason = error.response?.data?.errors?.[0]?.message || error.response?.data?.message || error.message;
+  return Object.assign(new Error(`${message}: ${reason}`), {
+    status: error.response?.status,
+    code: error.code,
+    reason,
+  });
 }
 
 // Helper function to get valid access token with auto-refresh
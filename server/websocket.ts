@@ -1,23 +1,57 @@
+import type { IncomingMessage } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import { upstoxService } from "./upstox";
 import { storage } from "./storage";
+import { marketDataHub, type MarketQuote } from "./market-data-hub";
+import { marketCalendar, type MarketStatus } from "./market-calendar";
+
+const QUOTE_CHANNEL_PREFIX = "quote:";
+
+// Channels carrying one user's data; only authenticated clients may subscribe
+const PRIVATE_CHANNELS = new Set(["portfolio", "trades", "orders", "strategies", "backtests"]);
+
+/**
+ * Resolves websocket clients to users with the same credentials as the API:
+ * the session or `auth_token` cookie sent with the upgrade request, or an
+ * auth token sent later in an `auth` message.
+ */
+export interface WebSocketAuthenticator {
+  authenticateRequest(req: IncomingMessage): Promise<number | null>;
+  authenticateToken(authToken: string): Promise<number | null>;
+}
 
 interface Client {
   ws: WebSocket;
   userId?: number;
   subscriptions: Set<string>;
+  // Symbols this client holds in the market data hub
+  quotes: Set<string>;
+  // Messages are handled one at a time so a subscribe never overtakes the auth before it
+  queue: Promise<void>;
 }
 
 class WebSocketManager {
   private clients: Set<Client> = new Set();
   private marketDataInterval?: NodeJS.Timeout;
   private portfolioUpdateInterval?: NodeJS.Timeout;
+  private marketStatus?: MarketStatus;
+
+  private authenticator?: WebSocketAuthenticator;
+
+  setup(wss: WebSocketServer, authenticator: WebSocketAuthenticator) {
+    this.authenticator = authenticator;
 
-  setup(wss: WebSocketServer) {
-    wss.on("connection", (ws: WebSocket) => {
+    wss.on("connection", (ws: WebSocket, req: IncomingMessage) => {
       const client: Client = {
         ws,
         subscriptions: new Set(),
+        quotes: new Set(),
+        queue: authenticator.authenticateRequest(req)
+          .then((userId) => {
+            client.userId = userId ?? undefined;
+          })
+          .catch((error) => {
+            console.error("Error authenticating WebSocket client:", error);
+          }),
       };
 
       this.clients.add(client);
@@ -38,7 +72,9 @@ class WebSocketManager {
           }
           
           const message = JSON.parse(messageStr);
-          this.handleMessage(client, message);
+          client.queue = client.queue
+            .then(() => this.handleMessage(client, message))
+            .catch((error) => console.error("Error handling WebSocket message:", error));
         } catch (error) {
           console.error("Error parsing WebSocket message:", error);
           // Silently ignore invalid messages to prevent crash
@@ -46,13 +82,13 @@ class WebSocketManager {
       });
 
       ws.on("close", (code, reason) => {
-        this.clients.delete(client);
+        this.removeClient(client);
         console.log(`WebSocket client disconnected: ${code} ${reason}`);
       });
 
       ws.on("error", (error) => {
         console.error("WebSocket client error:", error);
-        this.clients.delete(client);
+        this.removeClient(client);
       });
 
       // Send initial connection confirmation with error handling
@@ -71,36 +107,60 @@ class WebSocketManager {
       console.error("WebSocket server error:", error);
     });
 
+    marketDataHub.onQuote((quote) => this.broadcastQuote(quote));
+
     // Start periodic updates
     this.startMarketDataUpdates();
     this.startPortfolioUpdates();
   }
 
-  private handleMessage(client: Client, message: any) {
+  private async handleMessage(client: Client, message: any) {
     switch (message.type) {
-      case "auth":
-        client.userId = message.userId;
-        this.sendMessage(client, {
-          type: "auth",
-          status: "authenticated",
-          userId: message.userId,
-        });
+      case "auth": {
+        const userId = typeof message.authToken === "string" && message.authToken
+          ? await this.authenticator!.authenticateToken(message.authToken)
+          : null;
+        // A bad token leaves a client authenticated by its session cookie as it was
+        if (userId) {
+          this.setUser(client, userId);
+        }
+        this.sendMessage(client, client.userId !== undefined
+          ? { type: "auth", status: "authenticated", userId: client.userId }
+          : { type: "auth", status: "unauthenticated", error: "Invalid or missing auth token" });
         break;
+      }
 
       case "subscribe":
         if (message.channel) {
+          if (!this.canSubscribe(client, message.channel)) {
+            this.sendMessage(client, {
+              type: "subscription",
+              channel: message.channel,
+              status: "rejected",
+              error: "Authentication required",
+            });
+            break;
+          }
+          const isNew = !client.subscriptions.has(message.channel);
           client.subscriptions.add(message.channel);
           this.sendMessage(client, {
             type: "subscription",
             channel: message.channel,
             status: "subscribed",
           });
+          if (isNew && message.channel.startsWith(QUOTE_CHANNEL_PREFIX)) {
+            this.subscribeQuote(client, message.channel);
+          }
+          if (message.channel === "market_status" && this.marketStatus) {
+            this.sendMessage(client, this.marketStatusMessage(this.marketStatus));
+          }
         }
         break;
 
       case "unsubscribe":
         if (message.channel) {
           client.subscriptions.delete(message.channel);
+          this.releaseQuote(client, message.channel);
           this.sendMessage(client, {
             type: "subscription",
             channel: message.channel,
@@ -128,8 +188,81 @@ class WebSocketManager {
       }
     } catch (error) {
       console.error("Error sending WebSocket message:", error);
-      this.clients.delete(client);
+      this.removeClient(client);
+    }
+  }
+
+  private canSubscribe(client: Client, channel: string): boolean {
+    return !PRIVATE_CHANNELS.has(channel) || client.userId !== undefined;
+  }
+
+  // Private subscriptions belong to the previous user and are dropped when the user changes
+  private setUser(client: Client, userId?: number) {
+    if (client.userId !== userId) {
+      Array.from(client.subscriptions)
+        .filter(channel => PRIVATE_CHANNELS.has(channel))
+        .forEach(channel => client.subscriptions.delete(channel));
     }
+    client.userId = userId;
+  }
+
+  // Releases the client's quote subscriptions from the market data hub
+  private removeClient(client: Client) {
+    if (!this.clients.delete(client)) {
+      return;
+    }
+    Array.from(client.quotes).forEach(symbol => marketDataHub.unsubscribe(symbol));
+    client.quotes.clear();
+  }
+
+  private releaseQuote(client: Client, channel: string) {
+    const symbol = channel.slice(QUOTE_CHANNEL_PREFIX.length);
+    if (channel.startsWith(QUOTE_CHANNEL_PREFIX) && client.quotes.delete(symbol)) {
+      marketDataHub.unsubscribe(symbol);
+    }
+  }
+
+  private async subscribeQuote(client: Client, channel: string) {
+    const symbol = channel.slice(QUOTE_CHANNEL_PREFIX.length);
+    try {
+      const quote = await marketDataHub.subscribe(symbol);
+      // The client went away, unsubscribed or resubscribed while the instrument was resolving
+      if (!this.clients.has(client) || !client.subscriptions.has(channel) || client.quotes.has(symbol)) {
+        marketDataHub.unsubscribe(symbol);
+        return;
+      }
+      client.quotes.add(symbol);
+      if (quote) {
+        this.sendMessage(client, this.quoteMessage(quote));
+      }
+    } catch (error: any) {
+      client.subscriptions.delete(channel);
+      this.sendError(client, `Cannot stream ${channel}: ${error?.message || error}`);
+    }
+  }
+
+  private broadcastQuote(quote: MarketQuote) {
+    const channel = `${QUOTE_CHANNEL_PREFIX}${quote.symbol}`;
+    this.broadcast(this.quoteMessage(quote), channel);
+  }
+
+  private quoteMessage(quote: MarketQuote) {
+    return {
+      type: "market_data",
+      channel: `${QUOTE_CHANNEL_PREFIX}${quote.symbol}`,
+      data: quote,
+      timestamp: quote.timestamp,
+    };
+  }
+
+  private marketStatusMessage(status: MarketStatus) {
+    return {
+      type: "market_status",
+      data: {
+        ...status,
+        timestamp: new Date().toISOString(),
+      },
+    };
   }
 
   private sendError(client: Client, error: string) {
@@ -149,47 +282,22 @@ class WebSocketManager {
   }
 
   private startMarketDataUpdates() {
-    // Update market data every 5 seconds
-    this.marketDataInterval = setInterval(async () => {
+    // Market status from the NSE calendar, checked every 5 seconds and pushed on change
+    const updateMarketStatus = async () => {
       try {
-        // Get list of symbols that clients are subscribed to
-        const subscribedSymbols = new Set<string>();
-        this.clients.forEach(client => {
-          client.subscriptions.forEach(sub => {
-            if (sub.startsWith("quote:")) {
-              subscribedSymbols.add(sub.replace("quote:", ""));
-            }
-          });
-        });
-
-        // Fetch quotes for subscribed symbols
-        for (const symbol of Array.from(subscribedSymbols)) {
-          try {
-            // Skip market data updates since WebSocket is disabled
-            // const quote = await upstoxService.getQuote(symbol, accessToken);
-            // this.broadcast({
-            //   type: "market_data",
-            //   channel: `quote:${symbol}`,
-            //   data: quote,
-            //   timestamp: new Date().toISOString(),
-            // }, `quote:${symbol}`);
-          } catch (error) {
-            console.error(`Error fetching quote for ${symbol}:`, error);
-          }
+        await marketCalendar.refresh();
+        const status = marketCalendar.getStatus();
+        if (status.status !== this.marketStatus?.status || status.reason !== this.marketStatus?.reason) {
+          this.broadcast(this.marketStatusMessage(status), "market_status");
         }
-
-        // Broadcast general market status
-        this.broadcast({
-          type: "market_status",
-          data: {
-            status: "open", // In real implementation, determine actual market status
-            timestamp: new Date().toISOString(),
-          },
-        }, "market_status");
+        this.marketStatus = status;
       } catch (error) {
-        console.error("Error in market data update:", error);
+        console.error("Error in market status update:", error);
       }
-    }, 5000);
+    };
+
+    updateMarketStatus();
+    this.marketDataInterval = setInterval(updateMarketStatus, 5000);
   }
 
   private startPortfolioUpdates() {
@@ -239,6 +347,34 @@ class WebSocketManager {
     });
   }
 
+  async sendPortfolioUpdate(userId: number, portfolio: any) {
+    const message = {
+      type: "portfolio_update",
+      data: portfolio,
+      timestamp: new Date().toISOString(),
+    };
+
+    this.clients.forEach(client => {
+      if (client.userId === userId && client.subscriptions.has("portfolio")) {
+        this.sendMessage(client, message);
+      }
+    });
+  }
+
+  async sendOrderUpdate(userId: number, order: any) {
+    const message = {
+      type: "order_update",
+      data: order,
+      timestamp: new Date().toISOString(),
+    };
+
+    this.clients.forEach(client => {
+      if (client.userId === userId && client.subscriptions.has("orders")) {
+        this.sendMessage(client, message);
+      }
+    });
+  }
+
   async sendStrategyUpdate(userId: number, strategy: any) {
     const message = {
       type: "strategy_update",
@@ -284,13 +420,14 @@ class WebSocketManager {
     if (this.portfolioUpdateInterval) {
       clearInterval(this.portfolioUpdateInterval);
     }
+    marketDataHub.stop();
   }
 }
 
 const wsManager = new WebSocketManager();
 
-export function setupWebSocket(wss: WebSocketServer) {
-  wsManager.setup(wss);
+export function setupWebSocket(wss: WebSocketServer, authenticator: WebSocketAuthenticator) {
+  wsManager.setup(wss, authenticator);
 }
 
 export { wsManager };
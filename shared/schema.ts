@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb, varchar, date, primaryKey, bigint } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb, varchar, date, primaryKey, bigint, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -37,10 +37,26 @@ export const strategies = pgTable("strategies", {
   code: text("code").notNull(),
   parameters: jsonb("parameters"),
   isActive: boolean("is_active").default(false),
+  currentVersion: integer("current_version").default(1), // strategy_versions.version that code and parameters were copied from
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Every saved revision of a strategy's code and parameters; rows are never edited, a rollback appends a copy
+export const strategyVersions = pgTable("strategy_versions", {
+  id: serial("id").primaryKey(),
+  strategyId: integer("strategy_id").references(() => strategies.id).notNull(),
+  version: integer("version").notNull(), // 1, 2, 3, ... per strategy
+  code: text("code").notNull(),
+  parameters: jsonb("parameters"),
+  changeNote: text("change_note"),
+  restoredFrom: integer("restored_from"), // version this one rolled back to, if any
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  strategyVersion: unique("strategy_versions_strategy_id_version_unique").on(table.strategyId, table.version),
+}));
+
 export const exclusiveStrategies = pgTable("exclusive_strategies", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
@@ -71,6 +87,13 @@ export const positions = pgTable("positions", {
   pnl: decimal("pnl", { precision: 12, scale: 4 }),
   dayChange: decimal("day_change", { precision: 8, scale: 4 }),
   isOpen: boolean("is_open").default(true),
+  mode: text("mode").notNull().default("live"), // live, paper
+  paperSessionId: integer("paper_session_id").references(() => paperTradingSessions.id), // set on paper positions
+  // Set on live positions synced from the broker by Portfolio Sync
+  instrumentKey: text("instrument_key"),
+  product: text("product"), // D, I, MTF
+  brokerBook: text("broker_book"), // positions or holdings: the Upstox book the row mirrors
+  syncedAt: timestamp("synced_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -87,16 +110,95 @@ export const trades = pgTable("trades", {
   orderType: text("order_type").notNull(),
   status: text("status").notNull(),
   pnl: decimal("pnl", { precision: 12, scale: 4 }),
+  mode: text("mode").notNull().default("live"), // live, paper; paper fills are simulated and never reach the broker
+  paperSessionId: integer("paper_session_id").references(() => paperTradingSessions.id), // set on paper trades
+  // Set on fills imported from the Upstox trade book
+  instrumentKey: text("instrument_key"),
+  brokerTradeId: text("broker_trade_id"),
+  brokerOrderId: text("broker_order_id"),
   executedAt: timestamp("executed_at").defaultNow(),
 });
 
-export const backtests = pgTable("backtests", {
+// Orders sent to the broker through the order manager, with their lifecycle
+export const orders = pgTable("orders", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
   strategyId: integer("strategy_id").references(() => strategies.id),
+  broker: text("broker").notNull().default("upstox"),
+  brokerOrderId: text("broker_order_id"), // set once the broker accepts the order
+  source: text("source").notNull().default("app"), // app, or broker for orders found only in the broker's order book
+  instrumentKey: text("instrument_key").notNull(),
+  symbol: text("symbol").notNull(),
+  exchange: text("exchange").notNull().default("NSE"),
+  side: text("side").notNull(), // BUY or SELL
+  orderType: text("order_type").notNull(), // MARKET, LIMIT, SL, SL-M
+  product: text("product").notNull().default("D"), // D (delivery), I (intraday)
+  validity: text("validity").notNull().default("DAY"), // DAY, IOC
+  quantity: integer("quantity").notNull(),
+  price: decimal("price", { precision: 12, scale: 4 }),
+  triggerPrice: decimal("trigger_price", { precision: 12, scale: 4 }),
+  disclosedQuantity: integer("disclosed_quantity").default(0),
+  isAmo: boolean("is_amo").default(false),
+  tag: text("tag"),
+  status: text("status").notNull().default("created"), // created, sent, open, partially_filled, filled, rejected, cancelled
+  brokerStatus: text("broker_status"), // raw status from the broker's order book
+  statusMessage: text("status_message"),
+  filledQuantity: integer("filled_quantity").default(0),
+  averagePrice: decimal("average_price", { precision: 12, scale: 4 }),
+  events: jsonb("events"), // OrderEvent[]: every status change, modification and cancel request
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Forward test of a strategy on one instrument; runs while the strategy is active
+export const paperTradingSessions = pgTable("paper_trading_sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id),
+  strategyId: integer("strategy_id").references(() => strategies.id).notNull(),
+  strategyVersionId: integer("strategy_version_id").references(() => strategyVersions.id), // pinned like a backtest
   name: text("name").notNull(),
   symbol: text("symbol").notNull(),
-  timeframe: text("timeframe").notNull(), // 1minute, 5minute, 1hour, 1day
+  instrumentKey: text("instrument_key"),
+  exchange: text("exchange").notNull().default("NSE"),
+  timeframe: text("timeframe").notNull(),
+  dataSource: text("data_source").default("upstox"),
+  feed: text("feed").notNull().default("live"), // live: polls for newly closed candles; replay: steps through replayStart..replayEnd
+  replayStart: timestamp("replay_start"),
+  replayEnd: timestamp("replay_end"),
+  replayIntervalMs: integer("replay_interval_ms").default(1000), // wall-clock time per replayed candle
+  costModel: jsonb("cost_model"),
+  parameters: jsonb("parameters"), // overrides merged over the strategy version's parameters
+  initialCapital: decimal("initial_capital", { precision: 15, scale: 2 }).notNull(),
+  cash: decimal("cash", { precision: 15, scale: 2 }), // capital after realized P&L and charges
+  state: jsonb("state"), // open trade and pending orders, so a restart resumes where it stopped
+  lastCandleAt: timestamp("last_candle_at"),
+  candlesProcessed: integer("candles_processed").default(0),
+  status: text("status").default("running"), // running, paused, stopped, completed, error
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  stoppedAt: timestamp("stopped_at"),
+});
+
+export const backtests = pgTable("backtests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id),
+  strategyId: integer("strategy_id").references(() => strategies.id),
+  strategyVersionId: integer("strategy_version_id").references(() => strategyVersions.id), // code and parameters the run is pinned to
+  name: text("name").notNull(),
+  symbol: text("symbol").notNull(), // traded symbol, or a label for portfolio backtests
+  symbols: jsonb("symbols"), // string[] basket for portfolio backtests; null for single-symbol runs
+  portfolio: jsonb("portfolio"), // PortfolioConfig: position limits and the index basket it came from
+  instrumentKey: text("instrument_key"), // set when picked from the instrument master
+  timeframe: text("timeframe").notNull(), // 1minute, 5minute, 75minute, 1hour, 1day, 1week, ...
+  sourceInterval: text("source_interval"), // interval actually fetched before resampling
+  dataSource: text("data_source").default("upstox"), // upstox, csv, synthetic, database
+  costModel: jsonb("cost_model"), // CostModel: charges preset, slippage and fill mode; null means zero-cost close fills
+  parameters: jsonb("parameters"), // overrides merged over strategies.parameters for this run
+  optimizationId: integer("optimization_id").references(() => optimizations.id), // set on runs spawned by an optimization
+  optimizationRole: text("optimization_role"), // sweep, in_sample, out_of_sample
+  rerunOfId: integer("rerun_of_id").references((): AnyPgColumn => backtests.id), // original of an identical rerun; results.rerun lists divergences
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
   initialCapital: decimal("initial_capital", { precision: 15, scale: 2 }).notNull(),
@@ -116,6 +218,47 @@ export const backtests = pgTable("backtests", {
   completedAt: timestamp("completed_at"),
 });
 
+// Persistent queue of backtest runs, claimed by workers with FOR UPDATE SKIP LOCKED
+export const backtestJobs = pgTable("backtest_jobs", {
+  id: serial("id").primaryKey(),
+  backtestId: integer("backtest_id").references(() => backtests.id).notNull().unique(),
+  userId: integer("user_id").references(() => users.id),
+  status: text("status").notNull().default("queued"), // queued, running, completed, failed, cancelled
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAfter: timestamp("run_after").defaultNow(), // not claimed before this; pushed back between retries
+  lockedBy: text("locked_by"), // worker that claimed the job
+  heartbeatAt: timestamp("heartbeat_at"), // refreshed while running; stale heartbeats are re-queued
+  cancelRequested: boolean("cancel_requested").notNull().default(false),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const optimizations = pgTable("optimizations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id),
+  strategyId: integer("strategy_id").references(() => strategies.id),
+  strategyVersionId: integer("strategy_version_id").references(() => strategyVersions.id), // every run of the sweep uses this version
+  name: text("name").notNull(),
+  mode: text("mode").notNull(), // grid, random, walk_forward
+  objective: text("objective").notNull().default("sharpeRatio"), // metric the runs are ranked by
+  parameterRanges: jsonb("parameter_ranges").notNull(), // Record<string, ParameterRange>
+  maxRuns: integer("max_runs"), // random mode, and the per-window cap for walk_forward
+  seed: integer("seed"), // sampling seed for random and capped walk_forward sweeps
+  walkForward: jsonb("walk_forward"), // WalkForwardConfig
+  backtestConfig: jsonb("backtest_config").notNull(), // symbol, timeframe, dates, capital and costs shared by every run
+  progress: integer("progress").default(0), // 0-100
+  progressMessage: text("progress_message"),
+  results: jsonb("results"),
+  status: text("status").default("pending"), // pending, running, completed, cancelled, error
+  cancelRequested: boolean("cancel_requested").notNull().default(false),
+  lockedBy: text("locked_by"), // process running the sweep
+  heartbeatAt: timestamp("heartbeat_at").defaultNow(), // refreshed while running; stale sweeps are resumed by another process
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
 export const backtestTrades = pgTable("backtest_trades", {
   id: serial("id").primaryKey(),
   backtestId: integer("backtest_id").references(() => backtests.id),
@@ -128,10 +271,48 @@ export const backtestTrades = pgTable("backtest_trades", {
   exitTime: timestamp("exit_time"),
   pnl: decimal("pnl", { precision: 12, scale: 4 }),
   pnlPercent: decimal("pnl_percent", { precision: 8, scale: 4 }),
+  grossPnl: decimal("gross_pnl", { precision: 12, scale: 4 }), // before charges; pnl is net
+  charges: decimal("charges", { precision: 12, scale: 4 }), // entry + exit charges
+  slippage: decimal("slippage", { precision: 12, scale: 4 }), // cost of slippage vs the reference price
+  chargesBreakdown: jsonb("charges_breakdown"), // brokerage, stt, exchangeCharges, sebiFees, stampDuty, gst
   status: text("status").notNull().default("open"), // open, closed
   reason: text("reason"), // signal reason or exit trigger
 });
 
+export const instruments = pgTable("instruments", {
+  instrumentKey: text("instrument_key").primaryKey(), // e.g. NSE_EQ|INE002A01018, NSE_FO|35271
+  exchangeToken: text("exchange_token"),
+  tradingSymbol: text("trading_symbol").notNull(),
+  name: text("name"),
+  shortName: text("short_name"),
+  isin: text("isin"),
+  exchange: text("exchange").notNull(), // NSE, BSE, MCX
+  segment: text("segment").notNull(), // NSE_EQ, NSE_FO, NSE_INDEX, BSE_EQ, ...
+  instrumentType: text("instrument_type"), // EQ, INDEX, FUT, CE, PE
+  lotSize: integer("lot_size").default(1),
+  tickSize: decimal("tick_size", { precision: 12, scale: 4 }),
+  freezeQuantity: integer("freeze_quantity"),
+  expiry: date("expiry"),
+  strikePrice: decimal("strike_price", { precision: 12, scale: 2 }),
+  underlyingKey: text("underlying_key"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const candles = pgTable("candles", {
+  instrumentKey: text("instrument_key").notNull(), // Upstox instrument key, e.g. NSE_EQ|INE002A01018
+  interval: text("interval").notNull(), // Upstox interval: 1minute, 30minute, day, week, month
+  timestamp: timestamp("timestamp").notNull(),
+  open: decimal("open", { precision: 12, scale: 4 }).notNull(),
+  high: decimal("high", { precision: 12, scale: 4 }).notNull(),
+  low: decimal("low", { precision: 12, scale: 4 }).notNull(),
+  close: decimal("close", { precision: 12, scale: 4 }).notNull(),
+  volume: bigint("volume", { mode: "number" }).default(0),
+  openInterest: bigint("open_interest", { mode: "number" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.instrumentKey, table.interval, table.timestamp] }),
+}));
+
 export const modules = pgTable("modules", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
@@ -165,6 +346,9 @@ export const accounts = pgTable("accounts", {
   upstoxUserId: text("upstox_user_id"),
   upstoxTokenExpiry: timestamp("upstox_token_expiry"),
   upstoxTokenType: text("upstox_token_type"),
+  // Last Portfolio Sync run and the mismatches it found between local and broker state
+  portfolioSyncedAt: timestamp("portfolio_synced_at"),
+  portfolioDiscrepancies: jsonb("portfolio_discrepancies"), // PortfolioDiscrepancy[]
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
@@ -366,12 +550,57 @@ export const upstoxAccountLinkSchema = z.object({
   expiryTime: z.string().optional(),
 });
 
+// Percentages are in percent, e.g. 0.025 means 0.025% of turnover
+export const costModelSchema = z.object({
+  preset: z.enum(["none", "equity_intraday", "equity_delivery", "futures", "options"]).default("equity_intraday"),
+  fillMode: z.enum(["close", "next_open"]).default("next_open"),
+  slippage: z.object({
+    type: z.enum(["bps", "ticks"]),
+    value: z.number().min(0),
+  }).default({ type: "bps", value: 0 }),
+  tickSize: z.number().positive().optional(),
+  brokerage: z.object({
+    flat: z.number().min(0).optional(),
+    percent: z.number().min(0).optional(),
+  }).optional(),
+  charges: z.object({
+    sttBuyPercent: z.number().min(0).optional(),
+    sttSellPercent: z.number().min(0).optional(),
+    exchangePercent: z.number().min(0).optional(),
+    sebiPerCrore: z.number().min(0).optional(),
+    stampDutyBuyPercent: z.number().min(0).optional(),
+    gstPercent: z.number().min(0).optional(),
+  }).optional(),
+});
+
+export const portfolioConfigSchema = z.object({
+  indexGroup: z.string().optional(), // eod_price_report.indx_grp the basket was built from
+  maxPositions: z.number().int().positive().optional(), // concurrent open positions
+  maxPositionPercent: z.number().positive().max(100).optional(), // per-symbol notional cap, % of equity
+});
+
 export const insertStrategySchema = createInsertSchema(strategies).omit({
   id: true,
+  currentVersion: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertStrategyVersionSchema = createInsertSchema(strategyVersions).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+});
+
+// Body of PUT /api/strategies/:id; a new version is recorded only when code or parameters change
+export const updateStrategySchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  code: z.string().min(1).optional(),
+  parameters: z.record(z.any()).nullable().optional(),
+  changeNote: z.string().max(500).optional(),
+});
+
 export const insertPositionSchema = createInsertSchema(positions).omit({
   id: true,
   createdAt: true,
@@ -383,6 +612,86 @@ export const insertTradeSchema = createInsertSchema(trades).omit({
   executedAt: true,
 });
 
+export const tradingModes = ["live", "paper"] as const;
+
+export const insertOrderSchema = createInsertSchema(orders).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const orderStatuses = ["created", "sent", "open", "partially_filled", "filled", "rejected", "cancelled"] as const;
+export const orderTypes = ["MARKET", "LIMIT", "SL", "SL-M"] as const;
+
+// Body of POST /api/orders
+export const placeOrderSchema = z.object({
+  instrumentKey: z.string().min(1),
+  symbol: z.string().min(1),
+  exchange: z.string().default("NSE"),
+  side: z.enum(["BUY", "SELL"]),
+  orderType: z.enum(orderTypes),
+  product: z.enum(["D", "I"]).default("D"),
+  validity: z.enum(["DAY", "IOC"]).default("DAY"),
+  quantity: z.number().int().positive(),
+  price: z.number().positive().optional(),
+  triggerPrice: z.number().positive().optional(),
+  disclosedQuantity: z.number().int().min(0).default(0),
+  isAmo: z.boolean().default(false),
+  tag: z.string().max(20).optional(),
+  strategyId: z.number().int().nullable().optional(),
+}).refine(order => order.orderType === "MARKET" || order.orderType === "SL-M" || order.price !== undefined, {
+  message: "Limit and stop-limit orders need a price",
+}).refine(order => (order.orderType !== "SL" && order.orderType !== "SL-M") || order.triggerPrice !== undefined, {
+  message: "Stop-loss orders need a trigger price",
+});
+
+// Pre-trade limits enforced by the Risk Manager module; null or missing means no limit
+export const riskLimitsSchema = z.object({
+  maxOrderValue: z.number().positive().nullable().optional(),
+  maxQuantityPerSymbol: z.number().int().positive().nullable().optional(),
+  maxOpenPositions: z.number().int().positive().nullable().optional(),
+  dailyLossLimit: z.number().positive().nullable().optional(),
+  // Largest allowed distance of an order's price from the last traded price, in percent
+  priceBandPercent: z.number().positive().max(100).nullable().optional(),
+  // Instrument keys or trading symbols; empty allows everything
+  allowedInstruments: z.array(z.string().min(1)).optional(),
+});
+
+// Body of PUT /api/orders/:id; unset fields keep their current value
+export const modifyOrderSchema = z.object({
+  quantity: z.number().int().positive().optional(),
+  orderType: z.enum(orderTypes).optional(),
+  validity: z.enum(["DAY", "IOC"]).optional(),
+  price: z.number().positive().optional(),
+  triggerPrice: z.number().positive().optional(),
+  disclosedQuantity: z.number().int().min(0).optional(),
+}).refine(changes => Object.values(changes).some(value => value !== undefined), {
+  message: "Nothing to modify",
+});
+
+export const insertPaperTradingSessionSchema = createInsertSchema(paperTradingSessions).omit({
+  id: true,
+  cash: true,
+  state: true,
+  lastCandleAt: true,
+  candlesProcessed: true,
+  status: true,
+  error: true,
+  createdAt: true,
+  updatedAt: true,
+  stoppedAt: true,
+}).extend({
+  timeframe: z.string().min(1),
+  feed: z.enum(["live", "replay"]).default("live"),
+  replayStart: z.coerce.date().nullable().optional(),
+  replayEnd: z.coerce.date().nullable().optional(),
+  replayIntervalMs: z.number().int().min(50).max(60_000).optional(),
+  costModel: costModelSchema.nullable().optional(),
+  parameters: z.record(z.any()).nullable().optional(),
+}).refine(session => session.feed !== "replay" || (session.replayStart && session.replayEnd && session.replayStart < session.replayEnd), {
+  message: "Replay sessions need a replayStart before replayEnd",
+});
+
 export const insertBacktestSchema = createInsertSchema(backtests).omit({
   id: true,
   createdAt: true,
@@ -398,16 +707,94 @@ export const insertBacktestSchema = createInsertSchema(backtests).omit({
   totalTrades: true,
   results: true,
   equityCurve: true,
+  sourceInterval: true,
 }).extend({
+  costModel: costModelSchema.nullable().optional(),
+  parameters: z.record(z.any()).nullable().optional(),
+  symbols: z.array(z.string().min(1)).max(200).nullable().optional(),
+  portfolio: portfolioConfigSchema.nullable().optional(),
   startDate: z.string().transform((str) => new Date(str)),
   endDate: z.string().transform((str) => new Date(str)),
   initialCapital: z.union([z.string(), z.number()]).transform((val) => val.toString()),
 });
 
+// Either an explicit list of values or an inclusive numeric range
+export const parameterRangeSchema = z.union([
+  z.object({ values: z.array(z.union([z.number(), z.string(), z.boolean()])).min(1).max(100) }),
+  z.object({ min: z.number(), max: z.number(), step: z.number().positive() }).refine(range => range.max >= range.min, {
+    message: "max must be greater than or equal to min",
+  }),
+]);
+
+export const optimizationObjectives = ["sharpeRatio", "sortinoRatio", "calmarRatio", "totalReturn", "cagr", "profitFactor", "expectancy"] as const;
+
+export const walkForwardConfigSchema = z.object({
+  windows: z.number().int().min(1).max(20).default(4),
+  inSamplePercent: z.number().min(50).max(90).default(70), // share of each window used to pick parameters
+});
+
+export const insertOptimizationSchema = createInsertSchema(optimizations).omit({
+  id: true,
+  createdAt: true,
+  completedAt: true,
+  progress: true,
+  progressMessage: true,
+  results: true,
+  cancelRequested: true,
+  lockedBy: true,
+  heartbeatAt: true,
+}).extend({
+  mode: z.enum(["grid", "random", "walk_forward"]),
+  objective: z.enum(optimizationObjectives).default("sharpeRatio"),
+  parameterRanges: z.record(parameterRangeSchema).refine(ranges => Object.keys(ranges).length > 0, {
+    message: "At least one parameter range is required",
+  }),
+  maxRuns: z.number().int().min(1).max(500).nullable().optional(),
+  seed: z.number().int().min(0).nullable().optional(),
+  walkForward: walkForwardConfigSchema.nullable().optional(),
+  backtestConfig: insertBacktestSchema.pick({
+    symbol: true,
+    instrumentKey: true,
+    symbols: true,
+    portfolio: true,
+    timeframe: true,
+    dataSource: true,
+    costModel: true,
+    startDate: true,
+    endDate: true,
+    initialCapital: true,
+  }),
+});
+
+export const insertBacktestJobSchema = createInsertSchema(backtestJobs).omit({
+  id: true,
+  createdAt: true,
+  completedAt: true,
+});
+
 export const insertBacktestTradeSchema = createInsertSchema(backtestTrades).omit({
   id: true,
 });
 
+export const insertInstrumentSchema = createInsertSchema(instruments).omit({
+  updatedAt: true,
+});
+
+export const insertCandleSchema = createInsertSchema(candles).omit({
+  createdAt: true,
+});
+
+// Query of GET /api/candles and body of POST /api/candles/sync
+export const candleRangeSchema = z.object({
+  symbol: z.string({ required_error: "symbol is required" }).trim().min(1, "symbol is required"),
+  timeframe: z.string().default("1day"),
+  startDate: z.coerce.date({ errorMap: () => ({ message: "startDate must be a valid date" }) }),
+  endDate: z.coerce.date({ errorMap: () => ({ message: "endDate must be a valid date" }) }),
+}).refine(range => range.startDate <= range.endDate, {
+  message: "startDate must not be after endDate",
+  path: ["endDate"],
+});
+
 export const insertModuleSchema = createInsertSchema(modules).omit({
   id: true,
   lastUpdate: true,
@@ -540,14 +927,59 @@ export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Strategy = typeof strategies.$inferSelect;
 export type InsertStrategy = z.infer<typeof insertStrategySchema>;
+export type StrategyVersion = typeof strategyVersions.$inferSelect;
+export type InsertStrategyVersion = z.infer<typeof insertStrategyVersionSchema>;
+export type UpdateStrategy = z.infer<typeof updateStrategySchema>;
 export type Position = typeof positions.$inferSelect;
 export type InsertPosition = z.infer<typeof insertPositionSchema>;
 export type Trade = typeof trades.$inferSelect;
 export type InsertTrade = z.infer<typeof insertTradeSchema>;
+export type TradingMode = typeof tradingModes[number];
+export type Order = typeof orders.$inferSelect;
+export interface PortfolioDiscrepancy {
+  // quantity_mismatch: a position the app tracked differs from the broker's
+  // missing_at_broker: an open local position the broker no longer reports
+  // untracked_position: a broker position with no local position or order behind it
+  // fill_mismatch: an order's filled quantity disagrees with the trade book
+  type: "quantity_mismatch" | "missing_at_broker" | "untracked_position" | "fill_mismatch";
+  symbol: string;
+  message: string;
+  local?: number;
+  broker?: number;
+}
+export type RiskLimits = z.infer<typeof riskLimitsSchema>;
+// modules.config of the Risk Manager: limits for everyone, overridden per user id
+export interface RiskManagerConfig {
+  defaults?: RiskLimits;
+  users?: Record<string, RiskLimits>;
+}
+export type InsertOrder = z.infer<typeof insertOrderSchema>;
+export type OrderStatus = typeof orderStatuses[number];
+export type PlaceOrder = z.infer<typeof placeOrderSchema>;
+export type ModifyOrder = z.infer<typeof modifyOrderSchema>;
+export interface OrderEvent {
+  at: string;
+  status: OrderStatus;
+  message: string;
+}
+export type PaperTradingSession = typeof paperTradingSessions.$inferSelect;
+export type InsertPaperTradingSession = z.infer<typeof insertPaperTradingSessionSchema>;
 export type Backtest = typeof backtests.$inferSelect;
 export type InsertBacktest = z.infer<typeof insertBacktestSchema>;
+export type BacktestJob = typeof backtestJobs.$inferSelect;
+export type InsertBacktestJob = z.infer<typeof insertBacktestJobSchema>;
+export type Optimization = typeof optimizations.$inferSelect;
+export type InsertOptimization = z.infer<typeof insertOptimizationSchema>;
+export type ParameterRange = z.infer<typeof parameterRangeSchema>;
+export type WalkForwardConfig = z.infer<typeof walkForwardConfigSchema>;
 export type BacktestTrade = typeof backtestTrades.$inferSelect;
 export type InsertBacktestTrade = z.infer<typeof insertBacktestTradeSchema>;
+export type CostModel = z.infer<typeof costModelSchema>;
+export type PortfolioConfig = z.infer<typeof portfolioConfigSchema>;
+export type Instrument = typeof instruments.$inferSelect;
+export type InsertInstrument = z.infer<typeof insertInstrumentSchema>;
+export type StoredCandle = typeof candles.$inferSelect;
+export type InsertStoredCandle = z.infer<typeof insertCandleSchema>;
 export type Module = typeof modules.$inferSelect;
 export type InsertModule = z.infer<typeof insertModuleSchema>;
 export type Log = typeof logs.$inferSelect;